@@ -7,13 +7,16 @@ import Login from "@/pages/login";
 import Register from "@/pages/register";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
+import AcceptInvite from "@/pages/accept-invite";
 import Dashboard from "@/pages/dashboard";
 import Transcripts from "@/pages/transcripts";
 import ArrangementPage from "@/pages/arrangement";
 import AdminPage from "@/pages/admin";
 import ProfilePage from "@/pages/profile";
+import OrganizationPage from "@/pages/organization";
 import Analytics from "@/pages/analytics";
 import AdminAnalytics from "@/pages/admin-analytics";
+import AdminAudit from "@/pages/admin-audit";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import AdminRoute from "@/components/AdminRoute";
 import Layout from "@/components/Layout";
@@ -28,6 +31,7 @@ function Router() {
       <Route path="/register" component={Register} />
       <Route path="/forgot-password" component={ForgotPassword} />
       <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/accept-invite" component={AcceptInvite} />
       <Route path="/" nest>
         <ProtectedRoute>
           <Switch>
@@ -55,7 +59,14 @@ function Router() {
             </Route>
             <Route path="/analytics">
               <Layout>
-                <Analytics />
+                <ProtectedRoute permission="manage_billing">
+                  <Analytics />
+                </ProtectedRoute>
+              </Layout>
+            </Route>
+            <Route path="/organization">
+              <Layout>
+                <OrganizationPage />
               </Layout>
             </Route>
             <Route path="/admin/analytics">
@@ -65,6 +76,13 @@ function Router() {
                 </Layout>
               </AdminRoute>
             </Route>
+            <Route path="/admin/audit">
+              <AdminRoute>
+                <Layout>
+                  <AdminAudit />
+                </Layout>
+              </AdminRoute>
+            </Route>
             <Route path="/arrangement/:id" component={ArrangementPage} />
             <Route>
               <Layout>
@@ -0,0 +1,116 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { AuthService } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LogOut, Monitor, Smartphone, Tablet } from "lucide-react";
+import type { SessionSummary } from "@shared/schema";
+
+function DeviceIcon({ deviceName }: { deviceName: string }) {
+  if (/iPad|tablet/i.test(deviceName)) return <Tablet className="w-5 h-5 text-slate-500" />;
+  if (/iPhone|phone/i.test(deviceName)) return <Smartphone className="w-5 h-5 text-slate-500" />;
+  return <Monitor className="w-5 h-5 text-slate-500" />;
+}
+
+export default function ActiveSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const signOutDeviceMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      const response = await apiRequest("DELETE", `/api/auth/sessions/${sessionId}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Device signed out",
+        description: "That device will need to sign in again",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out device",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: () => AuthService.signOutEverywhere(),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out everywhere",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="w-5 h-5" />
+            Signed-in Devices
+          </CardTitle>
+          <CardDescription>Sign out any device you no longer use or have lost.</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => signOutEverywhereMutation.mutate()}
+          disabled={signOutEverywhereMutation.isPending}
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign Out Everywhere
+        </Button>
+      </CardHeader>
+      <CardContent className="divide-y">
+        {isLoading ? (
+          <div className="text-center py-4 text-slate-500">Loading devices...</div>
+        ) : (
+          sessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between py-3">
+              <div className="flex items-center gap-3">
+                <DeviceIcon deviceName={session.deviceName} />
+                <div>
+                  <p className="font-medium text-slate-900 flex items-center gap-2">
+                    {session.deviceName}
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </p>
+                  <p className="text-sm text-slate-500">
+                    Last active {new Date(session.lastUsedAt).toLocaleString()}
+                    {session.ipAddress && ` · ${session.ipAddress}`}
+                    {` · Signed in ${new Date(session.createdAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              </div>
+              {session.current ? (
+                <Button variant="ghost" size="sm" onClick={() => AuthService.logout()}>
+                  Sign Out
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => signOutDeviceMutation.mutate(session.id)}
+                  disabled={signOutDeviceMutation.isPending}
+                >
+                  Sign Out This Device
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,9 +8,38 @@ import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, User, Calendar, MapPin, Heart, Settings, Save, Download } from "lucide-react";
+import { authorizedFetch } from "@/lib/queryClient";
+import { FileText, User, Calendar, MapPin, Heart, Settings, Save, Download, Quote, AlertTriangle, Check, CheckCircle, GitMerge, ChevronDown, History } from "lucide-react";
 import jsPDF from "jspdf";
+import TranscriptSourceDialog, { type SourceTranscript } from "@/components/TranscriptSourceDialog";
+import FieldHistoryDialog from "@/components/FieldHistoryDialog";
+import type { FieldHistoryEntry } from "@shared/schema";
+import {
+  formatFieldPath,
+  formatFieldValue,
+  getEntriesUnderPath,
+  getFieldSources,
+  getPendingReviewPaths,
+  type FieldReviews,
+  type FieldSources,
+  type MergeDecision,
+  type MergeRule,
+  type ReviewFlag,
+} from "@shared/extraction";
+
+const REVIEW_FLAG_LABELS: Record<ReviewFlag, string> = {
+  low: 'Low confidence',
+  inferred: 'Inferred',
+  conflicting: 'Conflicting',
+};
+
+const MERGE_RULE_LABELS: Record<MergeRule, string> = {
+  later_overrides: 'Later statement kept',
+  union: 'Lists combined',
+  appended: 'Notes combined',
+};
 
 interface ArrangementData {
   arrangement: {
@@ -154,13 +183,97 @@ interface ArrangementViewProps {
   onDownloadPDF?: () => void;
   onApprove?: () => void;
   isApproved?: boolean;
+  fieldSources?: FieldSources;
+  transcripts?: SourceTranscript[];
+  fieldReviews?: FieldReviews;
+  onConfirmFields?: (paths: string[]) => void;
+  mergeDecisions?: MergeDecision[];
+  fieldHistory?: FieldHistoryEntry[];
+  onRevertChange?: (changeId: number) => void;
+  isReverting?: boolean;
 }
 
-export default function ArrangementView({ arrangementData, onSave, onDownloadPDF, onApprove, isApproved }: ArrangementViewProps) {
+export default function ArrangementView({ arrangementData, onSave, onDownloadPDF, onApprove, isApproved, fieldSources, transcripts, fieldReviews, onConfirmFields, mergeDecisions, fieldHistory, onRevertChange, isReverting }: ArrangementViewProps) {
   const [data, setData] = useState(arrangementData);
   const [hasChanges, setHasChanges] = useState(false);
+  const [sourceField, setSourceField] = useState<{ path: string; label: string } | null>(null);
+  const [historyField, setHistoryField] = useState<{ path: string; label: string } | null>(null);
   const { toast } = useToast();
 
+  const pendingReviewPaths = getPendingReviewPaths(fieldReviews);
+
+  // Changes to a field, to anything beneath it, or to the list it belongs to
+  const getFieldHistory = (path: string) => (fieldHistory || []).filter(entry =>
+    entry.path === path || entry.path.startsWith(`${path}.`) || path.startsWith(`${entry.path}.`)
+  );
+
+  // Review flag and a link to the transcript passage the value was extracted from, shown beside a field's label
+  const renderFieldMeta = (path: string, label: string) => {
+    const reviews = getEntriesUnderPath(fieldReviews, path);
+    const pending = reviews.filter(([, review]) => !review.confirmedAt);
+    const hasSources = !!transcripts?.length && getFieldSources(fieldSources, path).length > 0;
+    const hasHistory = getFieldHistory(path).length > 0;
+
+    if (reviews.length === 0 && !hasSources && !hasHistory) {
+      return null;
+    }
+
+    return (
+      <span className="ml-2 inline-flex items-center gap-2">
+        {pending.length > 0 ? (
+          <>
+            <Badge
+              variant="outline"
+              className="gap-1 border-yellow-300 bg-yellow-50 px-1.5 py-0 text-xs font-normal text-yellow-800"
+              title={pending.map(([, review]) => review.reason).filter(Boolean).join('\n') || undefined}
+            >
+              <AlertTriangle className="h-3 w-3" />
+              {REVIEW_FLAG_LABELS[pending[0][1].confidence]}
+            </Badge>
+            {onConfirmFields && !isApproved && (
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 text-xs text-green-700 hover:text-green-900 hover:underline"
+                title="Mark this value as checked"
+                onClick={() => onConfirmFields(pending.map(([pendingPath]) => pendingPath))}
+              >
+                <Check className="h-3 w-3" />
+                confirm
+              </button>
+            )}
+          </>
+        ) : reviews.length > 0 && (
+          <span className="inline-flex items-center gap-1 text-xs text-green-700">
+            <CheckCircle className="h-3 w-3" />
+            confirmed
+          </span>
+        )}
+        {hasSources && (
+          <button
+            type="button"
+            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 hover:underline"
+            title="Show where this was said in the transcript"
+            onClick={() => setSourceField({ path, label })}
+          >
+            <Quote className="h-3 w-3" />
+            source
+          </button>
+        )}
+        {hasHistory && (
+          <button
+            type="button"
+            className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800 hover:underline"
+            title="Show every change to this field"
+            onClick={() => setHistoryField({ path, label })}
+          >
+            <History className="h-3 w-3" />
+            history
+          </button>
+        )}
+      </span>
+    );
+  };
+
   console.log('ArrangementView props:', { hasChanges, isApproved, onApprove: !!onApprove });
   
   // Cleanup is no longer needed - service worker issue is resolved
@@ -221,11 +334,7 @@ export default function ArrangementView({ arrangementData, onSave, onDownloadPDF
 
     try {
       // Get user info for the webhook payload
-      const userResponse = await fetch('/api/auth/me', {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const userResponse = await authorizedFetch('/api/auth/me');
 
       if (!userResponse.ok) {
         throw new Error('Failed to get user information');
@@ -476,7 +585,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             <Download className="h-4 w-4" />
             {isGeneratingPDF ? 'Processing...' : 'Download PDF'}
           </Button>
-          {hasChanges && (
+          {hasChanges && onSave && (
             <Button onClick={handleSave} className="gap-2">
               <Save className="h-4 w-4" />
               Save Changes
@@ -485,6 +594,16 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
         </div>
       </div>
 
+      {pendingReviewPaths.length > 0 && !isApproved && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+          <div className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="h-4 w-4" />
+            {pendingReviewPaths.length} field{pendingReviewPaths.length === 1 ? '' : 's'} need{pendingReviewPaths.length === 1 ? 's' : ''} review before approval
+          </div>
+          <p className="mt-1">{pendingReviewPaths.map(formatFieldPath).join('; ')}</p>
+        </div>
+      )}
+
       <Tabs defaultValue="basic" className="w-full">
         <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="basic" className="gap-2">
@@ -524,7 +643,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
-                <Label htmlFor="funeral_director_name">Funeral Director Name</Label>
+                <Label htmlFor="funeral_director_name">Funeral Director Name</Label>{renderFieldMeta('arrangement.basic_information.funeral_director_name', "Funeral Director Name")}
                 <Input
                   id="funeral_director_name"
                   value={basic.funeral_director_name}
@@ -534,7 +653,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-4 gap-4">
                 <div>
-                  <Label htmlFor="first_name">First Name</Label>
+                  <Label htmlFor="first_name">First Name</Label>{renderFieldMeta('arrangement.basic_information.deceased_name.first', "First Name")}
                   <Input
                     id="first_name"
                     value={basic.deceased_name.first}
@@ -542,7 +661,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="middle_name">Middle Name</Label>
+                  <Label htmlFor="middle_name">Middle Name</Label>{renderFieldMeta('arrangement.basic_information.deceased_name.middle', "Middle Name")}
                   <Input
                     id="middle_name"
                     value={basic.deceased_name.middle}
@@ -550,7 +669,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="last_name">Last Name</Label>
+                  <Label htmlFor="last_name">Last Name</Label>{renderFieldMeta('arrangement.basic_information.deceased_name.last', "Last Name")}
                   <Input
                     id="last_name"
                     value={basic.deceased_name.last}
@@ -558,7 +677,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="suffix">Suffix</Label>
+                  <Label htmlFor="suffix">Suffix</Label>{renderFieldMeta('arrangement.basic_information.deceased_name.suffix', "Suffix")}
                   <Input
                     id="suffix"
                     value={basic.deceased_name.suffix}
@@ -569,7 +688,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="preferred_name">Preferred Name</Label>
+                  <Label htmlFor="preferred_name">Preferred Name</Label>{renderFieldMeta('arrangement.basic_information.preferred_name', "Preferred Name")}
                   <Input
                     id="preferred_name"
                     value={basic.preferred_name}
@@ -577,7 +696,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="gender">Gender</Label>
+                  <Label htmlFor="gender">Gender</Label>{renderFieldMeta('arrangement.basic_information.gender', "Gender")}
                   <Input
                     id="gender"
                     value={basic.gender}
@@ -585,7 +704,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="age">Age</Label>
+                  <Label htmlFor="age">Age</Label>{renderFieldMeta('arrangement.basic_information.age', "Age")}
                   <Input
                     id="age"
                     type="number"
@@ -597,7 +716,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="date_of_birth">Date of Birth</Label>
+                  <Label htmlFor="date_of_birth">Date of Birth</Label>{renderFieldMeta('arrangement.basic_information.date_of_birth', "Date of Birth")}
                   <Input
                     id="date_of_birth"
                     value={basic.date_of_birth}
@@ -605,7 +724,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="date_of_death">Date of Death</Label>
+                  <Label htmlFor="date_of_death">Date of Death</Label>{renderFieldMeta('arrangement.basic_information.date_of_death', "Date of Death")}
                   <Input
                     id="date_of_death"
                     value={basic.date_of_death}
@@ -616,7 +735,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="birthplace">Birthplace</Label>
+                  <Label htmlFor="birthplace">Birthplace</Label>{renderFieldMeta('arrangement.basic_information.birthplace', "Birthplace")}
                   <Input
                     id="birthplace"
                     value={basic.birthplace}
@@ -624,7 +743,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="city_of_death">City of Death</Label>
+                  <Label htmlFor="city_of_death">City of Death</Label>{renderFieldMeta('arrangement.basic_information.city_of_death', "City of Death")}
                   <Input
                     id="city_of_death"
                     value={basic.city_of_death}
@@ -632,7 +751,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="county_of_death">County of Death</Label>
+                  <Label htmlFor="county_of_death">County of Death</Label>{renderFieldMeta('arrangement.basic_information.county_of_death', "County of Death")}
                   <Input
                     id="county_of_death"
                     value={basic.county_of_death}
@@ -644,7 +763,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               <h4 className="font-medium text-sm text-gray-700 mt-6">Residence Information</h4>
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="street">Street Address</Label>
+                  <Label htmlFor="street">Street Address</Label>{renderFieldMeta('arrangement.basic_information.usual_residence.street', "Street Address")}
                   <Input
                     id="street"
                     value={basic.usual_residence.street}
@@ -652,7 +771,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="city">City</Label>
+                  <Label htmlFor="city">City</Label>{renderFieldMeta('arrangement.basic_information.usual_residence.city', "City")}
                   <Input
                     id="city"
                     value={basic.usual_residence.city}
@@ -662,7 +781,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               </div>
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="county">County</Label>
+                  <Label htmlFor="county">County</Label>{renderFieldMeta('arrangement.basic_information.usual_residence.county', "County")}
                   <Input
                     id="county"
                     value={basic.usual_residence.county}
@@ -670,7 +789,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="state">State</Label>
+                  <Label htmlFor="state">State</Label>{renderFieldMeta('arrangement.basic_information.usual_residence.state', "State")}
                   <Input
                     id="state"
                     value={basic.usual_residence.state}
@@ -678,7 +797,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="zip">ZIP Code</Label>
+                  <Label htmlFor="zip">ZIP Code</Label>{renderFieldMeta('arrangement.basic_information.usual_residence.zip', "ZIP Code")}
                   <Input
                     id="zip"
                     value={basic.usual_residence.zip}
@@ -689,7 +808,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="occupation">Occupation</Label>
+                  <Label htmlFor="occupation">Occupation</Label>{renderFieldMeta('arrangement.basic_information.occupation', "Occupation")}
                   <Input
                     id="occupation"
                     value={basic.occupation}
@@ -697,7 +816,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="industry">Industry</Label>
+                  <Label htmlFor="industry">Industry</Label>{renderFieldMeta('arrangement.basic_information.industry', "Industry")}
                   <Input
                     id="industry"
                     value={basic.industry}
@@ -705,7 +824,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="education_level">Education Level</Label>
+                  <Label htmlFor="education_level">Education Level</Label>{renderFieldMeta('arrangement.basic_information.education_level', "Education Level")}
                   <Input
                     id="education_level"
                     value={basic.education_level}
@@ -717,7 +836,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               <h4 className="font-medium text-sm text-gray-700 mt-6">Military Service</h4>
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="military_served">Served in Military</Label>
+                  <Label htmlFor="military_served">Served in Military</Label>{renderFieldMeta('arrangement.basic_information.military_service.served', "Served in Military")}
                   <select
                     id="military_served"
                     value={basic.military_service.served ? 'true' : 'false'}
@@ -729,7 +848,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   </select>
                 </div>
                 <div>
-                  <Label htmlFor="military_branch">Branch</Label>
+                  <Label htmlFor="military_branch">Branch</Label>{renderFieldMeta('arrangement.basic_information.military_service.branch', "Branch")}
                   <Input
                     id="military_branch"
                     value={basic.military_service.branch}
@@ -737,7 +856,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="service_dates">Service Dates</Label>
+                  <Label htmlFor="service_dates">Service Dates</Label>{renderFieldMeta('arrangement.basic_information.military_service.service_dates', "Service Dates")}
                   <Input
                     id="service_dates"
                     value={basic.military_service.service_dates}
@@ -746,7 +865,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                 </div>
               </div>
               <div>
-                <Label htmlFor="dd_214">DD-214</Label>
+                <Label htmlFor="dd_214">DD-214</Label>{renderFieldMeta('arrangement.basic_information.dd_214', "DD-214")}
                 <Input
                   id="dd_214"
                   value={basic.dd_214}
@@ -756,7 +875,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="physician_info">Physician Information</Label>
+                  <Label htmlFor="physician_info">Physician Information</Label>{renderFieldMeta('arrangement.basic_information.physician_info', "Physician Information")}
                   <Input
                     id="physician_info"
                     value={basic.physician_info}
@@ -764,7 +883,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="preceded_in_death">Preceded in Death By</Label>
+                  <Label htmlFor="preceded_in_death">Preceded in Death By</Label>{renderFieldMeta('arrangement.basic_information.preceded_in_death_by', "Preceded in Death By")}
                   <Input
                     id="preceded_in_death"
                     value={basic.preceded_in_death_by}
@@ -774,7 +893,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               </div>
 
               <div>
-                <Label htmlFor="biographical_info">Biographical Information</Label>
+                <Label htmlFor="biographical_info">Biographical Information</Label>{renderFieldMeta('arrangement.basic_information.biographical_info', "Biographical Information")}
                 <Textarea
                   id="biographical_info"
                   value={basic.biographical_info}
@@ -794,7 +913,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="marital_status">Marital Status</Label>
+                  <Label htmlFor="marital_status">Marital Status</Label>{renderFieldMeta('arrangement.basic_information.marital_status', "Marital Status")}
                   <Input
                     id="marital_status"
                     value={basic.marital_status}
@@ -802,7 +921,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="maiden_name">Maiden Name</Label>
+                  <Label htmlFor="maiden_name">Maiden Name</Label>{renderFieldMeta('arrangement.basic_information.maiden_name', "Maiden Name")}
                   <Input
                     id="maiden_name"
                     value={basic.maiden_name}
@@ -817,14 +936,14 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                 <h4 className="font-medium mb-2">Spouse Information</h4>
                 <div className="grid grid-cols-4 gap-4">
                   <div>
-                    <Label htmlFor="spouse_first">First Name</Label>
+                    <Label htmlFor="spouse_first">First Name</Label>{renderFieldMeta('arrangement.basic_information.spouse_name.first', "First Name")}
                     <Input id="spouse_first"
                       value={basic.spouse_name.first}
                       onChange={(e) => updateData('arrangement.basic_information.spouse_name.first', e.target.value)}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="spouse_middle">Middle Name</Label>
+                    <Label htmlFor="spouse_middle">Middle Name</Label>{renderFieldMeta('arrangement.basic_information.spouse_name.middle', "Middle Name")}
                     <Input
                       id="spouse_middle"
                       value={basic.spouse_name.middle}
@@ -832,7 +951,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="spouse_last">Last Name</Label>
+                    <Label htmlFor="spouse_last">Last Name</Label>{renderFieldMeta('arrangement.basic_information.spouse_name.last', "Last Name")}
                     <Input
                       id="spouse_last"
                       value={basic.spouse_name.last}
@@ -840,7 +959,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="spouse_maiden">Maiden Name</Label>
+                    <Label htmlFor="spouse_maiden">Maiden Name</Label>{renderFieldMeta('arrangement.basic_information.spouse_name.maiden', "Maiden Name")}
                     <Input
                       id="spouse_maiden"
                       value={basic.spouse_name.maiden}
@@ -856,7 +975,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                 <h4 className="font-medium mb-2">Father's Information</h4>
                 <div className="grid grid-cols-3 gap-4">
                   <div>
-                    <Label htmlFor="father_first">First Name</Label>
+                    <Label htmlFor="father_first">First Name</Label>{renderFieldMeta('arrangement.basic_information.father_name.first', "First Name")}
                     <Input
                       id="father_first"
                       value={basic.father_name.first}
@@ -864,7 +983,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="father_middle">Middle Name</Label>
+                    <Label htmlFor="father_middle">Middle Name</Label>{renderFieldMeta('arrangement.basic_information.father_name.middle', "Middle Name")}
                     <Input
                       id="father_middle"
                       value={basic.father_name.middle}
@@ -872,7 +991,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="father_last">Last Name</Label>
+                    <Label htmlFor="father_last">Last Name</Label>{renderFieldMeta('arrangement.basic_information.father_name.last', "Last Name")}
                     <Input
                       id="father_last"
                       value={basic.father_name.last}
@@ -886,7 +1005,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                 <h4 className="font-medium mb-2">Mother's Information</h4>
                 <div className="grid grid-cols-3 gap-4">
                   <div>
-                    <Label htmlFor="mother_first">First Name</Label>
+                    <Label htmlFor="mother_first">First Name</Label>{renderFieldMeta('arrangement.basic_information.mother_name.first', "First Name")}
                     <Input
                       id="mother_first"
                       value={basic.mother_name.first}
@@ -894,7 +1013,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="mother_middle">Middle Name</Label>
+                    <Label htmlFor="mother_middle">Middle Name</Label>{renderFieldMeta('arrangement.basic_information.mother_name.middle', "Middle Name")}
                     <Input
                       id="mother_middle"
                       value={basic.mother_name.middle}
@@ -902,7 +1021,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="mother_maiden">Maiden Name</Label>
+                    <Label htmlFor="mother_maiden">Maiden Name</Label>{renderFieldMeta('arrangement.basic_information.mother_name.maiden', "Maiden Name")}
                     <Input
                       id="mother_maiden"
                       value={basic.mother_name.maiden}
@@ -916,7 +1035,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="children">Children</Label>
+                  <Label htmlFor="children">Children</Label>{renderFieldMeta('arrangement.basic_information.children', "Children")}
                   <Textarea
                     id="children"
                     value={basic.children?.map(child => {
@@ -955,7 +1074,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="siblings">Siblings</Label>
+                  <Label htmlFor="siblings">Siblings</Label>{renderFieldMeta('arrangement.basic_information.siblings', "Siblings")}
                   <Textarea
                     id="siblings"
                     value={basic.siblings?.map(sibling => {
@@ -991,7 +1110,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="grandchildren">Grandchildren</Label>
+                  <Label htmlFor="grandchildren">Grandchildren</Label>{renderFieldMeta('arrangement.basic_information.grandchildren', "Grandchildren")}
                   <Textarea
                     id="grandchildren"
                     value={basic.grandchildren}
@@ -1000,7 +1119,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="great_grandchildren">Great Grandchildren</Label>
+                  <Label htmlFor="great_grandchildren">Great Grandchildren</Label>{renderFieldMeta('arrangement.basic_information.great_grandchildren', "Great Grandchildren")}
                   <Textarea
                     id="great_grandchildren"
                     value={basic.great_grandchildren}
@@ -1021,7 +1140,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="informant_name">Informant Name</Label>
+                  <Label htmlFor="informant_name">Informant Name</Label>{renderFieldMeta('arrangement.informant.name', "Informant Name")}
                   <Input
                     id="informant_name"
                     value={informant.name}
@@ -1029,7 +1148,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="relationship">Relationship to Deceased</Label>
+                  <Label htmlFor="relationship">Relationship to Deceased</Label>{renderFieldMeta('arrangement.informant.relationship_to_deceased', "Relationship to Deceased")}
                   <Input
                     id="relationship"
                     value={informant.relationship_to_deceased}
@@ -1040,7 +1159,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="informant_phone">Phone Number</Label>
+                  <Label htmlFor="informant_phone">Phone Number</Label>{renderFieldMeta('arrangement.informant.phone_number', "Phone Number")}
                   <Input
                     id="informant_phone"
                     value={informant.phone_number}
@@ -1048,7 +1167,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="informant_email">Email</Label>
+                  <Label htmlFor="informant_email">Email</Label>{renderFieldMeta('arrangement.informant.email', "Email")}
                   <Input
                     id="informant_email"
                     type="email"
@@ -1064,7 +1183,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                 <h4 className="font-medium mb-2">Financially Responsible Party</h4>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label htmlFor="financial_name">Name</Label>
+                    <Label htmlFor="financial_name">Name</Label>{renderFieldMeta('arrangement.informant.financially_responsible_party.name', "Name")}
                     <Input
                       id="financial_name"
                       value={informant.financially_responsible_party.name}
@@ -1072,7 +1191,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="financial_phone">Phone Number</Label>
+                    <Label htmlFor="financial_phone">Phone Number</Label>{renderFieldMeta('arrangement.informant.financially_responsible_party.phone_number', "Phone Number")}
                     <Input
                       id="financial_phone"
                       value={informant.financially_responsible_party.phone_number}
@@ -1082,7 +1201,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                 </div>
                 <div className="grid grid-cols-2 gap-4 mt-4">
                   <div>
-                    <Label htmlFor="financial_address">Address</Label>
+                    <Label htmlFor="financial_address">Address</Label>{renderFieldMeta('arrangement.informant.financially_responsible_party.address', "Address")}
                     <Input
                       id="financial_address"
                       value={informant.financially_responsible_party.address}
@@ -1090,7 +1209,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                     />
                   </div>
                   <div>
-                    <Label htmlFor="financial_email">Email</Label>
+                    <Label htmlFor="financial_email">Email</Label>{renderFieldMeta('arrangement.informant.financially_responsible_party.email', "Email")}
                     <Input
                       id="financial_email"
                       type="email"
@@ -1102,7 +1221,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               </div>
 
               <div>
-                <Label htmlFor="payment_method">Method of Payment</Label>
+                <Label htmlFor="payment_method">Method of Payment</Label>{renderFieldMeta('arrangement.informant.method_of_payment', "Method of Payment")}
                 <Input
                   id="payment_method"
                   value={informant.method_of_payment}
@@ -1121,7 +1240,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="disposition">Disposition</Label>
+                  <Label htmlFor="disposition">Disposition</Label>{renderFieldMeta('arrangement.arrangements.disposition', "Disposition")}
                   <Input
                     id="disposition"
                     value={arrangements.disposition}
@@ -1129,7 +1248,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="place_of_disposition">Place of Disposition</Label>
+                  <Label htmlFor="place_of_disposition">Place of Disposition</Label>{renderFieldMeta('arrangement.arrangements.place_of_disposition', "Place of Disposition")}
                   <Input
                     id="place_of_disposition"
                     value={arrangements.place_of_disposition}
@@ -1140,7 +1259,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="service_place">Funeral Service Place</Label>
+                  <Label htmlFor="service_place">Funeral Service Place</Label>{renderFieldMeta('arrangement.arrangements.funeral_service_place', "Funeral Service Place")}
                   <Input
                     id="service_place"
                     value={arrangements.funeral_service_place}
@@ -1148,7 +1267,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="visitation_place">Visitation Place</Label>
+                  <Label htmlFor="visitation_place">Visitation Place</Label>{renderFieldMeta('arrangement.arrangements.visitation_place', "Visitation Place")}
                   <Input
                     id="visitation_place"
                     value={arrangements.visitation_place}
@@ -1159,7 +1278,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="service_date">Service Date</Label>
+                  <Label htmlFor="service_date">Service Date</Label>{renderFieldMeta('arrangement.arrangements.service_date', "Service Date")}
                   <Input
                     id="service_date"
                     value={arrangements.service_date}
@@ -1167,7 +1286,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="service_time">Service Time</Label>
+                  <Label htmlFor="service_time">Service Time</Label>{renderFieldMeta('arrangement.arrangements.service_time', "Service Time")}
                   <Input
                     id="service_time"
                     value={arrangements.service_time}
@@ -1178,7 +1297,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="visitation_date_time">Visitation Date/Time</Label>
+                  <Label htmlFor="visitation_date_time">Visitation Date/Time</Label>{renderFieldMeta('arrangement.arrangements.visitation_date_time', "Visitation Date/Time")}
                   <Input
                     id="visitation_date_time"
                     value={arrangements.visitation_date_time}
@@ -1186,7 +1305,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="first_viewing_time">First Viewing Time</Label>
+                  <Label htmlFor="first_viewing_time">First Viewing Time</Label>{renderFieldMeta('arrangement.arrangements.first_viewing_time', "First Viewing Time")}
                   <Input
                     id="first_viewing_time"
                     value={arrangements.first_viewing_time}
@@ -1197,7 +1316,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="other_times_at">Other Times At</Label>
+                  <Label htmlFor="other_times_at">Other Times At</Label>{renderFieldMeta('arrangement.arrangements.other_times_at', "Other Times At")}
                   <Input
                     id="other_times_at"
                     value={arrangements.other_times_at}
@@ -1205,7 +1324,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="phone_number">Phone Number</Label>
+                  <Label htmlFor="phone_number">Phone Number</Label>{renderFieldMeta('arrangement.arrangements.phone_number', "Phone Number")}
                   <Input
                     id="phone_number"
                     value={arrangements.phone_number}
@@ -1213,7 +1332,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="clergy">Clergy</Label>
+                  <Label htmlFor="clergy">Clergy</Label>{renderFieldMeta('arrangement.arrangements.clergy', "Clergy")}
                   <Input
                     id="clergy"
                     value={arrangements.clergy}
@@ -1223,7 +1342,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               </div>
 
               <div>
-                <Label htmlFor="music">Music</Label>
+                <Label htmlFor="music">Music</Label>{renderFieldMeta('arrangement.arrangements.music', "Music")}
                 <Input
                   id="music"
                   value={arrangements.music}
@@ -1233,7 +1352,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="pallbearers">Pallbearers (comma separated)</Label>
+                  <Label htmlFor="pallbearers">Pallbearers (comma separated)</Label>{renderFieldMeta('arrangement.arrangements.pallbearers', "Pallbearers")}
                   <Textarea
                     id="pallbearers"
                     value={arrangements.pallbearers?.join(', ') || ''}
@@ -1242,7 +1361,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="honorary_pallbearers">Honorary Pallbearers (comma separated)</Label>
+                  <Label htmlFor="honorary_pallbearers">Honorary Pallbearers (comma separated)</Label>{renderFieldMeta('arrangement.arrangements.honorary_pallbearers', "Honorary Pallbearers")}
                   <Textarea
                     id="honorary_pallbearers"
                     value={arrangements.honorary_pallbearers?.join(', ') || ''}
@@ -1253,7 +1372,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               </div>
 
               <div>
-                <Label htmlFor="memorials">Memorials/In Lieu of Flowers</Label>
+                <Label htmlFor="memorials">Memorials/In Lieu of Flowers</Label>{renderFieldMeta('arrangement.arrangements.memorials_or_in_lieu_of_flowers', "Memorials/In Lieu of Flowers")}
                 <Textarea
                   id="memorials"
                   value={arrangements.memorials_or_in_lieu_of_flowers}
@@ -1273,7 +1392,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="disposition_type">Disposition Type</Label>
+                  <Label htmlFor="disposition_type">Disposition Type</Label>{renderFieldMeta('arrangement.final_disposition.final_disposition_type', "Disposition Type")}
                   <Input
                     id="disposition_type"
                     value={finalDisp.final_disposition_type}
@@ -1281,7 +1400,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="cemetery">Cemetery/Crematory</Label>
+                  <Label htmlFor="cemetery">Cemetery/Crematory</Label>{renderFieldMeta('arrangement.final_disposition.cemetery_or_crematory', "Cemetery/Crematory")}
                   <Input
                     id="cemetery"
                     value={finalDisp.cemetery_or_crematory}
@@ -1291,7 +1410,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               </div>
 
               <div>
-                <Label htmlFor="disposition_address">Address</Label>
+                <Label htmlFor="disposition_address">Address</Label>{renderFieldMeta('arrangement.final_disposition.address', "Address")}
                 <Input
                   id="disposition_address"
                   value={finalDisp.address}
@@ -1301,7 +1420,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="disposition_city">City</Label>
+                  <Label htmlFor="disposition_city">City</Label>{renderFieldMeta('arrangement.final_disposition.city', "City")}
                   <Input
                     id="disposition_city"
                     value={finalDisp.city}
@@ -1309,7 +1428,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="disposition_county">County</Label>
+                  <Label htmlFor="disposition_county">County</Label>{renderFieldMeta('arrangement.final_disposition.county', "County")}
                   <Input
                     id="disposition_county"
                     value={finalDisp.county}
@@ -1317,7 +1436,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="disposition_state">State</Label>
+                  <Label htmlFor="disposition_state">State</Label>{renderFieldMeta('arrangement.final_disposition.state', "State")}
                   <Input
                     id="disposition_state"
                     value={finalDisp.state}
@@ -1337,7 +1456,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             <CardContent className="space-y-4">
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <Label htmlFor="casket">Casket</Label>
+                  <Label htmlFor="casket">Casket</Label>{renderFieldMeta('arrangement.casket_container.casket', "Casket")}
                   <Input
                     id="casket"
                     value={casket.casket}
@@ -1345,7 +1464,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="casket_manufacturer">Manufacturer</Label>
+                  <Label htmlFor="casket_manufacturer">Manufacturer</Label>{renderFieldMeta('arrangement.casket_container.casket_manufacturer', "Manufacturer")}
                   <Input
                     id="casket_manufacturer"
                     value={casket.casket_manufacturer}
@@ -1353,7 +1472,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="casket_model">Model</Label>
+                  <Label htmlFor="casket_model">Model</Label>{renderFieldMeta('arrangement.casket_container.casket_model', "Model")}
                   <Input
                     id="casket_model"
                     value={casket.casket_model}
@@ -1364,7 +1483,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="interior_fabric">Interior Fabric & Color</Label>
+                  <Label htmlFor="interior_fabric">Interior Fabric & Color</Label>{renderFieldMeta('arrangement.casket_container.interior_fabric_and_color', "Interior Fabric & Color")}
                   <Input
                     id="interior_fabric"
                     value={casket.interior_fabric_and_color}
@@ -1372,7 +1491,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="exterior_color">Exterior Color</Label>
+                  <Label htmlFor="exterior_color">Exterior Color</Label>{renderFieldMeta('arrangement.casket_container.exterior_color', "Exterior Color")}
                   <Input
                     id="exterior_color"
                     value={casket.exterior_color}
@@ -1382,7 +1501,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               </div>
 
               <div>
-                <Label htmlFor="cap_panel">Cap Panel</Label>
+                <Label htmlFor="cap_panel">Cap Panel</Label>{renderFieldMeta('arrangement.casket_container.cap_panel', "Cap Panel")}
                 <Input
                   id="cap_panel"
                   value={casket.cap_panel}
@@ -1395,7 +1514,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               <h4 className="font-medium text-sm text-gray-700">Outer Burial Enclosure</h4>
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="burial_manufacturer">Manufacturer</Label>
+                  <Label htmlFor="burial_manufacturer">Manufacturer</Label>{renderFieldMeta('arrangement.outer_burial_enclosure.manufacturer', "Manufacturer")}
                   <Input
                     id="burial_manufacturer"
                     value={data.arrangement.outer_burial_enclosure.manufacturer}
@@ -1403,7 +1522,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="burial_model">Model</Label>
+                  <Label htmlFor="burial_model">Model</Label>{renderFieldMeta('arrangement.outer_burial_enclosure.model', "Model")}
                   <Input
                     id="burial_model"
                     value={data.arrangement.outer_burial_enclosure.model}
@@ -1417,7 +1536,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               <h4 className="font-medium text-sm text-gray-700">Urn</h4>
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="urn_manufacturer">Manufacturer</Label>
+                  <Label htmlFor="urn_manufacturer">Manufacturer</Label>{renderFieldMeta('arrangement.urn.manufacturer', "Manufacturer")}
                   <Input
                     id="urn_manufacturer"
                     value={data.arrangement.urn.manufacturer}
@@ -1425,7 +1544,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="urn_model">Model</Label>
+                  <Label htmlFor="urn_model">Model</Label>{renderFieldMeta('arrangement.urn.model', "Model")}
                   <Input
                     id="urn_model"
                     value={data.arrangement.urn.model}
@@ -1445,7 +1564,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="inscriptions">Inscriptions</Label>
+                  <Label htmlFor="inscriptions">Inscriptions</Label>{renderFieldMeta('arrangement.other.inscriptions', "Inscriptions")}
                   <Input
                     id="inscriptions"
                     value={data.arrangement.other.inscriptions}
@@ -1453,7 +1572,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="other_merchandise">Other Merchandise</Label>
+                  <Label htmlFor="other_merchandise">Other Merchandise</Label>{renderFieldMeta('arrangement.other.other_merchandise', "Other Merchandise")}
                   <Input
                     id="other_merchandise"
                     value={data.arrangement.other.other_merchandise}
@@ -1464,7 +1583,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="jewelry_inventory">Jewelry Inventory</Label>
+                  <Label htmlFor="jewelry_inventory">Jewelry Inventory</Label>{renderFieldMeta('arrangement.other.jewelry_inventory', "Jewelry Inventory")}
                   <Input
                     id="jewelry_inventory"
                     value={data.arrangement.other.jewelry_inventory}
@@ -1472,7 +1591,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="jewelry_to_remove">Jewelry to Remove</Label>
+                  <Label htmlFor="jewelry_to_remove">Jewelry to Remove</Label>{renderFieldMeta('arrangement.other.jewelry_to_remove', "Jewelry to Remove")}
                   <Input
                     id="jewelry_to_remove"
                     value={data.arrangement.other.jewelry_to_remove}
@@ -1486,7 +1605,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               <h4 className="font-medium text-sm text-gray-700">Authorizations</h4>
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="embalming_auth">Embalming Authorization</Label>
+                  <Label htmlFor="embalming_auth">Embalming Authorization</Label>{renderFieldMeta('arrangement.other.embalming_authorization', "Embalming Authorization")}
                   <select
                     id="embalming_auth"
                     value={data.arrangement.other.embalming_authorization ? 'true' : 'false'}
@@ -1498,7 +1617,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   </select>
                 </div>
                 <div>
-                  <Label htmlFor="fingerprint_auth">Fingerprint Authorization</Label>
+                  <Label htmlFor="fingerprint_auth">Fingerprint Authorization</Label>{renderFieldMeta('arrangement.other.fingerprint_authorization', "Fingerprint Authorization")}
                   <select
                     id="fingerprint_auth"
                     value={data.arrangement.other.fingerprint_authorization ? 'true' : 'false'}
@@ -1514,7 +1633,7 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
               <Separator />
 
               <div>
-                <Label htmlFor="general_notes">General Notes</Label>
+                <Label htmlFor="general_notes">General Notes</Label>{renderFieldMeta('arrangement.general_notes', "General Notes")}
                 <Textarea
                   id="general_notes"
                   value={data.arrangement.general_notes}
@@ -1527,6 +1646,46 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
         </TabsContent>
       </Tabs>
 
+      {/* Long transcripts are extracted in parts; show reviewers how the parts were reconciled */}
+      {mergeDecisions && mergeDecisions.length > 0 && (
+        <Collapsible>
+          <Card>
+            <CardHeader>
+              <CollapsibleTrigger className="flex w-full items-center justify-between text-left">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <GitMerge className="h-4 w-4" />
+                  Merge Decisions ({mergeDecisions.length})
+                </CardTitle>
+                <ChevronDown className="h-4 w-4 text-gray-500" />
+              </CollapsibleTrigger>
+            </CardHeader>
+            <CollapsibleContent>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  This transcript was long enough to be read in parts. These fields came up in more than one part.
+                </p>
+                {mergeDecisions.map((decision) => (
+                  <div key={decision.path} className="rounded-md border p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{formatFieldPath(decision.path)}</span>
+                      <Badge variant="secondary">{MERGE_RULE_LABELS[decision.rule]}</Badge>
+                    </div>
+                    <ul className="mt-2 space-y-1 text-gray-600">
+                      {decision.candidates.map((candidate, index) => (
+                        <li key={index}>Part {candidate.part}: {formatFieldValue(candidate.value)}</li>
+                      ))}
+                    </ul>
+                    <p className="mt-2">
+                      <span className="text-gray-500">Result:</span> {formatFieldValue(decision.value)}
+                    </p>
+                  </div>
+                ))}
+              </CardContent>
+            </CollapsibleContent>
+          </Card>
+        </Collapsible>
+      )}
+
       {/* Approval Actions */}
       <div className="mt-6 flex gap-4 justify-between items-center">
         <div className="flex gap-3">
@@ -1551,14 +1710,38 @@ ${arrangementData.arrangement.general_notes || 'No additional notes provided.'}
                   onApprove();
                 }} 
                 className="bg-blue-600 hover:bg-blue-700 text-white"
-                disabled={hasChanges}
+                disabled={hasChanges || pendingReviewPaths.length > 0}
               >
-                {hasChanges ? 'Save Changes First' : 'Approve & Generate Documents'}
+                {hasChanges
+                  ? 'Save Changes First'
+                  : pendingReviewPaths.length > 0
+                    ? 'Confirm Flagged Fields First'
+                    : 'Approve & Generate Documents'}
               </Button>
             )
           )}
         </div>
       </div>
+
+      {!!transcripts?.length && (
+        <TranscriptSourceDialog
+          open={!!sourceField}
+          onOpenChange={(open) => !open && setSourceField(null)}
+          fieldLabel={sourceField?.label || ''}
+          transcripts={transcripts}
+          sources={sourceField ? getFieldSources(fieldSources, sourceField.path) : []}
+        />
+      )}
+
+      <FieldHistoryDialog
+        open={!!historyField}
+        onOpenChange={(open) => !open && setHistoryField(null)}
+        fieldLabel={historyField?.label || ''}
+        path={historyField?.path || ''}
+        entries={historyField ? getFieldHistory(historyField.path) : []}
+        onRevert={onRevertChange}
+        isReverting={isReverting}
+      />
     </div>
   );
 }
\ No newline at end of file
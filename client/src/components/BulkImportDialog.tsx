@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authorizedFetch } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Archive, FolderInput, Loader2 } from "lucide-react";
+import {
+  MAX_IMPORT_ARCHIVE_BYTES,
+  TRANSCRIPT_IMPORT_FILE_STATUS_LABELS,
+  type TranscriptImport,
+  type TranscriptImportFileResult,
+} from "@shared/schema";
+
+const STATUS_STYLES: Record<TranscriptImportFileResult['status'], string> = {
+  imported: "bg-emerald-100 text-emerald-800",
+  duplicate: "bg-slate-100 text-slate-700",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-amber-100 text-amber-800",
+};
+
+const PROCESSING_LABELS: Record<NonNullable<TranscriptImportFileResult['processing']>, string> = {
+  processed: "Processed",
+  failed: "Processing failed",
+  awaiting_transcription: "Process once transcribed",
+};
+
+interface BulkImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function parseResults(transcriptImport?: TranscriptImport): TranscriptImportFileResult[] {
+  try {
+    return transcriptImport?.results ? JSON.parse(transcriptImport.results) : [];
+  } catch {
+    return [];
+  }
+}
+
+export default function BulkImportDialog({ isOpen, onClose }: BulkImportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  // Bumped to clear the file input after an import starts
+  const [inputKey, setInputKey] = useState(0);
+  const [autoProcess, setAutoProcess] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: imports = [] } = useQuery<TranscriptImport[]>({
+    queryKey: ["/api/transcript-imports"],
+    enabled: isOpen,
+  });
+
+  const { data: selected } = useQuery<TranscriptImport>({
+    queryKey: [`/api/transcript-imports/${selectedId}`],
+    enabled: isOpen && selectedId !== null,
+    // The report fills in file by file while the import runs
+    refetchInterval: (query) => (query.state.data?.status === 'running' ? 2000 : false),
+  });
+
+  // Show the newest import until one is picked
+  useEffect(() => {
+    if (selectedId === null && imports.length > 0) setSelectedId(imports[0].id);
+  }, [imports, selectedId]);
+
+  useEffect(() => {
+    if (selected && selected.status !== 'running') {
+      queryClient.invalidateQueries({ queryKey: ["/api/transcript-imports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent"] });
+    }
+  }, [selected?.status, queryClient]);
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("autoProcess", String(autoProcess));
+
+      const response = await authorizedFetch("/api/transcript-imports", { method: "POST", body: formData });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message);
+      }
+      return await response.json() as TranscriptImport;
+    },
+    onSuccess: (transcriptImport) => {
+      setFile(null);
+      setInputKey((key) => key + 1);
+      setSelectedId(transcriptImport.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/transcript-imports"] });
+      toast({
+        title: "Import started",
+        description: `The files in ${transcriptImport.name} are being imported`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to start the import",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0] ?? null;
+    if (chosen && chosen.size > MAX_IMPORT_ARCHIVE_BYTES) {
+      toast({
+        title: "Error",
+        description: `ZIP files must be less than ${MAX_IMPORT_ARCHIVE_BYTES / 1024 / 1024}MB`,
+        variant: "destructive",
+      });
+      e.target.value = "";
+      return;
+    }
+    setFile(chosen);
+  };
+
+  const results = parseResults(selected);
+  const counts = results.reduce<Record<string, number>>((totals, result) => {
+    totals[result.status] = (totals[result.status] || 0) + 1;
+    return totals;
+  }, {});
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bulk Import</DialogTitle>
+          <DialogDescription>
+            Import a ZIP of past transcripts and recordings. Files already imported are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 rounded-lg border border-slate-200 p-4">
+          <Input key={inputKey} type="file" accept=".zip" onChange={handleFileChange} />
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <Checkbox checked={autoProcess} onCheckedChange={(checked) => setAutoProcess(checked === true)} />
+            Process each transcript with AI once it is imported
+          </label>
+          <div className="flex justify-end">
+            <Button onClick={() => importMutation.mutate()} disabled={!file || importMutation.isPending}>
+              {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="mr-2 h-4 w-4" />}
+              Import
+            </Button>
+          </div>
+        </div>
+
+        {imports.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {imports.map((transcriptImport) => (
+                <Button
+                  key={transcriptImport.id}
+                  variant={transcriptImport.id === selectedId ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setSelectedId(transcriptImport.id)}
+                >
+                  {transcriptImport.source === 'watch_folder' && <FolderInput className="mr-1 h-3 w-3" />}
+                  {transcriptImport.source === 'watch_folder' ? "Watched folder" : transcriptImport.name}
+                  <span className="ml-2 text-xs text-slate-500">
+                    {new Date(transcriptImport.startedAt).toLocaleDateString()}
+                  </span>
+                </Button>
+              ))}
+            </div>
+
+            {selected && (
+              <div>
+                <div className="flex flex-wrap items-center gap-3 mb-2 text-sm text-slate-600">
+                  {selected.status === 'running' ? (
+                    <span className="flex items-center text-amber-700">
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      {results.length} of {selected.totalFiles} files
+                    </span>
+                  ) : selected.status === 'failed' ? (
+                    <span className="text-red-700">Stopped: {selected.error}</span>
+                  ) : (
+                    <span>{selected.totalFiles} files</span>
+                  )}
+                  {Object.entries(TRANSCRIPT_IMPORT_FILE_STATUS_LABELS).map(([status, label]) => (
+                    counts[status] ? <span key={status}>{label}: {counts[status]}</span> : null
+                  ))}
+                </div>
+                <div className="max-h-80 overflow-y-auto rounded-lg border border-slate-200 divide-y divide-slate-100">
+                  {results.map((result, index) => (
+                    <div key={index} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate text-slate-900" title={result.filename}>{result.filename}</p>
+                        {(result.message || result.processingError) && (
+                          <p className="text-xs text-slate-500">{result.message || result.processingError}</p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        {result.processing && (
+                          <span className={`text-xs ${result.processing === 'failed' ? "text-red-700" : "text-slate-500"}`}>
+                            {PROCESSING_LABELS[result.processing]}
+                          </span>
+                        )}
+                        <Badge className={`${STATUS_STYLES[result.status]} cursor-default pointer-events-none`}>
+                          {TRANSCRIPT_IMPORT_FILE_STATUS_LABELS[result.status]}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                  {results.length === 0 && (
+                    <p className="px-3 py-4 text-sm text-slate-500">No files handled yet</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Archive, Scale } from "lucide-react";
+import type { Arrangement } from "@shared/schema";
+
+interface CaseRetentionProps {
+  arrangement: Arrangement;
+  // The query the page loaded the arrangement with, refreshed after each change
+  arrangementQueryKey: string;
+}
+
+export default function CaseRetention({ arrangement, arrangementQueryKey }: CaseRetentionProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: async (close: boolean) => {
+      const response = await apiRequest("POST", `/api/arrangements/${arrangement.id}/${close ? "close" : "reopen"}`);
+      return await response.json();
+    },
+    onSuccess: (_data, close) => {
+      queryClient.invalidateQueries({ queryKey: [arrangementQueryKey] });
+      toast({
+        title: close ? "Case closed" : "Case reopened",
+        description: close
+          ? "Retention periods for this case now start counting"
+          : "Nothing in this case will be purged until it is closed again",
+      });
+    },
+    onError: onError("Failed to update the case"),
+  });
+
+  const legalHoldMutation = useMutation({
+    mutationFn: async (legalHold: boolean) => {
+      const response = await apiRequest("PUT", `/api/arrangements/${arrangement.id}/legal-hold`, { legalHold, reason });
+      return await response.json();
+    },
+    onSuccess: (_data, legalHold) => {
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: [arrangementQueryKey] });
+      toast({
+        title: legalHold ? "Legal hold placed" : "Legal hold released",
+        description: legalHold
+          ? "Nothing in this case will be purged or deleted"
+          : "This case follows your retention rules again",
+      });
+    },
+    onError: onError("Failed to update the legal hold"),
+  });
+
+  const canClose = can('approve_arrangements');
+  const canHold = can('manage_retention');
+  if (!canClose && !canHold) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="w-5 h-5" />
+          Case Records
+        </CardTitle>
+        <CardDescription>
+          {arrangement.closedAt
+            ? `Closed on ${new Date(arrangement.closedAt).toLocaleDateString()}. Records are purged as your retention rules allow.`
+            : "Retention periods start once the case is closed."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canClose && (
+          <Button
+            variant="outline"
+            onClick={() => closeMutation.mutate(!arrangement.closedAt)}
+            disabled={closeMutation.isPending}
+          >
+            {arrangement.closedAt ? "Reopen Case" : "Close Case"}
+          </Button>
+        )}
+
+        {canHold && (
+          <div className="space-y-2 rounded-md border p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="legal-hold" className="flex items-center gap-2">
+                  <Scale className="w-4 h-4" />
+                  Legal hold
+                </Label>
+                <p className="text-sm text-slate-500">
+                  {arrangement.legalHold
+                    ? `Placed ${new Date(arrangement.legalHoldSetAt!).toLocaleDateString()}${arrangement.legalHoldReason ? ` · ${arrangement.legalHoldReason}` : ""}`
+                    : "Keeps every record in this case, whatever the retention rules say."}
+                </p>
+              </div>
+              <Switch
+                id="legal-hold"
+                checked={arrangement.legalHold}
+                onCheckedChange={(checked) => legalHoldMutation.mutate(checked)}
+                disabled={legalHoldMutation.isPending}
+              />
+            </div>
+            {!arrangement.legalHold && (
+              <Input
+                placeholder="Reason (optional), e.g. pending litigation"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
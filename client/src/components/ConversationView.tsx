@@ -0,0 +1,70 @@
+import { type ReactNode } from "react";
+import { describeSpeakerRole, formatTimestamp, listSpeakers, type SpeakerTurn } from "@shared/speakerTurns";
+import type { SpeakerRoles } from "@shared/schema";
+
+const SPEAKER_COLORS = [
+  "text-blue-700",
+  "text-emerald-700",
+  "text-purple-700",
+  "text-amber-700",
+  "text-rose-700",
+  "text-cyan-700",
+];
+
+interface ConversationViewProps {
+  turns: SpeakerTurn[];
+  roles?: SpeakerRoles;
+  searchQuery: string;
+  // Which search match, counted across every turn, is the current one
+  currentMatchIndex: number;
+}
+
+export default function ConversationView({ turns, roles = {}, searchQuery, currentMatchIndex }: ConversationViewProps) {
+  // Each speaker keeps one color, in the order they first speak
+  const speakers = listSpeakers(turns);
+  const pattern = searchQuery.trim()
+    ? new RegExp(`(${searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
+    : null;
+  let matchCount = 0;
+
+  const highlight = (text: string): ReactNode => {
+    if (!pattern) return text;
+    return text.split(pattern).map((part, index) => {
+      // split() with a capturing group puts the matches at odd indexes
+      if (index % 2 === 0) return part;
+      const isCurrentMatch = matchCount++ === currentMatchIndex;
+      return (
+        <mark
+          key={index}
+          className={isCurrentMatch ? "bg-blue-500 text-white current-match" : "bg-yellow-200 text-yellow-900"}
+        >
+          {part}
+        </mark>
+      );
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {turns.map((turn, index) => (
+        <div key={index} className="text-sm">
+          <div className="flex items-baseline gap-2">
+            <span className={`font-semibold ${turn.speaker ? SPEAKER_COLORS[speakers.indexOf(turn.speaker) % SPEAKER_COLORS.length] : "text-slate-500"}`}>
+              {turn.speaker || "Unknown speaker"}
+            </span>
+            {turn.speaker && roles[turn.speaker] && (
+              <span className="text-xs text-slate-500">{describeSpeakerRole(roles[turn.speaker])}</span>
+            )}
+            {turn.start !== null && (
+              <span className="text-xs text-slate-400">
+                {formatTimestamp(turn.start)}
+                {turn.end !== null && ` – ${formatTimestamp(turn.end)}`}
+              </span>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap text-slate-700">{highlight(turn.text)}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
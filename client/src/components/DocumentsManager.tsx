@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Download, FileText, CheckCircle, Clock, AlertCircle, Trash2, Loader2, RefreshCw, FileEdit, Settings } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
@@ -15,6 +16,10 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProgressEvents } from "@/hooks/useProgressEvents";
+import { PROGRESS_STAGE_LABELS } from "@/lib/progressEvents";
+import type { ProgressEvent } from "@shared/progressEvents";
+import { authorizedFetch } from "@/lib/queryClient";
 
 interface Document {
   id: number;
@@ -43,6 +48,30 @@ interface Task {
   updatedAt: string;
 }
 
+interface JobDocument {
+  id: number;
+  jobId: number;
+  documentType: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  documentId?: number | null;
+  error?: string | null;
+}
+
+interface Job {
+  id: number;
+  arrangementId: number;
+  type: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+  documents: JobDocument[];
+}
+
 interface DocumentsManagerProps {
   arrangementId: number;
   isApproved: boolean;
@@ -50,11 +79,10 @@ interface DocumentsManagerProps {
 
 export default function DocumentsManager({ arrangementId, isApproved }: DocumentsManagerProps) {
   const { toast } = useToast();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
   const [generatingDocType, setGeneratingDocType] = useState<string | null>(null);
   const [showRegenerateDialog, setShowRegenerateDialog] = useState(false);
-  const [regenerateProgress, setRegenerateProgress] = useState(0);
-  const [regenerateStep, setRegenerateStep] = useState("");
   const [selectedDocuments, setSelectedDocuments] = useState<Set<number>>(new Set());
   const [bulkDownloading, setBulkDownloading] = useState(false);
   const [bulkDeleting, setBulkDeleting] = useState(false);
@@ -64,6 +92,7 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
   const [downloadingDocuments, setDownloadingDocuments] = useState<Set<number>>(new Set());
   const [showStyleDialog, setShowStyleDialog] = useState(false);
   const [selectedStyles, setSelectedStyles] = useState<string[]>([]);
+  const [activity, setActivity] = useState<ProgressEvent[]>([]);
 
   // Fetch documents for this arrangement
   const { data: documents = [], isLoading: documentsLoading } = useQuery<Document[]>({
@@ -71,6 +100,36 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
     enabled: isApproved && !!arrangementId,
   });
 
+  // Fetch the latest generation job. Live events drive refreshes; the slow poll
+  // only covers a dropped stream while the job is still in flight
+  const { data: latestJob } = useQuery<Job | null>({
+    queryKey: [`/api/arrangements/${arrangementId}/jobs/latest`],
+    enabled: isApproved && !!arrangementId,
+    refetchInterval: (query) => {
+      const job = query.state.data;
+      return job && (job.status === 'queued' || job.status === 'running') ? 15000 : false;
+    },
+  });
+
+  useProgressEvents(isApproved && arrangementId ? `/api/arrangements/${arrangementId}/events` : null, (event) => {
+    if (!event.documentType && event.stage !== 'job_completed') return;
+
+    setActivity(prev => [event, ...prev].slice(0, 20));
+    queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${arrangementId}/jobs/latest`] });
+  });
+
+  const jobActive = !!latestJob && (latestJob.status === 'queued' || latestJob.status === 'running');
+  const completedSteps = latestJob?.documents.filter(step => step.status === 'completed').length || 0;
+
+  // Pick up each document as soon as its step finishes, and tasks once the job is done
+  useEffect(() => {
+    if (!latestJob) return;
+    queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${arrangementId}/documents`] });
+    if (!jobActive) {
+      queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${arrangementId}/tasks`] });
+    }
+  }, [latestJob?.id, latestJob?.status, completedSteps]);
+
   // Fetch tasks for this arrangement
   const { data: tasks = [], isLoading: tasksLoading } = useQuery<Task[]>({
     queryKey: [`/api/arrangements/${arrangementId}/tasks`],
@@ -112,11 +171,10 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
         payload.styleSpecifications = styles;
       }
 
-      const response = await fetch('/api/documents/generate', {
+      const response = await authorizedFetch('/api/documents/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
         },
         body: JSON.stringify(payload)
       });
@@ -148,70 +206,29 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
   // Regenerate all documents
   const regenerateAllDocumentsMutation = useMutation({
     mutationFn: async () => {
-      // Show processing dialog and start progress simulation
-      setShowRegenerateDialog(true);
-      setRegenerateProgress(0);
-      setRegenerateStep("Initializing document regeneration...");
-
-      // Simulate progress updates during the long API call
-      const progressInterval = setInterval(() => {
-        setRegenerateProgress(prev => {
-          const newProgress = Math.min(prev + Math.random() * 12, 90);
-          if (newProgress < 20) {
-            setRegenerateStep("Analyzing arrangement data...");
-          } else if (newProgress < 40) {
-            setRegenerateStep("Regenerating contract and summary documents...");
-          } else if (newProgress < 60) {
-            setRegenerateStep("Recreating obituary and death certificate info...");
-          } else if (newProgress < 80) {
-            setRegenerateStep("Regenerating funeral director task list...");
-          } else {
-            setRegenerateStep("Recreating family arranger to-do list...");
-          }
-          return newProgress;
-        });
-      }, 4000);
-
-      try {
-        const response = await fetch(`/api/arrangements/${arrangementId}/regenerate-all`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to regenerate documents');
+      const response = await authorizedFetch(`/api/arrangements/${arrangementId}/regenerate-all`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         }
+      });
 
-        const data = await response.json();
-
-        // Complete the progress
-        clearInterval(progressInterval);
-        setRegenerateProgress(100);
-        setRegenerateStep("All documents regenerated successfully!");
-
-        // Keep dialog open briefly to show completion
-        setTimeout(() => {
-          setShowRegenerateDialog(false);
-        }, 1500);
-
-        return data;
-      } catch (error) {
-        clearInterval(progressInterval);
-        throw error;
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to regenerate documents');
       }
+
+      return response.json();
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${arrangementId}/documents`] });
+      setShowRegenerateDialog(true);
+      queryClient.setQueryData([`/api/arrangements/${arrangementId}/jobs/latest`], data.job);
       toast({
-        title: "Documents Regenerated",
-        description: `All documents regenerated successfully. ${data.documents?.length || 6} documents created.`,
+        title: "Regeneration Queued",
+        description: `${data.job?.documents?.length || 6} documents will be recreated in the background.`,
       });
     },
     onError: (error) => {
-      setShowRegenerateDialog(false);
       toast({
         title: "Regeneration Failed",
         description: `Failed to regenerate documents: ${error.message}`,
@@ -223,11 +240,10 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
   // Edit document content
   const editDocumentMutation = useMutation({
     mutationFn: async ({ documentId, plainTextContent }: { documentId: number; plainTextContent: string }) => {
-      const response = await fetch(`/api/documents/${documentId}`, {
+      const response = await authorizedFetch(`/api/documents/${documentId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
         },
         body: JSON.stringify({ plainTextContent, enhanced: enhancedFormatting })
       });
@@ -259,11 +275,10 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
   // Update task status
   const updateTaskMutation = useMutation({
     mutationFn: async ({ taskId, updates }: { taskId: number; updates: Partial<Task> }) => {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      const response = await authorizedFetch(`/api/tasks/${taskId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify(updates)
       });
@@ -286,11 +301,8 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
   // Delete document
   const deleteDocumentMutation = useMutation({
     mutationFn: async (documentId: number) => {
-      const response = await fetch(`/api/documents/${documentId}`, {
+      const response = await authorizedFetch(`/api/documents/${documentId}`, {
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
       });
 
       if (!response.ok) {
@@ -441,14 +453,8 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
   const downloadDocument = async (doc: Document) => {
     setDownloadingDocuments(prev => new Set(prev).add(doc.id));
     try {
-      const token = localStorage.getItem("auth_token");
-
       // First, get the user information and document content
-      const userResponse = await fetch('/api/auth/me', {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const userResponse = await authorizedFetch('/api/auth/me');
 
       if (!userResponse.ok) {
         throw new Error('Failed to get user information');
@@ -457,11 +463,7 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
       const user = await userResponse.json();
 
       // Get the document's markdown text
-      const docResponse = await fetch(`/api/documents/${doc.id}/content`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const docResponse = await authorizedFetch(`/api/documents/${doc.id}/content`);
 
       if (!docResponse.ok) {
         throw new Error('Failed to get document content');
@@ -584,10 +586,7 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
   const toggleTaskCompletion = (task: Task) => {
     updateTaskMutation.mutate({
       taskId: task.id,
-      updates: {
-        completed: !task.completed,
-        completedAt: !task.completed ? new Date().toISOString() : undefined
-      }
+      updates: { completed: !task.completed }
     });
   };
 
@@ -625,6 +624,62 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
     setSelectedStyles([]);
   };
 
+  const getJobStepIcon = (status: JobDocument['status']) => {
+    switch (status) {
+      case 'completed': return <CheckCircle className="w-4 h-4 text-green-600" />;
+      case 'running': return <Loader2 className="w-4 h-4 animate-spin text-blue-600" />;
+      case 'failed': return <AlertCircle className="w-4 h-4 text-red-600" />;
+      default: return <Clock className="w-4 h-4 text-gray-400" />;
+    }
+  };
+
+  const getJobStepLabel = (step: JobDocument) => {
+    const lastEvent = activity.find(event => event.jobId === step.jobId && event.documentType === step.documentType);
+
+    switch (step.status) {
+      case 'completed': return 'Done';
+      case 'running': return lastEvent?.stage === 'pdf_rendered' ? 'Saving PDF...' : 'Generating...';
+      case 'failed': return 'Failed';
+      default: return step.attempts > 0 ? `Retrying (attempt ${step.attempts + 1})` : 'Waiting';
+    }
+  };
+
+  const renderJobSteps = (job: Job) => (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>Progress</span>
+          <span>{completedSteps} of {job.documents.length} documents</span>
+        </div>
+        <Progress value={job.documents.length ? (completedSteps / job.documents.length) * 100 : 0} className="h-2" />
+      </div>
+      <div className="space-y-2">
+        {job.documents.map((step) => (
+          <div key={step.id} className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-2">
+              {getJobStepIcon(step.status)}
+              <span>{getDocumentTypeDisplay(step.documentType)}</span>
+            </div>
+            <span className={`text-xs ${step.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`} title={step.error || undefined}>
+              {getJobStepLabel(step)}
+            </span>
+          </div>
+        ))}
+      </div>
+      {activity.some(event => event.jobId === job.id) && (
+        <div className="border-t pt-2 space-y-1 max-h-32 overflow-y-auto">
+          {activity.filter(event => event.jobId === job.id).map((event, index) => (
+            <div key={`${event.timestamp}-${index}`} className="text-xs text-gray-500">
+              {new Date(event.timestamp).toLocaleTimeString()} · {event.documentType ? `${getDocumentTypeDisplay(event.documentType)}: ` : ''}
+              {PROGRESS_STAGE_LABELS[event.stage]}
+              {event.message ? ` (${event.message})` : ''}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   const openStyleDialog = () => {
     setSelectedStyles([]);
     setShowStyleDialog(true);
@@ -696,6 +751,25 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
             </CardContent>
           </Card>
 
+          {latestJob && (jobActive || latestJob.documents.some(step => step.status === 'failed')) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  {jobActive ? <Loader2 className="w-5 h-5 animate-spin" /> : <AlertCircle className="w-5 h-5 text-red-600" />}
+                  {jobActive ? 'Generating Documents' : 'Some Documents Failed'}
+                </CardTitle>
+                <CardDescription>
+                  {jobActive
+                    ? 'Each document is generated separately and retried automatically if the AI service is slow.'
+                    : 'These documents could not be generated after several attempts. Use Recreate to try again.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderJobSteps(latestJob)}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -729,31 +803,33 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
                           </>
                         )}
                       </Button>
-                      <Button
-                        onClick={bulkDeleteDocuments}
-                        disabled={bulkDownloading || bulkDeleting || downloadingDocuments.size > 0}
-                        variant="outline"
-                        size="sm"
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      >
-                        {bulkDeleting ? (
-                          <>
-                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                            Deleting...
-                          </>
-                        ) : (
-                          <>
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Delete Selected ({selectedDocuments.size})
-                          </>
-                        )}
-                      </Button>
+                      {can('delete_documents') && (
+                        <Button
+                          onClick={bulkDeleteDocuments}
+                          disabled={bulkDownloading || bulkDeleting || downloadingDocuments.size > 0}
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          {bulkDeleting ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              Deleting...
+                            </>
+                          ) : (
+                            <>
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete Selected ({selectedDocuments.size})
+                            </>
+                          )}
+                        </Button>
+                      )}
                     </>
                   )}
-                  {documents.length > 0 && (
+                  {documents.length > 0 && can('generate_documents') && (
                     <Button
                       onClick={() => regenerateAllDocumentsMutation.mutate()}
-                      disabled={regenerateAllDocumentsMutation.isPending || generateDocumentMutation.isPending}
+                      disabled={regenerateAllDocumentsMutation.isPending || generateDocumentMutation.isPending || jobActive}
                       className="bg-blue-600 hover:bg-blue-700 text-white"
                     >
                       <RefreshCw className="w-4 h-4 mr-2" />
@@ -769,26 +845,30 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
               ) : documents.length === 0 ? (
                 <div className="text-center py-8">
                   <p className="text-gray-500 mb-4">No documents generated yet.</p>
-                  <div className="flex flex-wrap gap-2 justify-center">
-                    {['contract', 'summary', 'obituary', 'tasks', 'arranger_tasks', 'death_cert'].map((type) => (
-                      <Button
-                        key={type}
-                        variant="outline"
-                        size="sm"
-                        onClick={() => generateDocumentMutation.mutate({ type })}
-                        disabled={generateDocumentMutation.isPending || generatingDocType === type}
-                      >
-                        {generatingDocType === type ? (
-                          <>
-                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                            Creating...
-                          </>
-                        ) : (
-                          `Generate ${getDocumentTypeDisplay(type)}`
-                        )}
-                      </Button>
-                    ))}
-                  </div>
+                  {can('generate_documents') && (
+                    <div className="flex flex-wrap gap-2 justify-center">
+                      {['contract', 'summary', 'obituary', 'tasks', 'arranger_tasks', 'death_cert']
+                        .filter((type) => type !== 'death_cert' || can('view_cause_of_death'))
+                        .map((type) => (
+                        <Button
+                          key={type}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => generateDocumentMutation.mutate({ type })}
+                          disabled={generateDocumentMutation.isPending || generatingDocType === type}
+                        >
+                          {generatingDocType === type ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                              Creating...
+                            </>
+                          ) : (
+                            `Generate ${getDocumentTypeDisplay(type)}`
+                          )}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-4">
@@ -858,15 +938,17 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
                               </>
                             )}
                           </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEditDocument(doc)}
-                          >
-                            <FileEdit className="w-4 h-4 mr-1" />
-                            Edit
-                          </Button>
-                          {doc.type === 'obituary' ? (
+                          {can(doc.type === 'contract' ? 'edit_contracts' : 'edit_documents') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditDocument(doc)}
+                            >
+                              <FileEdit className="w-4 h-4 mr-1" />
+                              Edit
+                            </Button>
+                          )}
+                          {!can('generate_documents') ? null : doc.type === 'obituary' ? (
                             <TooltipProvider>
                               <Tooltip delayDuration={300}>
                                 <TooltipTrigger asChild>
@@ -918,15 +1000,17 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
                               )}
                             </Button>
                           )}
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => deleteDocumentMutation.mutate(doc.id)}
-                            disabled={deleteDocumentMutation.isPending}
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          {can('delete_documents') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => deleteDocumentMutation.mutate(doc.id)}
+                              disabled={deleteDocumentMutation.isPending}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -961,6 +1045,7 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
                     <div key={task.id} className="flex items-start gap-4 p-4 border rounded-lg">
                       <button
                         onClick={() => toggleTaskCompletion(task)}
+                        disabled={!can('manage_tasks')}
                         className={`mt-1 w-5 h-5 rounded border-2 flex items-center justify-center ${
                           task.completed
                             ? 'bg-green-500 border-green-500 text-white'
@@ -1144,26 +1229,23 @@ export default function DocumentsManager({ arrangementId, isApproved }: Document
         </DialogContent>
       </Dialog>
 
-      {/* Regenerate All Documents Progress Dialog */}
+      {/* Document Generation Job Dialog */}
       <Dialog open={showRegenerateDialog} onOpenChange={setShowRegenerateDialog}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
-              <Loader2 className="w-5 h-5 animate-spin" />
+              {jobActive ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <CheckCircle className="w-5 h-5 text-green-600" />
+              )}
               Recreating All Documents
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span>Progress</span>
-                <span>{Math.round(regenerateProgress)}%</span>
-              </div>
-              <Progress value={regenerateProgress} className="h-2" />
-            </div>
-            <p className="text-sm text-muted-foreground">{regenerateStep}</p>
+            {latestJob && renderJobSteps(latestJob)}
             <div className="text-xs text-muted-foreground">
-              This process generates all 6 document types and may take up to 2-3 minutes to complete.
+              Documents are generated in the background. You can close this window and keep working.
             </div>
           </div>
         </DialogContent>
@@ -0,0 +1,88 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Undo2 } from "lucide-react";
+import { formatFieldPath, formatFieldValue, type FieldChangeSource } from "@shared/extraction";
+import type { FieldHistoryEntry } from "@shared/schema";
+
+const FIELD_CHANGE_SOURCE_LABELS: Record<FieldChangeSource, string> = {
+  extraction: 'AI extraction',
+  manual_edit: 'Manual edit',
+  merge: 'Merged',
+  revert: 'Reverted',
+};
+
+interface FieldHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fieldLabel: string;
+  path: string;
+  entries: FieldHistoryEntry[];
+  onRevert?: (changeId: number) => void;
+  isReverting?: boolean;
+}
+
+function formatStoredValue(value: string | null): string {
+  return formatFieldValue(value === null ? null : JSON.parse(value));
+}
+
+export default function FieldHistoryDialog({
+  open,
+  onOpenChange,
+  fieldLabel,
+  path,
+  entries,
+  onRevert,
+  isReverting,
+}: FieldHistoryDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            History: {fieldLabel}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {entries.map((entry) => (
+            <div key={entry.id} className="rounded-md border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <Badge variant="secondary">{FIELD_CHANGE_SOURCE_LABELS[entry.source as FieldChangeSource] ?? entry.source}</Badge>
+                  <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  {entry.userName && <span>by {entry.userName}</span>}
+                </div>
+                {onRevert && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isReverting}
+                    onClick={() => onRevert(entry.id)}
+                  >
+                    <Undo2 className="w-3 h-3 mr-1" />
+                    Revert
+                  </Button>
+                )}
+              </div>
+              {entry.path !== path && (
+                <p className="text-xs font-medium text-gray-600 mb-1">{formatFieldPath(entry.path)}</p>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-xs text-gray-500">Before</p>
+                  <p className="text-gray-700">{formatStoredValue(entry.oldValue) || <span className="italic text-gray-400">Empty</span>}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">After</p>
+                  <p className="text-gray-900">{formatStoredValue(entry.newValue) || <span className="italic text-gray-400">Empty</span>}</p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
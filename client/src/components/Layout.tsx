@@ -1,23 +1,49 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Link, useLocation } from "wouter";
-import { Bell, Menu } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { AuthService, type OrganizationTokenResponse } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Bell, Check, Menu } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import type { OrganizationMembership } from "@shared/schema";
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export default function Layout({ children }: LayoutProps) {
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const [location] = useLocation();
+  const { toast } = useToast();
+
+  const { data: organizations = [] } = useQuery<OrganizationMembership[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const switchOrganizationMutation = useMutation({
+    mutationFn: async (organizationId: number) => {
+      const response = await apiRequest("POST", `/api/organizations/${organizationId}/switch`);
+      return await response.json() as OrganizationTokenResponse;
+    },
+    onSuccess: (data) => AuthService.switchOrganization(data),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to switch organization",
+        variant: "destructive",
+      });
+    },
+  });
 
   const getInitials = (name: string) => {
     return name
@@ -66,15 +92,28 @@ export default function Layout({ children }: LayoutProps) {
                     Transcripts
                   </a>
                 </Link>
-                <Link href="/analytics">
+                {can('manage_billing') && (
+                  <Link href="/analytics">
+                    <a
+                      className={`py-2 px-1 text-sm font-medium transition-colors ${
+                        isActive("/analytics")
+                          ? "text-primary-600 border-b-2 border-primary-600"
+                          : "text-slate-500 hover:text-slate-700"
+                      }`}
+                    >
+                      Analytics
+                    </a>
+                  </Link>
+                )}
+                <Link href="/organization">
                   <a
                     className={`py-2 px-1 text-sm font-medium transition-colors ${
-                      isActive("/analytics")
+                      isActive("/organization")
                         ? "text-primary-600 border-b-2 border-primary-600"
                         : "text-slate-500 hover:text-slate-700"
                     }`}
                   >
-                    Analytics
+                    Organization
                   </a>
                 </Link>
                 {user?.role === 'admin' && (
@@ -101,6 +140,17 @@ export default function Layout({ children }: LayoutProps) {
                         Admin Analytics
                       </a>
                     </Link>
+                    <Link href="/admin/audit">
+                      <a
+                        className={`py-2 px-1 text-sm font-medium transition-colors ${
+                          isActive("/admin/audit")
+                            ? "text-primary-600 border-b-2 border-primary-600"
+                            : "text-slate-500 hover:text-slate-700"
+                        }`}
+                      >
+                        Audit Log
+                      </a>
+                    </Link>
                   </>
                 )}
               </nav>
@@ -126,13 +176,35 @@ export default function Layout({ children }: LayoutProps) {
                   <DropdownMenuItem>
                     <span className="font-medium">{user?.email}</span>
                   </DropdownMenuItem>
-                  {user?.funeralHome && (
+                  {user?.organization && (
                     <DropdownMenuItem>
                       <span className="text-sm text-slate-500">
-                        {user.funeralHome}
+                        {user.organization.name}
                       </span>
                     </DropdownMenuItem>
                   )}
+                  {organizations.length > 1 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="text-xs text-slate-500">Switch organization</DropdownMenuLabel>
+                      {organizations.map((organization) => (
+                        <DropdownMenuItem
+                          key={organization.id}
+                          disabled={switchOrganizationMutation.isPending}
+                          onClick={() => {
+                            if (organization.id !== user?.organization?.id) {
+                              switchOrganizationMutation.mutate(organization.id);
+                            }
+                          }}
+                        >
+                          <Check
+                            className={`mr-2 h-4 w-4 ${organization.id === user?.organization?.id ? "opacity-100" : "opacity-0"}`}
+                          />
+                          {organization.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </>
+                  )}
                   <DropdownMenuSeparator />
                   <Link href="/profile">
                     <DropdownMenuItem>Profile Settings</DropdownMenuItem>
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { WifiOff, Wifi, RefreshCw, CheckCircle, Upload } from 'lucide-react';
 import { OfflineUploadManager } from '@/lib/offlineUpload';
+import { authorizedFetch } from '@/lib/queryClient';
 
 interface OfflineData {
   pendingRequests: number;
@@ -94,7 +95,7 @@ export default function OfflineStatus() {
       const pendingRequests = JSON.parse(localStorage.getItem('offline_requests') || '[]');
       for (const request of pendingRequests) {
         try {
-          const response = await fetch(request.url, {
+          const response = await authorizedFetch(request.url, {
             method: request.method,
             headers: request.headers,
             body: request.body
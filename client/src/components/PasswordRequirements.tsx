@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { checkPasswordRequirements, type PasswordPolicy } from "@shared/passwordPolicy";
+
+interface PasswordRequirementsProps {
+  password: string;
+  // The owner's email and name, which the password may not contain
+  personal?: string[];
+}
+
+// The server's password policy as a checklist that updates while the password is typed
+export default function PasswordRequirements({ password, personal = [] }: PasswordRequirementsProps) {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+    staleTime: Infinity,
+  });
+
+  if (!policy) return null;
+
+  return (
+    <ul className="mt-2 space-y-1 text-sm">
+      {checkPasswordRequirements(password, policy, personal).map((requirement) => (
+        <li
+          key={requirement.label}
+          className={`flex items-center gap-2 ${requirement.met ? "text-green-700" : "text-slate-500"}`}
+        >
+          {requirement.met ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+          {requirement.label}
+        </li>
+      ))}
+    </ul>
+  );
+}
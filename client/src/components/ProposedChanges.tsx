@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { GitPullRequest, Pencil, AlertTriangle, Quote } from "lucide-react";
+import { formatFieldPath, formatFieldValue, getFieldSources, type FieldChange } from "@shared/extraction";
+import type { ArrangementDelta } from "@shared/schema";
+
+type Decision = 'accept' | 'reject';
+
+interface ProposedChangesProps {
+  delta: ArrangementDelta;
+  sourceName: string;
+  onResolve: (decisions: Record<string, Decision>) => void;
+  isResolving?: boolean;
+}
+
+// Side-by-side merge of the stored arrangement and a newer extraction, one choice per field
+export default function ProposedChanges({ delta, sourceName, onResolve, isResolving }: ProposedChangesProps) {
+  const changes: FieldChange[] = JSON.parse(delta.changes).filter((change: FieldChange) => change.status === 'pending');
+  const [decisions, setDecisions] = useState<Record<string, Decision>>(() =>
+    Object.fromEntries(changes.map(change => [change.path, change.suggested ?? 'accept']))
+  );
+
+  const decideAll = (decision: Decision) =>
+    setDecisions(Object.fromEntries(changes.map(change => [change.path, decision])));
+
+  const choose = (path: string, decision: Decision) =>
+    setDecisions(prev => ({ ...prev, [path]: decision }));
+
+  // Choices for changes applied in an earlier sitting are dropped
+  const pendingDecisions = Object.fromEntries(
+    changes.filter(change => decisions[change.path]).map(change => [change.path, decisions[change.path]])
+  );
+  const acceptedCount = Object.values(pendingDecisions).filter(decision => decision === 'accept').length;
+  const editedCount = changes.filter(change => change.manuallyEdited).length;
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const isReExtraction = delta.kind === 're_extraction';
+
+  const renderSide = (change: FieldChange, decision: Decision) => {
+    const selected = decisions[change.path] === decision;
+    const value = formatFieldValue(decision === 'accept' ? change.proposed : change.current);
+    const quote = decision === 'accept' ? getFieldSources(change.sources, change.path)[0]?.quote : undefined;
+
+    return (
+      <button
+        type="button"
+        onClick={() => choose(change.path, decision)}
+        className={`rounded-md border p-3 text-left transition-colors ${
+          selected ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' : 'border-gray-200 hover:border-blue-300'
+        }`}
+      >
+        <p className="text-xs text-gray-500 mb-1">
+          {decision === 'accept' ? (isReExtraction ? 'New extraction' : 'Proposed') : 'Current'}
+        </p>
+        <p className="text-gray-900">{value || <span className="italic text-gray-400">Empty</span>}</p>
+        {quote && (
+          <p className="mt-1 flex items-start gap-1 text-xs italic text-gray-500">
+            <Quote className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            {quote}
+          </p>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <GitPullRequest className="w-5 h-5" />
+              {isReExtraction ? 'Re-extraction Differences' : 'Proposed Changes'}
+            </CardTitle>
+            <CardDescription>
+              {changes.length} field(s) differ in {sourceName}. Choose the value to keep for each.
+              {editedCount > 0 && ` ${editedCount} of them were edited by hand and keep the current value unless you choose otherwise.`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => decideAll('reject')}>Keep All Current</Button>
+            <Button variant="outline" size="sm" onClick={() => decideAll('accept')}>Take All New</Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {changes.map(change => (
+          <div key={change.path} className="text-sm">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-medium">{formatFieldPath(change.path)}</span>
+              {change.manuallyEdited && (
+                <Badge variant="outline" className="gap-1 px-1.5 py-0 text-xs font-normal">
+                  <Pencil className="h-3 w-3" />
+                  Edited by hand
+                </Badge>
+              )}
+              {Object.keys(change.reviews).length > 0 && (
+                <Badge variant="outline" className="gap-1 border-yellow-300 bg-yellow-50 px-1.5 py-0 text-xs font-normal text-yellow-800">
+                  <AlertTriangle className="h-3 w-3" />
+                  New value needs review
+                </Badge>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {renderSide(change, 'reject')}
+              {renderSide(change, 'accept')}
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button onClick={() => onResolve(pendingDecisions)} disabled={isResolving}>
+            {isResolving ? 'Applying...' : `Apply (${acceptedCount} new value${acceptedCount === 1 ? '' : 's'})`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,14 +1,19 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Shield } from "lucide-react";
+import type { Permission } from "@shared/permissions";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Organization permission the page needs, beyond being signed in
+  permission?: Permission;
 }
 
-export default function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, isLoading } = useAuth();
-  const [, setLocation] = useLocation();
+export default function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, isLoading, can } = useAuth();
+  const [location, setLocation] = useLocation();
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -16,6 +21,14 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
     }
   }, [user, isLoading, setLocation]);
 
+  // Until two-factor is on, the profile page is the only one an organization requiring it allows
+  const mustSetUpTwoFactor = !!user?.twoFactorSetupRequired && location !== "/profile";
+  useEffect(() => {
+    if (mustSetUpTwoFactor) {
+      setLocation("/profile");
+    }
+  }, [mustSetUpTwoFactor, setLocation]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -24,9 +37,29 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
     );
   }
 
-  if (!user) {
+  if (!user || mustSetUpTwoFactor) {
     return null;
   }
 
+  if (permission && !can(permission)) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-12 h-12 rounded-full bg-red-100 flex items-center justify-center">
+              <Shield className="w-6 h-6 text-red-600" />
+            </div>
+            <CardTitle className="text-xl text-red-600">Access Denied</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center">
+            <p className="text-gray-600">
+              Your role in this organization doesn't give access to this page.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
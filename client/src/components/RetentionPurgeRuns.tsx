@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Archive, Play } from "lucide-react";
+import {
+  RETENTION_TARGET_LABELS,
+  type RetentionPurgeReport,
+  type RetentionPurgeRun,
+  type RetentionTarget,
+} from "@shared/schema";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  completed: "secondary",
+  running: "default",
+  failed: "destructive",
+};
+
+function describeOrganization(entry: RetentionPurgeReport["organizations"][number]): string {
+  const parts = [`${entry.transcriptsPurged} transcript${entry.transcriptsPurged === 1 ? "" : "s"} purged`];
+  if (entry.recordingsDeleted > 0) {
+    parts.push(`${entry.recordingsDeleted} recording${entry.recordingsDeleted === 1 ? "" : "s"} deleted`);
+  }
+  for (const [target, deleted] of Object.entries(entry.documentsDeleted)) {
+    parts.push(`${deleted} ${RETENTION_TARGET_LABELS[target as RetentionTarget].toLowerCase()} deleted`);
+  }
+  if (entry.casesOnHold > 0) {
+    parts.push(`${entry.casesOnHold} case${entry.casesOnHold === 1 ? "" : "s"} skipped for legal hold`);
+  }
+  return parts.join(" · ");
+}
+
+export default function RetentionPurgeRuns() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: runs = [], isLoading } = useQuery<RetentionPurgeRun[]>({
+    queryKey: ["/api/admin/retention/runs"],
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/retention/runs");
+      return await response.json() as RetentionPurgeRun;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/retention/runs"] });
+      toast({
+        title: run.status === "failed" ? "Purge failed" : "Purge complete",
+        description: run.error || "The report has been added to the list",
+        variant: run.status === "failed" ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run the retention purge",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="w-5 h-5" />
+          Retention Purge Runs
+        </CardTitle>
+        <Button variant="outline" onClick={() => runNowMutation.mutate()} disabled={runNowMutation.isPending}>
+          <Play className="w-4 h-4 mr-2" />
+          {runNowMutation.isPending ? "Running..." : "Run Now"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Loading purge runs...</div>
+        ) : runs.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">No purges have run yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Report</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => {
+                const report: RetentionPurgeReport | null = run.report ? JSON.parse(run.report) : null;
+                return (
+                  <TableRow key={run.id} className="align-top">
+                    <TableCell className="whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</TableCell>
+                    <TableCell className="capitalize">{run.trigger}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[run.status] ?? "secondary"} className="capitalize">
+                        {run.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="space-y-1 text-sm">
+                      {run.error && <p className="text-red-600">{run.error}</p>}
+                      {report?.organizations.length === 0 && (
+                        <p className="text-slate-500">No organization has retention rules</p>
+                      )}
+                      {report?.organizations.map((entry) => (
+                        <p key={entry.organizationId}>
+                          <span className="font-medium">{entry.organizationName}:</span> {describeOrganization(entry)}
+                        </p>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Archive } from "lucide-react";
+import { RETENTION_TARGETS, RETENTION_TARGET_LABELS, type RetentionRule, type RetentionTarget } from "@shared/schema";
+
+type RetentionDays = Record<RetentionTarget, string>;
+
+function toDays(rules: RetentionRule[]): RetentionDays {
+  const days = Object.fromEntries(RETENTION_TARGETS.map((target) => [target, ""])) as RetentionDays;
+  for (const rule of rules) {
+    days[rule.target as RetentionTarget] = String(rule.retainDays);
+  }
+  return days;
+}
+
+function describeDays(value: string): string {
+  const days = parseInt(value);
+  if (!days) return "Kept indefinitely";
+  if (days >= 365 && days % 365 === 0) return `${days / 365} year${days === 365 ? "" : "s"} after close`;
+  return `${days} day${days === 1 ? "" : "s"} after close`;
+}
+
+export default function RetentionSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState<RetentionDays>(toDays([]));
+
+  const { data: rules, isLoading } = useQuery<RetentionRule[]>({
+    queryKey: ["/api/organizations/current/retention"],
+  });
+
+  useEffect(() => {
+    if (rules) setDays(toDays(rules));
+  }, [rules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const updated = RETENTION_TARGETS
+        .filter((target) => days[target].trim())
+        .map((target) => ({ target, retainDays: parseInt(days[target]) }));
+      const response = await apiRequest("PUT", "/api/organizations/current/retention", { rules: updated });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current/retention"] });
+      toast({ title: "Retention rules saved", description: "They apply from the next daily purge" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save retention rules",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="w-5 h-5" />
+          Data Retention
+        </CardTitle>
+        <CardDescription>
+          How many days to keep each kind of record once a case is closed. Leave a box empty to keep those
+          records indefinitely. Cases on legal hold are never purged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4 text-slate-500">Loading...</div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="divide-y">
+              {RETENTION_TARGETS.map((target) => (
+                <div key={target} className="flex items-center justify-between gap-4 py-2">
+                  <div>
+                    <Label htmlFor={`retention-${target}`}>{RETENTION_TARGET_LABELS[target]}</Label>
+                    <p className="text-sm text-slate-500">{describeDays(days[target])}</p>
+                  </div>
+                  <Input
+                    id={`retention-${target}`}
+                    type="number"
+                    min={1}
+                    className="w-32"
+                    placeholder="Days"
+                    value={days[target]}
+                    onChange={(e) => setDays({ ...days, [target]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Retention Rules"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw, Users } from "lucide-react";
+import { listSpeakers, parseSpeakerRoles, type SpeakerTurn } from "@shared/speakerTurns";
+import { SPEAKER_ROLES, SPEAKER_ROLE_LABELS, type SpeakerRole, type Transcript } from "@shared/schema";
+
+type Draft = Record<string, { role?: SpeakerRole; informant: boolean }>;
+
+interface SpeakerRolesEditorProps {
+  transcript: Transcript;
+  turns: SpeakerTurn[];
+  onSaved: (transcript: Transcript) => void;
+  // Runs extraction again so the corrected roles reach the case
+  onReprocess?: () => void;
+}
+
+export default function SpeakerRolesEditor({ transcript, turns, onSaved, onReprocess }: SpeakerRolesEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const speakers = useMemo(() => listSpeakers(turns), [turns]);
+  const [draft, setDraft] = useState<Draft>({});
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const roles = parseSpeakerRoles(transcript.speakerRoles);
+    setDraft(Object.fromEntries(speakers.map((speaker) => [
+      speaker,
+      { role: roles[speaker]?.role, informant: !!roles[speaker]?.informant },
+    ])));
+  }, [transcript.id, transcript.speakerRoles, speakers]);
+
+  useEffect(() => setSaved(false), [transcript.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const roles = Object.fromEntries(
+        Object.entries(draft)
+          .filter(([, label]) => label.role)
+          .map(([speaker, label]) => [speaker, { role: label.role, informant: label.informant }])
+      );
+      const response = await apiRequest("PUT", `/api/transcripts/${transcript.id}/speaker-roles`, { roles });
+      return await response.json() as Transcript;
+    },
+    onSuccess: (updated) => {
+      setSaved(true);
+      onSaved(updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
+      toast({
+        title: "Speakers updated",
+        description: transcript.status === "processed"
+          ? "Re-run extraction to update the case with these speakers"
+          : "These speakers will be used when the transcript is processed",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update speakers",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setRole = (speaker: string, role: SpeakerRole) => {
+    setDraft((current) => ({ ...current, [speaker]: { ...current[speaker], role } }));
+  };
+
+  // There is one informant per conversation
+  const setInformant = (speaker: string, informant: boolean) => {
+    setDraft((current) => Object.fromEntries(Object.entries(current).map(([name, label]) => [
+      name,
+      { ...label, informant: name === speaker ? informant : informant ? false : label.informant },
+    ])));
+  };
+
+  return (
+    <div className="mb-3 rounded-lg border border-slate-200 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="flex items-center gap-2 text-sm font-medium text-slate-900">
+          <Users className="h-4 w-4" />
+          Speakers
+        </p>
+        <div className="flex items-center gap-2">
+          {saved && transcript.status === "processed" && onReprocess && (
+            <Button variant="outline" size="sm" onClick={onReprocess}>
+              <RefreshCw className="mr-2 h-3 w-3" />
+              Re-run extraction
+            </Button>
+          )}
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save speakers"}
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {speakers.map((speaker) => (
+          <div key={speaker} className="flex items-center gap-3 text-sm">
+            <span className="w-40 truncate font-medium text-slate-700" title={speaker}>{speaker}</span>
+            <Select value={draft[speaker]?.role ?? ""} onValueChange={(role) => setRole(speaker, role as SpeakerRole)}>
+              <SelectTrigger className="h-8 w-48">
+                <SelectValue placeholder="Not identified" />
+              </SelectTrigger>
+              <SelectContent>
+                {SPEAKER_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{SPEAKER_ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-slate-600">
+              <Checkbox
+                checked={!!draft[speaker]?.informant}
+                onCheckedChange={(checked) => setInformant(speaker, checked === true)}
+              />
+              Informant
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Quote, AlertCircle } from "lucide-react";
+import type { FieldSource } from "@shared/extraction";
+import { transcriptText } from "@shared/speakerTurns";
+
+export interface SourceTranscript {
+  id: number;
+  filename: string;
+  content: string;
+  speakerTurns?: string | null;
+}
+
+interface TranscriptSourceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fieldLabel: string;
+  // Every conversation in the case, the opening one first
+  transcripts: SourceTranscript[];
+  sources: FieldSource[];
+}
+
+interface Segment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Split the transcript into plain and highlighted runs, merging overlapping spans
+function buildSegments(content: string, sources: FieldSource[]): Segment[] {
+  const spans = sources
+    .filter((source): source is FieldSource & { start: number; end: number } =>
+      source.start !== null && source.end !== null)
+    .map(source => ({ start: source.start, end: source.end }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const span of merged) {
+    if (span.start > cursor) {
+      segments.push({ text: content.slice(cursor, span.start), highlighted: false });
+    }
+    segments.push({ text: content.slice(span.start, span.end), highlighted: true });
+    cursor = span.end;
+  }
+  if (cursor < content.length) {
+    segments.push({ text: content.slice(cursor), highlighted: false });
+  }
+
+  return segments;
+}
+
+export default function TranscriptSourceDialog({
+  open,
+  onOpenChange,
+  fieldLabel,
+  transcripts,
+  sources,
+}: TranscriptSourceDialogProps) {
+  // Sources recorded before a case had follow-ups carry no transcript id and belong to the opening one
+  const passages = useMemo(
+    () => transcripts
+      .map(transcript => {
+        const own = sources.filter(source => (source.transcriptId ?? transcripts[0].id) === transcript.id);
+        return { transcript, segments: own.length > 0 ? buildSegments(transcriptText(transcript), own) : [] };
+      })
+      .filter(passage => passage.segments.some(segment => segment.highlighted)),
+    [transcripts, sources]
+  );
+  const unlocated = sources.filter(source => source.start === null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <Quote className="w-5 h-5" />
+            Source: {fieldLabel}
+          </DialogTitle>
+        </DialogHeader>
+
+        {unlocated.length > 0 && (
+          <div className="flex-shrink-0 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+            <div className="flex items-center gap-2 font-medium mb-1">
+              <AlertCircle className="w-4 h-4" />
+              Not found word for word in the transcript
+            </div>
+            {unlocated.map((source, index) => (
+              <p key={index} className="italic">"{source.quote}"</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {passages.map(({ transcript, segments }, passageIndex) => {
+            const firstHighlight = passageIndex === 0 ? segments.findIndex(segment => segment.highlighted) : -1;
+
+            return (
+              <div key={transcript.id}>
+                {transcripts.length > 1 && (
+                  <p className="mb-1 text-xs font-medium text-gray-500">{transcript.filename}</p>
+                )}
+                <div className="rounded-md border bg-gray-50 p-4 text-sm leading-relaxed whitespace-pre-wrap">
+                  {segments.map((segment, index) =>
+                    segment.highlighted ? (
+                      <mark
+                        key={index}
+                        ref={index === firstHighlight ? (node) => node?.scrollIntoView({ block: 'center' }) : undefined}
+                        className="bg-yellow-200 rounded px-0.5"
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
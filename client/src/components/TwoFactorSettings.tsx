@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Download, KeyRound, ShieldCheck } from "lucide-react";
+import type { TwoFactorEnrollment, TwoFactorStatus } from "@shared/schema";
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Shown once, straight after the codes are made; the server only keeps their hashes
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard" });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([codes.join("\r\n") + "\r\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "funeralflow-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertDescription>
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone,
+          and they won't be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-slate-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={copy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button variant="outline" onClick={download}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+        <Button className="ml-auto" onClick={onDone}>
+          I've Saved These Codes
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<"regenerate" | "disable" | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/two-factor"],
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    setCode("");
+    setPassword("");
+    setAction(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/setup");
+      return await response.json() as TwoFactorEnrollment;
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setEnrollment(data);
+    },
+    onError: onError("Failed to start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/enable", { code });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+      toast({ title: "Two-factor authentication is on", description: "You'll be asked for a code when you sign in" });
+    },
+    onError: onError("Failed to turn on two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/recovery-codes", { code });
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError: onError("Failed to create new recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/two-factor/disable", { password, code });
+      return await response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: onError("Failed to turn off two-factor authentication"),
+  });
+
+  const renderBody = () => {
+    if (isLoading || !status) {
+      return <div className="text-center py-4 text-slate-500">Loading...</div>;
+    }
+
+    if (recoveryCodes) {
+      return <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+    }
+
+    if (enrollment) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+            then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col items-center gap-2">
+            <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48" />
+            <p className="text-xs text-slate-500">
+              Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+            </p>
+          </div>
+          <div className="flex justify-center">
+            <CodeInput value={code} onChange={setCode} />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={() => enableMutation.mutate()}
+              disabled={code.length !== 6 || enableMutation.isPending}
+            >
+              {enableMutation.isPending ? "Verifying..." : "Turn On"}
+            </Button>
+            <Button variant="outline" className="flex-1" onClick={() => setEnrollment(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-4">
+          {status.requiredByOrganization && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Your organization requires two-factor authentication. Turn it on to keep using FuneralFlow.
+              </AlertDescription>
+            </Alert>
+          )}
+          <p className="text-sm text-slate-600">
+            Ask for a code from an authenticator app on your phone whenever you sign in, so a stolen password
+            alone can't open your account.
+          </p>
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {setupMutation.isPending ? "Starting..." : "Set Up Two-Factor"}
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-slate-600">
+            On since {new Date(status.enabledAt!).toLocaleDateString()} · {status.recoveryCodesRemaining} recovery
+            code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAction(action === "regenerate" ? null : "regenerate")}>
+              <KeyRound className="w-4 h-4 mr-2" />
+              New Recovery Codes
+            </Button>
+            {!status.requiredByOrganization && (
+              <Button variant="outline" size="sm" onClick={() => setAction(action === "disable" ? null : "disable")}>
+                Turn Off
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {action && (
+          <form
+            className="space-y-4 rounded-md border p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              (action === "disable" ? disableMutation : regenerateMutation).mutate();
+            }}
+          >
+            {action === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Current Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Code from your authenticator app</Label>
+              <CodeInput value={code} onChange={setCode} />
+            </div>
+            <Button
+              type="submit"
+              variant={action === "disable" ? "destructive" : "default"}
+              disabled={code.length !== 6 || (action === "disable" && !password) || disableMutation.isPending || regenerateMutation.isPending}
+            >
+              {action === "disable" ? "Turn Off Two-Factor" : "Replace Recovery Codes"}
+            </Button>
+          </form>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>A second step at sign-in using an authenticator app.</CardDescription>
+      </CardHeader>
+      <CardContent>{renderBody()}</CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, authorizedFetch } from "@/lib/queryClient";
 import { OfflineUploadManager } from "@/lib/offlineUpload";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -15,6 +15,16 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AUDIO_FILE_EXTENSIONS, MAX_AUDIO_UPLOAD_BYTES, MAX_DOCUMENT_UPLOAD_BYTES, TRANSCRIPT_FILE_EXTENSIONS, type Arrangement } from "@shared/schema";
+
+const UPLOAD_FILE_EXTENSIONS: readonly string[] = [...TRANSCRIPT_FILE_EXTENSIONS, ...AUDIO_FILE_EXTENSIONS];
 import { CloudUpload, FolderOpen, Upload, X, WifiOff } from "lucide-react";
 
 interface UploadModalProps {
@@ -22,16 +32,24 @@ interface UploadModalProps {
   onClose: () => void;
 }
 
+const NEW_CASE = "new";
+
 export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
   const [textContent, setTextContent] = useState("");
   const [customFilename, setCustomFilename] = useState("");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragOver, setDragOver] = useState(false);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [caseId, setCaseId] = useState(NEW_CASE);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: cases = [] } = useQuery<Arrangement[]>({
+    queryKey: ["/api/arrangements"],
+    enabled: isOpen && isOnline,
+  });
+
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
@@ -46,7 +64,7 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
   }, []);
 
   const uploadMutation = useMutation({
-    mutationFn: async (data: { file?: File; content?: string; filename?: string }) => {
+    mutationFn: async (data: { file?: File; content?: string; filename?: string; arrangementId?: number }) => {
       console.log('Upload mutation started, navigator.onLine:', navigator.onLine);
 
       // Test connectivity with a quick ping before attempting upload
@@ -124,6 +142,10 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
           }
         }
 
+        if (data.arrangementId) {
+          formData.append("arrangementId", String(data.arrangementId));
+        }
+
         console.log('Attempting to upload to server...');
         const controller = new AbortController();
         const timeoutId = setTimeout(() => {
@@ -131,11 +153,8 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
           controller.abort();
         }, 3000); // 3 second timeout for main upload
 
-        const response = await fetch("/api/transcripts/upload", {
+        const response = await authorizedFetch("/api/transcripts/upload", {
           method: "POST",
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
-          },
           body: formData,
           signal: controller.signal
         });
@@ -200,6 +219,9 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
         queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
         queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
         queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent"] });
+        if (result.arrangementId) {
+          queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${result.arrangementId}/transcripts`] });
+        }
         toast({
           title: "Success",
           description: "Transcript uploaded successfully",
@@ -221,6 +243,7 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
     setCustomFilename("");
     setSelectedFile(null);
     setDragOver(false);
+    setCaseId(NEW_CASE);
     uploadMutation.reset(); // Reset mutation state
     onClose();
   };
@@ -228,18 +251,21 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      if (file.size > 10 * 1024 * 1024) {
+      const isAudio = AUDIO_FILE_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension));
+      const maxBytes = isAudio ? MAX_AUDIO_UPLOAD_BYTES : MAX_DOCUMENT_UPLOAD_BYTES;
+      const maxMegabytes = maxBytes / 1024 / 1024;
+      if (file.size > maxBytes) {
         toast({
           title: "Error",
-          description: "File size must be less than 10MB",
+          description: `${isAudio ? "Recordings" : "File size"} must be less than ${maxMegabytes}MB`,
           variant: "destructive",
         });
         return;
       }
-      if (!file.name.endsWith(".txt")) {
+      if (!UPLOAD_FILE_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension))) {
         toast({
           title: "Error",
-          description: "Only .txt files are supported. For PDF files, please copy and paste the text content.",
+          description: `Upload one of: ${UPLOAD_FILE_EXTENSIONS.join(", ")}, or paste the text content.`,
           variant: "destructive",
         });
         return;
@@ -273,6 +299,8 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
       return;
     }
 
+    const arrangementId = caseId === NEW_CASE ? undefined : parseInt(caseId);
+
     // Check offline state BEFORE starting mutation to prevent hanging
     const isReallyOffline = !navigator.onLine;
     
@@ -283,8 +311,8 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
       
       // Handle offline immediately without using the hanging mutation
       const uploadData = selectedFile 
-        ? { file: selectedFile }
-        : { content: textContent.trim(), filename: customFilename || undefined };
+        ? { file: selectedFile, arrangementId }
+        : { content: textContent.trim(), filename: customFilename || undefined, arrangementId };
       
       const offlineId = `offline_${Date.now()}`;
       const filename = uploadData.filename || uploadData.file?.name || "transcript";
@@ -313,11 +341,12 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
     // Only use mutation for online uploads
     console.log('Using online upload mutation');
     if (selectedFile) {
-      uploadMutation.mutate({ file: selectedFile });
+      uploadMutation.mutate({ file: selectedFile, arrangementId });
     } else if (textContent.trim()) {
       uploadMutation.mutate({
         content: textContent,
         filename: customFilename || undefined,
+        arrangementId,
       });
     }
   };
@@ -359,6 +388,25 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
               />
             </div>
 
+            {cases.length > 0 && (
+              <div>
+                <Label htmlFor="case">Case</Label>
+                <Select value={caseId} onValueChange={setCaseId}>
+                  <SelectTrigger id="case" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEW_CASE}>New case</SelectItem>
+                    {cases.map((arrangement) => (
+                      <SelectItem key={arrangement.id} value={String(arrangement.id)}>
+                        Follow-up for {arrangement.deceasedName || `Arrangement #${arrangement.id}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div>
               <Label htmlFor="content">Transcript Content</Label>
               <Textarea
@@ -406,10 +454,10 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
               <CloudUpload className="h-6 w-6 text-primary-600" />
             </div>
             <p className="text-sm font-medium text-slate-900 mb-1">
-              {selectedFile ? selectedFile.name : "Upload .txt file"}
+              {selectedFile ? selectedFile.name : "Upload a transcript file"}
             </p>
             <p className="text-xs text-slate-500 mb-3">
-              Support for .txt files up to 10MB
+              Documents (text, PDF, Word, RTF), captions (VTT, SRT) or Zoom/Teams JSON up to 10MB, or recordings (M4A, MP3, WAV) up to 200MB
             </p>
             <Button type="button" variant="outline" size="sm">
               <FolderOpen className="mr-2 h-3 w-3" />
@@ -418,7 +466,7 @@ export default function UploadModal({ isOpen, onClose }: UploadModalProps) {
             <input
               id="file-input"
               type="file"
-              accept=".txt"
+              accept={UPLOAD_FILE_EXTENSIONS.join(",")}
               onChange={handleFileChange}
               className="hidden"
             />
@@ -1,13 +1,22 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { AuthService } from "@/lib/auth";
-import type { LoginCredentials, User, InsertUser } from "@shared/schema";
+import { AuthService, type AuthResponse, type CurrentUser } from "@/lib/auth";
+import type { LoginCredentials, InsertUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 
+// Set when the user arrived from an invitation link
+function getInviteToken() {
+  return new URLSearchParams(window.location.search).get("invite");
+}
+
 export function useAuth() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const queryClient = useQueryClient();
+  // Set while the login form waits for an authenticator code
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
   const { data: user, isLoading } = useQuery({
     queryKey: ["/api/auth/me"],
@@ -18,12 +27,11 @@ export function useAuth() {
   const loginMutation = useMutation({
     mutationFn: (credentials: LoginCredentials) => AuthService.login(credentials),
     onSuccess: (data) => {
-      queryClient.setQueryData(["/api/auth/me"], data.user);
-      toast({
-        title: "Success",
-        description: "Logged in successfully",
-      });
-      setLocation("/");
+      if ("twoFactorRequired" in data) {
+        setChallengeToken(data.challengeToken);
+        return;
+      }
+      completeLogin(data);
     },
     onError: (error: any) => {
       let errorMessage = error.message || "Login failed";
@@ -40,8 +48,33 @@ export function useAuth() {
     },
   });
 
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: (code: string) => AuthService.verifyTwoFactor(challengeToken!, code),
+    onSuccess: (data) => {
+      setChallengeToken(null);
+      completeLogin(data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Verification Failed",
+        description: error.message || "Invalid authentication code",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const completeLogin = (data: AuthResponse) => {
+    queryClient.setQueryData(["/api/auth/me"], data.user);
+    toast({
+      title: "Success",
+      description: "Logged in successfully",
+    });
+    const inviteToken = getInviteToken();
+    setLocation(inviteToken ? `/accept-invite?token=${inviteToken}` : "/");
+  };
+
   const registerMutation = useMutation({
-    mutationFn: (userData: InsertUser) => AuthService.register(userData),
+    mutationFn: (userData: InsertUser) => AuthService.register(userData, getInviteToken()),
     onSuccess: (data) => {
       queryClient.setQueryData(["/api/auth/me"], data.user);
       toast({
@@ -64,13 +97,20 @@ export function useAuth() {
     queryClient.clear();
   };
 
+  const currentUser = user as CurrentUser | undefined;
+
   return {
-    user: user as User | undefined,
+    user: currentUser,
+    can: (permission: Permission) => hasPermission(currentUser?.organization?.role, permission),
     isLoading,
     login: loginMutation.mutate,
     register: registerMutation.mutate,
     logout,
     isLoginPending: loginMutation.isPending,
+    isTwoFactorPending: !!challengeToken,
+    verifyTwoFactor: verifyTwoFactorMutation.mutate,
+    cancelTwoFactor: () => setChallengeToken(null),
+    isVerifyPending: verifyTwoFactorMutation.isPending,
     isRegisterPending: registerMutation.isPending,
   };
 }
@@ -0,0 +1,14 @@
+import { useEffect, useRef } from 'react';
+import type { ProgressEvent } from '@shared/progressEvents';
+import { subscribeToProgress } from '@/lib/progressEvents';
+
+export function useProgressEvents(url: string | null, onEvent: (event: ProgressEvent) => void) {
+  // Keep the latest handler without reopening the stream on every render
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!url) return;
+    return subscribeToProgress(url, (event) => handlerRef.current(event));
+  }, [url]);
+}
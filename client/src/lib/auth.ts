@@ -1,54 +1,105 @@
-import { apiRequest } from "./queryClient";
-import type { LoginCredentials, User, InsertUser } from "@shared/schema";
+import { apiRequest, clearSessionTokens, ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY } from "./queryClient";
+import type { LoginCredentials, User, InsertUser, OrganizationMembership } from "@shared/schema";
+
+// The signed-in user with the organization their token acts in
+export type CurrentUser = User & {
+  organization?: OrganizationMembership | null;
+  twoFactorEnabled?: boolean;
+  // The organization requires two-factor and the user hasn't turned it on
+  twoFactorSetupRequired?: boolean;
+};
 
 export interface AuthResponse {
   token: string;
-  user: User;
+  refreshToken: string;
+  user: CurrentUser;
   message: string;
 }
 
-export class AuthService {
-  private static TOKEN_KEY = "auth_token";
+// Returned by login instead of a session when the account has two-factor turned on
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
 
+// Returned whenever the organization a token acts in changes
+export interface OrganizationTokenResponse {
+  token: string;
+  organization: OrganizationMembership;
+}
+
+export class AuthService {
   static getToken(): string | null {
-    return localStorage.getItem(this.TOKEN_KEY);
+    return localStorage.getItem(ACCESS_TOKEN_KEY);
   }
 
   static setToken(token: string): void {
-    localStorage.setItem(this.TOKEN_KEY, token);
+    localStorage.setItem(ACCESS_TOKEN_KEY, token);
   }
 
-  static removeToken(): void {
-    localStorage.removeItem(this.TOKEN_KEY);
+  // Access tokens last minutes; the refresh token keeps the device signed in
+  static setSession(data: { token: string; refreshToken: string }): void {
+    localStorage.setItem(ACCESS_TOKEN_KEY, data.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
   }
 
-  static async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  static async login(credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallenge> {
     const response = await apiRequest("POST", "/api/auth/login", credentials);
     const data = await response.json();
-    this.setToken(data.token);
+    if (!data.twoFactorRequired) {
+      this.setSession(data);
+    }
     return data;
   }
 
-  static async register(userData: InsertUser): Promise<AuthResponse> {
-    const response = await apiRequest("POST", "/api/auth/register", userData);
+  static async verifyTwoFactor(challengeToken: string, code: string): Promise<AuthResponse> {
+    const response = await apiRequest("POST", "/api/auth/login/verify", { challengeToken, code });
     const data = await response.json();
-    this.setToken(data.token);
+    this.setSession(data);
+    return data;
+  }
+
+  static async register(userData: InsertUser, inviteToken?: string | null): Promise<AuthResponse> {
+    const response = await apiRequest("POST", "/api/auth/register", { ...userData, inviteToken });
+    const data = await response.json();
+    this.setSession(data);
     return data;
   }
 
-  static async getCurrentUser(): Promise<User> {
+  // Store the new token and start over so nothing cached from the previous organization is shown
+  static switchOrganization(data: OrganizationTokenResponse): void {
+    this.setToken(data.token);
+    window.location.href = "/";
+  }
+
+  static async getCurrentUser(): Promise<CurrentUser> {
     const response = await apiRequest("GET", "/api/auth/me");
     return await response.json();
   }
 
-  static logout(): void {
-    this.removeToken();
-    // Clear any cached data
-    localStorage.clear();
-    window.location.href = "/login";
+  static async logout(): Promise<void> {
+    // Ending the session on the server means the refresh token can't be used again
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } catch {
+      // Signed out locally even if the server can't be reached
+    }
+    this.clearLocalSession();
+  }
+
+  static async signOutEverywhere(): Promise<void> {
+    await apiRequest("DELETE", "/api/auth/sessions");
+    this.clearLocalSession();
   }
 
   static isAuthenticated(): boolean {
-    return !!this.getToken();
+    return !!this.getToken() || !!localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  private static clearLocalSession(): void {
+    clearSessionTokens();
+    // Clear any cached data
+    localStorage.clear();
+    window.location.href = "/login";
   }
 }
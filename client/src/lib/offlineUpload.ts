@@ -1,4 +1,5 @@
 // Offline file upload handling utilities
+import { authorizedFetch } from "./queryClient";
 
 export interface OfflineUploadData {
   id: string;
@@ -8,6 +9,7 @@ export interface OfflineUploadData {
   timestamp: number;
   isTextContent: boolean;
   customFilename?: string;
+  arrangementId?: number;
 }
 
 export class OfflineUploadManager {
@@ -18,6 +20,7 @@ export class OfflineUploadManager {
     file?: File;
     content?: string;
     filename?: string;
+    arrangementId?: number;
   }): Promise<string> {
     try {
       console.log('Starting storeUpload with:', { 
@@ -58,7 +61,8 @@ export class OfflineUploadManager {
         fileSize,
         timestamp: Date.now(),
         isTextContent,
-        customFilename: data.filename
+        customFilename: data.filename,
+        arrangementId: data.arrangementId
       };
 
       console.log('Storing upload data:', { 
@@ -132,11 +136,12 @@ export class OfflineUploadManager {
       formData.append("file", file);
     }
 
-    const response = await fetch("/api/transcripts/upload", {
+    if (upload.arrangementId) {
+      formData.append("arrangementId", String(upload.arrangementId));
+    }
+
+    const response = await authorizedFetch("/api/transcripts/upload", {
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${localStorage.getItem("auth_token")}`,
-      },
       body: formData,
     });
 
@@ -0,0 +1,64 @@
+import type { ProgressEvent, ProgressStage } from "@shared/progressEvents";
+import { authorizedFetch } from "./queryClient";
+
+export const PROGRESS_STAGE_LABELS: Record<ProgressStage, string> = {
+  extraction_started: "Extracting arrangement details...",
+  speakers_identified: "Speakers identified, extracting details...",
+  chunk_extracted: "Extracting arrangement details...",
+  json_parsed: "Details extracted, organizing...",
+  arrangement_saved: "Arrangement saved",
+  changes_proposed: "Proposed changes ready for review",
+  extraction_failed: "Extraction failed",
+  document_started: "Generating",
+  pdf_rendered: "PDF rendered",
+  document_completed: "Finished",
+  document_failed: "Failed",
+  job_completed: "All documents processed",
+};
+
+// EventSource can't send an Authorization header, so the stream is read with fetch instead
+export function subscribeToProgress(url: string, onEvent: (event: ProgressEvent) => void): () => void {
+  const controller = new AbortController();
+
+  (async () => {
+    const response = await authorizedFetch(url, {
+      headers: { Accept: "text/event-stream" },
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Progress stream unavailable (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() || "";
+
+      for (const frame of frames) {
+        const data = frame
+          .split("\n")
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice(5).trim())
+          .join("\n");
+
+        if (data) {
+          onEvent(JSON.parse(data));
+        }
+      }
+    }
+  })().catch(error => {
+    if (error?.name !== "AbortError") {
+      console.warn("Progress stream closed:", error);
+    }
+  });
+
+  return () => controller.abort();
+}
@@ -15,39 +15,90 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+export const ACCESS_TOKEN_KEY = "auth_token";
+export const REFRESH_TOKEN_KEY = "refresh_token";
+
+export function clearSessionTokens(): void {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+let pendingRefresh: Promise<boolean> | null = null;
+
+// Swaps the refresh token for a new pair. Concurrent callers share one request, since each
+// refresh token can only be used once
+export function refreshSession(): Promise<boolean> {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) return false;
+
+      try {
+        const res = await fetch("/api/auth/refresh", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        });
+
+        if (res.ok) {
+          const tokens = await res.json();
+          localStorage.setItem(ACCESS_TOKEN_KEY, tokens.token);
+          localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+          return true;
+        }
+
+        // Another tab may have used the same token a moment ago and stored the new pair
+        if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+          return true;
+        }
+
+        if (res.status === 401) {
+          clearSessionTokens();
+          window.location.href = "/login";
+        }
+        return false;
+      } catch {
+        return false;
+      }
+    })().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+// fetch with the access token attached. When the token has expired it is refreshed and the
+// request sent once more
+export async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers });
+  };
+
+  const res = await send();
+  if (res.status === 401 && await refreshSession()) {
+    return await send();
+  }
+  return res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  console.log(`=== CLIENT apiRequest DEBUG [${method}] ${url} ===`);
-  console.log("localStorage contents:", {...localStorage});
-  console.log("navigator.onLine:", navigator.onLine);
-  
-  const authToken = localStorage.getItem("auth_token");
-  const regularToken = localStorage.getItem("token");
-  const token = authToken || regularToken;
-  
-  console.log("auth_token from localStorage:", authToken);
-  console.log("token from localStorage:", regularToken);
-  console.log("Final token selected:", token);
-  
   const headers: Record<string, string> = {};
-  
+
   if (data) {
     headers["Content-Type"] = "application/json";
   }
-  
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-    console.log("Authorization header set:", `Bearer ${token.substring(0, 20)}...`);
-  } else {
-    console.error("❌ NO TOKEN FOUND!");
-    console.log("Available localStorage keys:", Object.keys(localStorage));
-  }
 
   try {
-    const res = await fetch(url, {
+    const res = await authorizedFetch(url, {
       method,
       headers,
       body: data ? JSON.stringify(data) : undefined,
@@ -59,15 +110,12 @@ export async function apiRequest(
     // If offline and it's a write operation, store for later sync
     if (!navigator.onLine && (method === 'POST' || method === 'PUT' || method === 'DELETE')) {
       try {
-        // Store the request for sync when back online - ensure token is included
+        // Store the request for sync when back online; the token is attached when it is sent,
+        // since the current one will have expired by then
         const offlineRequest = {
           url,
           method,
-          headers: {
-            ...headers,
-            // Ensure auth header is preserved even if not originally included
-            ...(token && { Authorization: `Bearer ${token}` })
-          },
+          headers,
           body: data ? JSON.stringify(data) : undefined,
           timestamp: Date.now()
         };
@@ -100,17 +148,8 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem("auth_token");
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-
     try {
-      const res = await fetch(queryKey[0] as string, {
-        headers,
-      });
+      const res = await authorizedFetch(queryKey[0] as string);
 
       if (unauthorizedBehavior === "returnNull" && res.status === 401) {
         return null;
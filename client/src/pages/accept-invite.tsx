@@ -0,0 +1,91 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { AuthService, type OrganizationTokenResponse } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { InvitePreview } from "@shared/schema";
+
+export default function AcceptInvite() {
+  const { toast } = useToast();
+
+  // Extract token from URL
+  const urlParams = new URLSearchParams(window.location.search);
+  const token = urlParams.get('token');
+
+  const { data: invite, isLoading, error } = useQuery<InvitePreview>({
+    queryKey: [`/api/invites/${token}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/invites/${token}/accept`);
+      return await response.json() as OrganizationTokenResponse;
+    },
+    onSuccess: (data) => AuthService.switchOrganization(data),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <div className="mx-auto h-8 w-8 animate-spin rounded-full border-b-2 border-primary-600" />;
+    }
+
+    if (!token || error || !invite || invite.status !== 'pending') {
+      return (
+        <>
+          <p className="text-slate-600 mb-4">
+            {invite?.status === 'accepted'
+              ? "This invitation has already been used."
+              : "This invitation link is invalid or has expired. Ask the funeral home to send a new one."}
+          </p>
+          <Link href="/">
+            <Button variant="outline" className="w-full">Go to FuneralFlow</Button>
+          </Link>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <p className="text-slate-600 mb-6">
+          You've been invited to join <span className="font-medium text-slate-900">{invite.organizationName}</span> as {invite.email}.
+        </p>
+        {AuthService.isAuthenticated() ? (
+          <Button className="w-full" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+            {acceptMutation.isPending ? "Joining..." : `Join ${invite.organizationName}`}
+          </Button>
+        ) : (
+          <div className="space-y-3">
+            <Link href={`/login?invite=${token}`}>
+              <Button className="w-full">Sign In to Accept</Button>
+            </Link>
+            <Link href={`/register?invite=${token}`}>
+              <Button variant="outline" className="w-full">Create an Account</Button>
+            </Link>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-center">Join a Funeral Home</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center">{renderBody()}</CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, ScrollText } from "lucide-react";
+import { AUDIT_ACTIONS, AUDIT_RESOURCE_TYPES, type AuditEventPage } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+interface Filters {
+  userId: string;
+  organizationId: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  userId: "",
+  organizationId: "",
+  action: "all",
+  resourceType: "all",
+  resourceId: "",
+  from: "",
+  to: "",
+};
+
+function toSearchParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.userId) params.append("userId", filters.userId);
+  if (filters.organizationId) params.append("organizationId", filters.organizationId);
+  if (filters.action !== "all") params.append("action", filters.action);
+  if (filters.resourceType !== "all") params.append("resourceType", filters.resourceType);
+  if (filters.resourceId) params.append("resourceId", filters.resourceId);
+  if (filters.from) params.append("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  // The end date is inclusive
+  if (filters.to) params.append("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export default function AdminAudit() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const params = toSearchParams(filters);
+  const pageParams = new URLSearchParams(params);
+  pageParams.append("limit", String(PAGE_SIZE));
+  pageParams.append("offset", String(page * PAGE_SIZE));
+
+  const { data, isLoading } = useQuery<AuditEventPage>({
+    queryKey: [`/api/admin/audit-events?${pageParams.toString()}`],
+  });
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(0);
+  };
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", `/api/admin/audit-events/export?${params.toString()}`);
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Failed to export the audit log.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <ScrollText className="w-8 h-8 text-red-600" />
+          <div>
+            <h1 className="text-3xl font-bold">Audit Log</h1>
+            <p className="text-gray-600">Every read, change, export, download and deletion of family records</p>
+          </div>
+        </div>
+        <Button onClick={exportCsv} disabled={isExporting}>
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? "Exporting..." : "Export CSV"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Filters</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+          <div>
+            <Label htmlFor="audit-user">User ID</Label>
+            <Input id="audit-user" type="number" value={filters.userId} onChange={(e) => updateFilter("userId", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="audit-organization">Organization ID</Label>
+            <Input
+              id="audit-organization"
+              type="number"
+              value={filters.organizationId}
+              onChange={(e) => updateFilter("organizationId", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Action</Label>
+            <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {AUDIT_ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action}>{capitalize(action)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Record</Label>
+            <Select value={filters.resourceType} onValueChange={(value) => updateFilter("resourceType", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All records</SelectItem>
+                {AUDIT_RESOURCE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{capitalize(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-resource">Record ID</Label>
+            <Input
+              id="audit-resource"
+              type="number"
+              value={filters.resourceId}
+              onChange={(e) => updateFilter("resourceId", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="text-center py-8">Loading audit events...</div>
+          ) : !data || data.events.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">No matching audit events</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Organization</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{event.userName ?? `User ${event.userId}`}</div>
+                      <div className="text-xs text-slate-500">{event.userEmail}</div>
+                    </TableCell>
+                    <TableCell>{event.organizationName ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={event.action === 'delete' ? 'destructive' : 'secondary'}>{capitalize(event.action)}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {capitalize(event.resourceType)}
+                      {event.resourceId !== null && ` #${event.resourceId}`}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{event.method} {event.route}</TableCell>
+                    <TableCell className={event.statusCode >= 400 ? "text-red-600" : undefined}>{event.statusCode}</TableCell>
+                    <TableCell className="font-mono text-xs">{event.ipAddress ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex items-center justify-between mt-4 text-sm text-slate-600">
+            <span>{total} event{total === 1 ? "" : "s"}</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                Previous
+              </Button>
+              <span>Page {page + 1} of {pageCount}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -21,7 +21,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Shield, Users, Crown, User } from "lucide-react";
+import { Shield, Users, Crown, User, Unlock } from "lucide-react";
+import RetentionPurgeRuns from "@/components/RetentionPurgeRuns";
 
 interface User {
   id: number;
@@ -31,6 +32,12 @@ interface User {
   role: string;
   createdAt: string;
   updatedAt: string;
+  failedLoginAttempts: number;
+  lockedUntil: string | null;
+}
+
+function isLocked(user: User) {
+  return !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
 }
 
 export default function AdminPage() {
@@ -66,6 +73,27 @@ export default function AdminPage() {
     },
   });
 
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/admin/users/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Account Unlocked",
+        description: "The user can sign in again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Unlock Failed",
+        description: error.message || "Failed to unlock the account.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getRoleIcon = (role: string) => {
     switch (role) {
       case 'admin':
@@ -123,7 +151,14 @@ export default function AdminPage() {
                 <TableBody>
                   {users.map((user) => (
                     <TableRow key={user.id}>
-                      <TableCell className="font-medium">{user.name}</TableCell>
+                      <TableCell className="font-medium">
+                        {user.name}
+                        {isLocked(user) && (
+                          <Badge variant="destructive" className="ml-2" title={`${user.failedLoginAttempts} failed sign-ins`}>
+                            Locked until {new Date(user.lockedUntil!).toLocaleTimeString()}
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{user.email}</TableCell>
                       <TableCell>{user.funeralHome || "—"}</TableCell>
                       <TableCell>
@@ -157,6 +192,18 @@ export default function AdminPage() {
                             <SelectItem value="admin">Admin</SelectItem>
                           </SelectContent>
                         </Select>
+                        {isLocked(user) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-2"
+                            onClick={() => unlockMutation.mutate(user.id)}
+                            disabled={unlockMutation.isPending}
+                          >
+                            <Unlock className="w-4 h-4 mr-1" />
+                            Unlock
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -198,6 +245,8 @@ export default function AdminPage() {
             </CardContent>
           </Card>
         </div>
+
+        <RetentionPurgeRuns />
     </div>
   );
 }
\ No newline at end of file
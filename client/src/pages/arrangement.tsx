@@ -3,25 +3,25 @@ import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import Layout from "@/components/Layout";
 import ArrangementView from "@/components/ArrangementView";
 import DocumentsManager from "@/components/DocumentsManager";
+import ProposedChanges from "@/components/ProposedChanges";
+import CaseRetention from "@/components/CaseRetention";
+import type { Arrangement, ArrangementDelta, FieldHistoryEntry, Transcript } from "@shared/schema";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, CheckCircle, Clock, Loader2, FileText, CheckCheck } from "lucide-react";
+import { ArrowLeft, CheckCircle, Clock, FileText, CheckCheck, Scale } from "lucide-react";
 
 export default function ArrangementPage() {
   const { id } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
   const [isApproved, setIsApproved] = useState(false);
-  const [showProcessingDialog, setShowProcessingDialog] = useState(false);
-  const [processingProgress, setProcessingProgress] = useState(0);
-  const [processingStep, setProcessingStep] = useState("");
 
   // Get URL search parameters for tab selection
   const urlParams = new URLSearchParams(window.location.search);
@@ -39,6 +39,24 @@ export default function ArrangementPage() {
     enabled: !!id,
   });
 
+  const caseId = (arrangement as any)?.id;
+
+  // Every conversation in the case, for sources and proposed changes
+  const { data: caseTranscripts = [] } = useQuery<Transcript[]>({
+    queryKey: [`/api/arrangements/${caseId}/transcripts`],
+    enabled: !!caseId,
+  });
+
+  const { data: pendingDeltas = [] } = useQuery<ArrangementDelta[]>({
+    queryKey: [`/api/arrangements/${caseId}/deltas`],
+    enabled: !!caseId,
+  });
+
+  const { data: fieldHistory = [] } = useQuery<FieldHistoryEntry[]>({
+    queryKey: [`/api/arrangements/${caseId}/history`],
+    enabled: !!caseId,
+  });
+
   // Update arrangement data
   const updateArrangementMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -49,6 +67,7 @@ export default function ArrangementPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/transcripts/${id}/arrangement`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${caseId}/history`] });
       toast({
         title: "Arrangement Updated",
         description: "Your changes have been saved successfully.",
@@ -66,82 +85,31 @@ export default function ArrangementPage() {
     },
   });
 
-  // Approve arrangement and generate documents
+  // Approve arrangement and queue document generation
   const approveArrangementMutation = useMutation({
     mutationFn: async () => {
-      console.log('Approval mutation triggered');
       const arrangementObj = arrangement as any;
-      console.log('Arrangement ID:', arrangementObj.id);
-
-      // Show processing dialog and start progress simulation
-      setShowProcessingDialog(true);
-      setProcessingProgress(0);
-      setProcessingStep("Initializing document generation...");
-
-      // Simulate progress updates during the long API call
-      const progressInterval = setInterval(() => {
-        setProcessingProgress(prev => {
-          const newProgress = Math.min(prev + Math.random() * 12, 90);
-          if (newProgress < 20) {
-            setProcessingStep("Analyzing arrangement data...");
-          } else if (newProgress < 40) {
-            setProcessingStep("Generating contract and summary documents...");
-          } else if (newProgress < 60) {
-            setProcessingStep("Creating obituary and death certificate info...");
-          } else if (newProgress < 80) {
-            setProcessingStep("Generating funeral director task list...");
-          } else {
-            setProcessingStep("Creating family arranger to-do list...");
-          }
-          return newProgress;
-        });
-      }, 8000);
-
-      try {
-        const token = localStorage.getItem("auth_token");
-        console.log('Auth token exists:', !!token);
-        console.log('Making request to:', `/api/arrangements/${arrangementObj.id}/approve`);
-
-        const response = await apiRequest('POST', `/api/arrangements/${arrangementObj.id}/approve`);
-        console.log('API response received:', response.status);
-        const data = await response.json();
-        console.log('Response data:', data);
-
-        // Complete the progress
-        clearInterval(progressInterval);
-        setProcessingProgress(100);
-        setProcessingStep("Documents generated successfully!");
-
-        // Keep dialog open briefly to show completion
-        setTimeout(() => {
-          setShowProcessingDialog(false);
-        }, 1500);
-
-        return data;
-      } catch (error) {
-        clearInterval(progressInterval);
-        setShowProcessingDialog(false);
-        console.error('API request failed:', error);
-        console.error('Error details:', (error as Error).message);
-        throw error;
-      }
+      const response = await apiRequest('POST', `/api/arrangements/${arrangementObj.id}/approve`);
+      return response.json();
     },
     onSuccess: (data) => {
       setIsApproved(true);
       queryClient.invalidateQueries({ queryKey: [`/api/transcripts/${id}/arrangement`] });
       const arrangementObj = arrangement as any;
+      queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${arrangementObj.id}/jobs/latest`] });
       queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${arrangementObj.id}/documents`] });
       queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${arrangementObj.id}/tasks`] });
       // Invalidate the arrangements status query to update transcript list
       queryClient.invalidateQueries({ queryKey: ["/api/arrangements/status"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/review-queue"] });
 
-      // Switch to documents tab after successful approval
+      // Switch to documents tab so the director can follow each document's progress
       setActiveTab("documents");
 
       toast({
         title: "Arrangement Approved",
-        description: `Documents generated successfully. ${data.documents?.length || 0} documents created.`,
+        description: `Generating ${data.job?.documents?.length || 0} documents in the background.`,
       });
     },
     onError: (error) => {
@@ -154,6 +122,82 @@ export default function ArrangementPage() {
     },
   });
 
+  // Confirm flagged fields so the arrangement can be approved
+  const confirmFieldsMutation = useMutation({
+    mutationFn: async (paths: string[]) => {
+      const arrangementObj = arrangement as any;
+      const response = await apiRequest('POST', `/api/arrangements/${arrangementObj.id}/reviews/confirm`, { paths });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/transcripts/${id}/arrangement`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/review-queue"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Confirmation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Apply the director's decisions on changes proposed by a follow-up conversation
+  const resolveDeltaMutation = useMutation({
+    mutationFn: async ({ deltaId, decisions }: { deltaId: number; decisions: Record<string, 'accept' | 'reject'> }) => {
+      const response = await apiRequest('POST', `/api/arrangement-deltas/${deltaId}/resolve`, { decisions });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/transcripts/${id}/arrangement`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${caseId}/deltas`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${caseId}/history`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/review-queue"] });
+      if (data.job) {
+        queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${caseId}/jobs/latest`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${caseId}/documents`] });
+      }
+
+      toast({
+        title: "Changes Applied",
+        description: data.job
+          ? `Regenerating ${data.job.documents?.length || 0} affected document(s) in the background.`
+          : "The arrangement has been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Apply Changes",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Undo one logged change to a field
+  const revertChangeMutation = useMutation({
+    mutationFn: async (changeId: number) => {
+      const response = await apiRequest('POST', `/api/arrangements/${caseId}/history/${changeId}/revert`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/transcripts/${id}/arrangement`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${caseId}/history`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/review-queue"] });
+      toast({
+        title: "Change Reverted",
+        description: "The field has been restored to its earlier value.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Revert Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // PDF export
   const exportPDFMutation = useMutation({
     mutationFn: async () => {
@@ -219,6 +263,9 @@ export default function ArrangementPage() {
 
   const arrangementObj = arrangement as any;
   const arrangementData = arrangementObj?.extractedData ? JSON.parse(arrangementObj.extractedData) : null;
+  const fieldSources = arrangementObj?.fieldSources ? JSON.parse(arrangementObj.fieldSources) : {};
+  const fieldReviews = arrangementObj?.fieldReviews ? JSON.parse(arrangementObj.fieldReviews) : {};
+  const mergeDecisions = arrangementObj?.mergeDecisions ? JSON.parse(arrangementObj.mergeDecisions) : [];
 
   if (!arrangementData) {
     return (
@@ -261,6 +308,17 @@ export default function ArrangementPage() {
           </div>
 
           <div className="flex items-center gap-2">
+            {arrangementObj.legalHold && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-red-50 text-red-700 rounded-md border border-red-200">
+                <Scale className="w-4 h-4" />
+                Legal Hold
+              </div>
+            )}
+            {arrangementObj.closedAt && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-slate-50 text-slate-700 rounded-md border border-slate-200">
+                Closed
+              </div>
+            )}
             {isApproved ? (
               <div className="flex items-center gap-2 px-3 py-1 bg-green-50 text-green-700 rounded-md border border-green-200">
                 <CheckCircle className="w-4 h-4" />
@@ -283,15 +341,40 @@ export default function ArrangementPage() {
           </TabsList>
 
           <TabsContent value="arrangement" className="space-y-6">
+            {can('edit_arrangements') && pendingDeltas.map((delta) => (
+              <ProposedChanges
+                key={delta.id}
+                delta={delta}
+                sourceName={caseTranscripts.find((caseTranscript) => caseTranscript.id === delta.transcriptId)?.filename || 'a follow-up conversation'}
+                onResolve={(decisions) => resolveDeltaMutation.mutate({ deltaId: delta.id, decisions })}
+                isResolving={resolveDeltaMutation.isPending}
+              />
+            ))}
+
+            {/* Remounted when applied changes replace the data being edited */}
             <ArrangementView
+              key={arrangementObj.updatedAt}
               arrangementData={arrangementData}
-              onSave={(data) => updateArrangementMutation.mutate(data)}
+              onSave={can('edit_arrangements') ? (data) => updateArrangementMutation.mutate(data) : undefined}
               onDownloadPDF={() => exportPDFMutation.mutate()}
-              onApprove={() => {
+              onApprove={can('approve_arrangements') ? () => {
                 console.log('Approve button clicked');
                 approveArrangementMutation.mutate();
-              }}
+              } : undefined}
               isApproved={isApproved}
+              fieldSources={fieldSources}
+              transcripts={caseTranscripts.length > 0 ? caseTranscripts : [transcript as Transcript]}
+              fieldReviews={fieldReviews}
+              onConfirmFields={can('edit_arrangements') ? (paths) => confirmFieldsMutation.mutate(paths) : undefined}
+              mergeDecisions={mergeDecisions}
+              fieldHistory={fieldHistory}
+              onRevertChange={can('edit_arrangements') ? (changeId) => revertChangeMutation.mutate(changeId) : undefined}
+              isReverting={revertChangeMutation.isPending}
+            />
+
+            <CaseRetention
+              arrangement={arrangementObj as Arrangement}
+              arrangementQueryKey={`/api/transcripts/${id}/arrangement`}
             />
           </TabsContent>
 
@@ -303,33 +386,6 @@ export default function ArrangementPage() {
           </TabsContent>
         </Tabs>
       </div>
-
-      {/* Processing Dialog */}
-      <Dialog open={showProcessingDialog} onOpenChange={() => {}}>
-        <DialogContent className="sm:max-w-[425px]">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
-              Processing Arrangement
-            </DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="text-sm text-gray-600">
-              {processingStep}
-            </div>
-            <Progress value={processingProgress} className="w-full" />
-            <div className="text-xs text-gray-500 text-center">
-              {Math.round(processingProgress)}% complete
-            </div>
-            {processingProgress === 100 && (
-              <div className="flex items-center justify-center gap-2 text-green-600 font-medium">
-                <CheckCircle className="w-4 h-4" />
-                All documents generated successfully!
-              </div>
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
     </Layout>
   );
 }
\ No newline at end of file
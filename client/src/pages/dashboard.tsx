@@ -24,8 +24,9 @@ import {
   MoreHorizontal,
   Trash2,
   FileEdit,
+  AlertTriangle,
 } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, authorizedFetch } from "@/lib/queryClient";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -33,10 +34,10 @@ async function throwIfResNotOk(res: Response) {
     throw new Error(`${res.status}: ${text}`);
   }
 }
-import type { Transcript } from "@shared/schema";
+import type { Transcript, ReviewQueueItem } from "@shared/schema";
 
 export default function Dashboard() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedTranscript, setSelectedTranscript] = useState<Transcript | null>(null);
@@ -63,6 +64,10 @@ export default function Dashboard() {
     queryKey: ["/api/dashboard/recent"],
   });
 
+  const { data: reviewQueue = [] } = useQuery<ReviewQueueItem[]>({
+    queryKey: ["/api/dashboard/review-queue"],
+  });
+
   // Fetch arrangement data for each transcript to show approval status
   const { data: arrangements = {} } = useQuery({
     queryKey: ["/api/arrangements/status"],
@@ -72,11 +77,7 @@ export default function Dashboard() {
       for (const transcript of recentTranscripts) {
         if (transcript.status === 'processed') {
           try {
-            const response = await fetch(`/api/transcripts/${transcript.id}/arrangement`, {
-              headers: {
-                'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-              }
-            });
+            const response = await authorizedFetch(`/api/transcripts/${transcript.id}/arrangement`);
             if (response.ok) {
               const arrangement = await response.json();
               arrangementsMap[transcript.id] = arrangement;
@@ -211,12 +212,14 @@ export default function Dashboard() {
               Here's what's happening with your arrangements today.
             </p>
           </div>
-          <div className="mt-4 sm:mt-0">
-            <Button onClick={() => setIsUploadModalOpen(true)}>
-              <Upload className="mr-2 h-4 w-4" />
-              Upload Transcript
-            </Button>
-          </div>
+          {can('upload_transcripts') && (
+            <div className="mt-4 sm:mt-0">
+              <Button onClick={() => setIsUploadModalOpen(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Upload Transcript
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Statistics Cards */}
@@ -334,13 +337,15 @@ export default function Dashboard() {
                 <div className="p-6 text-center text-slate-500">
                   <FileText className="mx-auto h-12 w-12 text-slate-300 mb-4" />
                   <p>No transcripts uploaded yet</p>
-                  <Button
-                    variant="outline"
-                    onClick={() => setIsUploadModalOpen(true)}
-                    className="mt-4"
-                  >
-                    Upload your first transcript
-                  </Button>
+                  {can('upload_transcripts') && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsUploadModalOpen(true)}
+                      className="mt-4"
+                    >
+                      Upload your first transcript
+                    </Button>
+                  )}
                 </div>
               ) : (
                 <>
@@ -382,7 +387,7 @@ export default function Dashboard() {
                             <Badge className={
                               transcript.status === "processed" 
                                 ? "bg-emerald-100 text-emerald-800 hover:bg-emerald-100 cursor-default pointer-events-none"
-                                : transcript.status === "processing"
+                                : transcript.status === "processing" || transcript.status === "transcribing"
                                 ? "bg-amber-100 text-amber-800 hover:bg-amber-100 cursor-default pointer-events-none"
                                 : "bg-blue-100 text-blue-800 hover:bg-blue-100 cursor-default pointer-events-none"
                             }>
@@ -396,6 +401,11 @@ export default function Dashboard() {
                                   <Clock className="w-3 h-3 mr-1" />
                                   Processing
                                 </>
+                              ) : transcript.status === "transcribing" ? (
+                                <>
+                                  <Clock className="w-3 h-3 mr-1" />
+                                  Transcribing
+                                </>
                               ) : (
                                 <>
                                   <FileText className="w-3 h-3 mr-1" />
@@ -438,39 +448,74 @@ export default function Dashboard() {
 
         {/* Sidebar */}
         <div className="space-y-6">
-          {/* Quick Upload */}
+          {/* Review Queue */}
           <Card>
             <CardHeader>
-              <CardTitle>Quick Upload</CardTitle>
+              <CardTitle>Needs Review</CardTitle>
             </CardHeader>
             <CardContent>
-              <div
-                className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center hover:border-primary-400 transition-colors cursor-pointer"
-                onClick={() => setIsUploadModalOpen(true)}
-              >
-                <div className="w-12 h-12 mx-auto bg-primary-100 rounded-lg flex items-center justify-center mb-4">
-                  <Upload className="h-6 w-6 text-primary-600" />
-                </div>
-                <p className="text-sm font-medium text-slate-900 mb-1">
-                  Drop files here or click to browse
+              {reviewQueue.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  No arrangements have fields waiting for review.
                 </p>
-                <p className="text-xs text-slate-500">
-                  Support for .txt and .pdf files up to 10MB
-                </p>
-              </div>
+              ) : (
+                <div className="space-y-3">
+                  {reviewQueue.map((item) => (
+                    <Link key={item.arrangementId} href={`/arrangement/${item.transcriptId}`}>
+                      <a className="flex items-center justify-between rounded-lg border border-slate-200 p-3 hover:bg-slate-50">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-slate-900 truncate">
+                            {item.deceasedName || item.filename}
+                          </p>
+                          <p className="text-xs text-slate-500 truncate">{item.filename}</p>
+                        </div>
+                        <Badge variant="outline" className="ml-3 flex-shrink-0 gap-1 border-yellow-300 bg-yellow-50 text-yellow-800">
+                          <AlertTriangle className="h-3 w-3" />
+                          {item.pendingReviewCount} to confirm
+                        </Badge>
+                      </a>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
 
-              <div className="mt-4">
-                <Button
-                  variant="outline"
-                  className="w-full"
+          {/* Quick Upload */}
+          {can('upload_transcripts') && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Quick Upload</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div
+                  className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center hover:border-primary-400 transition-colors cursor-pointer"
                   onClick={() => setIsUploadModalOpen(true)}
                 >
-                  <Edit className="mr-2 h-4 w-4" />
-                  Enter Text Directly
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+                  <div className="w-12 h-12 mx-auto bg-primary-100 rounded-lg flex items-center justify-center mb-4">
+                    <Upload className="h-6 w-6 text-primary-600" />
+                  </div>
+                  <p className="text-sm font-medium text-slate-900 mb-1">
+                    Drop files here or click to browse
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    Support for .txt and .pdf files up to 10MB
+                  </p>
+                </div>
+
+                <div className="mt-4">
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setIsUploadModalOpen(true)}
+                  >
+                    <Edit className="mr-2 h-4 w-4" />
+                    Enter Text Directly
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Quick Search */}
           <Card>
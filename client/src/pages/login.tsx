@@ -8,12 +8,94 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TwoFactorStepProps {
+  onVerify: (code: string) => void;
+  onCancel: () => void;
+  isPending: boolean;
+}
+
+// Second sign-in step for accounts with two-factor turned on
+function TwoFactorStep({ onVerify, onCancel, isPending }: TwoFactorStepProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      onVerify(code.trim());
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor."
+            : "Enter the 6-digit code from your authenticator app."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={onSubmit} className="space-y-6">
+          {useRecoveryCode ? (
+            <div>
+              <Label htmlFor="recovery-code">Recovery Code</Label>
+              <Input
+                id="recovery-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="mt-1 font-mono"
+                placeholder="xxxxx-xxxxx"
+                autoComplete="off"
+                autoFocus
+              />
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isPending || !code.trim()}>
+            {isPending ? "Verifying..." : "Verify"}
+          </Button>
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              type="button"
+              className="text-primary-600 hover:text-primary-700 font-medium"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode("");
+              }}
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </button>
+            <button type="button" className="text-slate-500 hover:text-slate-700" onClick={onCancel}>
+              Back to sign in
+            </button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Login() {
   console.log('Login component rendering...');
-  const { login, isLoginPending } = useAuth();
+  const { login, isLoginPending, isTwoFactorPending, verifyTwoFactor, cancelTwoFactor, isVerifyPending } = useAuth();
   const [rememberMe, setRememberMe] = useState(false);
+  const inviteToken = new URLSearchParams(window.location.search).get("invite");
   
   console.log('Login state:', { isLoginPending });
 
@@ -39,95 +121,99 @@ export default function Login() {
           </p>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Sign in to your account</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-              <div>
-                <Label htmlFor="email">Email Address</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  {...register("email")}
-                  className="mt-1"
-                  placeholder="Enter your email"
-                />
-                {errors.email && (
-                  <p className="mt-1 text-sm text-red-600">
-                    {errors.email.message}
-                  </p>
-                )}
-              </div>
-
-              <div>
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  {...register("password")}
-                  className="mt-1"
-                  placeholder="Enter your password"
-                />
-                {errors.password && (
-                  <p className="mt-1 text-sm text-red-600">
-                    {errors.password.message}
-                  </p>
-                )}
-              </div>
+        {isTwoFactorPending ? (
+          <TwoFactorStep onVerify={verifyTwoFactor} onCancel={cancelTwoFactor} isPending={isVerifyPending} />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign in to your account</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                <div>
+                  <Label htmlFor="email">Email Address</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    {...register("email")}
+                    className="mt-1"
+                    placeholder="Enter your email"
+                  />
+                  {errors.email && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.email.message}
+                    </p>
+                  )}
+                </div>
 
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="remember"
-                    checked={rememberMe}
-                    onCheckedChange={(checked) => setRememberMe(checked === true)}
+                <div>
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    {...register("password")}
+                    className="mt-1"
+                    placeholder="Enter your password"
                   />
-                  <Label htmlFor="remember" className="text-sm text-slate-600">
-                    Remember me
-                  </Label>
+                  {errors.password && (
+                    <p className="mt-1 text-sm text-red-600">
+                      {errors.password.message}
+                    </p>
+                  )}
                 </div>
-                <Link href="/forgot-password">
-                  <span className="text-sm text-primary-600 hover:text-primary-700 font-medium cursor-pointer">
-                    Forgot password?
-                  </span>
-                </Link>
-              </div>
 
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={isLoginPending}
-              >
-                {isLoginPending ? (
-                  <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-b-transparent border-white" />
-                ) : null}
-                Sign In
-              </Button>
-            </form>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="remember"
+                      checked={rememberMe}
+                      onCheckedChange={(checked) => setRememberMe(checked === true)}
+                    />
+                    <Label htmlFor="remember" className="text-sm text-slate-600">
+                      Remember me
+                    </Label>
+                  </div>
+                  <Link href="/forgot-password">
+                    <span className="text-sm text-primary-600 hover:text-primary-700 font-medium cursor-pointer">
+                      Forgot password?
+                    </span>
+                  </Link>
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoginPending}
+                >
+                  {isLoginPending ? (
+                    <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-b-transparent border-white" />
+                  ) : null}
+                  Sign In
+                </Button>
+              </form>
 
-            <div className="mt-6">
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <div className="w-full border-t border-slate-300" />
+              <div className="mt-6">
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-slate-300" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-2 bg-white text-slate-500">
+                      Need an account?
+                    </span>
+                  </div>
                 </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="px-2 bg-white text-slate-500">
-                    Need an account?
-                  </span>
+                <div className="mt-6">
+                  <Link href={inviteToken ? `/register?invite=${inviteToken}` : "/register"}>
+                    <Button variant="outline" className="w-full">
+                      Create New Account
+                    </Button>
+                  </Link>
                 </div>
               </div>
-              <div className="mt-6">
-                <Link href="/register">
-                  <Button variant="outline" className="w-full">
-                    Create New Account
-                  </Button>
-                </Link>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
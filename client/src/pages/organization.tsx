@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { AuthService, type OrganizationTokenResponse } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import RetentionSettings from "@/components/RetentionSettings";
+import { Building, Mail, Plus, ShieldCheck, Users } from "lucide-react";
+import type { OrganizationDetails } from "@shared/schema";
+import {
+  ORGANIZATION_ROLES,
+  ORGANIZATION_ROLE_LABELS,
+  canGrantRole,
+  normalizeOrganizationRole,
+  type OrganizationRole,
+} from "@shared/permissions";
+
+// Only the roles the viewer's own role covers can be handed out
+function RoleSelect({ value, onChange, grantorRole, disabled }: {
+  value: OrganizationRole;
+  onChange: (role: OrganizationRole) => void;
+  grantorRole: OrganizationRole;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as OrganizationRole)} disabled={disabled}>
+      <SelectTrigger className="w-44">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ORGANIZATION_ROLES.filter((role) => role === value || canGrantRole(grantorRole, role)).map((role) => (
+          <SelectItem key={role} value={role}>{ORGANIZATION_ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function OrganizationPage() {
+  const { toast } = useToast();
+  const { can, user } = useAuth();
+  const queryClient = useQueryClient();
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("arranger");
+  const [newOrganizationName, setNewOrganizationName] = useState("");
+
+  const { data: organization, isLoading } = useQuery<OrganizationDetails>({
+    queryKey: ["/api/organizations/current"],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: OrganizationRole }) => {
+      const response = await apiRequest("POST", "/api/organizations/current/invites", { email, role });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+      toast({
+        title: "Invitation sent",
+        description: `${inviteEmail} will receive an email with a link to join`,
+      });
+      setInviteEmail("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send invitation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: OrganizationRole }) => {
+      const response = await apiRequest("PUT", `/api/organizations/current/members/${userId}/role`, { role });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+      toast({
+        title: "Role updated",
+        description: "The member's access has been changed",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const securityMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      const response = await apiRequest("PUT", "/api/organizations/current/security", { requireTwoFactor });
+      return await response.json();
+    },
+    onSuccess: (_data, requireTwoFactor) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations/current"] });
+      toast({
+        title: requireTwoFactor ? "Two-factor required" : "Two-factor optional",
+        description: requireTwoFactor
+          ? "Members without two-factor will be asked to set it up before continuing"
+          : "Members can choose whether to use two-factor",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update security settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/organizations", { name });
+      return await response.json() as OrganizationTokenResponse;
+    },
+    onSuccess: (data) => AuthService.switchOrganization(data),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create organization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !organization) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  const canManageMembers = can('manage_members');
+  const viewerRole = normalizeOrganizationRole(organization.role);
+  const grantableInviteRole = canGrantRole(viewerRole, inviteRole) ? inviteRole : 'read_only';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <Building className="w-6 h-6" />
+          {organization.name}
+        </h1>
+        <p className="text-slate-600">Everyone here can see and work on the home's cases.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Members
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {organization.members.map((member) => (
+            <div key={member.userId} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium text-slate-900 flex items-center gap-2">
+                  {member.name}
+                  {member.twoFactorEnabled && <ShieldCheck className="w-4 h-4 text-green-600" aria-label="Two-factor on" />}
+                </p>
+                <p className="text-sm text-slate-500">{member.email}</p>
+              </div>
+              {canManageMembers && member.userId !== user?.id && canGrantRole(viewerRole, member.role) ? (
+                <RoleSelect
+                  value={normalizeOrganizationRole(member.role)}
+                  onChange={(role) => changeRoleMutation.mutate({ userId: member.userId, role })}
+                  grantorRole={viewerRole}
+                  disabled={changeRoleMutation.isPending}
+                />
+              ) : (
+                <Badge variant="secondary">
+                  {ORGANIZATION_ROLE_LABELS[normalizeOrganizationRole(member.role)]}
+                </Badge>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {canManageMembers && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Security
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="require-two-factor">Require two-factor authentication</Label>
+              <p className="text-sm text-slate-500">
+                Every member must use an authenticator app to sign in. {organization.members.filter((m) => !m.twoFactorEnabled).length} of{" "}
+                {organization.members.length} members haven't turned it on yet.
+              </p>
+            </div>
+            <Switch
+              id="require-two-factor"
+              checked={organization.requireTwoFactor}
+              onCheckedChange={(checked) => securityMutation.mutate(checked)}
+              disabled={securityMutation.isPending}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {can('manage_retention') && <RetentionSettings />}
+
+      {canManageMembers && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="w-5 h-5" />
+              Invite a Colleague
+            </CardTitle>
+            <CardDescription>Invitations expire after 7 days.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (inviteEmail.trim()) inviteMutation.mutate({ email: inviteEmail.trim(), role: grantableInviteRole });
+              }}
+            >
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="colleague@funeralhome.com"
+              />
+              <RoleSelect value={grantableInviteRole} onChange={setInviteRole} grantorRole={viewerRole} />
+              <Button type="submit" disabled={inviteMutation.isPending || !inviteEmail.trim()}>
+                {inviteMutation.isPending ? "Sending..." : "Send Invite"}
+              </Button>
+            </form>
+
+            {organization.invites.length > 0 && (
+              <div>
+                <Label className="text-slate-500">Pending invitations</Label>
+                <div className="mt-2 divide-y">
+                  {organization.invites.map((invite) => (
+                    <div key={invite.id} className="flex items-center justify-between py-2 text-sm">
+                      <span>
+                        {invite.email}
+                        <span className="ml-2 text-slate-500">
+                          {ORGANIZATION_ROLE_LABELS[normalizeOrganizationRole(invite.role)]}
+                        </span>
+                      </span>
+                      <span className="text-slate-500">
+                        Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            New Funeral Home
+          </CardTitle>
+          <CardDescription>Start a separate organization. You can switch between them from the account menu.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newOrganizationName.trim()) createOrganizationMutation.mutate(newOrganizationName.trim());
+            }}
+          >
+            <Input
+              value={newOrganizationName}
+              onChange={(e) => setNewOrganizationName(e.target.value)}
+              placeholder="Funeral home name"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={createOrganizationMutation.isPending || !newOrganizationName.trim()}
+            >
+              Create
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import ActiveSessions from "@/components/ActiveSessions";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import PasswordRequirements from "@/components/PasswordRequirements";
 import { User, Mail, Building, Shield, Key, Save } from "lucide-react";
 
 const profileSchema = z.object({
@@ -22,8 +25,8 @@ const profileSchema = z.object({
 
 const passwordSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string().min(8, "Password must be at least 8 characters"),
-  confirmPassword: z.string().min(8, "Password must be at least 8 characters"),
+  newPassword: z.string().min(1, "New password is required"),
+  confirmPassword: z.string().min(1, "Please confirm your new password"),
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -92,9 +95,10 @@ export default function ProfilePage() {
     onSuccess: () => {
       passwordForm.reset();
       setShowPasswordForm(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
       toast({
         title: "Success",
-        description: "Password updated successfully",
+        description: "Password updated. Your other devices have been signed out.",
       });
     },
     onError: (error: any) => {
@@ -269,6 +273,10 @@ export default function ProfilePage() {
                         {passwordForm.formState.errors.newPassword.message}
                       </p>
                     )}
+                    <PasswordRequirements
+                      password={passwordForm.watch("newPassword")}
+                      personal={[user.email, user.name]}
+                    />
                   </div>
 
                   <div className="space-y-2">
@@ -312,6 +320,10 @@ export default function ProfilePage() {
           </CardContent>
         </Card>
       </div>
+
+      <TwoFactorSettings />
+
+      <ActiveSessions />
     </div>
   );
 }
\ No newline at end of file
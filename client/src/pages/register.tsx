@@ -1,19 +1,29 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema, type InsertUser } from "@shared/schema";
+import { insertUserSchema, type InsertUser, type InvitePreview } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import PasswordRequirements from "@/components/PasswordRequirements";
 
 export default function Register() {
   const { register: registerUser, isRegisterPending } = useAuth();
+  const inviteToken = new URLSearchParams(window.location.search).get("invite");
+
+  const { data: invite } = useQuery<InvitePreview>({
+    queryKey: [`/api/invites/${inviteToken}`],
+    enabled: !!inviteToken,
+    retry: false,
+  });
 
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors },
   } = useForm<InsertUser>({
     resolver: zodResolver(insertUserSchema),
@@ -29,7 +39,9 @@ export default function Register() {
         <div className="text-center">
           <h2 className="text-3xl font-bold text-slate-900">FuneralCare Pro</h2>
           <p className="mt-2 text-sm text-slate-600">
-            Create your professional account
+            {invite
+              ? `Create your account to join ${invite.organizationName}`
+              : "Create your professional account"}
           </p>
         </div>
 
@@ -84,6 +96,10 @@ export default function Register() {
                     {errors.password.message}
                   </p>
                 )}
+                <PasswordRequirements
+                  password={watch("password") ?? ""}
+                  personal={[watch("email") ?? "", watch("name") ?? ""]}
+                />
               </div>
 
               <div>
@@ -125,7 +141,7 @@ export default function Register() {
                 </div>
               </div>
               <div className="mt-6">
-                <Link href="/login">
+                <Link href={inviteToken ? `/login?invite=${inviteToken}` : "/login"}>
                   <Button variant="outline" className="w-full">
                     Sign In
                   </Button>
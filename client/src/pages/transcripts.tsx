@@ -1,8 +1,9 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, authorizedFetch } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -31,7 +32,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import UploadModal from "@/components/UploadModal";
+import BulkImportDialog from "@/components/BulkImportDialog";
 import ArrangementView from "@/components/ArrangementView";
+import ConversationView from "@/components/ConversationView";
+import SpeakerRolesEditor from "@/components/SpeakerRolesEditor";
 import {
   Search,
   Plus,
@@ -51,15 +55,22 @@ import {
   ChevronDown,
   Download,
   Loader2,
+  AlertCircle,
+  Archive,
 } from "lucide-react";
 import type { Transcript } from "@shared/schema";
+import { listSpeakers, parseSpeakerRoles, parseSpeakerTurns } from "@shared/speakerTurns";
 import { useHover } from "@/hooks/use-hover";
+import { useProgressEvents } from "@/hooks/useProgressEvents";
+import { PROGRESS_STAGE_LABELS } from "@/lib/progressEvents";
 
 export default function Transcripts() {
   const [, setLocation] = useLocation();
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isBulkImportOpen, setIsBulkImportOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedTranscript, setSelectedTranscript] = useState<Transcript | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
   const [transcriptToDelete, setTranscriptToDelete] = useState<Transcript | null>(null);
   const [showArrangementView, setShowArrangementView] = useState(false);
   const [arrangementData, setArrangementData] = useState<any>(null);
@@ -68,7 +79,9 @@ export default function Transcripts() {
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
   const [downloadingTranscripts, setDownloadingTranscripts] = useState<Set<number>>(new Set());
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [processingStage, setProcessingStage] = useState<string | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
 
   useEffect(() => {
@@ -94,6 +107,9 @@ export default function Transcripts() {
     },
     refetchOnWindowFocus: false,
     refetchOnReconnect: true,
+    // Recordings are transcribed in the background, so keep checking until they're done
+    refetchInterval: (query) =>
+      query.state.data?.some((transcript) => transcript.status === 'transcribing') ? 5000 : false,
   });
 
   // Fetch arrangement data for each transcript to show approval status
@@ -105,11 +121,7 @@ export default function Transcripts() {
       for (const transcript of transcripts) {
         if (transcript.status === 'processed') {
           try {
-            const response = await fetch(`/api/transcripts/${transcript.id}/arrangement`, {
-              headers: {
-                'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-              }
-            });
+            const response = await authorizedFetch(`/api/transcripts/${transcript.id}/arrangement`);
             if (response.ok) {
               const arrangement = await response.json();
               arrangementsMap[transcript.id] = arrangement;
@@ -154,15 +166,31 @@ export default function Transcripts() {
   });
 
   const processMutation = useMutation({
-    mutationFn: (id: number) => apiRequest("POST", `/api/transcripts/${id}/process`),
-    onSuccess: () => {
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/transcripts/${id}/process`);
+      return response.json();
+    },
+    onMutate: () => {
+      setProcessingStage(null);
+    },
+    onSettled: () => {
+      setProcessingStage(null);
+    },
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/arrangements/status"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/review-queue"] });
+      // Re-processing or a follow-up proposes changes to an existing case rather than replacing it
+      if ("delta" in data) {
+        queryClient.invalidateQueries({ queryKey: [`/api/arrangements/${data.arrangement.id}/deltas`] });
+      }
       toast({
         title: "AI Processing Complete",
-        description: "Transcript has been processed and arrangement data extracted",
+        description: "delta" in data
+          ? data.message
+          : "Transcript has been processed and arrangement data extracted",
       });
       // Refresh the current transcript view if open
       if (selectedTranscript) {
@@ -178,6 +206,33 @@ export default function Transcripts() {
     },
   });
 
+  const transcribeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("POST", `/api/transcripts/${id}/transcribe`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
+      toast({
+        title: "Transcription Restarted",
+        description: "The recording is being transcribed again",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restart transcription",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Follow the extraction stages of the transcript currently being processed
+  useProgressEvents(
+    processMutation.isPending ? `/api/transcripts/${processMutation.variables}/events` : null,
+    // Long transcripts report each part as it finishes ("Part 2 of 5 extracted")
+    (event) => setProcessingStage(
+      event.stage === 'chunk_extracted' && event.message ? event.message : PROGRESS_STAGE_LABELS[event.stage]
+    ),
+  );
+
   const viewTranscript = async (transcript: Transcript) => {
     try {
       const response = await apiRequest("GET", `/api/transcripts/${transcript.id}`);
@@ -210,36 +265,51 @@ export default function Transcripts() {
     }
   };
 
+  // Caption files carry markup such as <v Speaker>, which is shown as text rather than rendered
+  const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
   const highlightSearchText = (text: string, searchQuery: string) => {
-    if (!searchQuery.trim()) return text;
+    if (!searchQuery.trim()) return escapeHtml(text);
 
     const regex = new RegExp(`(${searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
     let matchCount = 0;
 
-    return text.replace(regex, (match) => {
+    // split() with a capturing group puts the matches at odd indexes
+    return text.split(regex).map((part, index) => {
+      if (index % 2 === 0) return escapeHtml(part);
+
       const isCurrentMatch = matchCount === currentMatchIndex;
       matchCount++;
 
       if (isCurrentMatch) {
-        return `<mark class="bg-blue-500 text-white current-match" data-match-index="${currentMatchIndex}">${match}</mark>`;
+        return `<mark class="bg-blue-500 text-white current-match" data-match-index="${currentMatchIndex}">${escapeHtml(part)}</mark>`;
       } else {
-        return `<mark class="bg-yellow-200 text-yellow-900">${match}</mark>`;
+        return `<mark class="bg-yellow-200 text-yellow-900">${escapeHtml(part)}</mark>`;
       }
-    });
+    }).join('');
   };
 
+  // Captions, meeting exports and labelled documents are shown as a conversation
+  const speakerTurns = useMemo(() => parseSpeakerTurns(selectedTranscript?.speakerTurns), [selectedTranscript?.speakerTurns]);
+  const speakerRoles = useMemo(() => parseSpeakerRoles(selectedTranscript?.speakerRoles), [selectedTranscript?.speakerRoles]);
+  const showConversation = !!speakerTurns && !showOriginal;
+  const displayedText = showConversation
+    ? speakerTurns.map((turn) => turn.text).join('\n')
+    : selectedTranscript?.content || '';
+
   const searchMatches = useMemo(() => {
-    if (!transcriptSearchQuery.trim() || !selectedTranscript?.content) return 0;
+    if (!transcriptSearchQuery.trim() || !displayedText) return 0;
 
     const regex = new RegExp(transcriptSearchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
-    const matches = selectedTranscript.content.match(regex);
+    const matches = displayedText.match(regex);
     return matches ? matches.length : 0;
-  }, [transcriptSearchQuery, selectedTranscript?.content]);
+  }, [transcriptSearchQuery, displayedText]);
 
   // Clear search when transcript changes
   useEffect(() => {
     setTranscriptSearchQuery("");
     setCurrentMatchIndex(0);
+    setShowOriginal(false);
   }, [selectedTranscript]);
 
   // Reset current match index when search query changes
@@ -293,11 +363,7 @@ export default function Transcripts() {
       }
 
       // Fetch all documents for this arrangement
-      const response = await fetch(`/api/arrangements/${arrangement.id}/documents`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
-        }
-      });
+      const response = await authorizedFetch(`/api/arrangements/${arrangement.id}/documents`);
 
       if (!response.ok) {
         throw new Error('Failed to fetch documents');
@@ -344,14 +410,8 @@ export default function Transcripts() {
             description: `Processing "${doc.title}" (${i + 1} of ${latestDocuments.length})...`,
           });
 
-          const token = localStorage.getItem("auth_token");
-
           // Get user information
-          const userResponse = await fetch('/api/auth/me', {
-            headers: {
-              'Authorization': `Bearer ${token}`
-            }
-          });
+          const userResponse = await authorizedFetch('/api/auth/me');
 
           if (!userResponse.ok) {
             throw new Error('Failed to get user information');
@@ -360,11 +420,7 @@ export default function Transcripts() {
           const user = await userResponse.json();
 
           // Get document content
-          const docResponse = await fetch(`/api/documents/${doc.id}/content`, {
-            headers: {
-              'Authorization': `Bearer ${token}`
-            }
-          });
+          const docResponse = await authorizedFetch(`/api/documents/${doc.id}/content`);
 
           if (!docResponse.ok) {
             throw new Error(`Failed to get content for ${doc.title}`);
@@ -492,6 +548,16 @@ export default function Transcripts() {
     });
   };
 
+  const getProcessingErrorSummary = (transcript?: Transcript) => {
+    if (!transcript?.processingError) return undefined;
+    try {
+      const details = JSON.parse(transcript.processingError);
+      return [details.message, ...(details.issues || [])].join('\n');
+    } catch {
+      return transcript.processingError;
+    }
+  };
+
   const getStatusBadge = (status: string, transcript?: Transcript) => {
     const isProcessing = processMutation.isPending && processMutation.variables === transcript?.id;
 
@@ -510,6 +576,38 @@ export default function Transcripts() {
             Processing
           </Badge>
         );
+      case "transcribing":
+        return (
+          <Badge className="bg-amber-100 text-amber-800">
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            Transcribing
+          </Badge>
+        );
+      case "transcription_failed":
+        return (
+          <Badge
+            className="bg-red-100 text-red-800 hover:bg-red-200 cursor-pointer"
+            title={getProcessingErrorSummary(transcript)}
+            onClick={() => transcript && can('upload_transcripts') && !transcribeMutation.isPending && transcribeMutation.mutate(transcript.id)}
+          >
+            <AlertCircle className="w-3 h-3 mr-1" />
+            Transcription failed - Retry
+          </Badge>
+        );
+      case "error":
+        if (!isProcessing) {
+          return (
+            <Badge
+              className="bg-red-100 text-red-800 hover:bg-red-200 cursor-pointer"
+              title={getProcessingErrorSummary(transcript)}
+              onClick={() => transcript && can('upload_transcripts') && processMutation.mutate(transcript.id)}
+            >
+              <AlertCircle className="w-3 h-3 mr-1" />
+              Failed - Retry
+            </Badge>
+          );
+        }
+        // falls through to the processing badge while a retry is running
       default:
         return (
           <Badge 
@@ -517,12 +615,12 @@ export default function Transcripts() {
               ? 'bg-amber-100 text-amber-800 cursor-default' 
               : 'bg-blue-100 text-blue-800 hover:bg-blue-300 cursor-pointer'
             }`}
-            onClick={() => !isProcessing && transcript && processMutation.mutate(transcript.id)}
+            onClick={() => !isProcessing && transcript && can('upload_transcripts') && processMutation.mutate(transcript.id)}
           >
             {isProcessing ? (
               <>
                 <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-                Processing...
+                {processingStage || "Processing..."}
               </>
             ) : (
               <>
@@ -576,10 +674,18 @@ export default function Transcripts() {
                 className="pl-10 w-64"
               />
             </div>
-            <Button onClick={() => setIsUploadModalOpen(true)}>
-              <Plus className="mr-2 h-4 w-4" />
-              New Transcript
-            </Button>
+            {can('upload_transcripts') && (
+              <Button variant="outline" onClick={() => setIsBulkImportOpen(true)}>
+                <Archive className="mr-2 h-4 w-4" />
+                Bulk Import
+              </Button>
+            )}
+            {can('upload_transcripts') && (
+              <Button onClick={() => setIsUploadModalOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Transcript
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -605,7 +711,7 @@ export default function Transcripts() {
                       ? "There was a problem loading your transcripts. Please try refreshing the page."
                       : "Upload your first transcript to get started"}
               </p>
-              {!searchQuery && (
+              {!searchQuery && can('upload_transcripts') && (
                 <Button onClick={() => setIsUploadModalOpen(true)}>
                   <Plus className="mr-2 h-4 w-4" />
                   Upload Transcript
@@ -641,7 +747,7 @@ export default function Transcripts() {
                       viewTranscript={viewTranscript}
                       downloadAllDocuments={downloadAllDocuments}
                       downloadingTranscripts={downloadingTranscripts}
-                      setTranscriptToDelete={setTranscriptToDelete}
+                      setTranscriptToDelete={can('delete_transcripts') ? setTranscriptToDelete : undefined}
                       setLocation={setLocation}
                     />
                   );
@@ -658,6 +764,11 @@ export default function Transcripts() {
         onClose={() => setIsUploadModalOpen(false)}
       />
 
+      <BulkImportDialog
+        isOpen={isBulkImportOpen}
+        onClose={() => setIsBulkImportOpen(false)}
+      />
+
       {/* View Transcript Modal */}
       <Dialog
         open={!!selectedTranscript}
@@ -686,7 +797,7 @@ export default function Transcripts() {
                   </Tooltip>
                 </TooltipProvider>
                 {selectedTranscript && getStatusBadge(selectedTranscript.status)}
-                {selectedTranscript && selectedTranscript.status === "uploaded" && (
+                {selectedTranscript && selectedTranscript.status === "uploaded" && can('upload_transcripts') && (
                   <Button
                     onClick={() => processMutation.mutate(selectedTranscript.id)}
                     disabled={processMutation.isPending}
@@ -695,7 +806,7 @@ export default function Transcripts() {
                     {processMutation.isPending ? (
                       <>
                         <Clock className="mr-2 h-4 w-4 animate-spin" />
-                        Processing...
+                        {processingStage || "Processing..."}
                       </>
                     ) : (
                       <>
@@ -756,15 +867,46 @@ export default function Transcripts() {
             </div>
           </DialogHeader>
           <div className="mt-4">
-            <div className="bg-slate-50 rounded-lg p-4 max-h-96 overflow-y-auto custom-scrollbar">
-              <pre
-                className="whitespace-pre-wrap text-sm text-slate-700"
-                dangerouslySetInnerHTML={{
-                  __html: selectedTranscript?.content
-                    ? highlightSearchText(selectedTranscript.content, transcriptSearchQuery)
-                    : ''
-                }}
+            {showConversation && selectedTranscript && can('edit_arrangements') && listSpeakers(speakerTurns).length > 0 && (
+              <SpeakerRolesEditor
+                transcript={selectedTranscript}
+                turns={speakerTurns}
+                onSaved={setSelectedTranscript}
+                onReprocess={can('upload_transcripts') ? () => processMutation.mutate(selectedTranscript.id) : undefined}
               />
+            )}
+            {speakerTurns && (
+              <div className="flex justify-end gap-1 mb-2">
+                <Button variant={showOriginal ? "ghost" : "secondary"} size="sm" onClick={() => setShowOriginal(false)}>
+                  Conversation
+                </Button>
+                <Button variant={showOriginal ? "secondary" : "ghost"} size="sm" onClick={() => setShowOriginal(true)}>
+                  Original File
+                </Button>
+              </div>
+            )}
+            <div className="bg-slate-50 rounded-lg p-4 max-h-96 overflow-y-auto custom-scrollbar">
+              {!can('view_cause_of_death') ? (
+                <p className="text-sm text-slate-500">
+                  Your role in this organization doesn't allow reading transcripts, as they can mention the cause of death.
+                </p>
+              ) : showConversation ? (
+                <ConversationView
+                  turns={speakerTurns}
+                  roles={speakerRoles}
+                  searchQuery={transcriptSearchQuery}
+                  currentMatchIndex={currentMatchIndex}
+                />
+              ) : (
+                <pre
+                  className="whitespace-pre-wrap text-sm text-slate-700"
+                  dangerouslySetInnerHTML={{
+                    __html: selectedTranscript?.content
+                      ? highlightSearchText(selectedTranscript.content, transcriptSearchQuery)
+                      : ''
+                  }}
+                />
+              )}
             </div>
           </div>
         </DialogContent>
@@ -900,6 +1042,11 @@ function TranscriptRow({
               <p className="text-sm font-medium text-slate-900 truncate">
                 {transcript.filename}
               </p>
+              {transcript.arrangementId && (
+                <Badge variant="outline" className="mt-1 bg-blue-50 text-blue-700 border-blue-200 text-xs">
+                  Follow-up
+                </Badge>
+              )}
             </div>
           </div>
         </div>
@@ -997,15 +1144,19 @@ function TranscriptRow({
                       </button>
                     )}
                   
-                  <div className="border-t border-slate-100 my-1"></div>
-                  
-                  <button
-                    onClick={() => setTranscriptToDelete(transcript)}
-                    className="flex items-center w-full px-3 py-2 text-sm text-red-600 hover:bg-red-50 hover:text-red-700"
-                  >
-                    <Trash2 className="mr-2 h-4 w-4" />
-                    Delete
-                  </button>
+                  {setTranscriptToDelete && (
+                    <>
+                      <div className="border-t border-slate-100 my-1"></div>
+
+                      <button
+                        onClick={() => setTranscriptToDelete(transcript)}
+                        className="flex items-center w-full px-3 py-2 text-sm text-red-600 hover:bg-red-50 hover:text-red-700"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             )}
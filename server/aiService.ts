@@ -1,15 +1,24 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import OpenAI from "openai";
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || '');
-const geminiModel = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
+import { completeTask } from "./llm";
+import { ProvenanceService } from "./provenance";
+import { FieldReviewService, type ConfidenceFlag } from "./fieldReview";
+import { TranscriptChunker } from "./transcriptChunker";
+import { ExtractionMerger, type ChunkExtraction } from "./extractionMerge";
+import {
+  extractedArrangementSchema,
+  formatExtractionIssues,
+  type ExtractedArrangementData,
+  type FieldReviews,
+  type FieldSources,
+  type MergeDecision,
+} from "@shared/extraction";
+import { logger } from "./logger";
+import { SpeakerRoleService } from "./speakerRoles";
+import type { SpeakerRoles } from "@shared/schema";
 
 const SYSTEM_PROMPT = `You are an AI assistant specialized in extracting comprehensive funeral arrangement information from conversation transcripts between funeral directors and families.
 
+When paragraphs begin with a speaker's name ("Name: ..."), use it to tell the funeral director apart from the family: options the director describes are not choices until the family agrees to them, and the director's own name comes from how they introduce themselves.
+
 Extract the following information from the transcript and return it as structured JSON. Only extract information that is explicitly mentioned in the conversation. Use null for missing numeric values, empty strings for missing text values, and empty arrays for missing lists.
 
 {
@@ -136,143 +145,39 @@ Extract the following information from the transcript and return it as structure
       "other_merchandise": "string"
     },
     "general_notes": "string"
+  },
+  "sources": {
+    "arrangement.basic_information.date_of_death": "string"
+  },
+  "confidence": {
+    "arrangement.basic_information.age": { "level": "string", "reason": "string" }
+  }
+}
+
+Also return a "sources" object. For every field you filled in, add an entry whose key is the field's path (dot-separated, starting with "arrangement", list entries by index such as "arrangement.basic_information.children.0") and whose value is the shortest passage from the transcript that supports it, copied word for word. Leave out fields you left empty.
+
+Finally return a "confidence" object, keyed by path in the same way, for every filled-in field you are not certain of. Set "level" to "low" when the transcript is unclear or ambiguous, "inferred" when you worked the value out rather than hearing it stated (for example an age calculated from dates), or "conflicting" when the transcript gives different values; give a short "reason". Leave out fields you are confident of.`;
+
+export type { ExtractedArrangementData };
+
+export interface ExtractionResult {
+  data: ExtractedArrangementData;
+  sources: FieldSources;
+  reviews: FieldReviews;
+  decisions: MergeDecision[];
+}
+
+const MAX_EXTRACTION_ATTEMPTS = 3;
+
+// Raised when the model's reply still doesn't match the extraction schema after repair attempts
+export class ExtractionValidationError extends Error {
+  constructor(
+    readonly issues: string[],
+    readonly attempts: number,
+  ) {
+    super(`AI response did not match the expected format after ${attempts} attempts`);
+    this.name = 'ExtractionValidationError';
   }
-}`;
-
-export interface ExtractedArrangementData {
-  arrangement: {
-    basic_information: {
-      funeral_director_name: string;
-      deceased_name: {
-        first: string;
-        middle: string;
-        last: string;
-        suffix: string;
-      };
-      preferred_name: string;
-      gender: string;
-      date_of_birth: string;
-      date_of_death: string;
-      birthplace: string;
-      city_of_death: string;
-      county_of_death: string;
-      age: number | null;
-      maiden_name: string;
-      marital_status: string;
-      spouse_name: {
-        first: string;
-        middle: string;
-        last: string;
-        maiden: string;
-      };
-      usual_residence: {
-        street: string;
-        city: string;
-        county: string;
-        state: string;
-        zip: string;
-      };
-      occupation: string;
-      industry: string;
-      education_level: string;
-      military_service: {
-        served: boolean;
-        branch: string;
-        service_dates: string;
-      };
-      dd_214: string;
-      father_name: {
-        first: string;
-        middle: string;
-        last: string;
-      };
-      mother_name: {
-        first: string;
-        middle: string;
-        maiden: string;
-      };
-      children: Array<{
-        name: string;
-        city: string;
-        state: string;
-        spouse_or_significant_other: string;
-      }>;
-      siblings: Array<{
-        name: string;
-        city: string;
-        state: string;
-      }>;
-      grandchildren: string;
-      great_grandchildren: string;
-      physician_info: string;
-      biographical_info: string;
-      preceded_in_death_by: string;
-    };
-    informant: {
-      name: string;
-      phone_number: string;
-      email: string;
-      relationship_to_deceased: string;
-      financially_responsible_party: {
-        name: string;
-        phone_number: string;
-        address: string;
-        email: string;
-      };
-      method_of_payment: string;
-    };
-    arrangements: {
-      disposition: string;
-      place_of_disposition: string;
-      funeral_service_place: string;
-      service_date: string;
-      service_time: string;
-      visitation_place: string;
-      visitation_date_time: string;
-      other_times_at: string;
-      phone_number: string;
-      first_viewing_time: string;
-      clergy: string;
-      music: string;
-      pallbearers: string[];
-      honorary_pallbearers: string[];
-      memorials_or_in_lieu_of_flowers: string;
-    };
-    final_disposition: {
-      final_disposition_type: string;
-      cemetery_or_crematory: string;
-      address: string;
-      city: string;
-      county: string;
-      state: string;
-      disposition_of_ashes: string;
-    };
-    casket_container: {
-      casket: string;
-      casket_manufacturer: string;
-      casket_model: string;
-      interior_fabric_and_color: string;
-      cap_panel: string;
-      exterior_color: string;
-    };
-    outer_burial_enclosure: {
-      manufacturer: string;
-      model: string;
-    };
-    urn: {
-      manufacturer: string;
-      model: string;
-    };
-    other: {
-      inscriptions: string;
-      jewelry_inventory: string;
-      jewelry_to_remove: string;
-      embalming_authorization: boolean;
-      fingerprint_authorization: boolean;
-      other_merchandise: string;
-    };
-    general_notes: string;
-  };
 }
 
 export class AIService {
@@ -280,10 +185,6 @@ export class AIService {
     arrangementData: ExtractedArrangementData,
     type: string = 'comprehensive_arrangement'
   ): Promise<string> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.");
-    }
-
     try {
       const prompt = `You are an expert funeral director and technical writer. Create a comprehensive, professional markdown document from the following funeral arrangement data.
 
@@ -301,76 +202,164 @@ ${JSON.stringify(arrangementData, null, 2)}
 
 Generate a comprehensive funeral arrangement document in markdown format that covers all aspects of the arrangement including personal information, service details, family information, and final disposition arrangements.`;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4.1-mini",
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
+      return await completeTask('markdown', {
+        prompt,
         temperature: 0.3,
-        max_tokens: 4000,
+        maxTokens: 4000,
       });
-
-      const content = completion.choices[0]?.message?.content;
-      
-      if (!content) {
-        throw new Error("No content received from OpenAI API");
-      }
-
-      return content;
     } catch (error: any) {
-      console.error("AI markdown generation error:", error);
+      logger.error("AI markdown generation failed", error);
       throw new Error(`AI markdown generation failed: ${error.message}`);
     }
   }
 
+  /**
+   * Long transcripts are split at speaker turns and extracted part by part, then merged;
+   * `onPartExtracted` reports progress through the parts. `speakerRoles` says who each
+   * speaker is, so each part can tell whose mother "my mother" is.
+   */
   static async extractArrangementData(
     transcriptText: string,
-  ): Promise<ExtractedArrangementData> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.");
+    onPartExtracted?: (part: number, total: number) => void,
+    speakerRoles: SpeakerRoles = {},
+  ): Promise<ExtractionResult> {
+    const parts = TranscriptChunker.split(transcriptText);
+    const extractions: ChunkExtraction[] = [];
+    const speakers = SpeakerRoleService.describeForExtraction(speakerRoles);
+
+    for (let index = 0; index < parts.length; index++) {
+      const position = parts.length > 1 ? { part: index + 1, total: parts.length } : undefined;
+      extractions.push(await this.extractPart(parts[index], position, speakers));
+      onPartExtracted?.(index + 1, parts.length);
     }
 
-    try {
-      const prompt = `${SYSTEM_PROMPT}\n\nTranscript to analyze:\n${transcriptText}`;
-      
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4.1-mini",
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 4000,
-      });
+    const merged = ExtractionMerger.merge(extractions);
+    const sources = ProvenanceService.locateSources(merged.quotes, merged.data, transcriptText);
 
-      const content = completion.choices[0]?.message?.content;
-      
-      if (!content) {
-        throw new Error("No content received from OpenAI API");
+    return {
+      data: merged.data,
+      sources,
+      reviews: FieldReviewService.buildReviews(merged.flags, merged.data, sources),
+      decisions: merged.decisions,
+    };
+  }
+
+  private static async extractPart(
+    text: string,
+    position?: { part: number; total: number },
+    speakers?: string | null,
+  ): Promise<ChunkExtraction> {
+    const partNote = position
+      ? `\n\nThis is part ${position.part} of ${position.total} of a longer transcript. Extract only what is said in this part.`
+      : '';
+    const speakerNote = speakers
+      ? `\n\nThe speakers in this conversation are:\n${speakers}\n\nRelationships a speaker mentions are relative to that speaker: when the deceased's child says "my mother", they mean the deceased or the deceased's spouse, not the deceased's mother. Use these roles for the informant and the funeral director's name unless the transcript clearly says otherwise.`
+      : '';
+    const basePrompt = `${SYSTEM_PROMPT}${speakerNote}${partNote}\n\nTranscript to analyze:\n${text}`;
+    let prompt = basePrompt;
+    let issues: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+      let content: string;
+      try {
+        content = await completeTask('extraction', {
+          prompt,
+          temperature: 0.1,
+          maxTokens: 8000,
+          responseFormat: 'json',
+        });
+      } catch (error: any) {
+        logger.error("AI extraction request failed", error);
+        throw new Error(`AI processing failed: ${error.message}`);
       }
 
-      // Clean up the response to extract JSON
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```json')) {
-        cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
+      const result = this.parseExtraction(content);
+      if (result.data) {
+        return { data: result.data, quotes: result.quotes, flags: result.flags };
       }
 
-      const extractedData = JSON.parse(cleanContent);
-      return extractedData;
+      issues = result.issues;
+      logger.warn("extraction failed validation", { attempt, issues });
+
+      // Re-prompt with the validation errors so the model can correct its own output
+      prompt = `${basePrompt}
+
+Your previous response could not be used:
+${content}
+
+It had these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the complete corrected JSON object only, following the structure above exactly.`;
+    }
+
+    throw new ExtractionValidationError(issues, MAX_EXTRACTION_ATTEMPTS);
+  }
+
+  private static parseExtraction(content: string): {
+    data?: ExtractedArrangementData;
+    quotes: Record<string, string>;
+    flags: Record<string, ConfidenceFlag>;
+    issues: string[];
+  } {
+    // Clean up the response to extract JSON
+    let cleanContent = content.trim();
+    if (cleanContent.startsWith('```json')) {
+      cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    } else if (cleanContent.startsWith('```')) {
+      cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(cleanContent);
     } catch (error: any) {
-      console.error("AI processing error:", error);
-      if (error.message.includes("JSON")) {
-        throw new Error("Failed to parse AI response as JSON");
+      return { quotes: {}, flags: {}, issues: [`Response is not valid JSON: ${error.message}`] };
+    }
+
+    const result = extractedArrangementSchema.safeParse(json);
+    if (!result.success) {
+      return { quotes: {}, flags: {}, issues: formatExtractionIssues(result.error) };
+    }
+
+    return {
+      data: result.data,
+      quotes: this.parseQuotes(json),
+      flags: this.parseConfidenceFlags(json),
+      issues: [],
+    };
+  }
+
+  // Sources and confidence are best effort: a malformed entry is dropped rather than failing the extraction
+  private static getPathMap(json: unknown, key: string): Record<string, unknown> {
+    const map = json && typeof json === 'object' ? (json as Record<string, unknown>)[key] : undefined;
+    if (!map || typeof map !== 'object' || Array.isArray(map)) {
+      return {};
+    }
+    return map as Record<string, unknown>;
+  }
+
+  private static parseQuotes(json: unknown): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(this.getPathMap(json, 'sources'))
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  }
+
+  private static parseConfidenceFlags(json: unknown): Record<string, ConfidenceFlag> {
+    const flags: Record<string, ConfidenceFlag> = {};
+
+    for (const [path, value] of Object.entries(this.getPathMap(json, 'confidence'))) {
+      // Accept a bare level string as well as { level, reason }
+      if (typeof value === 'string') {
+        flags[path] = { level: value, reason: '' };
+      } else if (value && typeof value === 'object' && typeof (value as any).level === 'string') {
+        const reason = (value as any).reason;
+        flags[path] = { level: (value as any).level, reason: typeof reason === 'string' ? reason : '' };
       }
-      throw new Error(`AI processing failed: ${error.message}`);
     }
+
+    return flags;
   }
 
   static async generateArrangementDocument(
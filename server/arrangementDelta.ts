@@ -0,0 +1,164 @@
+import {
+  diffExtractions,
+  extractedArrangementSchema,
+  getEntriesUnderPath,
+  getPendingReviewPaths,
+  getValueAtPath,
+  isPopulatedValue,
+  omitEntriesUnderPath,
+  setValueAtPath,
+  type ExtractedArrangementData,
+  type FieldChange,
+  type FieldEdits,
+  type FieldReviews,
+  type FieldSources,
+} from "@shared/extraction";
+import type { Arrangement } from "@shared/schema";
+import { ExtractionMerger } from "./extractionMerge";
+import type { ExtractionResult } from "./aiService";
+
+// What is on record for a case, as stored on the arrangement
+export interface CaseState {
+  data: ExtractedArrangementData;
+  fieldSources: FieldSources;
+  fieldReviews: FieldReviews;
+  fieldEdits: FieldEdits;
+}
+
+export interface AppliedDelta extends CaseState {
+  pendingReviewCount: number;
+  changes: FieldChange[];
+  acceptedPaths: string[];
+}
+
+export class ArrangementDeltaService {
+  static getCaseState(arrangement: Arrangement): CaseState {
+    return {
+      data: extractedArrangementSchema.parse(JSON.parse(arrangement.extractedData || '{}')),
+      fieldSources: JSON.parse(arrangement.fieldSources || '{}'),
+      fieldReviews: JSON.parse(arrangement.fieldReviews || '{}'),
+      fieldEdits: JSON.parse(arrangement.fieldEdits || '{}'),
+    };
+  }
+
+  /**
+   * Changes a follow-up conversation would make to a case. The follow-up is merged over the
+   * current data with the same rules as the parts of one long transcript, so it can correct
+   * values and add people but never blanks out something already recorded.
+   */
+  static propose(
+    current: CaseState,
+    followUp: ExtractionResult,
+    transcriptId: number,
+  ): FieldChange[] {
+    const { data: proposed } = ExtractionMerger.merge([
+      { data: current.data, quotes: {}, flags: {} },
+      { data: followUp.data, quotes: {}, flags: {} },
+    ]);
+
+    return this.buildChanges(current, proposed, followUp, transcriptId);
+  }
+
+  /**
+   * Changes from processing the same conversation again, e.g. after a prompt or model
+   * change. The new extraction is compared with what is stored as it stands.
+   */
+  static proposeReExtraction(
+    current: CaseState,
+    extraction: ExtractionResult,
+    transcriptId: number,
+  ): FieldChange[] {
+    return this.buildChanges(current, extraction.data, extraction, transcriptId);
+  }
+
+  /**
+   * Applies the director's decisions. Changes without a decision stay pending so a delta
+   * can be worked through in more than one sitting.
+   */
+  static apply(
+    current: CaseState,
+    changes: FieldChange[],
+    decisions: Record<string, 'accept' | 'reject'>,
+  ): AppliedDelta {
+    let { data, fieldSources, fieldReviews, fieldEdits } = current;
+    const acceptedPaths: string[] = [];
+
+    const resolved = changes.map((change): FieldChange => {
+      const decision = decisions[change.path];
+      if (change.status !== 'pending' || !decision) return change;
+      if (decision === 'reject') return { ...change, status: 'rejected' };
+
+      data = setValueAtPath(data, change.path, change.proposed);
+
+      // A corrected value no longer rests on the old passage; list entries keep theirs
+      if (!Array.isArray(change.proposed)) {
+        fieldSources = omitEntriesUnderPath(fieldSources, change.path);
+        fieldReviews = omitEntriesUnderPath(fieldReviews, change.path);
+      }
+      fieldSources = { ...fieldSources, ...change.sources };
+      fieldReviews = { ...fieldReviews, ...change.reviews };
+      fieldEdits = omitEntriesUnderPath(fieldEdits, change.path);
+
+      acceptedPaths.push(change.path);
+      return { ...change, status: 'accepted' };
+    });
+
+    return {
+      data,
+      fieldSources,
+      fieldReviews,
+      fieldEdits,
+      pendingReviewCount: getPendingReviewPaths(fieldReviews).length,
+      changes: resolved,
+      acceptedPaths,
+    };
+  }
+
+  private static buildChanges(
+    current: CaseState,
+    proposed: ExtractedArrangementData,
+    extraction: ExtractionResult,
+    transcriptId: number,
+  ): FieldChange[] {
+    return diffExtractions(current.data.arrangement, proposed.arrangement).map(change => {
+      const manuallyEdited = getEntriesUnderPath(current.fieldEdits, change.path).length > 0;
+      const keepCurrent = manuallyEdited || !isPopulatedValue(change.proposed);
+
+      return {
+        ...change,
+        sources: this.rekeyEntries(extraction.sources, change.path, change.proposed, extraction.data,
+          source => ({ ...source, transcriptId })),
+        reviews: this.rekeyEntries(extraction.reviews, change.path, change.proposed, extraction.data),
+        status: 'pending',
+        manuallyEdited,
+        suggested: keepCurrent ? 'reject' : 'accept',
+      };
+    });
+  }
+
+  // Path maps from the newer extraction, with list indexes moved to where each entry sits in the proposed list
+  private static rekeyEntries<T>(
+    map: Record<string, T>,
+    path: string,
+    proposed: unknown,
+    extractedData: ExtractedArrangementData,
+    transform: (value: T) => T = value => value,
+  ): Record<string, T> {
+    const rekeyed: Record<string, T> = {};
+
+    for (const [key, value] of getEntriesUnderPath(map, path)) {
+      let target = key;
+
+      if (Array.isArray(proposed) && key !== path) {
+        const [indexSegment, ...rest] = key.slice(path.length + 1).split('.');
+        const index = ExtractionMerger.findListEntry(proposed, getValueAtPath(extractedData, `${path}.${indexSegment}`));
+        if (index === -1) continue;
+        target = [path, index, ...rest].join('.');
+      }
+
+      rekeyed[target] = transform(value);
+    }
+
+    return rekeyed;
+  }
+}
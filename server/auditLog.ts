@@ -0,0 +1,88 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import type { AuditAction, AuditEventEntry, AuditResourceType } from "@shared/schema";
+import { logger } from "./logger";
+
+const CSV_COLUMNS: Array<[string, (event: AuditEventEntry) => unknown]> = [
+  ['Time', (e) => e.createdAt.toISOString()],
+  ['User ID', (e) => e.userId],
+  ['User', (e) => e.userName],
+  ['Email', (e) => e.userEmail],
+  ['Organization', (e) => e.organizationName],
+  ['Action', (e) => e.action],
+  ['Resource Type', (e) => e.resourceType],
+  ['Resource ID', (e) => e.resourceId],
+  ['Method', (e) => e.method],
+  ['Route', (e) => e.route],
+  ['Status', (e) => e.statusCode],
+  ['IP Address', (e) => e.ipAddress],
+  ['User Agent', (e) => e.userAgent],
+];
+
+/**
+ * Records who read, changed, exported, downloaded or deleted a transcript, case or document.
+ * Events are written once the response has gone out, so the status code shows whether the
+ * access was allowed, and a failure to write one is logged rather than failing the request.
+ */
+export class AuditLogService {
+  static async record(req: any, res: any, action: AuditAction, resourceType: AuditResourceType): Promise<void> {
+    if (!req.user) return;
+
+    try {
+      await storage.recordAuditEvent({
+        userId: req.user.userId,
+        organizationId: req.user.organizationId ?? null,
+        action,
+        resourceType,
+        // Handlers name the record themselves when the route parameter points at a different one
+        resourceId: res.locals.auditResourceId ?? (req.resourceKind === resourceType ? req.resource.id : null),
+        method: req.method,
+        route: req.originalUrl.split('?')[0],
+        statusCode: res.statusCode,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      });
+    } catch (error: any) {
+      logger.error("failed to record audit event", error);
+    }
+  }
+
+  // Has the database refuse to change or remove audit events, whatever code asks it to
+  static async protect(): Promise<void> {
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_events is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await db.execute(sql`DROP TRIGGER IF EXISTS audit_events_no_change ON audit_events`);
+    await db.execute(sql`
+      CREATE TRIGGER audit_events_no_change BEFORE UPDATE OR DELETE ON audit_events
+      FOR EACH ROW EXECUTE FUNCTION audit_events_append_only()
+    `);
+    await db.execute(sql`DROP TRIGGER IF EXISTS audit_events_no_truncate ON audit_events`);
+    await db.execute(sql`
+      CREATE TRIGGER audit_events_no_truncate BEFORE TRUNCATE ON audit_events
+      FOR EACH STATEMENT EXECUTE FUNCTION audit_events_append_only()
+    `);
+  }
+
+  static toCsv(events: AuditEventEntry[]): string {
+    const rows = [
+      CSV_COLUMNS.map(([header]) => header),
+      ...events.map((event) => CSV_COLUMNS.map(([, value]) => value(event))),
+    ];
+    return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+  }
+}
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Keep spreadsheets from treating a value as a formula
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import JSZip from "jszip";
+
+const rows = vi.hoisted(() => ({
+  imports: new Map<number, any>(),
+  transcripts: [] as any[],
+  existingHashes: new Map<string, number>(),
+}));
+
+vi.mock("@shared/schema", async (importOriginal) => ({
+  ...await importOriginal<typeof import("@shared/schema")>(),
+  // Small enough to build oversized files in a test
+  MAX_AUDIO_UPLOAD_BYTES: 1024 * 1024,
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    createTranscriptImport: vi.fn(async (values: any) => {
+      const created = { id: rows.imports.size + 1, status: 'running', ...values };
+      rows.imports.set(created.id, created);
+      return created;
+    }),
+    updateTranscriptImport: vi.fn(async (id: number, updates: any) => {
+      Object.assign(rows.imports.get(id), updates);
+    }),
+    getTranscriptIdByContentHash: vi.fn(async (_organizationId: number, hash: string) => rows.existingHashes.get(hash)),
+    createTranscript: vi.fn(async (values: any) => {
+      const created = { id: 100 + rows.transcripts.length, ...values };
+      rows.transcripts.push(created);
+      return created;
+    }),
+  },
+}));
+
+vi.mock("./transcription", () => ({ TranscriptionService: { enqueue: vi.fn() } }));
+vi.mock("./transcriptProcessing", () => ({ TranscriptProcessingService: { process: vi.fn(), recordFailure: vi.fn() } }));
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import crypto from "crypto";
+import { BulkImportError, BulkImportService } from "./bulkImport";
+
+const TARGET = { organizationId: 1, userId: 10, autoProcess: false };
+
+async function zipOf(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Rewrites the unpacked size every entry declares, as a hand-crafted archive could
+function withDeclaredSize(zip: Buffer, size: number): Buffer {
+  const patched = Buffer.from(zip);
+  for (let offset = 0; offset < patched.length - 4; offset++) {
+    const signature = patched.readUInt32LE(offset);
+    if (signature === 0x04034b50) patched.writeUInt32LE(size, offset + 22);
+    if (signature === 0x02014b50) patched.writeUInt32LE(size, offset + 24);
+  }
+  return patched;
+}
+
+// Runs an import through to its report
+async function importZip(zip: Buffer) {
+  const transcriptImport = await BulkImportService.startZipImport(zip, "history.zip", TARGET);
+  await vi.waitFor(() => expect(rows.imports.get(transcriptImport.id).status).not.toBe('running'));
+  const finished = rows.imports.get(transcriptImport.id);
+  return { ...finished, results: JSON.parse(finished.results) };
+}
+
+describe("BulkImportService.startZipImport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rows.imports.clear();
+    rows.transcripts = [];
+    rows.existingHashes.clear();
+  });
+
+  it("imports each transcript in the archive and reports on every file", async () => {
+    const finished = await importZip(await zipOf({
+      "2019/hale.txt": "Director: How can we help?\n\nMrs. Hale: My mother passed.",
+      "2019/notes.xlsx": "spreadsheet",
+      "2019/broken.json": "{",
+    }));
+
+    expect(finished.status).toBe('completed');
+    expect(finished.totalFiles).toBe(3);
+    expect(finished.results).toEqual([
+      { filename: "2019/hale.txt", status: 'imported', transcriptId: 100 },
+      { filename: "2019/notes.xlsx", status: 'skipped', message: ".xlsx can't be imported" },
+      { filename: "2019/broken.json", status: 'failed', message: expect.stringContaining("couldn't be read") },
+    ]);
+    expect(rows.transcripts[0]).toMatchObject({ organizationId: 1, userId: 10, filename: "hale.txt", status: 'uploaded' });
+  });
+
+  it("leaves out folders and operating system clutter", async () => {
+    const finished = await importZip(await zipOf({
+      "hale.txt": "Director: Hello.",
+      "__MACOSX/._hale.txt": "resource fork",
+      ".DS_Store": "finder",
+    }));
+
+    expect(finished.results.map((result: any) => result.filename)).toEqual(["hale.txt"]);
+  });
+
+  it("reports a transcript the organization already has as a duplicate", async () => {
+    const content = "Director: Hello.";
+    rows.existingHashes.set(crypto.createHash('sha256').update(content).digest('hex'), 42);
+
+    const finished = await importZip(await zipOf({ "hale.txt": content }));
+
+    expect(finished.results).toEqual([{ filename: "hale.txt", status: 'duplicate', transcriptId: 42 }]);
+    expect(rows.transcripts).toHaveLength(0);
+  });
+
+  describe("limits", () => {
+    it("refuses an upload that isn't a ZIP file", async () => {
+      await expect(BulkImportService.startZipImport(Buffer.from("not a zip"), "history.zip", TARGET))
+        .rejects.toThrow(new BulkImportError("history.zip isn't a ZIP file or is damaged"));
+    });
+
+    it("refuses an archive with nothing to import", async () => {
+      await expect(BulkImportService.startZipImport(await zipOf({ ".DS_Store": "finder" }), "history.zip", TARGET))
+        .rejects.toThrow("history.zip has no files in it");
+    });
+
+    it("refuses an archive with too many files", async () => {
+      const files = Object.fromEntries(Array.from({ length: 2001 }, (_, i) => [`${i}.txt`, "x"]));
+
+      await expect(BulkImportService.startZipImport(await zipOf(files), "history.zip", TARGET))
+        .rejects.toThrow("split it into archives of at most 2000");
+    });
+
+    it("refuses an archive that says it unpacks to more than 2GB", async () => {
+      const zip = withDeclaredSize(await zipOf({ "a.txt": "x", "b.txt": "y" }), 0x7fffffff);
+
+      await expect(BulkImportService.startZipImport(zip, "history.zip", TARGET)).rejects.toThrow("unpacks to more than 2048MB");
+      expect(rows.imports.size).toBe(0);
+    });
+
+    it("skips a file that says it is too big without unpacking it", async () => {
+      const finished = await importZip(await zipOf({ "big.txt": "a".repeat(1024 * 1024 + 1), "small.txt": "Director: Hello." }));
+
+      expect(finished.results).toEqual([
+        { filename: "big.txt", status: 'skipped', message: "Files must be less than 1MB" },
+        { filename: "small.txt", status: 'imported', transcriptId: 100 },
+      ]);
+    });
+
+    it("stops unpacking a file that grows past the limit, whatever size it declares", async () => {
+      const zip = withDeclaredSize(await zipOf({ "bomb.txt": "a".repeat(2 * 1024 * 1024) }), 100);
+
+      const finished = await importZip(zip);
+
+      expect(finished.results).toEqual([{ filename: "bomb.txt", status: 'skipped', message: "Files must be less than 1MB" }]);
+      expect(rows.transcripts).toHaveLength(0);
+    });
+  });
+});
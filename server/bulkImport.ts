@@ -0,0 +1,338 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import JSZip from "jszip";
+import { storage } from "./storage";
+import { TranscriptImportService, TranscriptImportError } from "./transcriptImport";
+import { TranscriptionService } from "./transcription";
+import { TranscriptProcessingService } from "./transcriptProcessing";
+import { logger } from "./logger";
+import { hasPermission } from "@shared/permissions";
+import {
+  AUDIO_FILE_EXTENSIONS,
+  MAX_AUDIO_UPLOAD_BYTES,
+  TRANSCRIPT_FILE_EXTENSIONS,
+  type TranscriptImport,
+  type TranscriptImportFileResult,
+} from "@shared/schema";
+
+const MAX_ZIP_FILES = 2000;
+// Limits on what an archive unpacks to, so a small upload can't expand to fill memory or disk
+const MAX_FILE_BYTES = MAX_AUDIO_UPLOAD_BYTES;
+const MAX_ZIP_UNPACKED_BYTES = 2 * 1024 * 1024 * 1024;
+const WATCH_INTERVAL_MS = 60 * 1000;
+// Files still being copied into the watched folder are left until they stop changing
+const WATCH_SETTLE_MS = 30 * 1000;
+const UPLOAD_DIR = "uploads";
+
+const IMPORTABLE_EXTENSIONS: readonly string[] = [...TRANSCRIPT_FILE_EXTENSIONS, ...AUDIO_FILE_EXTENSIONS];
+
+interface ImportFile {
+  name: string;
+  // As declared by the archive or the file system; reads stop at the limit whatever it says
+  size: number;
+  read(): Promise<Buffer>;
+}
+
+interface ImportTarget {
+  organizationId: number;
+  userId: number;
+  autoProcess: boolean;
+}
+
+// Raised when an uploaded archive can't be imported at all
+export class BulkImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkImportError';
+  }
+}
+
+// A file too big to import; it is skipped and the rest of the import carries on
+class FileTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
+
+// JSZip reads sizes from the archive's directory but doesn't declare them in its types
+function declaredSize(entry: JSZip.JSZipObject): number {
+  return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+// Unpacks an entry, giving up as soon as it passes `limit` rather than trusting its declared size
+function readEntry(entry: JSZip.JSZipObject, limit: number, tooLarge: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer') as NodeJS.ReadableStream & { destroy(): void };
+    const chunks: Buffer[] = [];
+    let total = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > limit) {
+        stream.destroy();
+        reject(new FileTooLargeError(tooLarge));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Operating system clutter such as __MACOSX/ and .DS_Store
+function isHidden(name: string): boolean {
+  return name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+}
+
+/**
+ * Registers many historical transcripts at once, from a ZIP upload or the folder in
+ * TRANSCRIPT_IMPORT_WATCH_DIR. Every file gets a result in the import's report; files whose
+ * bytes match a transcript the organization already has are skipped as duplicates.
+ */
+export class BulkImportService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static busy = false;
+
+  // The archive is read before responding so a damaged upload is reported straight away
+  static async startZipImport(zipBuffer: Buffer, zipName: string, target: ImportTarget): Promise<TranscriptImport> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(zipBuffer);
+    } catch {
+      throw new BulkImportError(`${zipName} isn't a ZIP file or is damaged`);
+    }
+
+    const entries = Object.values(zip.files).filter((entry) => !entry.dir && !isHidden(entry.name));
+    if (entries.length === 0) {
+      throw new BulkImportError(`${zipName} has no files in it`);
+    }
+    if (entries.length > MAX_ZIP_FILES) {
+      throw new BulkImportError(`${zipName} has ${entries.length} files; split it into archives of at most ${MAX_ZIP_FILES}`);
+    }
+
+    const unpackedBytes = entries.reduce((total, entry) => total + declaredSize(entry), 0);
+    if (unpackedBytes > MAX_ZIP_UNPACKED_BYTES) {
+      throw new BulkImportError(`${zipName} unpacks to more than ${formatMegabytes(MAX_ZIP_UNPACKED_BYTES)}; split it into smaller archives`);
+    }
+
+    const transcriptImport = await storage.createTranscriptImport({ ...target, source: 'zip', name: zipName });
+    // Shared by every entry, in case the sizes the archive declares are wrong
+    let remaining = MAX_ZIP_UNPACKED_BYTES;
+    const files = entries.map((entry) => ({
+      name: entry.name,
+      size: declaredSize(entry),
+      read: async () => {
+        const bytes = await readEntry(
+          entry,
+          Math.min(MAX_FILE_BYTES, remaining),
+          remaining < MAX_FILE_BYTES
+            ? `The archive unpacks to more than ${formatMegabytes(MAX_ZIP_UNPACKED_BYTES)}`
+            : `Files must be less than ${formatMegabytes(MAX_FILE_BYTES)}`,
+        );
+        remaining -= bytes.length;
+        return bytes;
+      },
+    }));
+    setImmediate(() => this.run(transcriptImport, files).catch((error) => logger.error("transcript import failed", error)));
+    return transcriptImport;
+  }
+
+  static start() {
+    if (this.timer || !process.env.TRANSCRIPT_IMPORT_WATCH_DIR) return;
+    this.timer = setInterval(() => this.scanWatchFolder(), WATCH_INTERVAL_MS);
+    setImmediate(() => this.scanWatchFolder());
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static async run(transcriptImport: TranscriptImport, files: ImportFile[]): Promise<TranscriptImportFileResult[]> {
+    const results: TranscriptImportFileResult[] = [];
+
+    try {
+      await storage.updateTranscriptImport(transcriptImport.id, { totalFiles: files.length });
+
+      for (const file of files) {
+        results.push(await this.importFile(file, transcriptImport));
+        await storage.updateTranscriptImport(transcriptImport.id, { results: JSON.stringify(results) });
+      }
+
+      // Everything is registered before anything is processed, so the report fills in quickly
+      if (transcriptImport.autoProcess) {
+        for (const result of results) {
+          if (result.status !== 'imported' || !result.transcriptId) continue;
+          await this.processFile(result, transcriptImport);
+          await storage.updateTranscriptImport(transcriptImport.id, { results: JSON.stringify(results) });
+        }
+      }
+
+      await storage.updateTranscriptImport(transcriptImport.id, { status: 'completed', completedAt: new Date() });
+      logger.info("transcript import completed", {
+        importId: transcriptImport.id,
+        files: files.length,
+        imported: results.filter((result) => result.status === 'imported').length,
+        duplicates: results.filter((result) => result.status === 'duplicate').length,
+      });
+    } catch (error: any) {
+      logger.error("transcript import failed", { importId: transcriptImport.id, error });
+      await storage.updateTranscriptImport(transcriptImport.id, {
+        status: 'failed',
+        error: error.message,
+        results: JSON.stringify(results),
+        completedAt: new Date(),
+      });
+    }
+
+    return results;
+  }
+
+  private static async importFile(file: ImportFile, target: TranscriptImport): Promise<TranscriptImportFileResult> {
+    const filename = path.basename(file.name);
+    const extension = path.extname(filename).toLowerCase();
+    if (!IMPORTABLE_EXTENSIONS.includes(extension)) {
+      return { filename: file.name, status: 'skipped', message: `${extension || 'Files without an extension'} can't be imported` };
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return { filename: file.name, status: 'skipped', message: `Files must be less than ${formatMegabytes(MAX_FILE_BYTES)}` };
+    }
+
+    try {
+      const bytes = await file.read();
+      const contentHash = crypto.createHash('sha256').update(bytes).digest('hex');
+      const existingId = await storage.getTranscriptIdByContentHash(target.organizationId, contentHash);
+      if (existingId) {
+        return { filename: file.name, status: 'duplicate', transcriptId: existingId };
+      }
+
+      const isAudio = (AUDIO_FILE_EXTENSIONS as readonly string[]).includes(extension);
+      if (isAudio) {
+        const audioPath = path.join(UPLOAD_DIR, `${crypto.randomUUID()}${extension}`);
+        await fs.promises.mkdir(UPLOAD_DIR, { recursive: true });
+        await fs.promises.writeFile(audioPath, bytes);
+
+        const transcript = await storage.createTranscript({
+          userId: target.userId,
+          organizationId: target.organizationId,
+          filename,
+          content: "",
+          fileSize: bytes.length,
+          status: "transcribing",
+          audioPath,
+          contentHash,
+        });
+        TranscriptionService.enqueue();
+        return { filename: file.name, status: 'imported', transcriptId: transcript.id };
+      }
+
+      const imported = await TranscriptImportService.extract(bytes, filename);
+      const transcript = await storage.createTranscript({
+        userId: target.userId,
+        organizationId: target.organizationId,
+        filename,
+        content: imported.content,
+        speakerTurns: imported.speakerTurns ? JSON.stringify(imported.speakerTurns) : null,
+        fileSize: bytes.length,
+        status: "uploaded",
+        contentHash,
+      });
+      return { filename: file.name, status: 'imported', transcriptId: transcript.id };
+    } catch (error: any) {
+      if (error instanceof FileTooLargeError) {
+        return { filename: file.name, status: 'skipped', message: error.message };
+      }
+      return {
+        filename: file.name,
+        status: 'failed',
+        message: error instanceof TranscriptImportError ? error.message : `Import failed: ${error.message}`,
+      };
+    }
+  }
+
+  private static async processFile(result: TranscriptImportFileResult, target: TranscriptImport) {
+    const transcript = await storage.getTranscriptById(result.transcriptId!, target.organizationId);
+    if (!transcript) return;
+
+    // Recordings are processed by hand once the background transcription has finished
+    if (transcript.status === 'transcribing') {
+      result.processing = 'awaiting_transcription';
+      return;
+    }
+
+    try {
+      await TranscriptProcessingService.process(transcript, target.userId);
+      result.processing = 'processed';
+    } catch (error: any) {
+      await TranscriptProcessingService.recordFailure(transcript.id, error);
+      result.processing = 'failed';
+      result.processingError = error.message;
+    }
+  }
+
+  private static async scanWatchFolder() {
+    if (this.busy) return;
+    this.busy = true;
+
+    try {
+      const dir = process.env.TRANSCRIPT_IMPORT_WATCH_DIR!;
+      const target = await this.getWatchTarget();
+
+      const ready: ImportFile[] = [];
+      for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+        if (!entry.isFile() || isHidden(entry.name)) continue;
+        const filePath = path.join(dir, entry.name);
+        const stats = await fs.promises.stat(filePath);
+        if (Date.now() - stats.mtimeMs >= WATCH_SETTLE_MS) {
+          ready.push({ name: entry.name, size: stats.size, read: () => fs.promises.readFile(filePath) });
+        }
+      }
+      if (ready.length === 0) return;
+
+      const transcriptImport = await storage.createTranscriptImport({ ...target, source: 'watch_folder', name: dir });
+      const results = await this.run(transcriptImport, ready);
+
+      // Handled files are moved aside so the next scan doesn't pick them up again
+      for (const result of results) {
+        const destination = path.join(dir, result.status === 'imported' || result.status === 'duplicate' ? 'imported' : 'failed');
+        await fs.promises.mkdir(destination, { recursive: true });
+        await fs.promises.rename(path.join(dir, result.filename), path.join(destination, result.filename));
+      }
+    } catch (error) {
+      logger.error("watched folder import failed", error);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  // The account named in TRANSCRIPT_IMPORT_WATCH_USER, in its first organization unless one is set
+  private static async getWatchTarget(): Promise<ImportTarget> {
+    const email = process.env.TRANSCRIPT_IMPORT_WATCH_USER;
+    const user = email ? await storage.getUserByEmail(email) : undefined;
+    if (!user) {
+      throw new Error("TRANSCRIPT_IMPORT_WATCH_USER must be the email of the account the watched folder imports as");
+    }
+
+    const memberships = await storage.getOrganizationsForUser(user.id);
+    const organizationId = Number(process.env.TRANSCRIPT_IMPORT_WATCH_ORGANIZATION_ID) || memberships[0]?.id;
+    const membership = memberships.find((candidate) => candidate.id === organizationId);
+    if (!membership || !hasPermission(membership.role, 'upload_transcripts')) {
+      throw new Error(`${email} can't upload transcripts to the organization the watched folder imports into`);
+    }
+
+    return {
+      organizationId: membership.id,
+      userId: user.id,
+      autoProcess: process.env.TRANSCRIPT_IMPORT_AUTO_PROCESS === 'true',
+    };
+  }
+}
@@ -1,7 +1,5 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || '');
-const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+import { completeTask, getProviderForTask } from "./llm";
+import { logger } from "./logger";
 
 export interface DocumentGenerationRequest {
   type: 'contract' | 'summary' | 'obituary' | 'tasks' | 'death_cert' | 'arranger_tasks';
@@ -9,7 +7,58 @@ export interface DocumentGenerationRequest {
   transcriptContent: string;
 }
 
+export type DocumentType = DocumentGenerationRequest['type'];
+
+export const ALL_DOCUMENT_TYPES: DocumentType[] = ['contract', 'summary', 'obituary', 'tasks', 'arranger_tasks', 'death_cert'];
+
+// Sections of ExtractedArrangementData each document draws on; '*' means the whole arrangement
+const DOCUMENT_SECTIONS: Record<DocumentType, string[]> = {
+  contract: [
+    'arrangement.basic_information.deceased_name',
+    'arrangement.informant',
+    'arrangement.arrangements',
+    'arrangement.final_disposition',
+    'arrangement.casket_container',
+    'arrangement.outer_burial_enclosure',
+    'arrangement.urn',
+    'arrangement.other',
+  ],
+  summary: ['*'],
+  obituary: ['arrangement.basic_information', 'arrangement.arrangements'],
+  tasks: ['*'],
+  arranger_tasks: ['*'],
+  death_cert: ['arrangement.basic_information', 'arrangement.informant', 'arrangement.final_disposition'],
+};
+
 export class DocumentService {
+  static getDocumentTitle(type: string): string {
+    switch (type) {
+      case 'contract':
+        return 'Funeral Services Contract';
+      case 'summary':
+        return 'Arrangement Summary';
+      case 'obituary':
+        return 'Obituary Draft';
+      case 'tasks':
+        return 'Tasks List';
+      case 'arranger_tasks':
+        return 'Arranger Task List';
+      case 'death_cert':
+        return 'Death Certificate Information';
+      default:
+        return `${type.charAt(0).toUpperCase() + type.slice(1)} Document`;
+    }
+  }
+
+  // Documents whose content depends on any of the changed field paths
+  static getAffectedDocumentTypes(changedPaths: string[]): DocumentType[] {
+    return ALL_DOCUMENT_TYPES.filter(type =>
+      DOCUMENT_SECTIONS[type].some(section =>
+        section === '*' || changedPaths.some(path => path === section || path.startsWith(`${section}.`))
+      )
+    );
+  }
+
   static async generateDocument({
     type,
     arrangementData,
@@ -24,33 +73,19 @@ export class DocumentService {
     try {
       const prompt = this.getPromptForType(type, arrangementData, transcriptContent, styleSpecifications);
 
-      // Use shorter timeout and implement retry logic
-      const timeoutDuration = 15000; // 15 seconds
-
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('AI service timeout - request took too long')), timeoutDuration);
-      });
+      const task = `document:${type}` as const;
+      const provider = getProviderForTask(task);
 
-      console.log(`Generating ${type} document with Gemini AI...`);
+      logger.debug("generating document", { type, provider: provider.name, model: provider.model });
 
-      const completionPromise = model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: type === 'arranger_tasks' ? 4000 : (type === 'tasks' ? 3500 : 3000),
-        },
+      const content = await completeTask(task, {
+        prompt,
+        temperature: 0.7,
+        maxTokens: type === 'arranger_tasks' ? 4000 : (type === 'tasks' ? 3500 : 3000),
+        timeoutMs: 15000, // 15 seconds
       });
 
-      const result = await Promise.race([completionPromise, timeoutPromise]);
-
-      if (!result || !result.response) {
-        throw new Error('No response received from AI service');
-      }
-
-      const response = result.response;
-      const content = response.text();
-
-      console.log(`Generated ${type} document - content length: ${content?.length || 0}`);
+      logger.debug("generated document", { type, length: content?.length || 0 });
 
       if (!content || content.trim().length === 0) {
         throw new Error(`Empty content received for ${type} document`);
@@ -58,7 +93,7 @@ export class DocumentService {
 
       return content;
     } catch (error) {
-      console.error(`Error generating ${type} document:`, error);
+      logger.error("document generation failed", { type, error });
 
       // Provide fallback content for critical document types
       if (type === 'arranger_tasks') {
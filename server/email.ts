@@ -1,7 +1,8 @@
 import { MailService } from '@sendgrid/mail';
+import { logger } from "./logger";
 
 if (!process.env.SENDGRID_API_KEY) {
-  console.warn("SENDGRID_API_KEY environment variable not set - email functionality disabled");
+  logger.warn("SENDGRID_API_KEY environment variable not set - email functionality disabled");
 }
 
 const mailService = new MailService();
@@ -9,6 +10,16 @@ if (process.env.SENDGRID_API_KEY) {
   mailService.setApiKey(process.env.SENDGRID_API_KEY);
 }
 
+// Names and other values people type go into the HTML bodies as text, never as markup
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 interface EmailParams {
   to: string;
   from: string;
@@ -19,7 +30,7 @@ interface EmailParams {
 
 export async function sendEmail(params: EmailParams): Promise<boolean> {
   if (!process.env.SENDGRID_API_KEY) {
-    console.error('SendGrid API key not configured');
+    logger.error("SendGrid API key not configured");
     return false;
   }
 
@@ -33,10 +44,7 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
     });
     return true;
   } catch (error: any) {
-    console.error('SendGrid email error:', error);
-    if (error.response && error.response.body && error.response.body.errors) {
-      console.error('SendGrid error details:', JSON.stringify(error.response.body.errors, null, 2));
-    }
+    logger.error("SendGrid email failed", { error, details: error.response?.body?.errors });
     return false;
   }
 }
@@ -87,4 +95,113 @@ export async function sendPasswordResetEmail(email: string, resetToken: string):
     text: textContent,
     html: htmlContent,
   });
-}
\ No newline at end of file
+}
+
+export async function sendOrganizationInviteEmail(
+  email: string,
+  inviteToken: string,
+  organizationName: string,
+  inviterName: string
+): Promise<boolean> {
+  const frontendUrl = process.env.REPLIT_DEV_DOMAIN 
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
+    : 'http://localhost:5000';
+  const inviteUrl = `${frontendUrl}/accept-invite?token=${inviteToken}`;
+  
+  const htmlContent = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background-color: #f8fafc; padding: 20px; text-align: center;">
+        <h1 style="color: #1e293b; margin: 0;">FuneralFlow</h1>
+      </div>
+      <div style="padding: 20px; background-color: white;">
+        <h2 style="color: #1e293b;">You're invited to ${escapeHtml(organizationName)}</h2>
+        <p>${escapeHtml(inviterName)} has invited you to join ${escapeHtml(organizationName)} on FuneralFlow, where you can work on the home's cases together.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${inviteUrl}" style="background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Accept Invitation</a>
+        </div>
+        <p>If you weren't expecting this invitation, you can safely ignore this email.</p>
+        <p>This link will expire in 7 days.</p>
+      </div>
+      <div style="background-color: #f8fafc; padding: 20px; text-align: center; color: #64748b; font-size: 14px;">
+        <p>This email was sent from Funeralflow</p>
+      </div>
+    </div>
+  `;
+
+  const textContent = `
+    You're invited to ${organizationName}
+
+    ${inviterName} has invited you to join ${organizationName} on FuneralFlow.
+    
+    Click this link to accept: ${inviteUrl}
+    
+    If you weren't expecting this invitation, you can safely ignore this email.
+    This link will expire in 7 days.
+  `;
+
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL || 'mark@smartworkautomation.com';
+  
+  return await sendEmail({
+    to: email,
+    from: fromEmail,
+    subject: `Join ${organizationName} on FuneralFlow`,
+    text: textContent,
+    html: htmlContent,
+  });
+}
+
+export async function sendFailedLoginAlertEmail(
+  email: string,
+  name: string,
+  attempts: number,
+  lockedUntil: Date,
+  ipAddress: string | null
+): Promise<boolean> {
+  const frontendUrl = process.env.REPLIT_DEV_DOMAIN 
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}` 
+    : 'http://localhost:5000';
+  const resetUrl = `${frontendUrl}/forgot-password`;
+  const source = ipAddress ? ` from ${ipAddress}` : '';
+  const until = lockedUntil.toUTCString();
+
+  const htmlContent = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background-color: #f8fafc; padding: 20px; text-align: center;">
+        <h1 style="color: #1e293b; margin: 0;">FuneralFlow</h1>
+      </div>
+      <div style="padding: 20px; background-color: white;">
+        <h2 style="color: #1e293b;">Failed sign-in attempts</h2>
+        <p>Hi ${escapeHtml(name)}, there have been ${attempts} failed attempts to sign in to your FuneralFlow account${escapeHtml(source)}.</p>
+        <p>To protect your account, sign-in is paused until ${escapeHtml(until)}.</p>
+        <p>If this wasn't you, we recommend resetting your password:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${resetUrl}" style="background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Reset Password</a>
+        </div>
+        <p>If it was you, you can try again once the pause is over.</p>
+      </div>
+      <div style="background-color: #f8fafc; padding: 20px; text-align: center; color: #64748b; font-size: 14px;">
+        <p>This email was sent from Funeralflow</p>
+      </div>
+    </div>
+  `;
+
+  const textContent = `
+    Failed sign-in attempts
+
+    Hi ${name}, there have been ${attempts} failed attempts to sign in to your FuneralFlow account${source}.
+    To protect your account, sign-in is paused until ${until}.
+
+    If this wasn't you, we recommend resetting your password: ${resetUrl}
+    If it was you, you can try again once the pause is over.
+  `;
+
+  const fromEmail = process.env.SENDGRID_FROM_EMAIL || 'mark@smartworkautomation.com';
+  
+  return await sendEmail({
+    to: email,
+    from: fromEmail,
+    subject: 'Failed sign-in attempts on your FuneralFlow account',
+    text: textContent,
+    html: htmlContent,
+  });
+}
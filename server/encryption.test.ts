@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const OLD_KEY = Buffer.alloc(32, 1).toString('base64');
+const NEW_KEY = Buffer.alloc(32, 2).toString('base64');
+const COLUMN = 'transcripts.content';
+
+// Keys are read once when the module loads, so each configuration gets a fresh copy
+async function loadWithKeys(env: { current?: string; previous?: string; nodeEnv?: string }) {
+  vi.resetModules();
+  vi.stubEnv('FIELD_ENCRYPTION_KEY', env.current ?? '');
+  vi.stubEnv('FIELD_ENCRYPTION_PREVIOUS_KEYS', env.previous ?? '');
+  vi.stubEnv('NODE_ENV', env.nodeEnv ?? 'test');
+  return await import("./encryption");
+}
+
+describe("FieldEncryption", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("decrypts what it encrypted", async () => {
+    const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+    const sealed = FieldEncryption.encrypt("Died peacefully at home", COLUMN);
+
+    expect(FieldEncryption.isEncrypted(sealed)).toBe(true);
+    expect(sealed).not.toContain("peacefully");
+    expect(FieldEncryption.decrypt(sealed, COLUMN)).toBe("Died peacefully at home");
+  });
+
+  it("gives the same value a different ciphertext each time", async () => {
+    const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+
+    expect(FieldEncryption.encrypt("Same", COLUMN)).not.toBe(FieldEncryption.encrypt("Same", COLUMN));
+  });
+
+  it("won't open a value under another column", async () => {
+    const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+    const sealed = FieldEncryption.encrypt("Heart failure", 'arrangements.causeOfDeath');
+
+    expect(() => FieldEncryption.decrypt(sealed, 'arrangements.extractedData')).toThrow();
+  });
+
+  it("won't open a value that has been tampered with", async () => {
+    const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+    const sealed = FieldEncryption.encrypt("Heart failure", COLUMN);
+    const parts = sealed.split(':');
+    const ciphertext = Buffer.from(parts[parts.length - 1], 'base64');
+    ciphertext[ciphertext.length - 1] ^= 1;
+    const tampered = [...parts.slice(0, -1), ciphertext.toString('base64')].join(':');
+
+    expect(() => FieldEncryption.decrypt(tampered, COLUMN)).toThrow();
+  });
+
+  it("passes plaintext from before encryption through", async () => {
+    const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+
+    expect(FieldEncryption.isEncrypted("Funeral on Friday")).toBe(false);
+    expect(FieldEncryption.keyIdOf("Funeral on Friday")).toBeNull();
+    expect(FieldEncryption.decrypt("Funeral on Friday", COLUMN)).toBe("Funeral on Friday");
+  });
+
+  it("names the master key a value is wrapped with", async () => {
+    const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+
+    expect(FieldEncryption.keyIdOf(FieldEncryption.encrypt("Value", COLUMN))).toBe(FieldEncryption.currentKeyId());
+  });
+
+  describe("rotation", () => {
+    it("still reads values wrapped by a previous key", async () => {
+      const before = (await loadWithKeys({ current: OLD_KEY })).FieldEncryption;
+      const sealed = before.encrypt("Cremation", COLUMN);
+
+      const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY, previous: OLD_KEY });
+
+      expect(FieldEncryption.decrypt(sealed, COLUMN)).toBe("Cremation");
+    });
+
+    it("rewraps a value onto the current key without changing it", async () => {
+      const before = (await loadWithKeys({ current: OLD_KEY })).FieldEncryption;
+      const sealed = before.encrypt("Cremation", COLUMN);
+
+      const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY, previous: OLD_KEY });
+      const resealed = FieldEncryption.reseal(sealed, COLUMN)!;
+
+      expect(FieldEncryption.keyIdOf(resealed)).toBe(FieldEncryption.currentKeyId());
+      expect(FieldEncryption.keyIdOf(resealed)).not.toBe(before.currentKeyId());
+      expect(FieldEncryption.decrypt(resealed, COLUMN)).toBe("Cremation");
+      // The data itself is left as it was; only its key is rewrapped
+      expect(resealed.split(':').at(-1)).toBe(sealed.split(':').at(-1));
+    });
+
+    it("has nothing to do for a value already on the current key", async () => {
+      const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+
+      expect(FieldEncryption.reseal(FieldEncryption.encrypt("Burial", COLUMN), COLUMN)).toBeNull();
+    });
+
+    it("encrypts plaintext when resealing", async () => {
+      const { FieldEncryption } = await loadWithKeys({ current: NEW_KEY });
+      const resealed = FieldEncryption.reseal("Burial", COLUMN)!;
+
+      expect(FieldEncryption.isEncrypted(resealed)).toBe(true);
+      expect(FieldEncryption.decrypt(resealed, COLUMN)).toBe("Burial");
+    });
+
+    it("refuses a value whose key is no longer configured", async () => {
+      const before = (await loadWithKeys({ current: OLD_KEY })).FieldEncryption;
+      const sealed = before.encrypt("Cremation", COLUMN);
+
+      const { FieldEncryption, EncryptionKeyError } = await loadWithKeys({ current: NEW_KEY });
+
+      expect(() => FieldEncryption.decrypt(sealed, COLUMN)).toThrow(EncryptionKeyError);
+    });
+  });
+
+  describe("without a key", () => {
+    it("stores plaintext outside production", async () => {
+      const { FieldEncryption } = await loadWithKeys({});
+
+      expect(FieldEncryption.currentKeyId()).toBeNull();
+      expect(FieldEncryption.encrypt("Burial", COLUMN)).toBe("Burial");
+    });
+
+    it("refuses to store anything in production", async () => {
+      const { FieldEncryption, EncryptionKeyError } = await loadWithKeys({ nodeEnv: 'production' });
+
+      expect(() => FieldEncryption.encrypt("Burial", COLUMN)).toThrow(EncryptionKeyError);
+    });
+
+    it("can't reseal", async () => {
+      const { FieldEncryption, EncryptionKeyError } = await loadWithKeys({});
+
+      expect(() => FieldEncryption.reseal("Burial", COLUMN)).toThrow(EncryptionKeyError);
+    });
+  });
+
+  it("rejects a key that isn't 32 bytes", async () => {
+    await expect(loadWithKeys({ current: Buffer.alloc(16).toString('base64') })).rejects.toThrow("32 bytes");
+  });
+});
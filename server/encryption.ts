@@ -0,0 +1,147 @@
+import crypto from "crypto";
+import { logger } from "./logger";
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// Raised when a value can't be decrypted, usually because the key it was sealed with is no longer configured
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+function parseKey(encoded: string, name: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new EncryptionKeyError(`${name} must be 32 bytes, base64 encoded`);
+  }
+  // Derived from the key itself, so rotating only means adding and removing keys
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+function loadKeys(): { current: MasterKey | null; all: Map<string, MasterKey> } {
+  const all = new Map<string, MasterKey>();
+  const current = process.env.FIELD_ENCRYPTION_KEY
+    ? parseKey(process.env.FIELD_ENCRYPTION_KEY, 'FIELD_ENCRYPTION_KEY')
+    : null;
+  if (current) all.set(current.id, current);
+
+  for (const encoded of (process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS || '').split(',').filter((k) => k.trim())) {
+    const previous = parseKey(encoded, 'FIELD_ENCRYPTION_PREVIOUS_KEYS');
+    all.set(previous.id, previous);
+  }
+  return { current, all };
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption for sensitive columns. Every value is encrypted with its own random data
+ * key, and that key is stored alongside it wrapped by the master key from FIELD_ENCRYPTION_KEY.
+ * Values are bound to their column, so a ciphertext copied into another column won't open.
+ *
+ * Rotating the master key: move the old key to FIELD_ENCRYPTION_PREVIOUS_KEYS, set a new
+ * FIELD_ENCRYPTION_KEY and run `npm run db:reencrypt`, which rewraps each data key with the new
+ * master key. Plaintext from before encryption is still read, and is encrypted by the same command.
+ */
+export class FieldEncryption {
+  private static keys = loadKeys();
+  private static warned = false;
+
+  static isEncrypted(value: string): boolean {
+    return value.startsWith(PREFIX);
+  }
+
+  // The id of the master key a value is wrapped with, or null for plaintext
+  static keyIdOf(value: string): string | null {
+    return this.isEncrypted(value) ? value.slice(PREFIX.length).split(':')[0] : null;
+  }
+
+  static currentKeyId(): string | null {
+    return this.keys.current?.id ?? null;
+  }
+
+  static encrypt(value: string, column: string): string {
+    const master = this.currentKey();
+    if (!master) return value;
+
+    const dataKey = crypto.randomBytes(32);
+    const wrappedKey = seal(master.key, dataKey, `${column}:key`);
+    const ciphertext = seal(dataKey, Buffer.from(value, 'utf8'), column);
+    return `${PREFIX}${master.id}:${wrappedKey.toString('base64')}:${ciphertext.toString('base64')}`;
+  }
+
+  static decrypt(value: string, column: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const { dataKey, ciphertext } = this.unwrap(value, column);
+    return open(dataKey, ciphertext, column).toString('utf8');
+  }
+
+  /**
+   * Brings a stored value up to the current master key: plaintext is encrypted and a data key
+   * wrapped by an older master key is rewrapped, leaving the data itself as it was. Returns null
+   * when there is nothing to do.
+   */
+  static reseal(value: string, column: string): string | null {
+    const master = this.currentKey();
+    if (!master) {
+      throw new EncryptionKeyError("FIELD_ENCRYPTION_KEY must be set to encrypt stored values");
+    }
+
+    if (!this.isEncrypted(value)) return this.encrypt(value, column);
+    if (this.keyIdOf(value) === master.id) return null;
+
+    const { dataKey, ciphertext } = this.unwrap(value, column);
+    const wrappedKey = seal(master.key, dataKey, `${column}:key`);
+    return `${PREFIX}${master.id}:${wrappedKey.toString('base64')}:${ciphertext.toString('base64')}`;
+  }
+
+  private static unwrap(value: string, column: string): { dataKey: Buffer; ciphertext: Buffer } {
+    const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(':');
+    const master = this.keys.all.get(keyId);
+    if (!master) {
+      throw new EncryptionKeyError(`No encryption key with id ${keyId} is configured`);
+    }
+    return {
+      dataKey: open(master.key, Buffer.from(wrappedKey, 'base64'), `${column}:key`),
+      ciphertext: Buffer.from(ciphertext, 'base64'),
+    };
+  }
+
+  private static currentKey(): MasterKey | null {
+    if (this.keys.current) return this.keys.current;
+
+    // Production never stores these columns in plaintext; development carries on with a warning
+    if (process.env.NODE_ENV === 'production') {
+      throw new EncryptionKeyError("FIELD_ENCRYPTION_KEY must be set in production");
+    }
+    if (!this.warned) {
+      this.warned = true;
+      logger.warn("FIELD_ENCRYPTION_KEY not set - sensitive fields are stored unencrypted");
+    }
+    return null;
+  }
+}
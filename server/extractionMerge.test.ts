@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { ExtractionMerger, type ChunkExtraction } from "./extractionMerge";
+
+// One part's extraction; fields it doesn't mention are left empty, as the model returns them
+function part(basic: Record<string, unknown>, quotes: Record<string, string> = {}, flags: ChunkExtraction['flags'] = {}): ChunkExtraction {
+  return {
+    data: {
+      arrangement: {
+        basic_information: {
+          preferred_name: '',
+          date_of_death: '',
+          biographical_info: '',
+          children: [],
+          military_service: { served: false, branch: '' },
+          ...basic,
+        },
+      },
+    } as any,
+    quotes,
+    flags,
+  };
+}
+
+const basicInformation = (merged: { data: any }) => merged.data.arrangement.basic_information;
+
+describe("ExtractionMerger.merge", () => {
+  it("returns a single part as it is", () => {
+    const only = part({ preferred_name: 'Peggy' }, { 'arrangement.basic_information.preferred_name': "call her Peggy" });
+
+    expect(ExtractionMerger.merge([only])).toEqual({ ...only, decisions: [] });
+  });
+
+  it("keeps a value stated in one part when the others leave it empty", () => {
+    const merged = ExtractionMerger.merge([part({ preferred_name: 'Peggy' }), part({})]);
+
+    expect(basicInformation(merged).preferred_name).toBe('Peggy');
+    expect(merged.decisions).toEqual([]);
+  });
+
+  it("lets a later statement override an earlier one and flags the conflict", () => {
+    const merged = ExtractionMerger.merge([
+      part({ date_of_death: 'March 3' }),
+      part({ date_of_death: 'March 4' }),
+    ]);
+
+    expect(basicInformation(merged).date_of_death).toBe('March 4');
+    expect(merged.decisions).toEqual([{
+      path: 'arrangement.basic_information.date_of_death',
+      rule: 'later_overrides',
+      value: 'March 4',
+      candidates: [{ part: 1, value: 'March 3' }, { part: 2, value: 'March 4' }],
+    }]);
+    expect(merged.flags['arrangement.basic_information.date_of_death']).toMatchObject({ level: 'conflicting' });
+  });
+
+  it("doesn't treat a difference in case or spacing as a conflict", () => {
+    const merged = ExtractionMerger.merge([part({ preferred_name: 'Peggy  Sue' }), part({ preferred_name: 'peggy sue' })]);
+
+    expect(basicInformation(merged).preferred_name).toBe('Peggy  Sue');
+    expect(merged.decisions).toEqual([]);
+  });
+
+  it("unions lists and merges entries for the same person", () => {
+    const merged = ExtractionMerger.merge([
+      part({ children: [{ name: 'Ann Hale', city: 'Dayton' }, { name: 'Tom Hale', city: '' }] }),
+      part({ children: [{ name: 'tom hale', city: 'Akron' }, { name: 'Sue Hale', city: 'Troy' }] }),
+    ]);
+
+    expect(basicInformation(merged).children).toEqual([
+      { name: 'Ann Hale', city: 'Dayton' },
+      { name: 'Tom Hale', city: 'Akron' },
+      { name: 'Sue Hale', city: 'Troy' },
+    ]);
+    expect(merged.decisions.map(d => [d.path, d.rule])).toEqual([['arrangement.basic_information.children', 'union']]);
+  });
+
+  it("says yes to an authorization if any part does", () => {
+    const merged = ExtractionMerger.merge([
+      part({ military_service: { served: true, branch: 'Navy' } }),
+      part({ military_service: { served: false, branch: '' } }),
+    ]);
+
+    expect(basicInformation(merged).military_service).toEqual({ served: true, branch: 'Navy' });
+  });
+
+  it("appends the biography in transcript order, without repeats", () => {
+    const merged = ExtractionMerger.merge([
+      part({ biographical_info: 'Taught school for 30 years.' }),
+      part({ biographical_info: 'taught school for 30 years.' }),
+      part({ biographical_info: 'Loved fishing on Lake Erie.' }),
+    ]);
+
+    expect(basicInformation(merged).biographical_info).toBe('Taught school for 30 years.\n\nLoved fishing on Lake Erie.');
+    expect(merged.decisions.map(d => d.rule)).toEqual(['appended']);
+  });
+
+  it("moves each list entry's quotes to where the entry ended up", () => {
+    const merged = ExtractionMerger.merge([
+      part({ children: [{ name: 'Ann Hale', city: 'Dayton' }] }, { 'arrangement.basic_information.children.0.city': "Ann's in Dayton" }),
+      part({ children: [{ name: 'Sue Hale', city: 'Troy' }] }, { 'arrangement.basic_information.children.0.city': "Sue lives in Troy" }),
+    ]);
+
+    expect(merged.quotes).toEqual({
+      'arrangement.basic_information.children.0.city': "Ann's in Dayton",
+      'arrangement.basic_information.children.1.city': "Sue lives in Troy",
+    });
+  });
+
+  it("drops an earlier quote and flag once a later part restates the field", () => {
+    const path = 'arrangement.basic_information.preferred_name';
+    const merged = ExtractionMerger.merge([
+      part({ preferred_name: 'Peg' }, { [path]: "we called her Peg" }, { [path]: { level: 'low', reason: 'Mumbled' } }),
+      part({ preferred_name: 'Peg' }),
+    ]);
+
+    expect(merged.quotes[path]).toBeUndefined();
+    expect(merged.flags[path]).toBeUndefined();
+  });
+
+  it("finds where an entry ended up in the merged list", () => {
+    const list = [{ name: 'Ann Hale' }, { name: 'Tom Hale' }];
+
+    expect(ExtractionMerger.findListEntry(list, { name: ' TOM  hale ' })).toBe(1);
+    expect(ExtractionMerger.findListEntry(list, { name: 'Sue Hale' })).toBe(-1);
+    expect(ExtractionMerger.findListEntry(list, null)).toBe(-1);
+  });
+});
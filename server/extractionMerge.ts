@@ -0,0 +1,245 @@
+import {
+  getValueAtPath,
+  isPopulatedValue,
+  type ExtractedArrangementData,
+  type MergeDecision,
+} from "@shared/extraction";
+import type { ConfidenceFlag } from "./fieldReview";
+
+export interface ChunkExtraction {
+  data: ExtractedArrangementData;
+  quotes: Record<string, string>;
+  flags: Record<string, ConfidenceFlag>;
+}
+
+export interface MergedExtraction extends ChunkExtraction {
+  decisions: MergeDecision[];
+}
+
+// Free text where each part of the conversation adds to the story rather than correcting it
+const APPENDED_FIELDS = new Set([
+  'arrangement.basic_information.biographical_info',
+  'arrangement.general_notes',
+]);
+
+interface Candidate {
+  part: number;
+  value: unknown;
+}
+
+interface MergeContext {
+  decisions: MergeDecision[];
+  // For each list, where every part's entries ended up: indexMaps[listPath][part][localIndex]
+  indexMaps: Record<string, Record<number, number[]>>;
+}
+
+/**
+ * Combines per-part extractions of one long transcript. Conflict rules:
+ * - a later statement overrides an earlier one (the family corrects themselves as they go)
+ * - lists are unioned, with entries for the same person merged field by field
+ * - yes/no authorizations are yes if any part says so
+ * - biography and general notes are appended in transcript order
+ */
+export class ExtractionMerger {
+  static merge(chunks: ChunkExtraction[]): MergedExtraction {
+    if (chunks.length === 1) {
+      return { ...chunks[0], decisions: [] };
+    }
+
+    const context: MergeContext = { decisions: [], indexMaps: {} };
+    const candidates = chunks.map((chunk, index) => ({ part: index + 1, value: chunk.data.arrangement }));
+    const data = { arrangement: this.mergeValue(candidates, 'arrangement', context) } as ExtractedArrangementData;
+
+    const quotes = this.collectByPath(chunks, chunk => chunk.quotes, context);
+    const flags = this.collectByPath(chunks, chunk => chunk.flags, context);
+
+    for (const decision of context.decisions) {
+      if (decision.rule !== 'later_overrides') continue;
+
+      flags[decision.path] = {
+        level: 'conflicting',
+        reason: `Stated differently during the conversation: ${decision.candidates
+          .map(candidate => `"${candidate.value}" (part ${candidate.part})`)
+          .join(', ')}. The latest was kept.`,
+      };
+    }
+
+    return { data, quotes, flags, decisions: context.decisions };
+  }
+
+  private static mergeValue(candidates: Candidate[], path: string, context: MergeContext): unknown {
+    const sample = candidates[candidates.length - 1].value;
+
+    if (Array.isArray(sample)) {
+      return this.mergeList(candidates, path, context);
+    }
+
+    if (sample && typeof sample === 'object') {
+      return Object.fromEntries(
+        Object.keys(sample).map(key => [
+          key,
+          this.mergeValue(
+            candidates.map(candidate => ({ part: candidate.part, value: (candidate.value as any)?.[key] })),
+            `${path}.${key}`,
+            context,
+          ),
+        ])
+      );
+    }
+
+    if (typeof sample === 'boolean') {
+      return candidates.some(candidate => candidate.value === true);
+    }
+
+    if (APPENDED_FIELDS.has(path)) {
+      return this.appendText(candidates, path, context);
+    }
+
+    return this.latestValue(candidates, path, context);
+  }
+
+  private static latestValue(candidates: Candidate[], path: string, context: MergeContext): unknown {
+    const populated = candidates.filter(candidate => isPopulatedValue(candidate.value));
+    if (populated.length === 0) {
+      return candidates[candidates.length - 1].value;
+    }
+
+    // Parts that agree up to case and spacing keep the first spelling
+    const distinct = new Set(populated.map(candidate => this.normalize(candidate.value)));
+    if (distinct.size === 1) {
+      return populated[0].value;
+    }
+
+    const latest = populated[populated.length - 1];
+    context.decisions.push({ path, rule: 'later_overrides', value: latest.value, candidates: populated });
+    return latest.value;
+  }
+
+  private static appendText(candidates: Candidate[], path: string, context: MergeContext): string {
+    const seen = new Set<string>();
+    const distinct = candidates.filter(candidate => {
+      if (!isPopulatedValue(candidate.value)) return false;
+      const key = this.normalize(candidate.value);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const value = distinct.map(candidate => String(candidate.value).trim()).join('\n\n');
+    if (distinct.length > 1) {
+      context.decisions.push({ path, rule: 'appended', value, candidates: distinct });
+    }
+
+    return value;
+  }
+
+  private static mergeList(candidates: Candidate[], path: string, context: MergeContext): unknown[] {
+    const keys: string[] = [];
+    const entries: Candidate[][] = [];
+    const indexMaps: Record<number, number[]> = {};
+
+    for (const { part, value } of candidates) {
+      indexMaps[part] = ((value as unknown[]) || []).map(item => {
+        if (!isPopulatedValue(item)) return -1;
+
+        const key = this.listItemKey(item);
+        let index = keys.indexOf(key);
+        if (index === -1) {
+          index = keys.length;
+          keys.push(key);
+          entries.push([]);
+        }
+        entries[index].push({ part, value: item });
+        return index;
+      });
+    }
+    context.indexMaps[path] = indexMaps;
+
+    const merged = entries.map((items, index) =>
+      items.length === 1 ? items[0].value : this.mergeValue(items, `${path}.${index}`, context)
+    );
+
+    const contributions = entries.reduce((total, items) => total + items.length, 0);
+    const parts = new Set(entries.flat().map(item => item.part));
+    if (parts.size > 1 || contributions > merged.length) {
+      context.decisions.push({
+        path,
+        rule: 'union',
+        value: merged,
+        candidates: candidates.filter(candidate => isPopulatedValue(candidate.value)),
+      });
+    }
+
+    return merged;
+  }
+
+  // Where `item` appears in a merged list, matched the same way entries are merged
+  static findListEntry(list: unknown[], item: unknown): number {
+    if (!isPopulatedValue(item)) return -1;
+    const key = this.listItemKey(item);
+    return list.findIndex(entry => this.listItemKey(entry) === key);
+  }
+
+  // Entries describing the same person are matched on their name
+  private static listItemKey(item: unknown): string {
+    if (item && typeof item === 'object' && 'name' in item) {
+      return this.normalize((item as { name: unknown }).name);
+    }
+    return this.normalize(typeof item === 'string' ? item : JSON.stringify(item));
+  }
+
+  private static normalize(value: unknown): string {
+    return String(value).trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Re-keys per-part path maps (sources, confidence flags) onto the merged data. The part
+   * that supplied a value owns its entry, so an earlier quote or flag is dropped once a
+   * later part restates the field.
+   */
+  private static collectByPath<T>(
+    chunks: ChunkExtraction[],
+    pick: (chunk: ChunkExtraction) => Record<string, T>,
+    context: MergeContext,
+  ): Record<string, T> {
+    const collected: Record<string, T> = {};
+
+    chunks.forEach((chunk, index) => {
+      const part = index + 1;
+
+      for (const path of Object.keys(collected)) {
+        if (!this.isListEntryPath(path, context) && isPopulatedValue(getValueAtPath(chunk.data, path))) {
+          delete collected[path];
+        }
+      }
+
+      for (const [path, value] of Object.entries(pick(chunk))) {
+        const mergedPath = this.remapPath(path, part, context);
+        if (mergedPath && isPopulatedValue(getValueAtPath(chunk.data, path))) {
+          collected[mergedPath] = value;
+        }
+      }
+    });
+
+    return collected;
+  }
+
+  private static isListEntryPath(path: string, context: MergeContext): boolean {
+    return Object.keys(context.indexMaps).some(listPath => path.startsWith(`${listPath}.`));
+  }
+
+  private static remapPath(path: string, part: number, context: MergeContext): string | null {
+    for (const [listPath, indexMaps] of Object.entries(context.indexMaps)) {
+      if (!path.startsWith(`${listPath}.`)) continue;
+
+      const [indexSegment, ...rest] = path.slice(listPath.length + 1).split('.');
+      const mergedIndex = indexMaps[part]?.[parseInt(indexSegment, 10)];
+      if (mergedIndex === undefined || mergedIndex === -1) {
+        return null;
+      }
+      return [listPath, mergedIndex, ...rest].join('.');
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  diffExtractions,
+  type ExtractedArrangementData,
+  type FieldEdits,
+} from "@shared/extraction";
+
+export class FieldEditService {
+  // Marks every field that differs between the stored data and what the director saved
+  static record(
+    edits: FieldEdits,
+    before: ExtractedArrangementData,
+    after: ExtractedArrangementData,
+    userId: number,
+  ): FieldEdits {
+    const editedAt = new Date().toISOString();
+    const updated: FieldEdits = { ...edits };
+
+    for (const { path } of diffExtractions(before.arrangement, after.arrangement)) {
+      updated[path] = { editedAt, editedBy: userId };
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  diffExtractions,
+  extractedArrangementSchema,
+  getValueAtPath,
+  setValueAtPath,
+  type ExtractedArrangementData,
+  type FieldChangeSource,
+} from "@shared/extraction";
+import type { ArrangementFieldChange, InsertArrangementFieldChange } from "@shared/schema";
+
+interface ChangeContext {
+  arrangementId: number;
+  userId: number;
+  source: FieldChangeSource;
+  transcriptId?: number | null;
+  revertOf?: number | null;
+}
+
+export class FieldHistoryService {
+  // An arrangement before anything was extracted, so a first extraction logs every field it filled in
+  static emptyData(): ExtractedArrangementData {
+    return extractedArrangementSchema.parse({});
+  }
+
+  /**
+   * Log entries for every field that differs between two versions of an arrangement's data.
+   * Lists are logged as a whole, matching how they are compared everywhere else.
+   */
+  static diff(
+    before: ExtractedArrangementData,
+    after: ExtractedArrangementData,
+    context: ChangeContext,
+  ): InsertArrangementFieldChange[] {
+    return diffExtractions(before.arrangement, after.arrangement).map(({ path, current, proposed }) => ({
+      arrangementId: context.arrangementId,
+      path,
+      oldValue: JSON.stringify(current ?? null),
+      newValue: JSON.stringify(proposed ?? null),
+      source: context.source,
+      userId: context.userId,
+      transcriptId: context.transcriptId ?? null,
+      revertOf: context.revertOf ?? null,
+    }));
+  }
+
+  /**
+   * Puts one field back to the value it had before `change`. A change that first filled a
+   * field in is reverted to the field's empty default.
+   */
+  static revert(data: ExtractedArrangementData, change: ArrangementFieldChange): ExtractedArrangementData {
+    const previous = change.oldValue === null ? null : JSON.parse(change.oldValue);
+    const value = previous ?? getValueAtPath(this.emptyData(), change.path);
+    return setValueAtPath(data, change.path, value);
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  REVIEW_FLAGS,
+  getValueAtPath,
+  isPopulatedValue,
+  type ExtractedArrangementData,
+  type FieldReviews,
+  type FieldSources,
+  type ReviewFlag,
+} from "@shared/extraction";
+
+export interface ConfidenceFlag {
+  level: string;
+  reason: string;
+}
+
+export class FieldReviewService {
+  /**
+   * Builds the review list for a fresh extraction from the model's own confidence flags.
+   * A value whose supporting quote couldn't be found in the transcript is flagged as low
+   * confidence too, since nothing on record backs it up.
+   */
+  static buildReviews(
+    flags: Record<string, ConfidenceFlag>,
+    data: ExtractedArrangementData,
+    sources: FieldSources,
+  ): FieldReviews {
+    const reviews: FieldReviews = {};
+
+    for (const [path, flag] of Object.entries(flags)) {
+      const level = flag.level.trim().toLowerCase();
+      if (!this.isReviewFlag(level)) continue;
+      if (!isPopulatedValue(getValueAtPath(data, path))) continue;
+
+      reviews[path] = {
+        confidence: level,
+        reason: flag.reason.trim(),
+        confirmedAt: null,
+        confirmedBy: null,
+      };
+    }
+
+    for (const [path, source] of Object.entries(sources)) {
+      if (source.start !== null || reviews[path]) continue;
+
+      reviews[path] = {
+        confidence: 'low',
+        reason: 'The quoted passage could not be found in the transcript',
+        confirmedAt: null,
+        confirmedBy: null,
+      };
+    }
+
+    return reviews;
+  }
+
+  static confirm(reviews: FieldReviews, paths: string[], userId: number): FieldReviews {
+    const confirmedAt = new Date().toISOString();
+    const updated: FieldReviews = { ...reviews };
+
+    for (const path of paths) {
+      const review = updated[path];
+      if (review && !review.confirmedAt) {
+        updated[path] = { ...review, confirmedAt, confirmedBy: userId };
+      }
+    }
+
+    return updated;
+  }
+
+  private static isReviewFlag(level: string): level is ReviewFlag {
+    return (REVIEW_FLAGS as readonly string[]).includes(level);
+  }
+}
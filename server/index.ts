@@ -1,42 +1,62 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
+import { setupVite, serveStatic } from "./vite";
+import { JobQueue } from "./jobQueue";
+import { RetentionService } from "./retention";
+import { TranscriptionService } from "./transcription";
+import { BulkImportService } from "./bulkImport";
+import { OrganizationService } from "./organizations";
+import { AuditLogService } from "./auditLog";
+import { logger, resolveRequestId, runWithRequestId } from "./logger";
 
 const app = express();
+// TRUST_PROXY is how many proxies sit in front of the server. Unset, X-Forwarded-For is ignored, so
+// a client can't pick the address that audit records and rate limits use
+app.set("trust proxy", parseInt(process.env.TRUST_PROXY || '', 10) || false);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Each request gets a correlation id, echoed back in X-Request-Id and attached to every log line
+// written while handling it. Bodies are never logged; they carry transcripts and family details
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
+  const requestId = resolveRequestId(req.headers["x-request-id"]);
+  res.setHeader("X-Request-Id", requestId);
 
   res.on("finish", () => {
-    const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
+      const fields = { requestId, method: req.method, path, status: res.statusCode, durationMs: Date.now() - start };
+      if (res.statusCode >= 500) {
+        logger.error("request failed", fields);
+      } else {
+        logger.info("request completed", fields);
       }
-
-      log(logLine);
     }
   });
 
-  next();
+  runWithRequestId(requestId, next);
 });
 
 (async () => {
+  // Accounts from before organizations existed get a funeral home of their own, and
+  // memberships from before staff roles are given one
+  try {
+    await OrganizationService.migrateLegacyRoles();
+    const migrated = await OrganizationService.migrateExistingUsers();
+    if (migrated > 0) {
+      logger.info("moved users into organizations", { count: migrated });
+    }
+  } catch (error: any) {
+    logger.error("organization migration failed", error);
+  }
+
+  try {
+    await AuditLogService.protect();
+  } catch (error: any) {
+    logger.error("could not make the audit log append-only", error);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -65,6 +85,10 @@ app.use((req, res, next) => {
     host: "0.0.0.0",
     reusePort: true,
   }, () => {
-    log(`serving on port ${port}`);
+    logger.info("serving", { port });
+    JobQueue.start();
+    RetentionService.start();
+    TranscriptionService.start();
+    BulkImportService.start();
   });
 })();
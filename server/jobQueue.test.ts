@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const rows = vi.hoisted(() => ({
+  jobs: new Map<number, any>(),
+  steps: new Map<number, any>(),
+  documents: [] as any[],
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    createJob: vi.fn(async (job: any, documentTypes: string[]) => {
+      const active = Array.from(rows.jobs.values())
+        .some(existing => existing.arrangementId === job.arrangementId && ['queued', 'running'].includes(existing.status));
+      if (active) return undefined;
+
+      const created = { id: rows.jobs.size + 1, status: 'queued', attempts: 0, maxAttempts: 3, createdAt: new Date(), ...job };
+      rows.jobs.set(created.id, created);
+      for (const documentType of documentTypes) {
+        const id = rows.steps.size + 1;
+        rows.steps.set(id, { id, jobId: created.id, documentType, status: 'queued', attempts: 0 });
+      }
+      return { ...created, documents: Array.from(rows.steps.values()).filter(step => step.jobId === created.id) };
+    }),
+    getJobById: vi.fn(async (id: number) => {
+      const job = rows.jobs.get(id);
+      return job && { ...job, documents: Array.from(rows.steps.values()).filter(step => step.jobId === id) };
+    }),
+    getLatestJobByArrangementId: vi.fn(async (arrangementId: number) =>
+      Array.from(rows.jobs.values()).filter(job => job.arrangementId === arrangementId).at(-1)),
+    claimNextJob: vi.fn(async () => {
+      const job = Array.from(rows.jobs.values()).find(candidate => candidate.status === 'queued');
+      if (!job) return undefined;
+      Object.assign(job, { status: 'running', attempts: job.attempts + 1 });
+      return { ...job };
+    }),
+    updateJob: vi.fn(async (id: number, updates: any) => Object.assign(rows.jobs.get(id), updates)),
+    updateJobDocument: vi.fn(async (id: number, updates: any) => Object.assign(rows.steps.get(id), updates)),
+    getArrangementById: vi.fn(async (id: number) => ({ id, extractedData: '{}' })),
+    getTranscriptsByArrangementId: vi.fn(async () => [{ content: "Director: Hello." }]),
+    replaceDocument: vi.fn(async (document: any) => {
+      const existing = rows.documents.find(row => row.arrangementId === document.arrangementId && row.type === document.type);
+      if (existing) return Object.assign(existing, document, { version: existing.version + 1 });
+      const created = { id: rows.documents.length + 1, version: 1, ...document };
+      rows.documents.push(created);
+      return created;
+    }),
+    createDocument: vi.fn(),
+    trackUsageMetric: vi.fn(async () => undefined),
+    createTask: vi.fn(async () => undefined),
+  },
+}));
+
+vi.mock("./documentService", () => ({
+  ALL_DOCUMENT_TYPES: ['contract', 'summary'],
+  DocumentService: {
+    generateDocument: vi.fn(async ({ type }: { type: string }) => `${type} text`),
+    getDocumentTitle: vi.fn((type: string) => type),
+  },
+}));
+vi.mock("./pdfService", () => ({ PDFService: { generatePDFFromText: vi.fn(async () => Buffer.from("pdf")) } }));
+vi.mock("./improvedPdfService", () => ({ ImprovedPDFService: { generatePDFFromText: vi.fn(async () => Buffer.from("pdf")) } }));
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { storage } from "./storage";
+import { ActiveJobError, JobQueue } from "./jobQueue";
+
+const ARRANGEMENT_ID = 5;
+
+async function generateAndWait(type: 'approve_arrangement' | 'regenerate_documents') {
+  const job = await JobQueue.enqueueDocumentGeneration({ type, arrangementId: ARRANGEMENT_ID, userId: 10 });
+  await vi.waitFor(() => expect(rows.jobs.get(job.id).status).toBe('completed'));
+  return job;
+}
+
+describe("JobQueue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rows.jobs.clear();
+    rows.steps.clear();
+    rows.documents = [];
+  });
+
+  it("refuses to queue a case whose documents are still being generated", async () => {
+    const first = await JobQueue.enqueueDocumentGeneration({ type: 'approve_arrangement', arrangementId: ARRANGEMENT_ID, userId: 10 });
+
+    expect(await JobQueue.hasActiveJob(ARRANGEMENT_ID)).toBe(true);
+    await expect(JobQueue.enqueueDocumentGeneration({ type: 'regenerate_documents', arrangementId: ARRANGEMENT_ID, userId: 10 }))
+      .rejects.toThrow(ActiveJobError);
+
+    await vi.waitFor(() => expect(rows.jobs.get(first.id).status).toBe('completed'));
+    expect(await JobQueue.hasActiveJob(ARRANGEMENT_ID)).toBe(false);
+  });
+
+  it("replaces each document when the case is generated again", async () => {
+    await generateAndWait('approve_arrangement');
+    await generateAndWait('regenerate_documents');
+
+    expect(rows.documents.map(document => [document.type, document.version])).toEqual([['contract', 2], ['summary', 2]]);
+    expect(storage.createDocument).not.toHaveBeenCalled();
+  });
+
+  it("records which document each step produced", async () => {
+    const job = await generateAndWait('approve_arrangement');
+
+    const steps = Array.from(rows.steps.values()).filter(step => step.jobId === job.id);
+    expect(steps.map(step => [step.documentType, step.status, step.documentId])).toEqual([
+      ['contract', 'completed', 1],
+      ['summary', 'completed', 2],
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+import { storage } from "./storage";
+import { DocumentService, ALL_DOCUMENT_TYPES, type DocumentType } from "./documentService";
+import { PDFService } from "./pdfService";
+import { ImprovedPDFService } from "./improvedPdfService";
+import { ProgressEvents } from "./progressEvents";
+import type { Job, JobDocument, JobWithDocuments } from "@shared/schema";
+import { transcriptText } from "@shared/speakerTurns";
+import { logger } from "./logger";
+
+export type JobType = 'approve_arrangement' | 'regenerate_documents';
+
+const POLL_INTERVAL_MS = 5000;
+const BASE_BACKOFF_MS = 30 * 1000;
+// A job still marked running after this long belongs to a worker that died mid-run
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// Raised when a case already has documents being generated; its job has to finish first
+export class ActiveJobError extends Error {
+  constructor(message = "Documents for this case are already being generated. Try again once they're done.") {
+    super(message);
+    this.name = 'ActiveJobError';
+  }
+}
+
+export class JobQueue {
+  private static timer: NodeJS.Timeout | null = null;
+  private static busy = false;
+
+  static async enqueueDocumentGeneration({
+    type,
+    arrangementId,
+    userId,
+    enhanced = false,
+    documentTypes = ALL_DOCUMENT_TYPES,
+  }: {
+    type: JobType;
+    arrangementId: number;
+    userId: number;
+    enhanced?: boolean;
+    documentTypes?: DocumentType[];
+  }): Promise<JobWithDocuments> {
+    const job = await storage.createJob({ type, arrangementId, userId, enhanced }, documentTypes);
+    if (!job) {
+      throw new ActiveJobError();
+    }
+
+    // Kick the worker so the first document starts without waiting for the next poll
+    setImmediate(() => this.tick());
+
+    return job;
+  }
+
+  static async hasActiveJob(arrangementId: number): Promise<boolean> {
+    const latest = await storage.getLatestJobByArrangementId(arrangementId);
+    return latest?.status === 'queued' || latest?.status === 'running';
+  }
+
+  static start() {
+    if (this.timer) return;
+
+    storage.requeueStaleJobs(new Date(Date.now() - STALE_LOCK_MS))
+      .then(count => {
+        if (count > 0) {
+          logger.info("requeued stale jobs", { count });
+        }
+      })
+      .catch(error => logger.error("failed to requeue stale jobs", error));
+
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Documents draw on every conversation in the case, oldest first; null if it has none left
+  static async getCaseTranscriptContent(arrangementId: number): Promise<string | null> {
+    const caseTranscripts = await storage.getTranscriptsByArrangementId(arrangementId);
+    if (caseTranscripts.length === 0) {
+      return null;
+    }
+    return caseTranscripts
+      .map(caseTranscript => transcriptText(caseTranscript))
+      .join('\n\n---\n\n');
+  }
+
+  static getBackoffDelay(attempt: number): number {
+    return BASE_BACKOFF_MS * Math.pow(2, Math.max(attempt - 1, 0));
+  }
+
+  private static async tick() {
+    if (this.busy) return;
+    this.busy = true;
+
+    try {
+      let job = await storage.claimNextJob();
+      while (job) {
+        await this.runJob(job);
+        job = await storage.claimNextJob();
+      }
+    } catch (error) {
+      logger.error("job worker failed", error);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private static async runJob(job: Job) {
+    try {
+      const current = await storage.getJobById(job.id);
+      if (!current) return;
+
+      const arrangement = await storage.getArrangementById(job.arrangementId);
+      if (!arrangement) {
+        throw new Error("Arrangement not found");
+      }
+
+      const transcriptContent = await this.getCaseTranscriptContent(arrangement.id);
+      if (transcriptContent === null) {
+        throw new Error("Transcript not found");
+      }
+
+      const arrangementData = JSON.parse(arrangement.extractedData || '{}');
+      const pending = current.documents.filter(step => step.status === 'queued' || step.status === 'running');
+
+      for (const step of pending) {
+        await this.runStep(job, step, arrangementData, transcriptContent);
+      }
+
+      const refreshed = await storage.getJobById(job.id);
+      const steps = refreshed?.documents || [];
+      const retrying = steps.filter(step => step.status === 'queued');
+
+      if (retrying.length > 0) {
+        await storage.updateJob(job.id, {
+          status: 'queued',
+          lockedAt: null,
+          runAt: new Date(Date.now() + this.getBackoffDelay(job.attempts)),
+          lastError: retrying.map(step => `${step.documentType}: ${step.error}`).join('; '),
+        });
+        return;
+      }
+
+      if (job.type === 'approve_arrangement') {
+        await this.createArrangementTasks(job, arrangement.extractedData, transcriptContent);
+      }
+
+      const failed = steps.filter(step => step.status === 'failed');
+      await storage.updateJob(job.id, {
+        status: failed.length === steps.length ? 'failed' : 'completed',
+        lockedAt: null,
+        completedAt: new Date(),
+        lastError: failed.length > 0 ? failed.map(step => `${step.documentType}: ${step.error}`).join('; ') : null,
+      });
+
+      ProgressEvents.publish(ProgressEvents.arrangementChannel(job.arrangementId), {
+        stage: 'job_completed',
+        arrangementId: job.arrangementId,
+        jobId: job.id,
+        message: `${steps.length - failed.length} of ${steps.length} documents generated`,
+      });
+    } catch (error) {
+      logger.error("job failed", { jobId: job.id, error });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (job.attempts < job.maxAttempts) {
+        await storage.updateJob(job.id, {
+          status: 'queued',
+          lockedAt: null,
+          runAt: new Date(Date.now() + this.getBackoffDelay(job.attempts)),
+          lastError: message,
+        });
+      } else {
+        await storage.updateJob(job.id, {
+          status: 'failed',
+          lockedAt: null,
+          completedAt: new Date(),
+          lastError: message,
+        });
+      }
+    }
+  }
+
+  private static async runStep(job: Job, step: JobDocument, arrangementData: any, transcriptContent: string) {
+    const type = step.documentType as DocumentType;
+    const attempts = step.attempts + 1;
+
+    await storage.updateJobDocument(step.id, {
+      status: 'running',
+      attempts,
+      startedAt: new Date(),
+      error: null,
+    });
+
+    const channel = ProgressEvents.arrangementChannel(job.arrangementId);
+    const eventBase = { arrangementId: job.arrangementId, jobId: job.id, documentType: type };
+
+    ProgressEvents.publish(channel, {
+      ...eventBase,
+      stage: 'document_started',
+      message: attempts > 1 ? `Retrying (attempt ${attempts})` : undefined,
+    });
+
+    try {
+      logger.info("generating document", { jobId: job.id, type, attempt: attempts });
+
+      const plainTextContent = await DocumentService.generateDocument({
+        type,
+        arrangementData,
+        transcriptContent,
+      });
+
+      // Render from the text we already have rather than asking the AI for it a second time
+      const pdfBuffer = job.enhanced
+        ? await ImprovedPDFService.generatePDFFromText({ type, plainTextContent, arrangementData })
+        : await PDFService.generatePDFFromText({ type, plainTextContent, arrangementData });
+
+      ProgressEvents.publish(channel, { ...eventBase, stage: 'pdf_rendered' });
+
+      const document = await storage.replaceDocument({
+        arrangementId: job.arrangementId,
+        type,
+        title: DocumentService.getDocumentTitle(type),
+        content: pdfBuffer.toString('base64'),
+        plainTextContent,
+        status: 'generated',
+      });
+
+      await storage.trackUsageMetric(job.userId, 'document_generated');
+
+      await storage.updateJobDocument(step.id, {
+        status: 'completed',
+        documentId: document.id,
+        completedAt: new Date(),
+      });
+
+      ProgressEvents.publish(channel, { ...eventBase, stage: 'document_completed' });
+    } catch (error) {
+      logger.error("document generation failed", { jobId: job.id, type, error });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      ProgressEvents.publish(channel, {
+        ...eventBase,
+        stage: 'document_failed',
+        error: message,
+        message: attempts < job.maxAttempts ? 'Will retry' : undefined,
+      });
+
+      await storage.updateJobDocument(step.id, {
+        status: attempts < job.maxAttempts ? 'queued' : 'failed',
+        error: message,
+        completedAt: attempts < job.maxAttempts ? null : new Date(),
+      });
+    }
+  }
+
+  private static async createArrangementTasks(job: Job, extractedData: string | null, transcriptContent: string) {
+    try {
+      const tasksContent = await DocumentService.generateDocument({
+        type: 'tasks',
+        arrangementData: JSON.parse(extractedData || '{}'),
+        transcriptContent,
+      });
+
+      await storage.createTask({
+        arrangementId: job.arrangementId,
+        type: 'task',
+        title: 'Complete Funeral Arrangements',
+        description: tasksContent,
+        priority: 'high',
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days from now
+      });
+    } catch (error) {
+      logger.error("task creation failed", { jobId: job.id, error });
+    }
+  }
+}
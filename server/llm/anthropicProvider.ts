@@ -0,0 +1,44 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { LLMCompletionRequest, LLMProvider, LLMTask } from "./types";
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic | null = null;
+
+  constructor(readonly model: string = 'claude-3-5-sonnet-latest') {}
+
+  private getClient(): Anthropic {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error("Anthropic API key not configured. Please set ANTHROPIC_API_KEY environment variable.");
+    }
+
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return this.client;
+  }
+
+  async complete(_task: LLMTask, request: LLMCompletionRequest): Promise<string> {
+    const message = await this.getClient().messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens || 4000,
+      temperature: request.temperature,
+      messages: [
+        {
+          role: "user",
+          content: request.prompt
+        }
+      ],
+    });
+
+    const content = message.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+
+    if (!content) {
+      throw new Error("No content received from Anthropic API");
+    }
+
+    return content;
+  }
+}
@@ -0,0 +1,38 @@
+import { GoogleGenerativeAI, type GenerativeModel } from "@google/generative-ai";
+import type { LLMCompletionRequest, LLMProvider, LLMTask } from "./types";
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private generativeModel: GenerativeModel | null = null;
+
+  constructor(readonly model: string = 'gemini-2.0-flash') {}
+
+  private getModel(): GenerativeModel {
+    if (!process.env.GOOGLE_API_KEY) {
+      throw new Error("Google API key not configured. Please set GOOGLE_API_KEY environment variable.");
+    }
+
+    if (!this.generativeModel) {
+      const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
+      this.generativeModel = genAI.getGenerativeModel({ model: this.model });
+    }
+    return this.generativeModel;
+  }
+
+  async complete(_task: LLMTask, request: LLMCompletionRequest): Promise<string> {
+    const result = await this.getModel().generateContent({
+      contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        ...(request.responseFormat === 'json' && { responseMimeType: "application/json" }),
+      },
+    });
+
+    if (!result || !result.response) {
+      throw new Error('No response received from AI service');
+    }
+
+    return result.response.text();
+  }
+}
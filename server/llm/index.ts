@@ -0,0 +1,91 @@
+import { OpenAIProvider } from "./openaiProvider";
+import { GeminiProvider } from "./geminiProvider";
+import { AnthropicProvider } from "./anthropicProvider";
+import { LocalProvider } from "./localProvider";
+import type { LLMCompletionRequest, LLMProvider, LLMTask } from "./types";
+
+export type { LLMCompletionRequest, LLMProvider, LLMTask } from "./types";
+
+type ProviderName = 'openai' | 'gemini' | 'anthropic' | 'local';
+
+const PROVIDER_FACTORIES: Record<ProviderName, (model?: string) => LLMProvider> = {
+  openai: (model) => new OpenAIProvider(model),
+  gemini: (model) => new GeminiProvider(model),
+  anthropic: (model) => new AnthropicProvider(model),
+  local: (model) => new LocalProvider(model),
+};
+
+// What each task used before providers were configurable
+const DEFAULT_PROVIDERS: Record<'extraction' | 'speakers' | 'markdown' | 'documents', string> = {
+  extraction: 'openai:gpt-4.1-mini',
+  speakers: 'openai:gpt-4.1-mini',
+  markdown: 'openai:gpt-4.1-mini',
+  documents: 'gemini:gemini-2.0-flash',
+};
+
+const providerCache = new Map<string, LLMProvider>();
+
+/**
+ * Resolves the provider for a task from the environment. Each setting is
+ * `provider` or `provider:model`, most specific first:
+ *
+ *   LLM_PROVIDER_DOCUMENT_OBITUARY  one document type
+ *   LLM_PROVIDER_DOCUMENTS          every document type
+ *   LLM_PROVIDER_EXTRACTION / LLM_PROVIDER_SPEAKERS / LLM_PROVIDER_MARKDOWN
+ *   LLM_PROVIDER                    everything not set above
+ */
+export function getProviderForTask(task: LLMTask): LLMProvider {
+  const spec = resolveSpec(task);
+  const cached = providerCache.get(spec);
+  if (cached) return cached;
+
+  const [name, ...modelParts] = spec.split(':');
+  const factory = PROVIDER_FACTORIES[name.trim().toLowerCase() as ProviderName];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${name}" configured for ${task}. Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+  }
+
+  const provider = factory(modelParts.join(':').trim() || undefined);
+  providerCache.set(spec, provider);
+  return provider;
+}
+
+export async function completeTask(
+  task: LLMTask,
+  request: LLMCompletionRequest & { timeoutMs?: number },
+): Promise<string> {
+  const provider = getProviderForTask(task);
+  const completion = provider.complete(task, request);
+
+  if (!request.timeoutMs) {
+    return await completion;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('AI service timeout - request took too long')), request.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([completion, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function resolveSpec(task: LLMTask): string {
+  const env = process.env;
+
+  if (task.startsWith('document:')) {
+    const documentType = task.slice('document:'.length).toUpperCase();
+    return env[`LLM_PROVIDER_DOCUMENT_${documentType}`]
+      || env.LLM_PROVIDER_DOCUMENTS
+      || env.LLM_PROVIDER
+      || DEFAULT_PROVIDERS.documents;
+  }
+
+  const key = task.toUpperCase();
+  return env[`LLM_PROVIDER_${key}`]
+    || env.LLM_PROVIDER
+    || DEFAULT_PROVIDERS[task as 'extraction' | 'speakers' | 'markdown'];
+}
@@ -0,0 +1,76 @@
+import fs from "fs";
+import path from "path";
+import type { LLMCompletionRequest, LLMProvider, LLMTask } from "./types";
+
+/**
+ * Deterministic provider for staging and laptops: no keys, no network.
+ *
+ * Replies come from `${LOCAL_LLM_FIXTURES_DIR}/<task>.{json,md,txt}` when a fixture
+ * exists (e.g. `extraction.json`, `document-obituary.md`). Otherwise JSON requests get
+ * the first JSON template in the prompt with every string blanked, and text requests
+ * get the prompt echoed back as a markdown draft.
+ */
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local';
+
+  constructor(readonly model: string = 'echo') {}
+
+  async complete(task: LLMTask, request: LLMCompletionRequest): Promise<string> {
+    const fixture = this.readFixture(task);
+    if (fixture !== null) {
+      return fixture;
+    }
+
+    if (request.responseFormat === 'json') {
+      return JSON.stringify(this.blankTemplate(request.prompt), null, 2);
+    }
+
+    return `# Offline Draft (${task})\n\n*Generated by the local provider without an AI service.*\n\n---\n\n${request.prompt}`;
+  }
+
+  private readFixture(task: LLMTask): string | null {
+    const dir = process.env.LOCAL_LLM_FIXTURES_DIR;
+    if (!dir) return null;
+
+    const baseName = task.replace(/:/g, '-');
+    for (const extension of ['.json', '.md', '.txt']) {
+      const filePath = path.join(dir, baseName + extension);
+      if (fs.existsSync(filePath)) {
+        return fs.readFileSync(filePath, 'utf-8');
+      }
+    }
+    return null;
+  }
+
+  private blankTemplate(prompt: string): unknown {
+    const start = prompt.indexOf('{');
+    if (start === -1) return {};
+
+    // Walk to the brace that closes the first top-level object
+    let depth = 0;
+    for (let i = start; i < prompt.length; i++) {
+      if (prompt[i] === '{') depth++;
+      if (prompt[i] === '}') depth--;
+      if (depth === 0) {
+        try {
+          return this.blankValues(JSON.parse(prompt.slice(start, i + 1)));
+        } catch {
+          return {};
+        }
+      }
+    }
+    return {};
+  }
+
+  private blankValues(value: unknown): unknown {
+    if (typeof value === 'string') return '';
+    if (typeof value === 'boolean') return false;
+    if (Array.isArray(value)) return [];
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, this.blankValues(child)])
+      );
+    }
+    return value ?? null;
+  }
+}
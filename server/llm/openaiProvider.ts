@@ -0,0 +1,41 @@
+import OpenAI from "openai";
+import type { LLMCompletionRequest, LLMProvider, LLMTask } from "./types";
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(readonly model: string = 'gpt-4.1-mini') {}
+
+  private getClient(): OpenAI {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.");
+    }
+
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+
+  async complete(_task: LLMTask, request: LLMCompletionRequest): Promise<string> {
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "user",
+          content: request.prompt
+        }
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("No content received from OpenAI API");
+    }
+
+    return content;
+  }
+}
@@ -0,0 +1,15 @@
+export type LLMTask = 'extraction' | 'speakers' | 'markdown' | `document:${string}`;
+
+export interface LLMCompletionRequest {
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Hint that the caller will JSON.parse the reply
+  responseFormat?: 'text' | 'json';
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(task: LLMTask, request: LLMCompletionRequest): Promise<string>;
+}
@@ -0,0 +1,140 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Values under these keys never reach the log, whatever they contain
+const SECRET_KEYS = new Set([
+  'authorization', 'cookie', 'setcookie', 'token', 'accesstoken', 'refreshtoken', 'jwt',
+  'password', 'currentpassword', 'newpassword', 'secret', 'apikey',
+]);
+// Transcript and document text is replaced by its length
+const TEXT_KEYS = new Set([
+  'content', 'transcriptcontent', 'plaintextcontent', 'text', 'extracteddata', 'arrangementdata', 'body',
+]);
+
+const STRING_PATTERNS: Array<[RegExp, string]> = [
+  [/Bearer\s+[\w.~+/-]+=*/gi, 'Bearer [TOKEN]'],
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, '[TOKEN]'],
+  [/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, '[EMAIL]'],
+  [/(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g, '[SSN]'],
+  [/(?<![\w])(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)/g, '[PHONE]'],
+];
+
+const MAX_DEPTH = 6;
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+export function redactString(value: string): string {
+  return STRING_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+/**
+ * Copies a value for logging with the redaction policy applied: secrets removed by key,
+ * transcript text reduced to its length, and emails, phone numbers, SSNs and tokens masked
+ * wherever they appear in a string.
+ */
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack ? { stack: redactString(value.stack) } : {}),
+    };
+  }
+  if (Buffer.isBuffer(value)) return `[${value.length} bytes]`;
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1, seen));
+
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    const normalized = key.toLowerCase().replace(/[-_]/g, '');
+    if (SECRET_KEYS.has(normalized)) {
+      result[key] = '[REDACTED]';
+    } else if (TEXT_KEYS.has(normalized) && item !== null && item !== undefined) {
+      result[key] = typeof item === 'string' ? `[REDACTED ${item.length} chars]` : '[REDACTED]';
+    } else {
+      result[key] = redact(item, depth + 1, seen);
+    }
+  }
+  return result;
+}
+
+// Accepts a correlation id from an upstream proxy when it looks like one, otherwise makes a new one
+export function resolveRequestId(header: unknown): string {
+  return typeof header === 'string' && /^[\w.-]{1,64}$/.test(header) ? header : crypto.randomUUID();
+}
+
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+function configuredLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  if (level && level in LEVELS) return level as LogLevel;
+  return process.env.NODE_ENV === 'development' ? 'debug' : 'info';
+}
+
+/**
+ * Writes one JSON object per line. Every entry carries the id of the request it was logged
+ * from, so the lines for one request can be pulled out of the stream together.
+ */
+export class Logger {
+  constructor(private bindings: LogFields = {}, private minLevel: LogLevel = configuredLevel()) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings }, this.minLevel);
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields | unknown) {
+    const isFields = !!fields && typeof fields === 'object' && !(fields instanceof Error);
+    this.write('error', message, isFields ? fields as LogFields : { error: fields });
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields) {
+    if (LEVELS[level] < LEVELS[this.minLevel]) return;
+
+    const requestId = currentRequestId();
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: redactString(message),
+      ...(requestId ? { requestId } : {}),
+      ...(redact({ ...this.bindings, ...fields }) as LogFields),
+    };
+
+    const line = JSON.stringify(entry);
+    if (level === 'error' || level === 'warn') {
+      process.stderr.write(line + '\n');
+    } else {
+      process.stdout.write(line + '\n');
+    }
+  }
+}
+
+export const logger = new Logger();
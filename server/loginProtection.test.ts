@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const rows = vi.hoisted(() => ({
+  users: new Map<number, any>(),
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    recordFailedLogin: vi.fn(async (id: number) => ++rows.users.get(id).failedLoginAttempts),
+    updateUser: vi.fn(async (id: number, updates: any) => {
+      const user = { ...rows.users.get(id), ...updates };
+      rows.users.set(id, user);
+      return user;
+    }),
+  },
+}));
+
+vi.mock("./email", () => ({
+  sendFailedLoginAlertEmail: vi.fn(async () => true),
+}));
+
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { sendFailedLoginAlertEmail } from "./email";
+import { LoginProtectionService } from "./loginProtection";
+
+const USER_ID = 7;
+const MINUTE = 60 * 1000;
+const current = () => rows.users.get(USER_ID);
+
+async function fail(times: number) {
+  for (let i = 0; i < times; i++) {
+    await LoginProtectionService.recordFailure(current(), "10.0.0.1");
+  }
+}
+
+describe("LoginProtectionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    rows.users.clear();
+    rows.users.set(USER_ID, { id: USER_ID, email: "jo@example.com", name: "Jo", failedLoginAttempts: 0, lockedUntil: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("doesn't lock the account before the fifth failure", async () => {
+    await fail(4);
+
+    expect(LoginProtectionService.lockedFor(current())).toBe(0);
+    expect(sendFailedLoginAlertEmail).not.toHaveBeenCalled();
+  });
+
+  it("locks the account for five minutes on the fifth failure and tells the owner", async () => {
+    await fail(5);
+
+    expect(LoginProtectionService.lockedFor(current())).toBe(5 * 60);
+    expect(sendFailedLoginAlertEmail).toHaveBeenCalledWith("jo@example.com", "Jo", 5, current().lockedUntil, "10.0.0.1");
+  });
+
+  it("doubles each lock after the first", async () => {
+    await fail(10);
+    expect(LoginProtectionService.lockedFor(current())).toBe(10 * 60);
+
+    await fail(5);
+    expect(LoginProtectionService.lockedFor(current())).toBe(20 * 60);
+  });
+
+  it("never locks for more than a day", async () => {
+    await fail(5 * 20);
+
+    expect(LoginProtectionService.lockedFor(current())).toBe(24 * 60 * 60);
+  });
+
+  it("lets the account in again once the lock runs out", async () => {
+    await fail(5);
+    vi.advanceTimersByTime(5 * MINUTE);
+
+    expect(LoginProtectionService.lockedFor(current())).toBe(0);
+  });
+
+  it("clears the count on a successful sign-in", async () => {
+    await fail(5);
+    await LoginProtectionService.recordSuccess(current());
+
+    expect(current()).toMatchObject({ failedLoginAttempts: 0, lockedUntil: null });
+    await fail(4);
+    expect(LoginProtectionService.lockedFor(current())).toBe(0);
+  });
+});
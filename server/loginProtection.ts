@@ -0,0 +1,48 @@
+import { storage } from "./storage";
+import { sendFailedLoginAlertEmail } from "./email";
+import { logger } from "./logger";
+import type { User } from "@shared/schema";
+
+// Every this many failures in a row locks the account
+const LOCKOUT_THRESHOLD = 5;
+// The first lock lasts this long and each one after it twice as long as the last
+const BASE_LOCKOUT_MS = 5 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Progressive account lockout. Wrong passwords and wrong two-factor codes are counted per
+ * account; reaching the threshold locks it for a while and emails the owner, and the count is
+ * cleared by a successful sign-in, a password reset or an admin unlocking the account.
+ */
+export class LoginProtectionService {
+  // Seconds until the account may try to sign in again, or 0 if it isn't locked
+  static lockedFor(user: User): number {
+    if (!user.lockedUntil) return 0;
+    return Math.max(Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000), 0);
+  }
+
+  static async recordFailure(user: User, ipAddress: string | null): Promise<void> {
+    const attempts = await storage.recordFailedLogin(user.id);
+    if (attempts === 0 || attempts % LOCKOUT_THRESHOLD !== 0) return;
+
+    const lockouts = attempts / LOCKOUT_THRESHOLD;
+    const lockedUntil = new Date(Date.now() + Math.min(BASE_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_LOCKOUT_MS));
+    await storage.updateUser(user.id, { lockedUntil });
+    logger.warn("account locked after failed sign-ins", { userId: user.id, attempts, lockedUntil, ipAddress });
+
+    // The owner hears about it whether or not it was them; a failed email doesn't undo the lock
+    sendFailedLoginAlertEmail(user.email, user.name, attempts, lockedUntil, ipAddress).then((sent) => {
+      if (!sent) logger.error("failed to send failed sign-in alert", { userId: user.id });
+    });
+  }
+
+  static async recordSuccess(user: User): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.unlock(user.id);
+    }
+  }
+
+  static async unlock(userId: number): Promise<void> {
+    await storage.updateUser(userId, { failedLoginAttempts: 0, lockedUntil: null });
+  }
+}
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const rows = vi.hoisted(() => ({
+  members: [] as any[],
+  invites: [] as any[],
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getOrganizationMembers: vi.fn(async () => rows.members),
+    updateOrganizationMemberRole: vi.fn(async (organizationId: number, userId: number, role: string) => {
+      const member = rows.members.find(m => m.userId === userId);
+      member.role = role;
+      return { organizationId, ...member };
+    }),
+    createOrganizationInvite: vi.fn(async (invite: any) => {
+      const created = { id: rows.invites.length + 1, ...invite };
+      rows.invites.push(created);
+      return created;
+    }),
+  },
+}));
+
+vi.mock("./email", () => ({
+  sendOrganizationInviteEmail: vi.fn(async () => true),
+}));
+
+import { storage } from "./storage";
+import { OrganizationService } from "./organizations";
+
+const DIRECTOR = { userId: 1, role: 'funeral_director' };
+const OFFICE_MANAGER = { userId: 2, role: 'office_manager' };
+const ARRANGER_ID = 3;
+
+const organization: any = { id: 1, name: "Oak Hill" };
+const inviter: any = { id: OFFICE_MANAGER.userId, name: "Pat" };
+
+function seed() {
+  rows.members = [
+    { userId: DIRECTOR.userId, role: 'funeral_director' },
+    { userId: OFFICE_MANAGER.userId, role: 'office_manager' },
+    { userId: ARRANGER_ID, role: 'arranger' },
+    { userId: 4, role: 'read_only' },
+  ];
+  rows.invites = [];
+}
+
+describe("OrganizationService.changeRole", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    seed();
+  });
+
+  it("won't let an office manager promote themselves", async () => {
+    await expect(OrganizationService.changeRole(1, OFFICE_MANAGER.userId, 'funeral_director', OFFICE_MANAGER))
+      .rejects.toThrow("You can't change your own role");
+    expect(storage.updateOrganizationMemberRole).not.toHaveBeenCalled();
+  });
+
+  it("won't let an office manager grant a role that can do more than theirs", async () => {
+    for (const role of ['funeral_director', 'arranger', 'embalmer'] as const) {
+      await expect(OrganizationService.changeRole(1, 4, role, OFFICE_MANAGER)).rejects.toThrow();
+    }
+    expect(storage.updateOrganizationMemberRole).not.toHaveBeenCalled();
+  });
+
+  it("won't let an office manager change the role of someone who can do more than them", async () => {
+    await expect(OrganizationService.changeRole(1, DIRECTOR.userId, 'read_only', OFFICE_MANAGER)).rejects.toThrow();
+    await expect(OrganizationService.changeRole(1, ARRANGER_ID, 'read_only', OFFICE_MANAGER)).rejects.toThrow();
+    expect(storage.updateOrganizationMemberRole).not.toHaveBeenCalled();
+  });
+
+  it("lets an office manager hand out roles within their own", async () => {
+    await OrganizationService.changeRole(1, 4, 'office_manager', OFFICE_MANAGER);
+    await OrganizationService.changeRole(1, 4, 'read_only', OFFICE_MANAGER);
+
+    expect(storage.updateOrganizationMemberRole).toHaveBeenCalledTimes(2);
+    expect(rows.members.find(m => m.userId === 4).role).toBe('read_only');
+  });
+
+  it("lets a funeral director grant any role to someone else", async () => {
+    await OrganizationService.changeRole(1, ARRANGER_ID, 'funeral_director', DIRECTOR);
+
+    expect(storage.updateOrganizationMemberRole).toHaveBeenCalledWith(1, ARRANGER_ID, 'funeral_director');
+  });
+
+  it("won't let a funeral director change their own role", async () => {
+    await expect(OrganizationService.changeRole(1, DIRECTOR.userId, 'read_only', DIRECTOR))
+      .rejects.toThrow("You can't change your own role");
+  });
+
+  it("keeps someone who can manage members", async () => {
+    rows.members = [
+      { userId: DIRECTOR.userId, role: 'arranger' },
+      { userId: 5, role: 'funeral_director' },
+    ];
+
+    await expect(OrganizationService.changeRole(1, 5, 'arranger', DIRECTOR))
+      .rejects.toThrow("At least one member must keep a role that can manage members");
+  });
+});
+
+describe("OrganizationService.invite", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    seed();
+  });
+
+  it("won't let an office manager invite someone to a role that can do more than theirs", async () => {
+    for (const role of ['funeral_director', 'arranger', 'embalmer'] as const) {
+      await expect(OrganizationService.invite(organization, "new@example.com", role, inviter, OFFICE_MANAGER.role))
+        .rejects.toThrow();
+    }
+    expect(storage.createOrganizationInvite).not.toHaveBeenCalled();
+  });
+
+  it("lets an office manager invite to roles within their own", async () => {
+    const invite = await OrganizationService.invite(organization, " New@Example.com ", 'read_only', inviter, OFFICE_MANAGER.role);
+
+    expect(invite).toMatchObject({ email: "new@example.com", role: 'read_only', invitedBy: inviter.id });
+  });
+
+  it("lets a funeral director invite to any role", async () => {
+    const invite = await OrganizationService.invite(organization, "new@example.com", 'funeral_director', inviter, DIRECTOR.role);
+
+    expect(invite.role).toBe('funeral_director');
+  });
+});
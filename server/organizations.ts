@@ -0,0 +1,153 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { sendOrganizationInviteEmail } from "./email";
+import { canGrantRole, hasPermission, normalizeOrganizationRole, type OrganizationRole } from "@shared/permissions";
+import type { Organization, OrganizationInvite, OrganizationMember, OrganizationMembership, User } from "@shared/schema";
+import { logger } from "./logger";
+
+const INVITE_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class OrganizationService {
+  static async createForUser(user: User, name: string): Promise<OrganizationMember> {
+    const organization = await storage.createOrganization({ name: name.trim() || user.name });
+    return storage.addOrganizationMember({ organizationId: organization.id, userId: user.id, role: 'funeral_director' });
+  }
+
+  // The organization's name and the member's role, as sent to the client
+  static async describe(membership: OrganizationMember): Promise<OrganizationMembership> {
+    const organization = await storage.getOrganizationById(membership.organizationId);
+    return { id: membership.organizationId, name: organization?.name || '', role: normalizeOrganizationRole(membership.role) };
+  }
+
+  /**
+   * The membership a request acts under: the organization named in the token if the user
+   * still belongs to it, otherwise the first one they joined.
+   */
+  static async getActiveMembership(userId: number, organizationId?: number): Promise<OrganizationMember | undefined> {
+    if (organizationId) {
+      const membership = await storage.getOrganizationMember(organizationId, userId);
+      if (membership) return membership;
+    }
+
+    const [first] = await storage.getOrganizationsForUser(userId);
+    return first ? storage.getOrganizationMember(first.id, userId) : undefined;
+  }
+
+  static async invite(organization: Organization, email: string, role: OrganizationRole, inviter: User, inviterRole: string): Promise<OrganizationInvite> {
+    if (!canGrantRole(inviterRole, role)) {
+      throw new Error("You can't invite someone to a role that can do more than yours");
+    }
+
+    const invite = await storage.createOrganizationInvite({
+      organizationId: organization.id,
+      email: email.trim().toLowerCase(),
+      token: crypto.randomBytes(32).toString('hex'),
+      invitedBy: inviter.id,
+      role,
+      expiresAt: new Date(Date.now() + INVITE_LIFETIME_MS),
+    });
+
+    const emailSent = await sendOrganizationInviteEmail(invite.email, invite.token, organization.name, inviter.name);
+    if (!emailSent) {
+      logger.error("failed to send organization invite email", { organizationId: organization.id, inviteId: invite.id });
+    }
+
+    return invite;
+  }
+
+  /**
+   * Someone must always be left who can manage the organization's members. Nobody changes their
+   * own role, or gives or takes away a role that can do more than theirs.
+   */
+  static async changeRole(organizationId: number, userId: number, role: OrganizationRole, actor: { userId: number; role: string }): Promise<OrganizationMember> {
+    if (userId === actor.userId) {
+      throw new Error("You can't change your own role");
+    }
+
+    const members = await storage.getOrganizationMembers(organizationId);
+    const member = members.find(m => m.userId === userId);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+    if (!canGrantRole(actor.role, role) || !canGrantRole(actor.role, member.role)) {
+      throw new Error("You can't give or change a role that can do more than yours");
+    }
+
+    const managersLeft = members.filter(m =>
+      hasPermission(m.userId === userId ? role : m.role, 'manage_members')
+    );
+    if (managersLeft.length === 0) {
+      throw new Error("At least one member must keep a role that can manage members");
+    }
+
+    return storage.updateOrganizationMemberRole(organizationId, userId, role);
+  }
+
+  // An invite can be used once, before it expires, by the account it was sent to
+  static async findUsableInvite(token: string, email: string): Promise<OrganizationInvite> {
+    const invite = await storage.getOrganizationInvite(token);
+    if (!invite || invite.acceptedAt || new Date() > invite.expiresAt) {
+      throw new Error("This invitation is invalid or has expired");
+    }
+    if (invite.email !== email.trim().toLowerCase()) {
+      throw new Error("This invitation was sent to a different email address");
+    }
+    return invite;
+  }
+
+  static async accept(token: string, user: User): Promise<OrganizationMember> {
+    const invite = await this.findUsableInvite(token, user.email);
+
+    const existing = await storage.getOrganizationMember(invite.organizationId, user.id);
+    const membership = existing || await storage.addOrganizationMember({
+      organizationId: invite.organizationId,
+      userId: user.id,
+      role: invite.role,
+    });
+
+    await storage.markOrganizationInviteAccepted(invite.id);
+    return membership;
+  }
+
+  /**
+   * One-time move of accounts from before organizations existed. Each user gets a home of their
+   * own, named after their free-text funeral home, and directs it; the free text alone isn't
+   * trusted to say who works together. Users whose names match are logged so an admin can
+   * merge their homes, or they can invite each other. Safe to run on every start: only users
+   * with no membership are touched.
+   */
+  static async migrateExistingUsers(): Promise<number> {
+    const pending = await storage.getUsersWithoutOrganization();
+    const sameName = new Map<string, number[]>();
+
+    for (const user of pending) {
+      const { organizationId } = await this.createForUser(user, user.funeralHome || user.name);
+      await storage.assignUserRecordsToOrganization(user.id, organizationId);
+      logger.info("gave user an organization of their own", { userId: user.id, organizationId });
+
+      const homeName = user.funeralHome?.trim().replace(/\s+/g, ' ').toLowerCase();
+      if (homeName) sameName.set(homeName, [...(sameName.get(homeName) || []), organizationId]);
+    }
+
+    for (const [homeName, organizationIds] of Array.from(sameName)) {
+      if (organizationIds.length > 1) {
+        logger.info("organizations share a funeral home name and may need merging", { homeName, organizationIds });
+      }
+    }
+
+    return pending.length;
+  }
+
+  // Done by an admin once they know two homes are really one; members join as arrangers
+  static async merge(from: Organization, into: Organization): Promise<number[]> {
+    const userIds = await storage.mergeOrganizations(from.id, into.id);
+    logger.info("merged organizations", { from: from.id, into: into.id, userIds });
+    return userIds;
+  }
+
+  // Memberships from before staff roles keep what they could do: owners direct, members arrange
+  static async migrateLegacyRoles(): Promise<void> {
+    await storage.renameOrganizationRole('owner', 'funeral_director');
+    await storage.renameOrganizationRole('member', 'arranger');
+  }
+}
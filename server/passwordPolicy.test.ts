@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The policy is read from the environment once, when the module loads
+async function loadWithEnv(env: Record<string, string>) {
+  vi.resetModules();
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  return await import("./passwordPolicy");
+}
+
+describe("enforcePasswordPolicy", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("lets an acceptable password through", async () => {
+    const { enforcePasswordPolicy } = await loadWithEnv({});
+
+    expect(() => enforcePasswordPolicy("Lantern-Harbor42", { email: "jo@example.com", name: "Jo" })).not.toThrow();
+  });
+
+  it("raises an error listing what the password misses", async () => {
+    const { enforcePasswordPolicy, PasswordPolicyError } = await loadWithEnv({});
+
+    try {
+      enforcePasswordPolicy("harbor", { email: "jo@example.com" });
+      expect.unreachable();
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(PasswordPolicyError);
+      expect(error.problems).toEqual(["At least 10 characters", "An uppercase letter", "A number"]);
+      expect(error.message).toBe("Password doesn't meet the requirements (at least 10 characters, an uppercase letter, a number)");
+    }
+  });
+
+  it("checks the password against the owner's email and name", async () => {
+    const { enforcePasswordPolicy } = await loadWithEnv({});
+
+    expect(() => enforcePasswordPolicy("Margaret-2024", { email: "mhale@example.com", name: "Margaret Hale" })).toThrow("not a common password");
+  });
+
+  it("is configured from the environment", async () => {
+    const { PASSWORD_POLICY } = await loadWithEnv({ PASSWORD_MIN_LENGTH: '14', PASSWORD_REQUIRE_SYMBOL: 'true', PASSWORD_REQUIRE_UPPERCASE: 'false' });
+
+    expect(PASSWORD_POLICY).toMatchObject({ minLength: 14, requireSymbol: true, requireUppercase: false, requireNumber: true });
+  });
+
+  it("never allows fewer than 8 characters", async () => {
+    const { PASSWORD_POLICY } = await loadWithEnv({ PASSWORD_MIN_LENGTH: '4' });
+
+    expect(PASSWORD_POLICY.minLength).toBe(8);
+  });
+});
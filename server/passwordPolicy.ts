@@ -0,0 +1,30 @@
+import { DEFAULT_PASSWORD_POLICY, passwordProblems, type PasswordPolicy } from "@shared/passwordPolicy";
+
+function flag(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  return value === undefined ? fallback : value === 'true';
+}
+
+// Configured with PASSWORD_MIN_LENGTH and PASSWORD_REQUIRE_UPPERCASE/LOWERCASE/NUMBER/SYMBOL
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: Math.max(parseInt(process.env.PASSWORD_MIN_LENGTH || '', 10) || DEFAULT_PASSWORD_POLICY.minLength, 8),
+  requireUppercase: flag('PASSWORD_REQUIRE_UPPERCASE', DEFAULT_PASSWORD_POLICY.requireUppercase),
+  requireLowercase: flag('PASSWORD_REQUIRE_LOWERCASE', DEFAULT_PASSWORD_POLICY.requireLowercase),
+  requireNumber: flag('PASSWORD_REQUIRE_NUMBER', DEFAULT_PASSWORD_POLICY.requireNumber),
+  requireSymbol: flag('PASSWORD_REQUIRE_SYMBOL', DEFAULT_PASSWORD_POLICY.requireSymbol),
+};
+
+// Raised when a new password doesn't meet the policy; the message lists what it is missing
+export class PasswordPolicyError extends Error {
+  constructor(public problems: string[]) {
+    super(`Password doesn't meet the requirements (${problems.join(', ').toLowerCase()})`);
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+export function enforcePasswordPolicy(password: string, owner: { email: string; name?: string | null }): void {
+  const problems = passwordProblems(password, PASSWORD_POLICY, [owner.email, owner.name ?? '']);
+  if (problems.length > 0) {
+    throw new PasswordPolicyError(problems);
+  }
+}
@@ -0,0 +1,85 @@
+import { EventEmitter } from "events";
+import type { Response } from "express";
+import type { ProgressEvent, ProgressStage } from "@shared/progressEvents";
+
+// Recent events are replayed to late subscribers, e.g. a page that opens its
+// stream a moment after the request that started the work
+const REPLAY_LIMIT = 50;
+const REPLAY_WINDOW_MS = 5 * 60 * 1000;
+const HEARTBEAT_MS = 25 * 1000;
+// Once a run has finished its channel is kept only long enough for a late page to see how it ended
+const FINISHED_RETENTION_MS = 60 * 1000;
+const FINAL_STAGES: ProgressStage[] = ['arrangement_saved', 'changes_proposed', 'extraction_failed', 'job_completed'];
+
+export class ProgressEvents {
+  private static emitter = new EventEmitter().setMaxListeners(0);
+  private static recent = new Map<string, ProgressEvent[]>();
+  private static expiry = new Map<string, NodeJS.Timeout>();
+
+  static transcriptChannel(transcriptId: number): string {
+    return `transcript:${transcriptId}`;
+  }
+
+  static arrangementChannel(arrangementId: number): string {
+    return `arrangement:${arrangementId}`;
+  }
+
+  static publish(channels: string | string[], event: Omit<ProgressEvent, 'timestamp'>) {
+    const fullEvent: ProgressEvent = { ...event, timestamp: new Date().toISOString() };
+
+    for (const channel of Array.isArray(channels) ? channels : [channels]) {
+      const buffer = (this.recent.get(channel) || []).filter(
+        e => Date.now() - new Date(e.timestamp).getTime() < REPLAY_WINDOW_MS
+      );
+      buffer.push(fullEvent);
+      this.recent.set(channel, buffer.slice(-REPLAY_LIMIT));
+      this.expire(channel, FINAL_STAGES.includes(event.stage) ? FINISHED_RETENTION_MS : REPLAY_WINDOW_MS);
+
+      this.emitter.emit(channel, fullEvent);
+    }
+  }
+
+  // Drops buffered events so a fresh run doesn't replay the previous run's stages
+  static reset(channel: string) {
+    this.recent.delete(channel);
+    clearTimeout(this.expiry.get(channel));
+    this.expiry.delete(channel);
+  }
+
+  // Forgets a channel after a quiet spell, so channels that are never reset don't pile up
+  private static expire(channel: string, afterMs: number) {
+    clearTimeout(this.expiry.get(channel));
+    const timer = setTimeout(() => {
+      this.recent.delete(channel);
+      this.expiry.delete(channel);
+    }, afterMs);
+    timer.unref();
+    this.expiry.set(channel, timer);
+  }
+
+  // Streams a channel to an HTTP response as Server-Sent Events until the client disconnects
+  static stream(channel: string, req: { on(event: 'close', listener: () => void): void }, res: Response) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const send = (event: ProgressEvent) => {
+      res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const replay = (this.recent.get(channel) || []).filter(
+      e => Date.now() - new Date(e.timestamp).getTime() < REPLAY_WINDOW_MS
+    );
+    replay.forEach(send);
+
+    const heartbeat = setInterval(() => res.write(`: heartbeat\n\n`), HEARTBEAT_MS);
+    this.emitter.on(channel, send);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.emitter.off(channel, send);
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  getValueAtPath,
+  isPopulatedValue,
+  type ExtractedArrangementData,
+  type FieldSources,
+} from "@shared/extraction";
+
+export class ProvenanceService {
+  /**
+   * Turns the model's path -> quote map into character spans in the transcript.
+   * Quotes for fields that ended up empty are dropped; quotes that can't be found
+   * are kept with a null span so the reviewer still sees what the model relied on.
+   */
+  static locateSources(
+    quotes: Record<string, string>,
+    data: ExtractedArrangementData,
+    transcriptText: string,
+  ): FieldSources {
+    const sources: FieldSources = {};
+
+    for (const [path, rawQuote] of Object.entries(quotes)) {
+      const quote = rawQuote.trim();
+      if (!quote || !path.startsWith('arrangement.')) continue;
+      if (!isPopulatedValue(getValueAtPath(data, path))) continue;
+
+      const span = this.findQuote(transcriptText, quote);
+      sources[path] = {
+        quote: span ? transcriptText.slice(span.start, span.end) : quote,
+        start: span?.start ?? null,
+        end: span?.end ?? null,
+      };
+    }
+
+    return sources;
+  }
+
+  static findQuote(transcriptText: string, quote: string): { start: number; end: number } | null {
+    const exact = transcriptText.indexOf(quote);
+    if (exact !== -1) {
+      return { start: exact, end: exact + quote.length };
+    }
+
+    // Models often change case, whitespace or punctuation when quoting, so match on words alone
+    const words = quote
+      .split(/\s+/)
+      .map(word => word.replace(/^[^\w]+|[^\w]+$/g, ''))
+      .filter(Boolean)
+      .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+    if (words.length === 0) return null;
+
+    const match = new RegExp(words.join('[^\\w]+'), 'i').exec(transcriptText);
+    if (!match) return null;
+
+    return { start: match.index, end: match.index + match[0].length };
+  }
+}
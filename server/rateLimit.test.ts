@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimiter } from "./rateLimit";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets attempts through up to the limit", () => {
+    const limiter = new RateLimiter(3, 60 * 1000);
+
+    expect([limiter.consume("10.0.0.1"), limiter.consume("10.0.0.1"), limiter.consume("10.0.0.1")]).toEqual([0, 0, 0]);
+  });
+
+  it("says how long to wait once a key is over its limit", () => {
+    const limiter = new RateLimiter(2, 60 * 1000);
+    limiter.consume("10.0.0.1");
+    limiter.consume("10.0.0.1");
+    vi.advanceTimersByTime(15 * 1000);
+
+    expect(limiter.consume("10.0.0.1")).toBe(45);
+  });
+
+  it("counts each key separately", () => {
+    const limiter = new RateLimiter(1, 60 * 1000);
+    limiter.consume("10.0.0.1");
+
+    expect(limiter.consume("10.0.0.2")).toBe(0);
+    expect(limiter.consume("10.0.0.1")).toBeGreaterThan(0);
+  });
+
+  it("starts a new window once the last one has passed", () => {
+    const limiter = new RateLimiter(1, 60 * 1000);
+    limiter.consume("jo@example.com");
+    limiter.consume("jo@example.com");
+    vi.advanceTimersByTime(60 * 1000);
+
+    expect(limiter.consume("jo@example.com")).toBe(0);
+  });
+
+  it("forgets a key that is reset", () => {
+    const limiter = new RateLimiter(1, 60 * 1000);
+    limiter.consume("jo@example.com");
+    limiter.reset("jo@example.com");
+
+    expect(limiter.consume("jo@example.com")).toBe(0);
+  });
+});
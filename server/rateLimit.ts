@@ -0,0 +1,40 @@
+// Keys are dropped once their window has passed, checked at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Counts attempts per key (an IP address or email) in fixed windows held in memory. Limits are
+ * per server process, which is enough to slow down guessing from one address.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private lastSweep = Date.now();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Counts an attempt, returning the seconds to wait if the key is over its limit, otherwise 0
+  consume(key: string): number {
+    const now = Date.now();
+    this.sweep(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count++;
+    return window.count > this.limit ? Math.ceil((window.resetAt - now) / 1000) : 0;
+  }
+
+  reset(key: string): void {
+    this.windows.delete(key);
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { and, asc, eq, getTableColumns, gt } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { db, pool } from "./db";
+import { FieldEncryption } from "./encryption";
+import { ENCRYPTED_COLUMNS } from "./storage";
+import { logger } from "./logger";
+import { arrangementDeltas, arrangementFieldChanges, arrangements, documents, transcripts } from "@shared/schema";
+
+const BATCH_SIZE = 100;
+
+const TABLES = { transcripts, arrangements, arrangementFieldChanges, arrangementDeltas, documents };
+
+type EncryptedTableName = keyof typeof ENCRYPTED_COLUMNS;
+type EncryptedTable = (typeof TABLES)[EncryptedTableName];
+type EncryptedRow = { id: number } & Record<string, unknown>;
+
+/**
+ * Brings every encrypted column up to the current FIELD_ENCRYPTION_KEY: plaintext rows are
+ * encrypted and data keys wrapped by a previous key are rewrapped. Run with
+ * `npm run db:reencrypt` after adding a key or rotating to a new one; it is safe to run again.
+ */
+async function reencryptTable(name: EncryptedTableName): Promise<number> {
+  const table: EncryptedTable = TABLES[name];
+  const columns: readonly string[] = ENCRYPTED_COLUMNS[name];
+  const tableColumns: Record<string, PgColumn> = getTableColumns(table);
+  let lastId = 0;
+  let updated = 0;
+
+  for (;;) {
+    const rows: EncryptedRow[] = await db.select().from(table).where(gt(table.id, lastId)).orderBy(asc(table.id)).limit(BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const changes: Record<string, string> = {};
+      for (const column of columns) {
+        const value = row[column];
+        if (typeof value !== 'string') continue;
+        const resealed = FieldEncryption.reseal(value, `${name}.${column}`);
+        if (resealed !== null) changes[column] = resealed;
+      }
+      if (Object.keys(changes).length === 0) continue;
+
+      // Only written if the row hasn't changed since it was read, so a concurrent edit isn't lost
+      const unchanged = Object.keys(changes).map((column) => eq(tableColumns[column], row[column]));
+      const result = await db.update(table).set(changes).where(and(eq(table.id, row.id), ...unchanged)).returning({ id: table.id });
+      updated += result.length;
+    }
+
+    lastId = rows[rows.length - 1].id;
+  }
+
+  return updated;
+}
+
+(async () => {
+  try {
+    logger.info("re-encrypting sensitive fields", { keyId: FieldEncryption.currentKeyId() });
+    for (const name of Object.keys(ENCRYPTED_COLUMNS) as EncryptedTableName[]) {
+      const updated = await reencryptTable(name);
+      logger.info("re-encrypted table", { table: name, rows: updated });
+    }
+  } catch (error: any) {
+    logger.error("re-encryption failed", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const rows = vi.hoisted(() => ({
+  transcripts: new Map<number, any>(),
+  arrangements: new Map<number, any>(),
+  deltas: new Map<number, any>(),
+  documents: new Map<number, any>(),
+  tasks: new Map<number, any>(),
+  jobs: new Map<number, any>(),
+  imports: new Map<number, any>(),
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getTranscript: vi.fn(async (id: number) => rows.transcripts.get(id)),
+    getArrangementById: vi.fn(async (id: number) => rows.arrangements.get(id)),
+    getArrangementDeltaById: vi.fn(async (id: number) => rows.deltas.get(id)),
+    getDocumentById: vi.fn(async (id: number) => rows.documents.get(id)),
+    getTaskById: vi.fn(async (id: number) => rows.tasks.get(id)),
+    getJobById: vi.fn(async (id: number) => rows.jobs.get(id)),
+    getTranscriptImport: vi.fn(async (id: number) => rows.imports.get(id)),
+  },
+}));
+
+import { storage } from "./storage";
+import { ResourceAccessService, requireAccess, type ResourceKind } from "./resourceAccess";
+
+// Organization 1 is the caller's; organization 2 belongs to another funeral home
+const OWNER = { userId: 10, organizationId: 1 };
+const OWN_ID = 1;
+const OTHER_ID = 2;
+
+function seed() {
+  for (const table of Object.values(rows)) table.clear();
+
+  rows.transcripts.set(OWN_ID, { id: OWN_ID, userId: 10, organizationId: 1 });
+  rows.transcripts.set(OTHER_ID, { id: OTHER_ID, userId: 20, organizationId: 2 });
+  rows.arrangements.set(OWN_ID, { id: OWN_ID, transcriptId: OWN_ID, organizationId: 1 });
+  rows.arrangements.set(OTHER_ID, { id: OTHER_ID, transcriptId: OTHER_ID, organizationId: 2 });
+
+  // Everything else hangs off the case with the same id
+  for (const id of [OWN_ID, OTHER_ID]) {
+    rows.deltas.set(id, { id, arrangementId: id });
+    rows.documents.set(id, { id, arrangementId: id, type: 'summary' });
+    rows.tasks.set(id, { id, arrangementId: id });
+    rows.jobs.set(id, { id, arrangementId: id, documents: [] });
+  }
+
+  rows.imports.set(OWN_ID, { id: OWN_ID, organizationId: 1, userId: 10 });
+  rows.imports.set(OTHER_ID, { id: OTHER_ID, organizationId: 2, userId: 20 });
+}
+
+async function callRequireAccess(kind: ResourceKind, id: string, user = OWNER) {
+  const req: any = { params: { id }, user };
+  const res: any = {
+    statusCode: 200,
+    body: undefined,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  const next = vi.fn();
+
+  await requireAccess(kind)(req, res, next);
+  return { req, res, next };
+}
+
+describe("requireAccess", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    seed();
+  });
+
+  const kinds: Array<[ResourceKind, string]> = [
+    ['arrangement', 'Arrangement'],
+    ['transcript', 'Transcript'],
+    ['arrangement_delta', 'Proposed changes'],
+    ['document', 'Document'],
+    ['task', 'Task'],
+    ['job', 'Job'],
+    ['transcript_import', 'Import'],
+  ];
+
+  describe.each(kinds)("%s", (kind, label) => {
+    it("passes the caller's own record on to the route", async () => {
+      const { req, res, next } = await callRequireAccess(kind, String(OWN_ID));
+
+      expect(next).toHaveBeenCalledOnce();
+      expect(res.statusCode).toBe(200);
+      expect(req.resource.id).toBe(OWN_ID);
+      expect(req.resourceKind).toBe(kind);
+    });
+
+    it("answers 404 for another organization's record", async () => {
+      const { req, res, next } = await callRequireAccess(kind, String(OTHER_ID));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(404);
+      expect(res.body).toEqual({ message: `${label} not found` });
+      expect(req.resource).toBeUndefined();
+    });
+
+    it("answers 404 for a record that doesn't exist", async () => {
+      const { res, next } = await callRequireAccess(kind, "999");
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(404);
+    });
+  });
+
+  it("answers 404 without a lookup when the id isn't a number", async () => {
+    const { res, next } = await callRequireAccess('document', "abc");
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(404);
+    expect(storage.getDocumentById).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 when a record's case is missing", async () => {
+    rows.documents.set(3, { id: 3, arrangementId: 404 });
+
+    const { res, next } = await callRequireAccess('document', "3");
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("answers 500 when the lookup fails", async () => {
+    vi.mocked(storage.getTaskById).mockRejectedValueOnce(new Error("connection lost"));
+
+    const { res, next } = await callRequireAccess('task', String(OWN_ID));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ message: "connection lost" });
+  });
+});
+
+describe("ResourceAccessService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    seed();
+    // Rows from before organizations existed
+    rows.transcripts.set(5, { id: 5, userId: 10, organizationId: null });
+    rows.arrangements.set(5, { id: 5, transcriptId: 5, organizationId: null });
+    rows.documents.set(5, { id: 5, arrangementId: 5, type: 'summary' });
+  });
+
+  it("shows a transcript without an organization only to the user who uploaded it", async () => {
+    expect(await ResourceAccessService.load('transcript', 5, OWNER)).toMatchObject({ id: 5 });
+    expect(await ResourceAccessService.load('transcript', 5, { userId: 20, organizationId: 1 })).toBeUndefined();
+  });
+
+  it("falls back to the transcript for a case without an organization", async () => {
+    expect(await ResourceAccessService.load('document', 5, OWNER)).toMatchObject({ id: 5 });
+    expect(await ResourceAccessService.load('document', 5, { userId: 20, organizationId: 1 })).toBeUndefined();
+  });
+
+  it("goes by the organization, not the uploader, once a transcript has one", async () => {
+    rows.transcripts.set(6, { id: 6, userId: 10, organizationId: 2 });
+
+    expect(await ResourceAccessService.load('transcript', 6, OWNER)).toBeUndefined();
+  });
+});
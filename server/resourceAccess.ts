@@ -0,0 +1,117 @@
+import { storage } from "./storage";
+import type { Arrangement, ArrangementDelta, Document, FuneralTask, JobWithDocuments, Transcript, TranscriptImport } from "@shared/schema";
+
+export type ResourceKind = 'transcript' | 'arrangement' | 'arrangement_delta' | 'document' | 'task' | 'job' | 'transcript_import';
+
+export const RESOURCE_LABELS: Record<ResourceKind, string> = {
+  transcript: 'Transcript',
+  arrangement: 'Arrangement',
+  arrangement_delta: 'Proposed changes',
+  document: 'Document',
+  task: 'Task',
+  job: 'Job',
+  transcript_import: 'Import',
+};
+
+type Resources = {
+  transcript: Transcript;
+  arrangement: Arrangement;
+  arrangement_delta: ArrangementDelta;
+  document: Document;
+  task: FuneralTask;
+  job: JobWithDocuments;
+  transcript_import: TranscriptImport;
+};
+
+export interface Caller {
+  userId: number;
+  organizationId: number;
+}
+
+/**
+ * Resolves any row a route is asked for back to the case it belongs to, and from there to
+ * the organization that owns it: document, task, job or delta → arrangement → transcript → user.
+ * Rows from before organizations carry no organization yet and are only visible to the user
+ * who uploaded the transcript. Imports always belong to an organization.
+ */
+export class ResourceAccessService {
+  static async load<K extends ResourceKind>(kind: K, id: number, caller: Caller): Promise<Resources[K] | undefined> {
+    if (!Number.isInteger(id)) {
+      return undefined;
+    }
+
+    const resource = await this.find(kind, id);
+    if (!resource) {
+      return undefined;
+    }
+
+    // Everything other than a transcript or an import hangs off a case
+    const allowed = kind === 'transcript_import'
+      ? (resource as TranscriptImport).organizationId === caller.organizationId
+      : kind === 'transcript'
+      ? this.canAccessTranscript(resource as Transcript, caller)
+      : await this.canAccessArrangement(
+          kind === 'arrangement'
+            ? resource as Arrangement
+            : await storage.getArrangementById((resource as { arrangementId: number }).arrangementId),
+          caller,
+        );
+
+    return allowed ? resource as Resources[K] : undefined;
+  }
+
+  static async canAccessArrangement(arrangement: Arrangement | undefined, caller: Caller): Promise<boolean> {
+    if (!arrangement) {
+      return false;
+    }
+    if (arrangement.organizationId !== null) {
+      return arrangement.organizationId === caller.organizationId;
+    }
+
+    const transcript = await storage.getTranscript(arrangement.transcriptId);
+    return !!transcript && this.canAccessTranscript(transcript, caller);
+  }
+
+  static canAccessTranscript(transcript: Transcript, caller: Caller): boolean {
+    if (transcript.organizationId !== null) {
+      return transcript.organizationId === caller.organizationId;
+    }
+    return transcript.userId === caller.userId;
+  }
+
+  private static async find(kind: ResourceKind, id: number) {
+    switch (kind) {
+      case 'transcript':
+        return storage.getTranscript(id);
+      case 'arrangement':
+        return storage.getArrangementById(id);
+      case 'arrangement_delta':
+        return storage.getArrangementDeltaById(id);
+      case 'document':
+        return storage.getDocumentById(id);
+      case 'task':
+        return storage.getTaskById(id);
+      case 'job':
+        return storage.getJobById(id);
+      case 'transcript_import':
+        return storage.getTranscriptImport(id);
+    }
+  }
+}
+
+// Middleware to load the record named by a route parameter, answering 404 unless it belongs to the caller's organization
+export function requireAccess(kind: ResourceKind, param = "id") {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const resource = await ResourceAccessService.load(kind, parseInt(req.params[param]), req.user);
+      if (!resource) {
+        return res.status(404).json({ message: `${RESOURCE_LABELS[kind]} not found` });
+      }
+      req.resource = resource;
+      req.resourceKind = kind;
+      next();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  };
+}
@@ -0,0 +1,138 @@
+import fs from "fs";
+import { storage } from "./storage";
+import { logger } from "./logger";
+import type { Organization, RetentionPurgeReport, RetentionPurgeRun } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How often the scheduler checks whether a purge is due, and how far apart purges are
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const RUN_INTERVAL_MS = DAY_MS;
+
+type OrganizationReport = RetentionPurgeReport['organizations'][number];
+
+/**
+ * Applies each organization's retention rules once a day: raw transcripts are emptied, with any
+ * recording left on disk, and generated documents deleted once their case has been closed for
+ * longer than the rule allows.
+ * Cases under a legal hold are left alone and counted in the run's report.
+ */
+export class RetentionService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running: Promise<RetentionPurgeRun> | null = null;
+
+  static start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS);
+    setImmediate(() => this.runIfDue());
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // A run already in progress is returned rather than started a second time
+  static run(trigger: 'scheduled' | 'manual'): Promise<RetentionPurgeRun> {
+    if (!this.running) {
+      this.running = this.purge(trigger).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  // The last run is read from the database, so restarting the server doesn't purge again early
+  private static async runIfDue() {
+    try {
+      const [latest] = await storage.getPurgeRuns(1);
+      if (latest && Date.now() - latest.startedAt.getTime() < RUN_INTERVAL_MS) return;
+      await this.run('scheduled');
+    } catch (error) {
+      logger.error("retention scheduler failed", error);
+    }
+  }
+
+  private static async purge(trigger: string): Promise<RetentionPurgeRun> {
+    const run = await storage.createPurgeRun(trigger);
+    const report: RetentionPurgeReport = { organizations: [] };
+
+    try {
+      for (const organization of await storage.getOrganizationsWithRetentionRules()) {
+        report.organizations.push(await this.purgeOrganization(organization));
+      }
+
+      logger.info("retention purge completed", {
+        runId: run.id,
+        organizations: report.organizations.length,
+        transcriptsPurged: report.organizations.reduce((sum, entry) => sum + entry.transcriptsPurged, 0),
+        recordingsDeleted: report.organizations.reduce((sum, entry) => sum + entry.recordingsDeleted, 0),
+      });
+      return await storage.updatePurgeRun(run.id, {
+        status: 'completed',
+        report: JSON.stringify(report),
+        completedAt: new Date(),
+      });
+    } catch (error: any) {
+      logger.error("retention purge failed", { runId: run.id, error });
+      // What was purged before the failure is still reported
+      return await storage.updatePurgeRun(run.id, {
+        status: 'failed',
+        report: JSON.stringify(report),
+        error: error.message,
+        completedAt: new Date(),
+      });
+    }
+  }
+
+  private static async purgeOrganization(organization: Organization): Promise<OrganizationReport> {
+    const entry: OrganizationReport = {
+      organizationId: organization.id,
+      organizationName: organization.name,
+      transcriptsPurged: 0,
+      recordingsDeleted: 0,
+      documentsDeleted: {},
+      casesOnHold: 0,
+    };
+    const held = new Set<number>();
+
+    for (const rule of await storage.getRetentionRules(organization.id)) {
+      const cutoff = new Date(Date.now() - rule.retainDays * DAY_MS);
+      const due = await storage.getArrangementsClosedBefore(organization.id, cutoff);
+
+      for (const arrangement of due) {
+        if (arrangement.legalHold) {
+          held.add(arrangement.id);
+          continue;
+        }
+
+        if (rule.target === 'transcripts') {
+          const { purged, audioPaths } = await storage.purgeTranscriptsForArrangement(arrangement);
+          entry.transcriptsPurged += purged;
+          entry.recordingsDeleted += await this.deleteRecordings(audioPaths);
+        } else {
+          const deleted = await storage.deleteDocumentsByType(arrangement.id, rule.target);
+          if (deleted > 0) {
+            const target = rule.target as keyof OrganizationReport['documentsDeleted'];
+            entry.documentsDeleted[target] = (entry.documentsDeleted[target] ?? 0) + deleted;
+          }
+        }
+      }
+
+      if (rule.target === 'transcripts') {
+        entry.recordingsDeleted += await this.deleteRecordings(await storage.clearFailedRecordings(organization.id, cutoff));
+      }
+    }
+
+    entry.casesOnHold = held.size;
+    return entry;
+  }
+
+  private static async deleteRecordings(audioPaths: string[]): Promise<number> {
+    for (const audioPath of audioPaths) {
+      await fs.promises.rm(audioPath, { force: true });
+    }
+    return audioPaths.length;
+  }
+}
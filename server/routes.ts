@@ -1,51 +1,199 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { ZodError } from "zod";
 import { storage } from "./storage";
-import { insertUserSchema, loginSchema, insertTranscriptSchema } from "@shared/schema";
+import { insertUserSchema, loginSchema, insertTranscriptSchema, confirmFieldReviewsSchema, resolveArrangementDeltaSchema, createOrganizationSchema, inviteMemberSchema, updateMemberRoleSchema, mergeOrganizationSchema, updateTaskSchema, auditEventFiltersSchema, refreshSessionSchema, twoFactorCodeSchema, verifyTwoFactorLoginSchema, disableTwoFactorSchema, organizationSecuritySchema, updateRetentionRulesSchema, legalHoldSchema, updateSpeakerRolesSchema, AUDIO_FILE_EXTENSIONS, MAX_AUDIO_UPLOAD_BYTES, MAX_DOCUMENT_UPLOAD_BYTES, MAX_IMPORT_ARCHIVE_BYTES, type SpeakerRoles, type Arrangement, type RetentionPurgeRun, type ArrangementDelta, type User, type OrganizationMember, type AuditAction, type AuditEventPage, type AuditResourceType, type Document, type FuneralTask, type Transcript, type OrganizationInvite, type OrganizationDetails, type PendingInviteSummary, type InvitePreview } from "@shared/schema";
+import {
+  extractedArrangementSchema,
+  formatExtractionIssues,
+  getPendingReviewPaths,
+  omitEntriesUnderPath,
+  type FieldChange,
+  type FieldReviews,
+} from "@shared/extraction";
 import { sendPasswordResetEmail } from "./email";
-import { AIService } from "./aiService";
+import { AIService, ExtractionValidationError } from "./aiService";
 import { DocumentService } from "./documentService";
 import { PDFService } from "./pdfService";
 import { EnhancedPDFService } from "./enhancedPdfService";
 import { ImprovedPDFService } from "./improvedPdfService";
+import { ActiveJobError, JobQueue } from "./jobQueue";
+import { ProgressEvents } from "./progressEvents";
+import { FieldReviewService } from "./fieldReview";
+import { ArrangementDeltaService } from "./arrangementDelta";
+import { FieldEditService } from "./fieldEdits";
+import { FieldHistoryService } from "./fieldHistory";
+import { OrganizationService } from "./organizations";
+import { AuditLogService } from "./auditLog";
+import { logger } from "./logger";
+import { SessionService, InvalidSessionError, type AccessTokenPayload } from "./sessions";
+import { TwoFactorService, TwoFactorError } from "./twoFactor";
+import { LoginProtectionService } from "./loginProtection";
+import { PASSWORD_POLICY, PasswordPolicyError, enforcePasswordPolicy } from "./passwordPolicy";
+import { RateLimiter } from "./rateLimit";
+import { RetentionService } from "./retention";
+import { TranscriptionService } from "./transcription";
+import { TranscriptProcessingService, getArrangementColumns } from "./transcriptProcessing";
+import { BulkImportService, BulkImportError } from "./bulkImport";
+import { TranscriptImportService, TranscriptImportError, type ImportedTranscript } from "./transcriptImport";
+import { ResourceAccessService, requireAccess } from "./resourceAccess";
+import { hasPermission, normalizeOrganizationRole, type Permission } from "@shared/permissions";
+import { listSpeakers, parseSpeakerRoles, parseSpeakerTurns } from "@shared/speakerTurns";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import multer from "multer";
-import path from "path";
 import fs from "fs";
+import path from "path";
 import crypto from "crypto";
 
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-const upload = multer({ dest: "uploads/" });
+// Recordings set the limit; documents are held to their smaller one once the type is known
+const upload = multer({ dest: "uploads/", limits: { fileSize: MAX_AUDIO_UPLOAD_BYTES } });
+// Archives of a home's historical transcripts can be large
+const bulkUpload = multer({ dest: "uploads/", limits: { fileSize: MAX_IMPORT_ARCHIVE_BYTES } });
+
+// Accepts the upload in the "file" field, answering 413 rather than a generic error when it is too big
+function singleFile(uploader: multer.Multer, maxBytes: number) {
+  const accept = uploader.single("file");
+  return (req: any, res: any, next: any) => accept(req, res, (error: any) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ message: `Files must be less than ${maxBytes / 1024 / 1024}MB` });
+    }
+    next(error);
+  });
+}
+
+// Attempts allowed from one IP address before it has to wait
+const loginLimiter = new RateLimiter(20, 15 * 60 * 1000);
+const registerLimiter = new RateLimiter(10, 60 * 60 * 1000);
+const forgotPasswordLimiter = new RateLimiter(5, 15 * 60 * 1000);
+// Reset emails sent to one address, however many IPs ask for them
+const resetEmailLimiter = new RateLimiter(3, 60 * 60 * 1000);
+
+const LEGAL_HOLD_MESSAGE = "This case is under a legal hold, so its records can't be deleted";
+
+// What staff who still have to set up two-factor can reach: their account, and switching homes
+const TWO_FACTOR_SETUP_ROUTES = /^\/api\/(auth\/|organizations(\/\d+\/switch)?(\?|$))/;
 
 // Middleware to verify JWT token
-function authenticateToken(req: any, res: any, next: any) {
-  console.log("=== AUTH MIDDLEWARE DEBUG ===");
-  console.log("Request headers:", JSON.stringify(req.headers, null, 2));
-  console.log("Authorization header:", req.headers["authorization"]);
-  
+async function authenticateToken(req: any, res: any, next: any) {
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1];
 
-  console.log("Extracted token:", token);
-
   if (!token) {
-    console.log("No token provided in request");
     return res.status(401).json({ message: "Access token required" });
   }
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) {
-      console.error("JWT verification error:", err.message);
-      console.error("Token that failed:", token?.substring(0, 20) + "...");
-      return res.status(403).json({ message: "Invalid or expired token" });
+  let payload: AccessTokenPayload;
+  try {
+    payload = SessionService.verifyAccessToken(token);
+  } catch (err: any) {
+    logger.warn("token rejected", { reason: err.message });
+    return res.status(401).json({ message: "Invalid or expired token" });
+  }
+
+  try {
+    // The session and membership are checked on every request so signing a device out or
+    // leaving a funeral home takes effect at once
+    const session = await SessionService.getActiveSession(payload.sessionId, payload.userId);
+    if (!session) {
+      return res.status(401).json({ message: "Your session has ended. Please sign in again." });
+    }
+
+    const membership = await OrganizationService.getActiveMembership(payload.userId, payload.organizationId);
+    if (!membership) {
+      return res.status(403).json({ message: "You are not a member of any organization" });
+    }
+
+    req.user = {
+      ...payload,
+      organizationId: membership.organizationId,
+      organizationRole: normalizeOrganizationRole(membership.role),
+    };
+
+    if (!TWO_FACTOR_SETUP_ROUTES.test(req.originalUrl) && await TwoFactorService.needsEnrollment(payload.userId, membership.organizationId)) {
+      return res.status(403).json({ message: "Your organization requires two-factor authentication. Turn it on in your profile to continue." });
     }
-    console.log("Token verified successfully for user:", user.userId);
-    req.user = user;
     next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+}
+
+// Middleware to turn away an IP address that has made too many attempts
+function rateLimit(limiter: RateLimiter) {
+  return (req: any, res: any, next: any) => {
+    const retryAfter = limiter.consume(req.ip ?? "unknown");
+    if (retryAfter > 0) {
+      logger.warn("rate limit reached", { route: req.path, ipAddress: req.ip });
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({ message: "Too many attempts. Please wait a few minutes and try again." });
+    }
+    next();
+  };
+}
+
+function accountLocked(res: any, retryAfter: number) {
+  res.set("Retry-After", String(retryAfter));
+  const minutes = Math.ceil(retryAfter / 60);
+  return res.status(429).json({
+    message: `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"} or reset your password.`,
   });
 }
 
+// Device details kept with a session so the user can tell their sign-ins apart
+function requestInfo(req: any) {
+  return { userAgent: req.get("user-agent") ?? null, ipAddress: req.ip ?? null };
+}
+
+// Lets the client send staff who still have to set up two-factor to their profile
+async function twoFactorFlags(user: User, organizationId: number) {
+  return {
+    twoFactorEnabled: TwoFactorService.isEnabled(user),
+    twoFactorSetupRequired: await TwoFactorService.needsEnrollment(user.id, organizationId),
+  };
+}
+
+// Starts a session on this device and answers a completed sign-in
+async function signInResponse(req: any, user: User, membership: OrganizationMember, message = "Login successful") {
+  const { token, refreshToken } = await SessionService.start(user, membership.organizationId, requestInfo(req));
+  return {
+    message,
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      funeralHome: user.funeralHome,
+      role: user.role,
+      organization: await OrganizationService.describe(membership),
+      ...(await twoFactorFlags(user, membership.organizationId)),
+    },
+  };
+}
+
+// Middleware to verify the user's role in their organization allows an action
+function requirePermission(permission: Permission) {
+  return (req: any, res: any, next: any) => {
+    if (!req.user || !hasPermission(req.user.organizationRole, permission)) {
+      return res.status(403).json({ message: "Your role in this organization doesn't allow that" });
+    }
+    next();
+  };
+}
+
+// Middleware to record the request in the audit trail once the response has gone out
+function audit(action: AuditAction, resourceType: AuditResourceType) {
+  return (req: any, res: any, next: any) => {
+    res.on("finish", () => AuditLogService.record(req, res, action, resourceType));
+    next();
+  };
+}
+
+// Invitations leave the server without their tokens, which only go out by email
+function toInviteSummary(invite: OrganizationInvite): PendingInviteSummary {
+  return { id: invite.id, email: invite.email, role: invite.role, expiresAt: invite.expiresAt, createdAt: invite.createdAt };
+}
+
 // Middleware to verify admin role
 function requireAdmin(req: any, res: any, next: any) {
   if (!req.user || req.user.role !== 'admin') {
@@ -54,11 +202,70 @@ function requireAdmin(req: any, res: any, next: any) {
   next();
 }
 
+// Cause of death is left out for roles that may not see it, along with the transcript passages
+// behind each value, which can mention it
+function forRole(arrangement: Arrangement, role: string): Arrangement {
+  return hasPermission(role, 'view_cause_of_death') ? arrangement : { ...arrangement, causeOfDeath: null, fieldSources: null };
+}
+
+// The conversation itself often says how the person died
+function transcriptForRole(transcript: Transcript, role: string): Transcript {
+  return hasPermission(role, 'view_cause_of_death') ? transcript : { ...transcript, content: '', speakerTurns: null };
+}
+
+// Proposed changes carry the transcript passages behind them
+function deltaForRole(delta: ArrangementDelta, role: string): ArrangementDelta {
+  if (hasPermission(role, 'view_cause_of_death')) return delta;
+  const changes: FieldChange[] = JSON.parse(delta.changes);
+  return { ...delta, changes: JSON.stringify(changes.map(change => ({ ...change, sources: {} }))) };
+}
+
+// Death certificate information lists the immediate cause of death
+function canSeeDocument(type: string, role: string): boolean {
+  return type !== 'death_cert' || hasPermission(role, 'view_cause_of_death');
+}
+
+const CAUSE_OF_DEATH_MESSAGE = "Your role in this organization doesn't allow viewing the cause of death";
+
+// Saving from the arrangement view sends the whole document; the fields that differ are
+// marked as hand edits and logged
+async function saveManualEdits(arrangement: Arrangement, submitted: unknown, userId: number): Promise<Arrangement> {
+  const edited = extractedArrangementSchema.parse(typeof submitted === 'string' ? JSON.parse(submitted) : submitted);
+  const current = ArrangementDeltaService.getCaseState(arrangement);
+
+  const updatedArrangement = await storage.updateArrangement(arrangement.id, {
+    ...getArrangementColumns(edited),
+    extractedData: JSON.stringify(edited),
+    fieldEdits: JSON.stringify(FieldEditService.record(current.fieldEdits, current.data, edited, userId)),
+  });
+
+  await storage.recordFieldChanges(FieldHistoryService.diff(current.data, edited, {
+    arrangementId: arrangement.id,
+    userId,
+    source: 'manual_edit',
+  }));
+
+  return updatedArrangement;
+}
+
+// Edits that don't fit the arrangement schema are the client's to fix, listed field by field
+function sendManualEditError(res: any, error: any) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ message: "Some fields have invalid values", issues: formatExtractionIssues(error) });
+  }
+  if (error instanceof SyntaxError) {
+    return res.status(400).json({ message: "extractedData isn't valid JSON" });
+  }
+  logger.error("arrangement update failed", error);
+  res.status(500).json({ message: error.message });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Authentication routes
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", rateLimit(registerLimiter), async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
+      enforcePasswordPolicy(userData.password, userData);
 
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(userData.email);
@@ -66,6 +273,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Email already registered" });
       }
 
+      // An invitation is checked before the account exists so a bad link can't leave it without a home
+      if (req.body.inviteToken) {
+        await OrganizationService.findUsableInvite(req.body.inviteToken, userData.email);
+      }
+
       // Hash password
       const hashedPassword = await bcrypt.hash(userData.password, 10);
 
@@ -75,28 +287,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         password: hashedPassword,
       });
 
-      // Generate JWT token
-      const token = jwt.sign({ userId: user.id, email: user.email, role: user.role }, JWT_SECRET, {
-        expiresIn: "7d",
-      });
+      // Join the home that sent the invitation, or start a new one
+      const membership = req.body.inviteToken
+        ? await OrganizationService.accept(req.body.inviteToken, user)
+        : await OrganizationService.createForUser(user, user.funeralHome || user.name);
 
-      res.status(201).json({
-        message: "User created successfully",
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          funeralHome: user.funeralHome,
-          role: user.role,
-        },
-      });
+      res.status(201).json(await signInResponse(req, user, membership, "User created successfully"));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", rateLimit(loginLimiter), async (req, res) => {
     try {
       const { email, password } = loginSchema.parse(req.body);
 
@@ -106,28 +308,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid email or password" });
       }
 
+      const lockedFor = LoginProtectionService.lockedFor(user);
+      if (lockedFor > 0) {
+        return accountLocked(res, lockedFor);
+      }
+
       // Verify password
       const isValidPassword = await bcrypt.compare(password, user.password);
       if (!isValidPassword) {
+        await LoginProtectionService.recordFailure(user, req.ip ?? null);
         return res.status(400).json({ message: "Invalid email or password" });
       }
 
-      // Generate JWT token
-      const token = jwt.sign({ userId: user.id, email: user.email, role: user.role }, JWT_SECRET, {
-        expiresIn: "7d",
-      });
+      const membership = await OrganizationService.getActiveMembership(user.id);
+      if (!membership) {
+        return res.status(403).json({ message: "You are not a member of any organization" });
+      }
 
-      res.json({
-        message: "Login successful",
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          funeralHome: user.funeralHome,
-          role: user.role,
-        },
-      });
+      // The password alone isn't enough once two-factor is on; the code is checked in a second step
+      if (TwoFactorService.isEnabled(user)) {
+        return res.json({ twoFactorRequired: true, challengeToken: TwoFactorService.issueChallenge(user) });
+      }
+
+      await LoginProtectionService.recordSuccess(user);
+      res.json(await signInResponse(req, user, membership));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Second sign-in step: a code from the authenticator app or a recovery code
+  app.post("/api/auth/login/verify", rateLimit(loginLimiter), async (req, res) => {
+    try {
+      const { challengeToken, code } = verifyTwoFactorLoginSchema.parse(req.body);
+      const user = await storage.getUser(TwoFactorService.verifyChallenge(challengeToken));
+      if (!user) {
+        return res.status(400).json({ message: "Your sign-in has expired. Please enter your password again." });
+      }
+
+      const lockedFor = LoginProtectionService.lockedFor(user);
+      if (lockedFor > 0) {
+        return accountLocked(res, lockedFor);
+      }
+
+      if (!(await TwoFactorService.verify(user, code))) {
+        await LoginProtectionService.recordFailure(user, req.ip ?? null);
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const membership = await OrganizationService.getActiveMembership(user.id);
+      if (!membership) {
+        return res.status(403).json({ message: "You are not a member of any organization" });
+      }
+
+      await LoginProtectionService.recordSuccess(user);
+      res.json(await signInResponse(req, user, membership));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
@@ -140,18 +375,172 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
+      const membership = await storage.getOrganizationMember(req.user.organizationId, user.id);
+
       res.json({
         id: user.id,
         email: user.email,
         name: user.name,
         funeralHome: user.funeralHome,
+        organization: membership ? await OrganizationService.describe(membership) : null,
+        ...(await twoFactorFlags(user, req.user.organizationId)),
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/auth/forgot-password", async (req, res) => {
+  // Exchange a refresh token for a new access token and a replacement refresh token
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = refreshSessionSchema.parse(req.body);
+      const tokens = await SessionService.refresh(refreshToken, requestInfo(req));
+      res.json(tokens);
+    } catch (error: any) {
+      if (error instanceof InvalidSessionError) {
+        return res.status(401).json({ message: error.message });
+      }
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/logout", authenticateToken, async (req: any, res) => {
+    try {
+      await SessionService.revoke(req.user.userId, req.user.sessionId);
+      res.json({ message: "Signed out" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Devices the user is signed in on
+  app.get("/api/auth/sessions", authenticateToken, async (req: any, res) => {
+    try {
+      const sessions = await SessionService.list(req.user.userId, req.user.sessionId);
+      res.json(sessions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const revoked = await SessionService.revoke(req.user.userId, parseInt(req.params.id));
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ message: "Device signed out" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Sign out on every device, this one included
+  app.delete("/api/auth/sessions", authenticateToken, async (req: any, res) => {
+    try {
+      const count = await SessionService.revokeAll(req.user.userId);
+      res.json({ message: `Signed out of ${count} device${count === 1 ? "" : "s"}` });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Two-factor authentication
+  app.get("/api/auth/two-factor", authenticateToken, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await TwoFactorService.status(user, req.user.organizationId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Start enrollment: a new secret and the QR code for the authenticator app to scan
+  app.post("/api/auth/two-factor/setup", authenticateToken, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await TwoFactorService.beginEnrollment(user));
+    } catch (error: any) {
+      if (error instanceof TwoFactorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/two-factor/enable", authenticateToken, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(user, code);
+      res.json({ message: "Two-factor authentication is on", recoveryCodes });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/two-factor/recovery-codes", authenticateToken, async (req: any, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!(await TwoFactorService.verify(user, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      res.json({ recoveryCodes: await TwoFactorService.regenerateRecoveryCodes(user) });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Turning two-factor off takes both the password and a current code
+  app.post("/api/auth/two-factor/disable", authenticateToken, async (req: any, res) => {
+    try {
+      const { password, code } = disableTwoFactorSchema.parse(req.body);
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (await TwoFactorService.isRequiredBy(req.user.organizationId)) {
+        return res.status(400).json({ message: "Your organization requires two-factor authentication" });
+      }
+
+      const isValidPassword = await bcrypt.compare(password, user.password);
+      if (!isValidPassword) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      if (!(await TwoFactorService.verify(user, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await TwoFactorService.disable(user);
+      res.json({ message: "Two-factor authentication is off" });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/auth/password-policy", (req, res) => {
+    res.json(PASSWORD_POLICY);
+  });
+
+  app.post("/api/auth/forgot-password", rateLimit(forgotPasswordLimiter), async (req, res) => {
     try {
       const { email } = req.body;
       if (!email) {
@@ -162,7 +551,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.getUserByEmail(email);
 
       // Always respond with success for security (don't reveal if email exists)
-      if (user) {
+      if (user && resetEmailLimiter.consume(user.email) === 0) {
         // Generate reset token
         const resetToken = crypto.randomBytes(32).toString('hex');
         const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now
@@ -177,7 +566,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Send email
         const emailSent = await sendPasswordResetEmail(user.email, resetToken);
         if (!emailSent) {
-          console.error('Failed to send password reset email to:', user.email);
+          logger.error("failed to send password reset email", { userId: user.id });
         }
       }
 
@@ -206,21 +595,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "User not found" });
       }
 
+      enforcePasswordPolicy(password, user);
+
       // Hash new password
       const hashedPassword = await bcrypt.hash(password, 10);
 
       // Update password
       await storage.updateUserPassword(user.id, hashedPassword);
 
+      // Whoever may have had the old password is signed out everywhere
+      await SessionService.revokeAll(user.id);
+
+      // Proving control of the email address lifts a lockout
+      await LoginProtectionService.unlock(user.id);
+
       // Delete reset token
       await storage.deletePasswordReset(token);
 
       res.json({ message: "Password has been reset successfully" });
+    } catch (error: any) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Organization routes
+  app.get("/api/organizations", authenticateToken, async (req: any, res) => {
+    try {
+      const organizations = await storage.getOrganizationsForUser(req.user.userId);
+      res.json(organizations);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Start a new funeral home and switch to it
+  app.post("/api/organizations", authenticateToken, async (req: any, res) => {
+    try {
+      const { name } = createOrganizationSchema.parse(req.body);
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const membership = await OrganizationService.createForUser(user, name);
+
+      res.status(201).json({
+        token: await SessionService.switchOrganization(req.user.sessionId, user, membership.organizationId),
+        organization: await OrganizationService.describe(membership),
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Issue a token that acts in another organization the user belongs to
+  app.post("/api/organizations/:id/switch", authenticateToken, async (req: any, res) => {
+    try {
+      const membership = await storage.getOrganizationMember(parseInt(req.params.id), req.user.userId);
+      const user = await storage.getUser(req.user.userId);
+      if (!membership || !user) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      res.json({
+        token: await SessionService.switchOrganization(req.user.sessionId, user, membership.organizationId),
+        organization: await OrganizationService.describe(membership),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/organizations/current", authenticateToken, async (req: any, res) => {
+    try {
+      const organization = await storage.getOrganizationById(req.user.organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const members = await storage.getOrganizationMembers(organization.id);
+
+      // Outstanding invitations are only listed for those who manage members, and never with their tokens
+      const invites = hasPermission(req.user.organizationRole, 'manage_members')
+        ? (await storage.getPendingOrganizationInvites(organization.id)).map(toInviteSummary)
+        : [];
+
+      const details: OrganizationDetails = { ...organization, role: req.user.organizationRole, members, invites };
+      res.json(details);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Require every member to sign in with two-factor authentication
+  app.put("/api/organizations/current/security", authenticateToken, requirePermission('manage_members'), async (req: any, res) => {
+    try {
+      const { requireTwoFactor } = organizationSecuritySchema.parse(req.body);
+
+      // Whoever turns the requirement on has to meet it, so they can't lock themselves out
+      const user = await storage.getUser(req.user.userId);
+      if (requireTwoFactor && (!user || !TwoFactorService.isEnabled(user))) {
+        return res.status(400).json({ message: "Turn on two-factor authentication for your own account first" });
+      }
+
+      const organization = await storage.updateOrganization(req.user.organizationId, { requireTwoFactor });
+      res.json(organization);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/organizations/current/retention", authenticateToken, requirePermission('manage_retention'), async (req: any, res) => {
+    try {
+      const rules = await storage.getRetentionRules(req.user.organizationId);
+      res.json(rules);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Replaces every rule at once; a kind of record left out is kept indefinitely
+  app.put("/api/organizations/current/retention", authenticateToken, requirePermission('manage_retention'), async (req: any, res) => {
+    try {
+      const { rules } = updateRetentionRulesSchema.parse(req.body);
+      const saved = await storage.replaceRetentionRules(req.user.organizationId, rules);
+      res.json(saved);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/organizations/current/invites", authenticateToken, requirePermission('manage_members'), async (req: any, res) => {
+    try {
+      const { email, role } = inviteMemberSchema.parse(req.body);
+      const organization = await storage.getOrganizationById(req.user.organizationId);
+      const inviter = await storage.getUser(req.user.userId);
+      if (!organization || !inviter) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const existingUser = await storage.getUserByEmail(email.trim().toLowerCase());
+      if (existingUser && await storage.getOrganizationMember(organization.id, existingUser.id)) {
+        return res.status(400).json({ message: "That person is already a member of this organization" });
+      }
+
+      const invite = await OrganizationService.invite(organization, email, role, inviter, req.user.organizationRole);
+
+      res.status(201).json(toInviteSummary(invite));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/organizations/current/members/:userId/role", authenticateToken, requirePermission('manage_members'), async (req: any, res) => {
+    try {
+      const { role } = updateMemberRoleSchema.parse(req.body);
+      const member = await OrganizationService.changeRole(req.user.organizationId, parseInt(req.params.userId), role, {
+        userId: req.user.userId,
+        role: req.user.organizationRole,
+      });
+      res.json(member);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Public so the invitation page can greet someone before they sign in or register
+  app.get("/api/invites/:token", async (req, res) => {
+    try {
+      const invite = await storage.getOrganizationInvite(req.params.token);
+      const organization = invite ? await storage.getOrganizationById(invite.organizationId) : undefined;
+      if (!invite || !organization) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const preview: InvitePreview = {
+        organizationName: organization.name,
+        email: invite.email,
+        status: invite.acceptedAt ? 'accepted' : new Date() > invite.expiresAt ? 'expired' : 'pending',
+      };
+      res.json(preview);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  app.post("/api/invites/:token/accept", authenticateToken, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const membership = await OrganizationService.accept(req.params.token, user);
+
+      res.json({
+        token: await SessionService.switchOrganization(req.user.sessionId, user, membership.organizationId),
+        organization: await OrganizationService.describe(membership),
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // Profile routes
   app.put("/api/auth/profile", authenticateToken, async (req: any, res) => {
     try {
@@ -251,7 +831,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         funeralHome: updatedUser.funeralHome,
         role: updatedUser.role,
         createdAt: updatedUser.createdAt,
-        updatedAt: updatedUser.updatedAt
+        updatedAt: updatedUser.updatedAt,
+        organization: await OrganizationService.describe(
+          (await storage.getOrganizationMember(req.user.organizationId, userId))!
+        ),
+        ...(await twoFactorFlags(updatedUser, req.user.organizationId)),
       };
 
       res.json({ message: "Profile updated successfully", user: safeUser });
@@ -281,14 +865,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Current password is incorrect" });
       }
 
+      enforcePasswordPolicy(newPassword, user);
+
       // Hash new password
       const hashedNewPassword = await bcrypt.hash(newPassword, 10);
 
       // Update password
       await storage.updateUserPassword(userId, hashedNewPassword);
 
+      // Other devices signed in with the old password have to sign in again
+      await SessionService.revokeAll(userId, req.user.sessionId);
+
       res.json({ message: "Password updated successfully" });
     } catch (error: any) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
@@ -305,7 +897,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         funeralHome: user.funeralHome,
         role: user.role,
         createdAt: user.createdAt,
-        updatedAt: user.updatedAt
+        updatedAt: user.updatedAt,
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil,
       }));
       res.json(safeUsers);
     } catch (error: any) {
@@ -313,6 +907,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Lift a lockout before it runs out, once the owner has been confirmed some other way
+  app.post("/api/admin/users/:id/unlock", authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await LoginProtectionService.unlock(user.id);
+      logger.info("account unlocked by admin", { userId: user.id, adminId: req.user.userId });
+      res.json({ message: "Account unlocked" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Fold one funeral home into another, such as two accounts migrated from the same home
+  app.post("/api/admin/organizations/:id/merge", authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const { into } = mergeOrganizationSchema.parse(req.body);
+      const from = await storage.getOrganizationById(parseInt(req.params.id));
+      const target = await storage.getOrganizationById(into);
+      if (!from || !target) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (from.id === target.id) {
+        return res.status(400).json({ message: "Can't merge an organization into itself" });
+      }
+
+      const userIds = await OrganizationService.merge(from, target);
+      logger.info("organization merged by admin", { from: from.id, into: target.id, adminId: req.user.userId });
+      res.json({ message: "Organizations merged", userIds });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   app.put("/api/admin/users/:id/role", authenticateToken, requireAdmin, async (req: any, res) => {
     try {
       const userId = parseInt(req.params.id);
@@ -346,232 +977,357 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit trail of access to decedent and family records
+  app.get("/api/admin/audit-events", authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const filters = auditEventFiltersSchema.parse(req.query);
+      const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+      const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+
+      const [events, total] = await Promise.all([
+        storage.getAuditEvents(filters, limit, offset),
+        storage.countAuditEvents(filters),
+      ]);
+      const page: AuditEventPage = { events, total };
+      res.json(page);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/audit-events/export", authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const filters = auditEventFiltersSchema.parse(req.query);
+      const events = await storage.getAuditEvents(filters);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(AuditLogService.toCsv(events));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // History of retention purges, with what each one removed
+  app.get("/api/admin/retention/runs", authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const runs: RetentionPurgeRun[] = await storage.getPurgeRuns(50);
+      res.json(runs);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/retention/runs", authenticateToken, requireAdmin, async (req: any, res) => {
+    try {
+      const run = await RetentionService.run('manual');
+      res.json(run);
+    } catch (error: any) {
+      logger.error("manual retention purge failed", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Transcript routes
-  app.get("/api/transcripts", authenticateToken, async (req: any, res) => {
+  app.get("/api/transcripts", authenticateToken, audit('read', 'transcript'), requirePermission('view_cases'), async (req: any, res) => {
     try {
-      const transcripts = await storage.getTranscriptsByUserId(req.user.userId);
-      res.json(transcripts);
+      const transcripts = await storage.getTranscriptsByOrganizationId(req.user.organizationId);
+      res.json(transcripts.map(transcript => transcriptForRole(transcript, req.user.organizationRole)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/transcripts/upload", authenticateToken, upload.single("file"), async (req: any, res) => {
+  app.post("/api/transcripts/upload", authenticateToken, audit('create', 'transcript'), requirePermission('upload_transcripts'), singleFile(upload, MAX_AUDIO_UPLOAD_BYTES), async (req: any, res) => {
+    // The recording stays on disk for the transcription worker only once its transcript exists
+    let audioPath: string | null = null;
+    let audioStored = false;
+
     try {
-      let content = "";
+      let imported: ImportedTranscript;
       let filename = "";
       let fileSize = 0;
+      let contentHash: string;
 
       if (req.file) {
         // Handle file upload
         filename = req.file.originalname;
         fileSize = req.file.size;
 
-        // Read file content based on file type
         const filePath = req.file.path;
-        const fileExtension = path.extname(filename).toLowerCase();
-
-        if (fileExtension === ".pdf") {
-          // For now, PDF parsing requires additional setup
-          // Clean up uploaded file
-          fs.unlinkSync(filePath);
-          return res.status(400).json({ 
-            message: "PDF files are not currently supported. Please convert your PDF to text format or copy and paste the content directly." 
-          });
+        if ((AUDIO_FILE_EXTENSIONS as readonly string[]).includes(path.extname(filename).toLowerCase())) {
+          // Recordings are kept until the transcription worker has turned them into text
+          audioPath = filePath;
+          contentHash = crypto.createHash("sha256").update(await fs.promises.readFile(filePath)).digest("hex");
+          imported = { content: "", speakerTurns: null };
         } else {
-          // Read as text file
-          content = fs.readFileSync(filePath, "utf-8");
+          // Documents are converted to text, and captions and meeting exports parsed into speaker turns
+          try {
+            if (fileSize > MAX_DOCUMENT_UPLOAD_BYTES) {
+              return res.status(413).json({ message: `Files must be less than ${MAX_DOCUMENT_UPLOAD_BYTES / 1024 / 1024}MB` });
+            }
+            const bytes = await fs.promises.readFile(filePath);
+            contentHash = crypto.createHash("sha256").update(bytes).digest("hex");
+            imported = await TranscriptImportService.extract(bytes, filename);
+          } finally {
+            await fs.promises.rm(filePath, { force: true });
+          }
         }
-
-        // Clean up uploaded file
-        fs.unlinkSync(filePath);
       } else if (req.body.content) {
         // Handle direct text input
-        content = req.body.content;
+        imported = TranscriptImportService.fromText(req.body.content);
         filename = req.body.filename || `transcript_${Date.now()}.txt`;
-        fileSize = Buffer.byteLength(content, "utf8");
+        fileSize = Buffer.byteLength(imported.content, "utf8");
+        contentHash = crypto.createHash("sha256").update(req.body.content).digest("hex");
       } else {
         return res.status(400).json({ message: "No file or content provided" });
       }
 
+      // A follow-up call or meeting is attached to an existing case
+      let arrangementId: number | null = null;
+      if (req.body.arrangementId) {
+        const arrangement = await storage.getArrangementById(parseInt(req.body.arrangementId));
+        if (!arrangement || arrangement.organizationId !== req.user.organizationId) {
+          return res.status(404).json({ message: "Arrangement not found" });
+        }
+        arrangementId = arrangement.id;
+      }
+
       const transcript = await storage.createTranscript({
         userId: req.user.userId,
+        organizationId: req.user.organizationId,
         filename,
-        content,
+        content: imported.content,
+        speakerTurns: imported.speakerTurns ? JSON.stringify(imported.speakerTurns) : null,
         fileSize,
-        status: "uploaded",
+        status: audioPath ? "transcribing" : "uploaded",
+        audioPath,
+        contentHash,
+        arrangementId,
       });
+      if (audioPath) {
+        try {
+          TranscriptionService.enqueue();
+        } catch (error) {
+          // Nothing is left pointing at the recording that is about to be deleted
+          await storage.deleteTranscript(transcript.id, req.user.organizationId);
+          throw error;
+        }
+        audioStored = true;
+      }
 
+      res.locals.auditResourceId = transcript.id;
       res.status(201).json(transcript);
     } catch (error: any) {
+      if (error instanceof TranscriptImportError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
+    } finally {
+      if (audioPath && !audioStored) {
+        await fs.promises.rm(audioPath, { force: true });
+      }
     }
   });
 
-  app.get("/api/transcripts/:id", authenticateToken, async (req: any, res) => {
+  // Bulk import of historical transcripts from a ZIP; the files are registered in the background
+  app.post("/api/transcript-imports", authenticateToken, audit('create', 'transcript'), requirePermission('upload_transcripts'), singleFile(bulkUpload, MAX_IMPORT_ARCHIVE_BYTES), async (req: any, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "Choose a ZIP file to import" });
+    }
+
     try {
-      const transcript = await storage.getTranscriptById(
-        parseInt(req.params.id),
-        req.user.userId
-      );
+      if (path.extname(req.file.originalname).toLowerCase() !== '.zip') {
+        return res.status(400).json({ message: "Bulk imports take a .zip file" });
+      }
 
-      if (!transcript) {
-        return res.status(404).json({ message: "Transcript not found" });
+      const zipBuffer = await fs.promises.readFile(req.file.path);
+      const transcriptImport = await BulkImportService.startZipImport(zipBuffer, req.file.originalname, {
+        organizationId: req.user.organizationId,
+        userId: req.user.userId,
+        autoProcess: req.body.autoProcess === 'true',
+      });
+      res.status(202).json(transcriptImport);
+    } catch (error: any) {
+      if (error instanceof BulkImportError) {
+        return res.status(400).json({ message: error.message });
       }
+      res.status(500).json({ message: error.message });
+    } finally {
+      await fs.promises.rm(req.file.path, { force: true });
+    }
+  });
+
+  app.get("/api/transcript-imports", authenticateToken, requirePermission('upload_transcripts'), async (req: any, res) => {
+    try {
+      res.json(await storage.getTranscriptImports(req.user.organizationId, 20));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/transcript-imports/:id", authenticateToken, requirePermission('upload_transcripts'), requireAccess('transcript_import'), async (req: any, res) => {
+    try {
+      res.json(req.resource);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json(transcript);
+  app.get("/api/transcripts/:id", authenticateToken, audit('read', 'transcript'), requirePermission('view_cases'), requireAccess('transcript'), async (req: any, res) => {
+    try {
+      res.json(transcriptForRole(req.resource, req.user.organizationRole));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/transcripts/:id", authenticateToken, async (req: any, res) => {
+  app.delete("/api/transcripts/:id", authenticateToken, audit('delete', 'transcript'), requirePermission('delete_transcripts'), requireAccess('transcript'), async (req: any, res) => {
     try {
-      await storage.deleteTranscript(parseInt(req.params.id), req.user.userId);
+      const transcript: Transcript = req.resource;
+      const arrangement = transcript.arrangementId
+        ? await storage.getArrangementById(transcript.arrangementId)
+        : await storage.getArrangementByTranscriptId(transcript.id);
+      if (arrangement?.legalHold) {
+        return res.status(409).json({ message: LEGAL_HOLD_MESSAGE });
+      }
+
+      await storage.deleteTranscript(parseInt(req.params.id), req.user.organizationId);
+      if (transcript.audioPath) {
+        await fs.promises.rm(transcript.audioPath, { force: true });
+      }
       res.json({ message: "Transcript deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/transcripts/search", authenticateToken, async (req: any, res) => {
+  app.get("/api/transcripts/search", authenticateToken, audit('read', 'transcript'), requirePermission('view_cases'), async (req: any, res) => {
     try {
       const query = req.query.q as string;
       if (!query) {
         return res.status(400).json({ message: "Search query required" });
       }
 
-      const transcripts = await storage.searchTranscripts(req.user.userId, query);
-      res.json(transcripts);
+      // Roles that can't read the conversations only search by file name
+      const role = req.user.organizationRole;
+      const transcripts = hasPermission(role, 'view_cause_of_death')
+        ? await storage.searchTranscripts(req.user.organizationId, query)
+        : (await storage.getTranscriptsByOrganizationId(req.user.organizationId))
+            .filter(transcript => transcript.filename.toLowerCase().includes(query.toLowerCase()));
+      res.json(transcripts.map(transcript => transcriptForRole(transcript, role)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // Dashboard routes
-  app.get("/api/dashboard/stats", authenticateToken, async (req: any, res) => {
+  app.get("/api/dashboard/stats", authenticateToken, requirePermission('view_cases'), async (req: any, res) => {
     try {
-      const stats = await storage.getTranscriptStats(req.user.userId);
+      const stats = await storage.getTranscriptStats(req.user.organizationId);
       res.json(stats);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/dashboard/recent", authenticateToken, async (req: any, res) => {
+  app.get("/api/dashboard/recent", authenticateToken, audit('read', 'transcript'), requirePermission('view_cases'), async (req: any, res) => {
     try {
-      const recentTranscripts = await storage.getTranscriptsByUserId(req.user.userId, 5);
-      res.json(recentTranscripts);
+      const recentTranscripts = await storage.getTranscriptsByOrganizationId(req.user.organizationId, 5);
+      res.json(recentTranscripts.map(transcript => transcriptForRole(transcript, req.user.organizationRole)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // AI Processing endpoints
-  app.post("/api/transcripts/:id/process", authenticateToken, async (req: any, res) => {
+  // Arrangements with flagged fields still waiting for a director to confirm them
+  app.get("/api/dashboard/review-queue", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), async (req: any, res) => {
     try {
-      const transcriptId = parseInt(req.params.id);
-      const userId = req.user.userId;
+      const queue = await storage.getReviewQueue(req.user.organizationId);
+      res.json(queue);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Get the transcript
-      const transcript = await storage.getTranscriptById(transcriptId, userId);
-      if (!transcript) {
-        return res.status(404).json({ message: "Transcript not found" });
+  // A director's corrections to who each speaker is; used the next time the transcript is processed
+  app.put("/api/transcripts/:id/speaker-roles", authenticateToken, audit('update', 'transcript'), requirePermission('edit_arrangements'), requireAccess('transcript'), async (req: any, res) => {
+    try {
+      const { roles } = updateSpeakerRolesSchema.parse(req.body);
+      const transcript: Transcript = req.resource;
+
+      const speakers = new Set(listSpeakers(parseSpeakerTurns(transcript.speakerTurns) ?? []));
+      const unknown = Object.keys(roles).filter((speaker) => !speakers.has(speaker));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Not a speaker in this transcript: ${unknown.join(', ')}` });
       }
 
-      // Update status to processing
-      await storage.updateTranscriptStatus(transcriptId, "processing");
-
-      // Process with AI
-      const extractedData = await AIService.extractArrangementData(transcript.content);
-
-      // Generate document
-      const generatedDoc = await AIService.generateArrangementDocument(extractedData);
-
-      // Check if arrangement already exists
-      let arrangement = await storage.getArrangementByTranscriptId(transcriptId);
-
-      if (arrangement) {
-        const basic = extractedData.arrangement.basic_information;
-        const informant = extractedData.arrangement.informant;
-        const arrangements = extractedData.arrangement.arrangements;
-        const casket = extractedData.arrangement.casket_container;
-
-        const fullName = [basic.deceased_name.first, basic.deceased_name.middle, basic.deceased_name.last]
-          .filter(Boolean).join(' ');
-
-        // Update existing arrangement
-        arrangement = await storage.updateArrangement(arrangement.id, {
-          deceasedName: fullName,
-          deceasedAge: basic.age,
-          dateOfDeath: basic.date_of_death,
-          causeOfDeath: '',
-          serviceType: arrangements.disposition,
-          serviceLocation: arrangements.funeral_service_place,
-          serviceDate: arrangements.service_date,
-          serviceTime: arrangements.service_time,
-          arrangerName: informant.name,
-          arrangerPhone: informant.phone_number,
-          arrangerEmail: informant.email,
-          arrangerRelation: informant.relationship_to_deceased,
-          casketType: casket.casket,
-          flowerPrefs: arrangements.memorials_or_in_lieu_of_flowers,
-          specialRequests: extractedData.arrangement.general_notes,
-          generatedDoc,
-          aiProcessed: true,
-          extractedData: JSON.stringify(extractedData),
-        });
-      } else {
-        const basic = extractedData.arrangement.basic_information;
-        const informant = extractedData.arrangement.informant;
-        const arrangements = extractedData.arrangement.arrangements;
-        const casket = extractedData.arrangement.casket_container;
-
-        const fullName = [basic.deceased_name.first, basic.deceased_name.middle, basic.deceased_name.last]
-          .filter(Boolean).join(' ');
-
-        // Create new arrangement
-        arrangement = await storage.createArrangement({
-          transcriptId,
-          userId,
-          deceasedName: fullName,
-          deceasedAge: basic.age,
-          dateOfDeath: basic.date_of_death,
-          causeOfDeath: '',
-          serviceType: arrangements.disposition,
-          serviceLocation: arrangements.funeral_service_place,
-          serviceDate: arrangements.service_date,
-          serviceTime: arrangements.service_time,
-          arrangerName: informant.name,
-          arrangerPhone: informant.phone_number,
-          arrangerEmail: informant.email,
-          arrangerRelation: informant.relationship_to_deceased,
-          casketType: casket.casket,
-          flowerPrefs: arrangements.memorials_or_in_lieu_of_flowers,
-          specialRequests: extractedData.arrangement.general_notes,
-          generatedDoc,
-          aiProcessed: true,
-          extractedData: JSON.stringify(extractedData),
-        });
+      const speakerRoles: SpeakerRoles = {
+        ...parseSpeakerRoles(transcript.speakerRoles),
+        ...Object.fromEntries(Object.entries(roles).map(([speaker, label]) => [speaker, { ...label, source: 'director' as const }])),
+      };
+      const updated = await storage.updateTranscript(transcript.id, { speakerRoles: JSON.stringify(speakerRoles) });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Retries a recording whose transcription failed, e.g. once the speech-to-text setup is fixed
+  app.post("/api/transcripts/:id/transcribe", authenticateToken, audit('update', 'transcript'), requirePermission('upload_transcripts'), requireAccess('transcript'), async (req: any, res) => {
+    try {
+      const transcript: Transcript = req.resource;
+      if (transcript.status !== 'transcription_failed' || !transcript.audioPath) {
+        return res.status(409).json({ message: "Only a recording whose transcription failed can be transcribed again" });
       }
 
-      // Update transcript status to processed
-      await storage.updateTranscriptStatus(transcriptId, "processed");
+      await storage.updateTranscriptStatus(transcript.id, 'transcribing', null);
+      TranscriptionService.enqueue();
+      res.json({ message: "Transcription restarted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // AI Processing endpoints
+  app.post("/api/transcripts/:id/process", authenticateToken, audit('update', 'transcript'), requirePermission('upload_transcripts'), requireAccess('transcript'), async (req: any, res) => {
+    try {
+      const transcript: Transcript = req.resource;
+      if (transcript.purgedAt) {
+        return res.status(409).json({ message: "This transcript was removed under your retention policy and can't be processed again" });
+      }
+      if (transcript.status === 'transcribing' || transcript.status === 'transcription_failed') {
+        return res.status(409).json({ message: "The recording hasn't been transcribed yet" });
+      }
 
-      // Track usage metric for transcript processing
-      await storage.trackUsageMetric(userId, 'transcript_processed');
+      const result = await TranscriptProcessingService.process(transcript, req.user.userId);
+      if (result.kind === 'proposed') {
+        return res.json({
+          message: result.changeCount > 0
+            ? "Transcript processed; proposed changes are ready for review"
+            : "Transcript processed; nothing in the arrangement changed",
+          arrangement: forRole(result.arrangement, req.user.organizationRole),
+          delta: result.delta,
+        });
+      }
 
       res.json({ 
         message: "Transcript processed successfully",
-        arrangement: arrangement,
-        extractedData: extractedData
+        arrangement: forRole(result.arrangement, req.user.organizationRole),
+        extractedData: result.extraction.data,
+        fieldSources: result.extraction.sources,
+        fieldReviews: result.extraction.reviews,
+        mergeDecisions: result.extraction.decisions
       });
     } catch (error: any) {
-      console.error("AI processing error:", error);
+      await TranscriptProcessingService.recordFailure(parseInt(req.params.id), error);
 
-      // Update transcript status to error
-      const transcriptId = parseInt(req.params.id);
-      await storage.updateTranscriptStatus(transcriptId, "error");
+      if (error instanceof ExtractionValidationError) {
+        return res.status(422).json({
+          message: error.message,
+          issues: error.issues,
+        });
+      }
 
       res.status(500).json({ 
         message: "AI processing failed",
@@ -580,7 +1336,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/arrangements/:transcriptId", authenticateToken, async (req: any, res) => {
+  // Live processing stages for a transcript (Server-Sent Events)
+  app.get("/api/transcripts/:id/events", authenticateToken, audit('read', 'transcript'), requirePermission('view_cases'), requireAccess('transcript'), async (req: any, res) => {
+    try {
+      const transcriptId = parseInt(req.params.id);
+      ProgressEvents.stream(ProgressEvents.transcriptChannel(transcriptId), req, res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Cases, for attaching a follow-up conversation
+  app.get("/api/arrangements", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), async (req: any, res) => {
+    try {
+      const arrangements = await storage.getArrangementsByOrganizationId(req.user.organizationId);
+      res.json(arrangements.map(arrangement => forRole(arrangement, req.user.organizationRole)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/arrangements/:transcriptId", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('transcript', 'transcriptId'), async (req: any, res) => {
     try {
       const transcriptId = parseInt(req.params.transcriptId);
       const arrangement = await storage.getArrangementByTranscriptId(transcriptId);
@@ -589,14 +1365,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Arrangement not found" });
       }
 
-      res.json(arrangement);
+      res.locals.auditResourceId = arrangement.id;
+      res.json(forRole(arrangement, req.user.organizationRole));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // Get arrangement by transcript ID (alternative endpoint)
-  app.get("/api/transcripts/:id/arrangement", authenticateToken, async (req: any, res) => {
+  app.get("/api/transcripts/:id/arrangement", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('transcript'), async (req: any, res) => {
     try {
       const transcriptId = parseInt(req.params.id);
       const arrangement = await storage.getArrangementByTranscriptId(transcriptId);
@@ -605,318 +1382,407 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Arrangement not found" });
       }
 
-      res.json(arrangement);
+      res.locals.auditResourceId = arrangement.id;
+      res.json(forRole(arrangement, req.user.organizationRole));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // Update arrangement by transcript ID (alternative endpoint)
-  app.put("/api/transcripts/:id/arrangement", authenticateToken, async (req: any, res) => {
+  app.put("/api/transcripts/:id/arrangement", authenticateToken, audit('update', 'arrangement'), requirePermission('edit_arrangements'), requireAccess('transcript'), async (req: any, res) => {
     try {
       const transcriptId = parseInt(req.params.id);
       const { extractedData } = req.body;
 
-      console.log("PUT /api/transcripts/:id/arrangement - User:", req.user);
-      console.log("Update request body:", req.body);
-      console.log("Extracted data:", extractedData);
-
       if (!extractedData) {
         return res.status(400).json({ message: "extractedData is required" });
       }
 
-      // Verify the transcript belongs to the user
-      const transcript = await storage.getTranscriptById(transcriptId, req.user.userId);
-      if (!transcript) {
-        return res.status(404).json({ message: "Transcript not found" });
-      }
-
       // Get existing arrangement
       const existingArrangement = await storage.getArrangementByTranscriptId(transcriptId);
       if (!existingArrangement) {
         return res.status(404).json({ message: "Arrangement not found" });
       }
 
-      // Update the arrangement
-      const updatedArrangement = await storage.updateArrangement(existingArrangement.id, {
-        extractedData
-      });
+      // Update the arrangement, remembering which fields were changed by hand
+      res.locals.auditResourceId = existingArrangement.id;
+      const updatedArrangement = await saveManualEdits(existingArrangement, extractedData, req.user.userId);
 
-      res.json(updatedArrangement);
+      res.json(forRole(updatedArrangement, req.user.organizationRole));
     } catch (error: any) {
-      console.error("Arrangement update error:", error);
-      res.status(500).json({ message: error.message });
+      sendManualEditError(res, error);
     }
   });
 
-  app.put("/api/arrangements/:transcriptId", authenticateToken, async (req: any, res) => {
+  app.put("/api/arrangements/:transcriptId", authenticateToken, audit('update', 'arrangement'), requirePermission('edit_arrangements'), requireAccess('transcript', 'transcriptId'), async (req: any, res) => {
     try {
       const transcriptId = parseInt(req.params.transcriptId);
       const { extractedData } = req.body;
 
-      console.log("Update request body:", req.body);
-      console.log("Extracted data:", extractedData);
-
       if (!extractedData) {
         return res.status(400).json({ message: "extractedData is required" });
       }
 
-      // Verify the transcript belongs to the user
-      const transcript = await storage.getTranscriptById(transcriptId, req.user.userId);
-      if (!transcript) {
-        return res.status(404).json({ message: "Transcript not found" });
-      }
-
       // Get existing arrangement
       const existingArrangement = await storage.getArrangementByTranscriptId(transcriptId);
       if (!existingArrangement) {
         return res.status(404).json({ message: "Arrangement not found" });
       }
 
-      // Update the arrangement
-      const updatedArrangement = await storage.updateArrangement(existingArrangement.id, {
-        extractedData
-      });
+      // Update the arrangement, remembering which fields were changed by hand
+      res.locals.auditResourceId = existingArrangement.id;
+      const updatedArrangement = await saveManualEdits(existingArrangement, extractedData, req.user.userId);
 
-      res.json(updatedArrangement);
+      res.json(forRole(updatedArrangement, req.user.organizationRole));
+    } catch (error: any) {
+      sendManualEditError(res, error);
+    }
+  });
+
+  // Every change to the arrangement's fields, newest first
+  app.get("/api/arrangements/:id/history", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangementId = parseInt(req.params.id);
+      const history = await storage.getFieldHistory(arrangementId);
+      res.json(history);
     } catch (error: any) {
-      console.error("Arrangement update error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  function getDocumentTitle(type: string, arrangementData: any): string {
-    switch (type) {
-      case 'contract':
-        return 'Funeral Services Contract';
-      case 'summary':
-        return 'Arrangement Summary';
-      case 'obituary':
-        return 'Obituary Draft';
-      case 'tasks':
-        return 'Tasks List';
-      case 'arranger_tasks':
-        return 'Arranger Task List';
-      case 'death_cert':
-        return 'Death Certificate Information';
-      default:
-        return `${type.charAt(0).toUpperCase() + type.slice(1)} Document`;
+  // Undo a single logged change; the revert is logged in turn
+  app.post("/api/arrangements/:id/history/:changeId/revert", authenticateToken, audit('update', 'arrangement'), requirePermission('edit_arrangements'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangementId = parseInt(req.params.id);
+      const arrangement: Arrangement = req.resource;
+
+      const change = await storage.getFieldChangeById(parseInt(req.params.changeId));
+      if (!change || change.arrangementId !== arrangementId) {
+        return res.status(404).json({ message: "Change not found" });
+      }
+
+      const current = ArrangementDeltaService.getCaseState(arrangement);
+      const reverted = FieldHistoryService.revert(current.data, change);
+      const entries = FieldHistoryService.diff(current.data, reverted, {
+        arrangementId,
+        userId: req.user.userId,
+        source: 'revert',
+        revertOf: change.id,
+      });
+      if (entries.length === 0) {
+        return res.status(409).json({ message: "The field already has the value this change replaced" });
+      }
+
+      // The restored value was chosen by a director, not read from the transcript
+      const fieldReviews = omitEntriesUnderPath(current.fieldReviews, change.path);
+
+      const updatedArrangement = await storage.updateArrangement(arrangementId, {
+        ...getArrangementColumns(reverted),
+        extractedData: JSON.stringify(reverted),
+        fieldSources: JSON.stringify(omitEntriesUnderPath(current.fieldSources, change.path)),
+        fieldReviews: JSON.stringify(fieldReviews),
+        pendingReviewCount: getPendingReviewPaths(fieldReviews).length,
+        fieldEdits: JSON.stringify(FieldEditService.record(current.fieldEdits, current.data, reverted, req.user.userId)),
+      });
+
+      await storage.recordFieldChanges(entries);
+
+      res.json(forRole(updatedArrangement, req.user.organizationRole));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
-  }
+  });
 
-  // Approval workflow - approve arrangement and generate documents
-  app.post("/api/arrangements/:id/approve", authenticateToken, async (req: any, res) => {
+  // Approval workflow - approve arrangement and queue document generation
+  app.post("/api/arrangements/:id/reviews/confirm", authenticateToken, audit('update', 'arrangement'), requirePermission('edit_arrangements'), requireAccess('arrangement'), async (req: any, res) => {
     try {
       const arrangementId = parseInt(req.params.id);
+      const { paths } = confirmFieldReviewsSchema.parse(req.body);
 
-      // Get the arrangement
-      const arrangement = await storage.getArrangementById(arrangementId);
-      if (!arrangement) {
-        return res.status(404).json({ message: "Arrangement not found" });
+      const arrangement: Arrangement = req.resource;
+
+      const reviews: FieldReviews = JSON.parse(arrangement.fieldReviews || '{}');
+      const unknownPaths = paths.filter(path => !reviews[path]);
+      if (unknownPaths.length > 0) {
+        return res.status(400).json({ message: `Not flagged for review: ${unknownPaths.join(', ')}` });
       }
 
-      // Get the original transcript
-      const transcript = await storage.getTranscriptById(arrangement.transcriptId, req.user.userId);
-      if (!transcript) {
-        return res.status(404).json({ message: "Transcript not found" });
+      const confirmed = FieldReviewService.confirm(reviews, paths, req.user.userId);
+      const updatedArrangement = await storage.updateArrangement(arrangementId, {
+        fieldReviews: JSON.stringify(confirmed),
+        pendingReviewCount: getPendingReviewPaths(confirmed).length,
+      });
+
+      res.json(forRole(updatedArrangement, req.user.organizationRole));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/arrangements/:id/approve", authenticateToken, audit('update', 'arrangement'), requirePermission('approve_arrangements'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangementId = parseInt(req.params.id);
+
+      const arrangement: Arrangement = req.resource;
+
+      // Uncertain values have to be checked by a director before anything is generated from them
+      const pendingFields = getPendingReviewPaths(JSON.parse(arrangement.fieldReviews || '{}'));
+      if (pendingFields.length > 0) {
+        return res.status(409).json({
+          message: `${pendingFields.length} flagged field(s) must be confirmed before approval`,
+          pendingFields,
+        });
       }
 
+      // Documents are generated in the background; the client follows the job's progress.
+      // Queued first, so a case whose documents are still being generated isn't approved twice
+      const job = await JobQueue.enqueueDocumentGeneration({
+        type: 'approve_arrangement',
+        arrangementId,
+        userId: req.user.userId,
+      });
+
       // Update arrangement status to approved
-      await storage.updateArrangement(arrangementId, { 
+      const approvedArrangement = await storage.updateArrangement(arrangementId, { 
         approvalStatus: 'approved',
         approvedAt: new Date()
       });
 
-      // Generate all document types automatically
-      const documentTypes = ['contract', 'summary', 'obituary', 'tasks', 'arranger_tasks', 'death_cert'];
-      const generatedDocuments = [];
-      const failedDocuments = [];
+      res.status(202).json({ 
+        message: 'Arrangement approved, document generation queued',
+        jobId: job.id,
+        job,
+        arrangement: forRole(approvedArrangement, req.user.organizationRole)
+      });
+    } catch (error: any) {
+      if (error instanceof ActiveJobError) {
+        return res.status(409).json({ message: error.message });
+      }
+      logger.error("arrangement approval failed", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      for (const type of documentTypes) {
-        try {
-          console.log(`Starting generation of ${type} document...`);
+  // Closing a case starts its retention periods; reopening stops them until it is closed again
+  app.post("/api/arrangements/:id/close", authenticateToken, audit('update', 'arrangement'), requirePermission('approve_arrangements'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangement: Arrangement = req.resource;
+      if (arrangement.closedAt) {
+        return res.status(409).json({ message: "This case is already closed" });
+      }
 
-          // Generate plain text content first
-          const plainTextContent = await DocumentService.generateDocument({
-            type: type as any,
-            arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-            transcriptContent: transcript.content
-          });
+      const updated = await storage.updateArrangement(arrangement.id, { closedAt: new Date() });
+      res.json(forRole(updated, req.user.organizationRole));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          const pdfBuffer = await PDFService.generatePDF({
-            type: type as any,
-            arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-            transcriptContent: transcript.content
-          });
+  app.post("/api/arrangements/:id/reopen", authenticateToken, audit('update', 'arrangement'), requirePermission('approve_arrangements'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangement: Arrangement = req.resource;
+      if (!arrangement.closedAt) {
+        return res.status(409).json({ message: "This case is not closed" });
+      }
 
-          const base64Content = pdfBuffer.toString('base64');
+      const updated = await storage.updateArrangement(arrangement.id, { closedAt: null });
+      res.json(forRole(updated, req.user.organizationRole));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          const document = await storage.createDocument({
-            arrangementId,
-            type,
-            title: getDocumentTitle(type, JSON.parse(arrangement.extractedData || '{}')),
-            content: base64Content,
-            plainTextContent: plainTextContent,
-            status: 'generated'
-          });
+  // A case on legal hold is never purged, and its conversations and documents can't be deleted
+  app.put("/api/arrangements/:id/legal-hold", authenticateToken, audit('update', 'arrangement'), requirePermission('manage_retention'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const { legalHold, reason } = legalHoldSchema.parse(req.body);
+      const arrangement: Arrangement = req.resource;
 
-          generatedDocuments.push(document);
-          
-          // Track usage metric for each document generated
-          await storage.trackUsageMetric(req.user.userId, 'document_generated');
-          
-          console.log(`Successfully generated ${type} document`);
-        } catch (error) {
-          console.error(`Error generating ${type} document:`, error);
-          failedDocuments.push({ type, error: error instanceof Error ? error.message : 'Unknown error' });
+      const updated = await storage.updateArrangement(arrangement.id, legalHold
+        ? { legalHold, legalHoldReason: reason || null, legalHoldSetBy: req.user.userId, legalHoldSetAt: new Date() }
+        : { legalHold, legalHoldReason: null, legalHoldSetBy: null, legalHoldSetAt: null });
 
-          // Create a text-only document as fallback
-          try {
-            const textContent = await DocumentService.generateDocument({
-              type: type as any,
-              arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-              transcriptContent: transcript.content
-            });
-
-            const document = await storage.createDocument({
-              arrangementId,
-              type,
-              title: `${type.charAt(0).toUpperCase() + type.slice(1)} Document (Text)`,
-              content: Buffer.from(textContent).toString('base64'),
-              status: 'generated'
-            });
-
-            generatedDocuments.push(document);
-            
-            // Track usage metric for fallback document as well
-            await storage.trackUsageMetric(req.user.userId, 'document_generated');
-            
-            console.log(`Generated fallback text document for ${type}`);
-          } catch (fallbackError) {
-            console.error(`Failed to generate fallback for ${type}:`, fallbackError);
-          }
-        }
-      }
+      logger.info(legalHold ? "legal hold placed" : "legal hold released", { arrangementId: arrangement.id, userId: req.user.userId });
+      res.json(forRole(updated, req.user.organizationRole));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      // Generate tasks automatically
-      try {
-        const tasksContent = await DocumentService.generateDocument({
-          type: 'tasks',
-          arrangementData: arrangement.extractedData,
-          transcriptContent: transcript.content
-        });
+  // Regenerate all documents for an arrangement
+  app.post("/api/arrangements/:id/regenerate-all", authenticateToken, audit('update', 'arrangement'), requirePermission('generate_documents'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangementId = parseInt(req.params.id);
 
-        // Parse tasks and create individual task records
-        // For now, create a single task document
-        await storage.createTask({
-          arrangementId,
-          type: 'task',
-          title: 'Complete Funeral Arrangements',
-          description: tasksContent,
-          priority: 'high',
-          dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days from now
-        });
-      } catch (error) {
-        console.error("Error creating tasks:", error);
-      }
+      const job = await JobQueue.enqueueDocumentGeneration({
+        type: 'regenerate_documents',
+        arrangementId,
+        userId: req.user.userId,
+        enhanced: true,
+      });
 
-      res.json({ 
-        message: 'Arrangement approved and documents generated',
-        documents: generatedDocuments,
-        failedDocuments: failedDocuments.length > 0 ? failedDocuments : undefined,
-        arrangement: await storage.getArrangementById(arrangementId)
+      res.status(202).json({ 
+        message: 'Document regeneration queued',
+        jobId: job.id,
+        job
       });
     } catch (error: any) {
-      console.error("Approval error:", error);
+      if (error instanceof ActiveJobError) {
+        return res.status(409).json({ message: error.message });
+      }
+      logger.error("queueing document regeneration failed", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Regenerate all documents for an arrangement
-  app.post("/api/arrangements/:id/regenerate-all", authenticateToken, async (req: any, res) => {
+  // Every conversation in a case, the opening one first
+  app.get("/api/arrangements/:id/transcripts", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangementId = parseInt(req.params.id);
+      const transcripts = await storage.getTranscriptsByArrangementId(arrangementId);
+      res.json(transcripts.map(transcript => transcriptForRole(transcript, req.user.organizationRole)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Changes proposed by follow-up conversations that are still awaiting a decision
+  app.get("/api/arrangements/:id/deltas", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('arrangement'), async (req: any, res) => {
     try {
       const arrangementId = parseInt(req.params.id);
+      const deltas = await storage.getPendingDeltasByArrangementId(arrangementId);
+      res.json(deltas.map(delta => deltaForRole(delta, req.user.organizationRole)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Get the arrangement
-      const arrangement = await storage.getArrangementById(arrangementId);
+  // Accept or reject proposed changes field by field
+  app.post("/api/arrangement-deltas/:id/resolve", authenticateToken, audit('update', 'arrangement'), requirePermission('edit_arrangements'), requireAccess('arrangement_delta'), async (req: any, res) => {
+    try {
+      const { decisions } = resolveArrangementDeltaSchema.parse(req.body);
+
+      const delta: ArrangementDelta = req.resource;
+      const arrangement = await storage.getArrangementById(delta.arrangementId);
       if (!arrangement) {
-        return res.status(404).json({ message: "Arrangement not found" });
+        return res.status(404).json({ message: "Proposed changes not found" });
+      }
+      res.locals.auditResourceId = arrangement.id;
+      if (delta.status !== 'pending') {
+        return res.status(409).json({ message: `These changes have already been ${delta.status}` });
       }
 
-      // Get the original transcript
-      const transcript = await storage.getTranscriptById(arrangement.transcriptId, req.user.userId);
-      if (!transcript) {
-        return res.status(404).json({ message: "Transcript not found" });
+      const current = ArrangementDeltaService.getCaseState(arrangement);
+      const applied = ArrangementDeltaService.apply(
+        current,
+        JSON.parse(delta.changes) as FieldChange[],
+        decisions,
+      );
+
+      // Approved documents are redone only where an accepted change shows up in them
+      const documentTypes = DocumentService.getAffectedDocumentTypes(applied.acceptedPaths);
+      const regenerate = arrangement.approvalStatus === 'approved' && documentTypes.length > 0;
+      if (regenerate && await JobQueue.hasActiveJob(arrangement.id)) {
+        return res.status(409).json({ message: new ActiveJobError().message });
       }
 
-      // Generate all document types automatically
-      const documentTypes = ['contract', 'summary', 'obituary', 'tasks', 'arranger_tasks', 'death_cert'];
-      const generatedDocuments = [];
+      let updatedArrangement = arrangement;
+      if (applied.acceptedPaths.length > 0) {
+        updatedArrangement = await storage.updateArrangement(arrangement.id, {
+          ...getArrangementColumns(applied.data),
+          extractedData: JSON.stringify(applied.data),
+          fieldSources: JSON.stringify(applied.fieldSources),
+          fieldReviews: JSON.stringify(applied.fieldReviews),
+          fieldEdits: JSON.stringify(applied.fieldEdits),
+          pendingReviewCount: applied.pendingReviewCount,
+        });
 
-      for (const type of documentTypes) {
-        try {
-          // Generate plain text content first
-          const plainTextContent = await DocumentService.generateDocument({
-            type: type as any,
-            arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-            transcriptContent: transcript.content
-          });
+        await storage.recordFieldChanges(FieldHistoryService.diff(current.data, applied.data, {
+          arrangementId: arrangement.id,
+          userId: req.user.userId,
+          source: 'merge',
+          transcriptId: delta.transcriptId,
+        }));
+      }
 
-          const pdfBuffer = await ImprovedPDFService.generatePDF({
-            type: type as any,
-            arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-            transcriptContent: transcript.content
-          });
+      const stillPending = applied.changes.some(change => change.status === 'pending');
+      const updatedDelta = await storage.updateArrangementDelta(delta.id, {
+        changes: JSON.stringify(applied.changes),
+        status: stillPending ? 'pending' : 'resolved',
+        resolvedAt: stillPending ? null : new Date(),
+      });
 
-          const base64Content = pdfBuffer.toString('base64');
+      let job = null;
+      if (regenerate) {
+        job = await JobQueue.enqueueDocumentGeneration({
+          type: 'regenerate_documents',
+          arrangementId: arrangement.id,
+          userId: req.user.userId,
+          enhanced: true,
+          documentTypes,
+        });
+      }
 
-          const document = await storage.createDocument({
-            arrangementId,
-            type,
-            title: getDocumentTitle(type, JSON.parse(arrangement.extractedData || '{}')),
-            content: base64Content,
-            plainTextContent: plainTextContent,
-            status: 'generated'
-          });
+      res.json({ arrangement: forRole(updatedArrangement, req.user.organizationRole), delta: updatedDelta, job });
+    } catch (error: any) {
+      res.status(error instanceof ActiveJobError ? 409 : 400).json({ message: error.message });
+    }
+  });
 
-          generatedDocuments.push(document);
+  // Get the most recent document generation job for an arrangement
+  app.get("/api/arrangements/:id/jobs/latest", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangementId = parseInt(req.params.id);
+      const job = await storage.getLatestJobByArrangementId(arrangementId);
 
-        // Track usage metric for document generation
-        await storage.trackUsageMetric(req.user.userId, 'document_generated');
-        } catch (error) {
-          console.error(`Error regenerating ${type} document:`, error);
-        }
+      if (!job) {
+        return res.json(null);
       }
 
-      res.json({ 
-        message: 'All documents regenerated successfully',
-        documents: generatedDocuments
-      });
+      res.json(job);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Live document generation stages for an arrangement (Server-Sent Events)
+  app.get("/api/arrangements/:id/events", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('arrangement'), async (req: any, res) => {
+    try {
+      const arrangementId = parseInt(req.params.id);
+      ProgressEvents.stream(ProgressEvents.arrangementChannel(arrangementId), req, res);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get a document generation job with per-document state
+  app.get("/api/jobs/:id", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('job'), async (req: any, res) => {
+    try {
+      res.locals.auditResourceId = req.resource.arrangementId;
+      res.json(req.resource);
     } catch (error: any) {
-      console.error("Regenerate all documents error:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
   // Get documents for an arrangement
-  app.get("/api/arrangements/:id/documents", authenticateToken, async (req: any, res) => {
+  app.get("/api/arrangements/:id/documents", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('arrangement'), async (req: any, res) => {
     try {
       const arrangementId = parseInt(req.params.id);
       const documents = await storage.getDocumentsByArrangementId(arrangementId);
-      res.json(documents);
+      res.json(documents.filter(document => canSeeDocument(document.type, req.user.organizationRole)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // Get document content for webhook processing
-  app.get("/api/documents/:id/content", authenticateToken, async (req: any, res) => {
+  app.get("/api/documents/:id/content", authenticateToken, audit('export', 'document'), requirePermission('view_cases'), requireAccess('document'), async (req: any, res) => {
     try {
-      const documentId = parseInt(req.params.id);
-      const document = await storage.getDocumentById(documentId);
-
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      const document: Document = req.resource;
+      if (!canSeeDocument(document.type, req.user.organizationRole)) {
+        return res.status(403).json({ message: CAUSE_OF_DEATH_MESSAGE });
       }
 
       res.json({
@@ -927,19 +1793,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         content: document.content
       });
     } catch (error: any) {
-      console.error("Get document content error:", error);
+      logger.error("reading document content failed", error);
       res.status(500).json({ message: error.message });
     }
   });
 
   // Download PDF document
-  app.get("/api/documents/:id/download", authenticateToken, async (req: any, res) => {
+  app.get("/api/documents/:id/download", authenticateToken, audit('download', 'document'), requirePermission('view_cases'), requireAccess('document'), async (req: any, res) => {
     try {
-      const documentId = parseInt(req.params.id);
-      const document = await storage.getDocumentById(documentId);
-
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      const document: Document = req.resource;
+      if (!canSeeDocument(document.type, req.user.organizationRole)) {
+        return res.status(403).json({ message: CAUSE_OF_DEATH_MESSAGE });
       }
 
       // Convert base64 back to buffer
@@ -949,13 +1813,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Content-Disposition', 'attachment; filename="' + document.title + '.pdf"');
       res.send(pdfBuffer);
     } catch (error: any) {
-      console.error("Download document error:", error);
+      logger.error("document download failed", error);
       res.status(500).json({ message: error.message });
     }
   });
 
   // Get tasks for an arrangement
-  app.get("/api/arrangements/:id/tasks", authenticateToken, async (req: any, res) => {
+  app.get("/api/arrangements/:id/tasks", authenticateToken, audit('read', 'arrangement'), requirePermission('view_cases'), requireAccess('arrangement'), async (req: any, res) => {
     try {
       const arrangementId = parseInt(req.params.id);
       const tasks = await storage.getTasksByArrangementId(arrangementId);
@@ -966,17 +1830,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate individual document
-  app.post("/api/documents/generate", authenticateToken, async (req: any, res) => {
+  app.post("/api/documents/generate", authenticateToken, audit('create', 'document'), requirePermission('generate_documents'), async (req: any, res) => {
     try {
       const { arrangementId, type, enhanced, styleSpecifications } = req.body;
+      if (!canSeeDocument(type, req.user.organizationRole)) {
+        return res.status(403).json({ message: CAUSE_OF_DEATH_MESSAGE });
+      }
 
-      const arrangement = await storage.getArrangementById(arrangementId);
+      const arrangement = await ResourceAccessService.load('arrangement', parseInt(arrangementId), req.user);
       if (!arrangement) {
         return res.status(404).json({ message: "Arrangement not found" });
       }
 
-      const transcript = await storage.getTranscriptById(arrangement.transcriptId, req.user.userId);
-      if (!transcript) {
+      // The same case-wide view of the conversations as documents generated by a job
+      const transcriptContent = await JobQueue.getCaseTranscriptContent(arrangement.id);
+      if (transcriptContent === null) {
         return res.status(404).json({ message: "Transcript not found" });
       }
 
@@ -984,7 +1852,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const plainTextContent = await DocumentService.generateDocument({
         type: type as any,
         arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-        transcriptContent: transcript.content,
+        transcriptContent,
         styleSpecifications: styleSpecifications // Pass style specifications to the document service
       });
 
@@ -993,45 +1861,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ? await ImprovedPDFService.generatePDF({
             type: type as any,
             arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-            transcriptContent: transcript.content
+            transcriptContent
           })
         : await PDFService.generatePDF({
             type: type as any,
             arrangementData: JSON.parse(arrangement.extractedData || '{}'),
-            transcriptContent: transcript.content
+            transcriptContent
           });
 
       const base64Content = pdfBuffer.toString('base64');
 
-      const document = await storage.createDocument({
-        arrangementId,
+      const document = await storage.replaceDocument({
+        arrangementId: arrangement.id,
         type,
-        title: getDocumentTitle(type, JSON.parse(arrangement.extractedData || '{}')),
+        title: DocumentService.getDocumentTitle(type),
         content: base64Content,
         plainTextContent: plainTextContent,
         status: 'generated'
       });
+      res.locals.auditResourceId = document.id;
 
       // Track usage metric for document generation
       await storage.trackUsageMetric(req.user.userId, 'document_generated');
 
       res.json({ document });
     } catch (error) {
-      console.error("Document generation error:", error);
+      logger.error("document generation failed", error);
       res.status(500).json({ message: "Failed to generate document" });
     }
   });
 
   // Update document content
-  app.patch("/api/documents/:id", authenticateToken, async (req: any, res) => {
+  app.patch("/api/documents/:id", authenticateToken, audit('update', 'document'), requirePermission('edit_documents'), requireAccess('document'), async (req: any, res) => {
     try {
       const documentId = parseInt(req.params.id);
       const { plainTextContent, enhanced = true } = req.body; // Default to enhanced formatting
 
-      // Get the current document to access arrangement data
-      const currentDoc = await storage.getDocumentById(documentId);
-      if (!currentDoc) {
-        return res.status(404).json({ message: "Document not found" });
+      const currentDoc: Document = req.resource;
+      if (!canSeeDocument(currentDoc.type, req.user.organizationRole)) {
+        return res.status(403).json({ message: CAUSE_OF_DEATH_MESSAGE });
       }
 
       const arrangement = await storage.getArrangementById(currentDoc.arrangementId);
@@ -1039,6 +1907,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Arrangement not found" });
       }
 
+      if (currentDoc.type === 'contract' && !hasPermission(req.user.organizationRole, 'edit_contracts')) {
+        return res.status(403).json({ message: "Your role in this organization doesn't allow editing contracts" });
+      }
+
       // Regenerate PDF with updated content using appropriate service
       const pdfBuffer = enhanced
         ? await ImprovedPDFService.generatePDFFromText({
@@ -1061,42 +1933,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({ document });
     } catch (error) {
-      console.error("Error updating document:", error);
+      logger.error("document update failed", error);
       res.status(500).json({ message: "Failed to update document" });
     }
   });
 
   // Delete document
-  app.delete("/api/documents/:id", authenticateToken, async (req: any, res) => {
+  app.delete("/api/documents/:id", authenticateToken, audit('delete', 'document'), requirePermission('delete_documents'), requireAccess('document'), async (req: any, res) => {
     try {
       const documentId = parseInt(req.params.id);
+      const document: Document = req.resource;
+      const arrangement = await storage.getArrangementById(document.arrangementId);
+      if (arrangement?.legalHold) {
+        return res.status(409).json({ message: LEGAL_HOLD_MESSAGE });
+      }
+
       await storage.deleteDocument(documentId);
       res.json({ message: "Document deleted successfully" });
     } catch (error: any) {
-      console.error("Delete document error:", error);
+      logger.error("document deletion failed", error);
       res.status(500).json({ message: error.message });
     }
   });
 
   // Update task status
-  app.patch("/api/tasks/:id", authenticateToken, async (req: any, res) => {
+  app.patch("/api/tasks/:id", authenticateToken, audit('update', 'arrangement'), requirePermission('manage_tasks'), requireAccess('task'), async (req: any, res) => {
     try {
-      const taskId = parseInt(req.params.id);
-      const updates = req.body;
+      const task: FuneralTask = req.resource;
+      res.locals.auditResourceId = task.arrangementId;
+      const updates: Partial<FuneralTask> = updateTaskSchema.parse(req.body);
+      if (updates.completed !== undefined && updates.completed !== task.completed) {
+        updates.completedAt = updates.completed ? new Date() : null;
+      }
 
-      const updatedTask = await storage.updateTask(taskId, updates);
+      const updatedTask = await storage.updateTask(task.id, updates);
       res.json(updatedTask);
     } catch (error: any) {
-      console.error("Task update error:", error);
-      res.status(500).json({ message: error.message });
+      logger.error("task update failed", error);
+      res.status(400).json({ message: error.message });
     }
   });
 
-  app.post('/api/documents/enhanced-pdf', authenticateToken, async (req, res) => {
+  app.post('/api/documents/enhanced-pdf', authenticateToken, requirePermission('generate_documents'), async (req, res) => {
     try {
       const { type, arrangementData, transcriptContent } = req.body;
 
-      console.log('Generating enhanced PDF for type:', type);
+      logger.debug("generating enhanced PDF", { type });
 
       const pdfBuffer = await EnhancedPDFService.generatePDF({
         type,
@@ -1108,16 +1990,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Content-Disposition', 'attachment; filename="' + type + '-document.pdf"');
       res.send(pdfBuffer);
     } catch (error) {
-      console.error('Enhanced PDF generation error:', error);
+      logger.error("enhanced PDF generation failed", error);
       res.status(500).json({ error: 'Failed to generate enhanced PDF' });
     }
   });
 
-  app.post('/api/documents/enhanced-pdf-from-text', authenticateToken, async (req, res) => {
+  app.post('/api/documents/enhanced-pdf-from-text', authenticateToken, requirePermission('generate_documents'), async (req, res) => {
     try {
       const { type, plainTextContent, arrangementData } = req.body;
 
-      console.log('Generating enhanced PDF from text for type:', type);
+      logger.debug("generating enhanced PDF from text", { type });
 
       const pdfBuffer = await EnhancedPDFService.generatePDFFromText({
         type,
@@ -1129,13 +2011,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Content-Disposition', 'attachment; filename="' + type + '-document.pdf"');
       res.send(pdfBuffer);
     } catch (error) {
-      console.error('Enhanced PDF from text generation error:', error);
+      logger.error("enhanced PDF generation from text failed", error);
       res.status(500).json({ error: 'Failed to generate enhanced PDF from text' });
     }
   });
 
   // Generate markdown document with AI
-  app.post('/api/documents/generate-markdown', authenticateToken, async (req: any, res) => {
+  app.post('/api/documents/generate-markdown', authenticateToken, requirePermission('generate_documents'), async (req: any, res) => {
     try {
       const { arrangementData, type = 'comprehensive_arrangement' } = req.body;
 
@@ -1148,7 +2030,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({ markdownText });
     } catch (error: any) {
-      console.error('Markdown generation error:', error);
+      logger.error("markdown generation failed", error);
       res.status(500).json({ message: error.message });
     }
   });
@@ -1207,13 +2089,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         documentsBackfilled: totalDocumentsBackfilled
       });
     } catch (error: any) {
-      console.error("Reconcile metrics error:", error);
+      logger.error("reconciling metrics failed", error);
       res.status(500).json({ message: error.message });
     }
   });
 
   // Usage Analytics API Routes
-  app.get("/api/analytics/user/:userId/stats", authenticateToken, async (req: any, res) => {
+  app.get("/api/analytics/user/:userId/stats", authenticateToken, requirePermission('manage_billing'), async (req: any, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const { startDate, endDate } = req.query;
@@ -1229,12 +2111,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const stats = await storage.getUserUsageStats(userId, start, end);
       res.json(stats);
     } catch (error: any) {
-      console.error("Error fetching user stats:", error);
+      logger.error("fetching user stats failed", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/analytics/user/:userId/trends", authenticateToken, async (req: any, res) => {
+  app.get("/api/analytics/user/:userId/trends", authenticateToken, requirePermission('manage_billing'), async (req: any, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const months = parseInt(req.query.months) || 6;
@@ -1247,7 +2129,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const trends = await storage.getUserUsageTrends(userId, months);
       res.json(trends);
     } catch (error: any) {
-      console.error("Error fetching user trends:", error);
+      logger.error("fetching user trends failed", error);
       res.status(500).json({ message: error.message });
     }
   });
@@ -1263,7 +2145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const allUsersStats = await storage.getAllUsersUsageStats(start, end);
       res.json(allUsersStats);
     } catch (error: any) {
-      console.error("Error fetching all users stats:", error);
+      logger.error("fetching all users stats failed", error);
       res.status(500).json({ message: error.message });
     }
   });
@@ -1284,7 +2166,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         user: updatedUser
       });
     } catch (error: any) {
-      console.error("Error updating user role:", error);
+      logger.error("updating user role failed", error);
       res.status(500).json({ message: error.message });
     }
   });
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const rows = vi.hoisted(() => ({
+  sessions: new Map<number, any>(),
+  users: new Map<number, any>(),
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    createSession: vi.fn(async (session: any) => {
+      const created = { id: rows.sessions.size + 1, previousRefreshTokenHash: null, revokedAt: null, createdAt: new Date(), ...session };
+      rows.sessions.set(created.id, created);
+      return created;
+    }),
+    getSessionByRefreshTokenHash: vi.fn(async (hash: string) =>
+      Array.from(rows.sessions.values()).find(s => s.refreshTokenHash === hash)),
+    getSessionByPreviousRefreshTokenHash: vi.fn(async (hash: string) =>
+      Array.from(rows.sessions.values()).find(s => s.previousRefreshTokenHash === hash)),
+    getSessionById: vi.fn(async (id: number) => rows.sessions.get(id)),
+    updateSession: vi.fn(async (id: number, updates: any) => {
+      const session = { ...rows.sessions.get(id), ...updates };
+      rows.sessions.set(id, session);
+      return session;
+    }),
+    getUser: vi.fn(async (id: number) => rows.users.get(id)),
+  },
+}));
+
+vi.mock("./logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { storage } from "./storage";
+import { InvalidSessionError, SessionService } from "./sessions";
+
+const USER: any = { id: 7, email: "jo@example.com", role: 'user' };
+const REQUEST = { userAgent: "Mozilla/5.0 (iPad; CPU OS 17_0) Safari/605.1", ipAddress: "10.0.0.1" };
+
+describe("SessionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    rows.sessions.clear();
+    rows.users.clear();
+    rows.users.set(USER.id, USER);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("signs an access token naming the session and organization", async () => {
+    const { token } = await SessionService.start(USER, 3, REQUEST);
+
+    expect(SessionService.verifyAccessToken(token)).toMatchObject({ userId: 7, organizationId: 3, sessionId: 1 });
+    expect(rows.sessions.get(1).deviceName).toBe("Safari on iPad");
+  });
+
+  it("stores only a hash of the refresh token", async () => {
+    const { refreshToken } = await SessionService.start(USER, 3, REQUEST);
+
+    expect(rows.sessions.get(1).refreshTokenHash).not.toBe(refreshToken);
+    expect(JSON.stringify(rows.sessions.get(1))).not.toContain(refreshToken);
+  });
+
+  describe("refresh", () => {
+    it("replaces the refresh token every time it is used", async () => {
+      const first = await SessionService.start(USER, 3, REQUEST);
+      const second = await SessionService.refresh(first.refreshToken, REQUEST);
+      const third = await SessionService.refresh(second.refreshToken, REQUEST);
+
+      expect(new Set([first.refreshToken, second.refreshToken, third.refreshToken]).size).toBe(3);
+      expect(SessionService.verifyAccessToken(third.token).sessionId).toBe(1);
+    });
+
+    it("ends the session when a replaced token is presented again", async () => {
+      const first = await SessionService.start(USER, 3, REQUEST);
+      const second = await SessionService.refresh(first.refreshToken, REQUEST);
+      vi.advanceTimersByTime(60 * 1000);
+
+      await expect(SessionService.refresh(first.refreshToken, REQUEST)).rejects.toThrow(InvalidSessionError);
+      expect(rows.sessions.get(1).revokedAt).toBeInstanceOf(Date);
+      // The thief's copy and the real device's are both shut out
+      await expect(SessionService.refresh(second.refreshToken, REQUEST)).rejects.toThrow(InvalidSessionError);
+    });
+
+    it("doesn't end the session when two tabs refresh at once", async () => {
+      const first = await SessionService.start(USER, 3, REQUEST);
+      const second = await SessionService.refresh(first.refreshToken, REQUEST);
+      vi.advanceTimersByTime(5 * 1000);
+
+      await expect(SessionService.refresh(first.refreshToken, REQUEST)).rejects.toThrow(InvalidSessionError);
+      expect(rows.sessions.get(1).revokedAt).toBeNull();
+      await expect(SessionService.refresh(second.refreshToken, REQUEST)).resolves.toHaveProperty('token');
+    });
+
+    it("refuses a token it has never issued", async () => {
+      await SessionService.start(USER, 3, REQUEST);
+
+      await expect(SessionService.refresh("not-a-token", REQUEST)).rejects.toThrow(InvalidSessionError);
+      expect(storage.updateSession).not.toHaveBeenCalled();
+    });
+
+    it("refuses a revoked session", async () => {
+      const { refreshToken } = await SessionService.start(USER, 3, REQUEST);
+      await SessionService.revoke(USER.id, 1);
+
+      await expect(SessionService.refresh(refreshToken, REQUEST)).rejects.toThrow(InvalidSessionError);
+    });
+
+    it("refuses a session that has gone unused for too long", async () => {
+      const { refreshToken } = await SessionService.start(USER, 3, REQUEST);
+      vi.advanceTimersByTime(31 * 24 * 60 * 60 * 1000);
+
+      await expect(SessionService.refresh(refreshToken, REQUEST)).rejects.toThrow(InvalidSessionError);
+    });
+
+    it("pushes the expiry back each time the session is used", async () => {
+      const { refreshToken } = await SessionService.start(USER, 3, REQUEST);
+      vi.advanceTimersByTime(20 * 24 * 60 * 60 * 1000);
+      const next = await SessionService.refresh(refreshToken, REQUEST);
+      vi.advanceTimersByTime(20 * 24 * 60 * 60 * 1000);
+
+      await expect(SessionService.refresh(next.refreshToken, REQUEST)).resolves.toHaveProperty('token');
+    });
+  });
+
+  it("won't revoke another user's session", async () => {
+    await SessionService.start(USER, 3, REQUEST);
+
+    expect(await SessionService.revoke(99, 1)).toBe(false);
+    expect(rows.sessions.get(1).revokedAt).toBeNull();
+  });
+});
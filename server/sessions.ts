@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { storage } from "./storage";
+import { logger } from "./logger";
+import type { SessionSummary, User, UserSession } from "@shared/schema";
+
+export const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+const ACCESS_TOKEN_LIFETIME = "15m";
+// A device that hasn't been used for this long has to sign in again
+const REFRESH_TOKEN_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at once both present the same token; the loser isn't treated as a thief
+const REUSE_GRACE_MS = 30 * 1000;
+
+export interface AccessTokenPayload {
+  userId: number;
+  email: string;
+  role: string;
+  organizationId: number;
+  sessionId: number;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Raised when a refresh token can't be exchanged; the device has to sign in again
+export class InvalidSessionError extends Error {
+  constructor(message = "Your session has ended. Please sign in again.") {
+    super(message);
+    this.name = 'InvalidSessionError';
+  }
+}
+
+interface RequestInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/**
+ * Short-lived JWT access tokens backed by a server-side session per device. The refresh token
+ * is replaced every time it is used, and presenting one that has already been replaced ends
+ * the session, since only a copy of the token could still be holding it.
+ */
+export class SessionService {
+  static async start(user: User, organizationId: number, request: RequestInfo): Promise<SessionTokens> {
+    const refreshToken = this.newRefreshToken();
+    const session = await storage.createSession({
+      userId: user.id,
+      organizationId,
+      refreshTokenHash: this.hash(refreshToken),
+      deviceName: this.describeDevice(request.userAgent),
+      userAgent: request.userAgent ?? null,
+      ipAddress: request.ipAddress ?? null,
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS),
+    });
+
+    return { token: this.signAccessToken(user, session), refreshToken };
+  }
+
+  static async refresh(refreshToken: string, request: RequestInfo): Promise<SessionTokens> {
+    const hash = this.hash(refreshToken);
+    const session = await storage.getSessionByRefreshTokenHash(hash);
+
+    if (!session) {
+      const rotated = await storage.getSessionByPreviousRefreshTokenHash(hash);
+      if (rotated && !rotated.revokedAt && Date.now() - rotated.lastUsedAt.getTime() > REUSE_GRACE_MS) {
+        await storage.updateSession(rotated.id, { revokedAt: new Date() });
+        logger.warn("refresh token reused; session revoked", { userId: rotated.userId, sessionId: rotated.id });
+      }
+      throw new InvalidSessionError();
+    }
+
+    if (!this.isActive(session)) {
+      throw new InvalidSessionError();
+    }
+
+    const user = await storage.getUser(session.userId);
+    if (!user) {
+      throw new InvalidSessionError();
+    }
+
+    const nextRefreshToken = this.newRefreshToken();
+    const updated = await storage.updateSession(session.id, {
+      refreshTokenHash: this.hash(nextRefreshToken),
+      previousRefreshTokenHash: hash,
+      ipAddress: request.ipAddress ?? session.ipAddress,
+      lastUsedAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS),
+    });
+
+    return { token: this.signAccessToken(user, updated), refreshToken: nextRefreshToken };
+  }
+
+  // Points the device at another organization and returns an access token acting in it
+  static async switchOrganization(sessionId: number, user: User, organizationId: number): Promise<string> {
+    const session = await storage.updateSession(sessionId, { organizationId });
+    return this.signAccessToken(user, session);
+  }
+
+  static verifyAccessToken(token: string): AccessTokenPayload {
+    const payload = jwt.verify(token, JWT_SECRET) as Partial<AccessTokenPayload>;
+    // Tokens from before sessions existed can't be revoked, so they are no longer accepted
+    if (typeof payload.sessionId !== 'number') {
+      throw new InvalidSessionError();
+    }
+    return payload as AccessTokenPayload;
+  }
+
+  static async getActiveSession(sessionId: number, userId: number): Promise<UserSession | undefined> {
+    const session = await storage.getSessionById(sessionId);
+    return session && session.userId === userId && this.isActive(session) ? session : undefined;
+  }
+
+  static async list(userId: number, currentSessionId: number): Promise<SessionSummary[]> {
+    const sessions = await storage.getActiveSessionsForUser(userId);
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  static async revoke(userId: number, sessionId: number): Promise<boolean> {
+    const session = await this.getActiveSession(sessionId, userId);
+    if (!session) return false;
+    await storage.updateSession(session.id, { revokedAt: new Date() });
+    return true;
+  }
+
+  // Signs the user out on every device, except the one named
+  static async revokeAll(userId: number, exceptSessionId?: number): Promise<number> {
+    return await storage.revokeSessionsForUser(userId, exceptSessionId);
+  }
+
+  // A readable name for the device, such as "Safari on iPad", from its user agent
+  static describeDevice(userAgent?: string | null): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browser =
+      /Edg\//.test(userAgent) ? 'Edge' :
+      /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+      /Firefox\/|FxiOS/.test(userAgent) ? 'Firefox' :
+      /Chrome\/|CriOS/.test(userAgent) ? 'Chrome' :
+      /Safari\//.test(userAgent) ? 'Safari' :
+      'Browser';
+
+    const device =
+      /iPad/.test(userAgent) ? 'iPad' :
+      /iPhone/.test(userAgent) ? 'iPhone' :
+      /Android/.test(userAgent) ? (/Mobile/.test(userAgent) ? 'Android phone' : 'Android tablet') :
+      /CrOS/.test(userAgent) ? 'Chromebook' :
+      /Windows/.test(userAgent) ? 'Windows' :
+      /Macintosh|Mac OS X/.test(userAgent) ? 'Mac' :
+      /Linux/.test(userAgent) ? 'Linux' :
+      null;
+
+    return device ? `${browser} on ${device}` : browser;
+  }
+
+  private static isActive(session: UserSession): boolean {
+    return !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  private static signAccessToken(user: User, session: UserSession): string {
+    const payload: AccessTokenPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      organizationId: session.organizationId,
+      sessionId: session.id,
+    };
+    return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_LIFETIME });
+  }
+
+  private static newRefreshToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private static hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,179 @@
+import { completeTask } from "./llm";
+import { logger } from "./logger";
+import { formatSpeakerTurns, listSpeakers, type SpeakerTurn } from "@shared/speakerTurns";
+import { SPEAKER_ROLES, SPEAKER_ROLE_LABELS, type SpeakerRole, type SpeakerRoles } from "@shared/schema";
+import type { ExtractedArrangementData } from "@shared/extraction";
+
+// Who a speaker is usually becomes clear early on, from introductions
+const MAX_EXCERPT_CHARS = 20000;
+
+const RELATIONSHIP_ROLES: Array<[RegExp, SpeakerRole]> = [
+  [/\b(wife|husband|spouse|partner|widow|widower)\b/i, 'spouse'],
+  [/\b(grand\s?(son|daughter|child))\b/i, 'grandchild'],
+  [/\b(son|daughter|child|stepson|stepdaughter)\b/i, 'child'],
+  [/\b(mother|father|mom|dad|parent)\b/i, 'parent'],
+  [/\b(brother|sister|sibling)\b/i, 'sibling'],
+  [/\b(niece|nephew|cousin|aunt|uncle|in-law|grand(mother|father|parent))\b/i, 'other_family'],
+  [/\bfriend\b/i, 'friend'],
+  [/\b(pastor|reverend|priest|rabbi|imam|minister|chaplain|clergy)\b/i, 'clergy'],
+];
+
+/**
+ * Labels each speaker in a transcript with who they are to the deceased, so extraction can
+ * resolve "my mother" relative to the person saying it. Labels a director set are never changed.
+ */
+export class SpeakerRoleService {
+  /**
+   * Asks the AI to label the speakers no director has labelled yet. `arrangement` is what is
+   * already known about the case, such as the informant from an earlier conversation.
+   */
+  static async identify(
+    turns: SpeakerTurn[],
+    existing: SpeakerRoles,
+    arrangement?: ExtractedArrangementData | null,
+  ): Promise<SpeakerRoles> {
+    const roles = this.keepDirectorLabels(turns, existing);
+    const unlabelled = listSpeakers(turns).filter((speaker) => !roles[speaker]);
+    if (unlabelled.length === 0) return roles;
+
+    try {
+      const content = await completeTask('speakers', {
+        prompt: this.buildPrompt(turns, unlabelled, roles, arrangement),
+        temperature: 0.1,
+        maxTokens: 1000,
+        responseFormat: 'json',
+      });
+      Object.assign(roles, this.parseReply(content, unlabelled));
+    } catch (error) {
+      // Extraction still works without roles, just with less to go on
+      logger.warn("speaker identification failed", { error });
+    }
+
+    return arrangement ? this.applyArrangement(turns, roles, arrangement) : roles;
+  }
+
+  /**
+   * Fills in what extraction found out about the informant and the director, for speakers
+   * whose names match and whose role the AI or a director hasn't already settled.
+   */
+  static applyArrangement(turns: SpeakerTurn[], roles: SpeakerRoles, arrangement: ExtractedArrangementData): SpeakerRoles {
+    const updated = { ...roles };
+    const speakers = listSpeakers(turns);
+    const { informant, basic_information } = arrangement.arrangement;
+
+    const director = this.findSpeaker(speakers, basic_information.funeral_director_name);
+    if (director && !updated[director]) {
+      updated[director] = { role: 'funeral_director', informant: false, source: 'ai' };
+    }
+
+    const informantSpeaker = this.findSpeaker(speakers, informant.name);
+    const current = informantSpeaker ? updated[informantSpeaker] : undefined;
+    if (informantSpeaker && current?.source !== 'director') {
+      for (const [speaker, label] of Object.entries(updated)) {
+        if (label.informant && label.source === 'ai') updated[speaker] = { ...label, informant: false };
+      }
+      const relationshipRole = this.roleForRelationship(informant.relationship_to_deceased);
+      updated[informantSpeaker] = {
+        role: current && current.role !== 'other' ? current.role : relationshipRole ?? 'other',
+        informant: true,
+        source: 'ai',
+      };
+    }
+
+    return updated;
+  }
+
+  // The roles in the words the extraction prompt uses, or null when there is nothing to say
+  static describeForExtraction(roles: SpeakerRoles): string | null {
+    const lines = Object.entries(roles).map(([speaker, label]) => {
+      const role = label.role === 'funeral_director' || label.role === 'other'
+        ? SPEAKER_ROLE_LABELS[label.role].toLowerCase()
+        : `the deceased's ${SPEAKER_ROLE_LABELS[label.role].toLowerCase()}`;
+      return `- ${speaker}: ${role}${label.informant ? ' (the informant)' : ''}`;
+    });
+    return lines.length > 0 ? lines.join('\n') : null;
+  }
+
+  static roleForRelationship(relationship: string | null | undefined): SpeakerRole | null {
+    if (!relationship) return null;
+    const match = RELATIONSHIP_ROLES.find(([pattern]) => pattern.test(relationship));
+    return match ? match[1] : null;
+  }
+
+  private static keepDirectorLabels(turns: SpeakerTurn[], existing: SpeakerRoles): SpeakerRoles {
+    const speakers = new Set(listSpeakers(turns));
+    return Object.fromEntries(
+      Object.entries(existing).filter(([speaker, label]) => speakers.has(speaker) && label.source === 'director')
+    );
+  }
+
+  private static buildPrompt(
+    turns: SpeakerTurn[],
+    unlabelled: string[],
+    known: SpeakerRoles,
+    arrangement?: ExtractedArrangementData | null,
+  ): string {
+    const hints: string[] = [];
+    const knownRoles = this.describeForExtraction(known);
+    if (knownRoles) {
+      hints.push(`The funeral director has already identified:\n${knownRoles}`);
+    }
+    if (arrangement) {
+      const { informant, basic_information } = arrangement.arrangement;
+      if (informant.name) {
+        hints.push(`From earlier conversations, the informant is ${informant.name}${informant.relationship_to_deceased ? `, the deceased's ${informant.relationship_to_deceased}` : ''}.`);
+      }
+      if (basic_information.funeral_director_name) {
+        hints.push(`The funeral director is ${basic_information.funeral_director_name}.`);
+      }
+    }
+
+    let excerpt = formatSpeakerTurns(turns);
+    if (excerpt.length > MAX_EXCERPT_CHARS) {
+      excerpt = `${excerpt.slice(0, MAX_EXCERPT_CHARS)}\n[transcript continues]`;
+    }
+
+    return `You are reading a conversation at a funeral home between a funeral director and the family of someone who has died. Work out who each speaker is from what they say: introductions, how others address them, and how they refer to the deceased ("my mom", "my husband").
+
+Label each of these speakers: ${unlabelled.join(', ')}
+
+Use one of these roles, describing the speaker's relationship to the deceased: ${SPEAKER_ROLES.join(', ')}. Use "other" when you can't tell. Set "informant" to true for the family member who is giving the deceased's details and making the arrangements; usually there is exactly one.
+${hints.length > 0 ? `\n${hints.join('\n')}\n` : ''}
+Return JSON only, keyed by speaker name exactly as written above:
+
+{
+  "speakers": {
+    "Speaker name": { "role": "string", "informant": false }
+  }
+}
+
+Conversation:
+${excerpt}`;
+  }
+
+  private static parseReply(content: string, speakers: string[]): SpeakerRoles {
+    const cleanContent = content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+    const json = JSON.parse(cleanContent);
+    const labels = json?.speakers && typeof json.speakers === 'object' ? json.speakers : {};
+
+    // Anything unusable is left unlabelled rather than guessed
+    const roles: SpeakerRoles = {};
+    for (const speaker of speakers) {
+      const label = labels[speaker];
+      if (label && (SPEAKER_ROLES as readonly string[]).includes(label.role)) {
+        roles[speaker] = { role: label.role, informant: label.informant === true, source: 'ai' };
+      }
+    }
+    return roles;
+  }
+
+  // "Mary" matches a speaker labelled "Mary Smith" and the other way round
+  private static findSpeaker(speakers: string[], name: string | null | undefined): string | undefined {
+    const wanted = name?.trim().toLowerCase();
+    if (!wanted) return undefined;
+    const firstName = wanted.split(/\s+/)[0];
+
+    return speakers.find((speaker) => speaker.toLowerCase() === wanted)
+      ?? speakers.find((speaker) => speaker.toLowerCase().split(/\s+/)[0] === firstName);
+  }
+}
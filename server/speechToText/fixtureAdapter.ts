@@ -0,0 +1,31 @@
+import fs from "fs";
+import path from "path";
+import { SpeechToTextError, type SpeechToText, type SpeechToTextRequest } from "./types";
+import type { SpeakerTurn } from "@shared/speakerTurns";
+
+/**
+ * Replays prepared transcripts instead of listening to the recording, for tests and demos.
+ *
+ * The reply comes from `${SPEECH_TO_TEXT_FIXTURES_DIR}/<recording name>.json` (e.g.
+ * `smith-conference.json` for `smith-conference.m4a`), or `default.json` when there is none.
+ * Each fixture is a JSON array of speaker turns: `{ speaker, start, end, text }`.
+ */
+export class FixtureSpeechToText implements SpeechToText {
+  readonly name = 'fixture';
+
+  async transcribe({ filename }: SpeechToTextRequest): Promise<SpeakerTurn[]> {
+    const dir = process.env.SPEECH_TO_TEXT_FIXTURES_DIR;
+    if (!dir) {
+      throw new SpeechToTextError("SPEECH_TO_TEXT_FIXTURES_DIR must be set to use the fixture speech-to-text adapter");
+    }
+
+    const baseName = path.basename(filename, path.extname(filename));
+    for (const candidate of [`${baseName}.json`, 'default.json']) {
+      const filePath = path.join(dir, candidate);
+      if (fs.existsSync(filePath)) {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      }
+    }
+    throw new SpeechToTextError(`No speech-to-text fixture for ${filename}`);
+  }
+}
@@ -0,0 +1,31 @@
+import { LocalSpeechToText } from "./localAdapter";
+import { FixtureSpeechToText } from "./fixtureAdapter";
+import type { SpeechToText } from "./types";
+
+export { SpeechToTextError, type SpeechToText, type SpeechToTextRequest } from "./types";
+
+type AdapterName = 'local' | 'fixture';
+
+const ADAPTER_FACTORIES: Record<AdapterName, () => SpeechToText> = {
+  local: () => new LocalSpeechToText(),
+  fixture: () => new FixtureSpeechToText(),
+};
+
+let adapter: SpeechToText | null = null;
+
+/**
+ * The adapter named by SPEECH_TO_TEXT_ADAPTER: `local` (the default) runs whisper.cpp on this
+ * machine's CPU, and `fixture` replays prepared transcripts for tests and demos.
+ */
+export function getSpeechToText(): SpeechToText {
+  if (adapter) return adapter;
+
+  const name = (process.env.SPEECH_TO_TEXT_ADAPTER || 'local').trim().toLowerCase();
+  const factory = ADAPTER_FACTORIES[name as AdapterName];
+  if (!factory) {
+    throw new Error(`Unknown speech-to-text adapter "${name}". Expected one of: ${Object.keys(ADAPTER_FACTORIES).join(', ')}`);
+  }
+
+  adapter = factory();
+  return adapter;
+}
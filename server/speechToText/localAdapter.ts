@@ -0,0 +1,104 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { SpeechToTextError, type SpeechToText, type SpeechToTextRequest } from "./types";
+import type { SpeakerTurn } from "@shared/speakerTurns";
+
+const run = promisify(execFile);
+
+// Long conferences take a while on a CPU; anything past this is treated as stuck
+const TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+interface WhisperSegment {
+  offsets: { from: number; to: number };
+  text: string;
+  speaker_turn_next?: boolean;
+}
+
+/**
+ * Transcribes on this machine's CPU with whisper.cpp, so recordings never leave the server.
+ * Needs `ffmpeg` and whisper.cpp's `whisper-cli` (override with FFMPEG_BIN and WHISPER_CPP_BIN)
+ * and a model file in WHISPER_CPP_MODEL. Speakers are only told apart with a tinydiarize model
+ * (a file name containing "tdrz", e.g. ggml-small.en-tdrz.bin), which marks where the speaker
+ * changes but not who is speaking, so turns alternate between "Speaker 1" and "Speaker 2".
+ */
+export class LocalSpeechToText implements SpeechToText {
+  readonly name = 'local';
+
+  async transcribe({ filePath, filename }: SpeechToTextRequest): Promise<SpeakerTurn[]> {
+    const model = process.env.WHISPER_CPP_MODEL;
+    if (!model || !fs.existsSync(model)) {
+      throw new SpeechToTextError("WHISPER_CPP_MODEL must point at a whisper.cpp model file to transcribe recordings");
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'transcribe-'));
+    try {
+      // whisper.cpp only reads 16 kHz mono WAV
+      const wavPath = path.join(workDir, 'audio.wav');
+      await this.exec(process.env.FFMPEG_BIN || 'ffmpeg', [
+        '-nostdin', '-loglevel', 'error', '-y', '-i', filePath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath,
+      ], `${filename} couldn't be read as audio`);
+
+      const diarize = /tdrz/i.test(path.basename(model));
+      const outputBase = path.join(workDir, 'transcript');
+      await this.exec(process.env.WHISPER_CPP_BIN || 'whisper-cli', [
+        '-m', model,
+        '-f', wavPath,
+        '-t', String(Number(process.env.WHISPER_CPP_THREADS) || os.cpus().length),
+        '-oj', '-of', outputBase,
+        ...(diarize ? ['-tdrz'] : []),
+      ], `Transcribing ${filename} failed`);
+
+      const output = JSON.parse(await fs.promises.readFile(`${outputBase}.json`, 'utf-8'));
+      return this.toTurns(output.transcription ?? [], diarize);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private toTurns(segments: WhisperSegment[], diarize: boolean): SpeakerTurn[] {
+    const turns: SpeakerTurn[] = [];
+    let speaker = 1;
+    let startsTurn = true;
+
+    for (const segment of segments) {
+      const text = segment.text.replace(/\[SPEAKER_TURN\]/g, '').trim();
+      if (text) {
+        const previous = turns[turns.length - 1];
+        if (previous && !startsTurn) {
+          previous.text += ` ${text}`;
+          previous.end = segment.offsets.to / 1000;
+        } else {
+          turns.push({
+            speaker: diarize ? `Speaker ${speaker}` : null,
+            start: segment.offsets.from / 1000,
+            end: segment.offsets.to / 1000,
+            text,
+          });
+        }
+        // Without diarization each segment stays its own paragraph
+        startsTurn = !diarize;
+      }
+
+      if (diarize && segment.speaker_turn_next) {
+        speaker = speaker === 1 ? 2 : 1;
+        startsTurn = true;
+      }
+    }
+    return turns;
+  }
+
+  private async exec(command: string, args: string[], failure: string) {
+    try {
+      await run(command, args, { timeout: TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new SpeechToTextError(`${command} isn't installed on the server, so recordings can't be transcribed`);
+      }
+      const detail = String(error.stderr || error.message).trim().split('\n').pop();
+      throw new SpeechToTextError(detail ? `${failure}: ${detail}` : failure);
+    }
+  }
+}
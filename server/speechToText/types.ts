@@ -0,0 +1,21 @@
+import type { SpeakerTurn } from "@shared/speakerTurns";
+
+export interface SpeechToTextRequest {
+  // The recording on disk, in any format ffmpeg can read
+  filePath: string;
+  filename: string;
+}
+
+export interface SpeechToText {
+  readonly name: string;
+  // Speaker turns in order; speakers are named "Speaker 1", "Speaker 2" and so on when told apart
+  transcribe(request: SpeechToTextRequest): Promise<SpeakerTurn[]>;
+}
+
+// Raised when a recording can't be transcribed; the message is shown alongside the transcript
+export class SpeechToTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeechToTextError';
+  }
+}
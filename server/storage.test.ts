@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.FIELD_ENCRYPTION_KEY = Buffer.alloc(32, 7).toString('base64');
+});
+
+vi.mock("./db", () => ({ db: {} }));
+
+import { FieldEncryption } from "./encryption";
+import { ENCRYPTED_COLUMNS, openRow, sealRow, type EncryptedTable } from "./storage";
+
+// A row with a distinct value in every encrypted column, plus a few that are stored as they are
+function sampleRow(table: EncryptedTable) {
+  const row: Record<string, unknown> = { id: 1, status: 'processed', organizationId: 3, notes: null };
+  for (const column of ENCRYPTED_COLUMNS[table]) {
+    row[column] = `${table} ${column}: Margaret Hale, died at home on 3 March`;
+  }
+  return row;
+}
+
+describe("sealRow and openRow", () => {
+  describe.each(Object.keys(ENCRYPTED_COLUMNS) as EncryptedTable[])("%s", (table) => {
+    it("encrypts every sensitive column and leaves the rest alone", () => {
+      const row = sampleRow(table);
+      const sealed = sealRow(table, row);
+
+      for (const column of ENCRYPTED_COLUMNS[table]) {
+        expect(FieldEncryption.isEncrypted(sealed[column] as string)).toBe(true);
+        expect(sealed[column]).not.toContain('Margaret');
+      }
+      expect(sealed).toMatchObject({ id: 1, status: 'processed', organizationId: 3, notes: null });
+    });
+
+    it("opens what it sealed", () => {
+      const row = sampleRow(table);
+
+      expect(openRow(table, sealRow(table, row))).toEqual(row);
+    });
+
+    it("doesn't change the row it was given", () => {
+      const row = sampleRow(table);
+      const copy = { ...row };
+      sealRow(table, row);
+
+      expect(row).toEqual(copy);
+    });
+  });
+
+  it("covers the arrangement document and merge decisions", () => {
+    const sealed = sealRow('arrangements', { generatedDoc: "Service at St Mary's", mergeDecisions: '[{"field":"deceasedName"}]' });
+
+    expect(FieldEncryption.isEncrypted(sealed.generatedDoc)).toBe(true);
+    expect(FieldEncryption.isEncrypted(sealed.mergeDecisions)).toBe(true);
+  });
+
+  it("skips columns that are missing or null, as in a partial update", () => {
+    const sealed = sealRow('arrangements', { causeOfDeath: null, approvalStatus: 'approved' });
+
+    expect(sealed).toEqual({ causeOfDeath: null, approvalStatus: 'approved' });
+    expect(openRow('arrangements', sealed)).toEqual(sealed);
+  });
+
+  it("reads plaintext stored before encryption was turned on", () => {
+    expect(openRow('documents', { content: "Obituary draft" })).toEqual({ content: "Obituary draft" });
+  });
+
+  it("won't open a value copied into another column", () => {
+    const sealed = sealRow('arrangements', { causeOfDeath: "Heart failure" });
+
+    expect(() => openRow('arrangements', { extractedData: sealed.causeOfDeath })).toThrow();
+  });
+});
@@ -1,6 +1,8 @@
-import { users, transcripts, arrangements, documents, funeralTasks, passwordResets, userUsageMetrics, userBillingPeriods, type User, type InsertUser, type Transcript, type InsertTranscript, type Arrangement, type InsertArrangement, type Document, type InsertDocument, type FuneralTask, type InsertFuneralTask, type PasswordReset, type InsertPasswordReset, type UserUsageMetric, type InsertUserUsageMetric, type UserBillingPeriod, type InsertUserBillingPeriod } from "@shared/schema";
+import { users, organizations, organizationMembers, organizationInvites, transcripts, arrangements, documents, funeralTasks, passwordResets, userUsageMetrics, userBillingPeriods, jobs, jobDocuments, arrangementDeltas, arrangementFieldChanges, auditEvents, userSessions, recoveryCodes, retentionRules, retentionPurgeRuns, transcriptImports, type TranscriptImport, type RetentionRule, type RetentionPurgeRun, type RetentionTarget, type UserSession, type InsertUserSession, type AuditEventEntry, type AuditEventFilters, type InsertAuditEvent, type Organization, type InsertOrganization, type OrganizationMember, type InsertOrganizationMember, type OrganizationInvite, type InsertOrganizationInvite, type OrganizationMembership, type OrganizationMemberDetails, type ArrangementDelta, type ArrangementFieldChange, type InsertArrangementFieldChange, type FieldHistoryEntry, type InsertArrangementDelta, type Job, type InsertJob, type JobDocument, type JobWithDocuments, type ReviewQueueItem, type User, type InsertUser, type Transcript, type InsertTranscript, type Arrangement, type InsertArrangement, type Document, type InsertDocument, type FuneralTask, type InsertFuneralTask, type PasswordReset, type InsertPasswordReset, type UserUsageMetric, type InsertUserUsageMetric, type UserBillingPeriod, type InsertUserBillingPeriod } from "@shared/schema";
+import type { FieldChange, MergeDecision } from "@shared/extraction";
 import { db } from "./db";
-import { eq, desc, and, or, ilike } from "drizzle-orm";
+import { FieldEncryption } from "./encryption";
+import { eq, ne, desc, asc, and, or, lt, gt, gte, lte, isNull, isNotNull, notExists, inArray, count, sql } from "drizzle-orm";
 
 export interface IStorage {
   // User operations
@@ -10,14 +12,36 @@ export interface IStorage {
   getAllUsers(): Promise<User[]>;
   updateUser(userId: number, updates: Partial<User>): Promise<User>;
   updateUserRole(userId: number, role: string): Promise<User>;
+  recordFailedLogin(userId: number): Promise<number>;
+
+  // Organization operations
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  getOrganizationById(id: number): Promise<Organization | undefined>;
+  updateOrganization(id: number, updates: Partial<Organization>): Promise<Organization>;
+  addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  getOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined>;
+  getOrganizationsForUser(userId: number): Promise<OrganizationMembership[]>;
+  getOrganizationMembers(organizationId: number): Promise<OrganizationMemberDetails[]>;
+  createOrganizationInvite(invite: InsertOrganizationInvite): Promise<OrganizationInvite>;
+  getOrganizationInvite(token: string): Promise<OrganizationInvite | undefined>;
+  getPendingOrganizationInvites(organizationId: number): Promise<OrganizationInvite[]>;
+  markOrganizationInviteAccepted(id: number): Promise<void>;
+  updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<OrganizationMember>;
+  renameOrganizationRole(from: string, to: string): Promise<void>;
+  getUsersWithoutOrganization(): Promise<User[]>;
+  assignUserRecordsToOrganization(userId: number, organizationId: number): Promise<void>;
+  mergeOrganizations(fromId: number, intoId: number): Promise<number[]>;
 
   // Transcript operations
   getTranscriptsByUserId(userId: number, limit?: number): Promise<Transcript[]>;
-  getTranscriptById(id: number, userId: number): Promise<Transcript | undefined>;
+  getTranscriptsByOrganizationId(organizationId: number, limit?: number): Promise<Transcript[]>;
+  getTranscriptById(id: number, organizationId: number): Promise<Transcript | undefined>;
+  getTranscript(id: number): Promise<Transcript | undefined>;
   createTranscript(transcript: InsertTranscript): Promise<Transcript>;
-  deleteTranscript(id: number, userId: number): Promise<void>;
-  searchTranscripts(userId: number, query: string): Promise<Transcript[]>;
-  getTranscriptStats(userId: number): Promise<{
+  getTranscriptIdByContentHash(organizationId: number, contentHash: string): Promise<number | undefined>;
+  deleteTranscript(id: number, organizationId: number): Promise<void>;
+  searchTranscripts(organizationId: number, query: string): Promise<Transcript[]>;
+  getTranscriptStats(organizationId: number): Promise<{
     total: number;
     processed: number;
     pending: number;
@@ -31,7 +55,60 @@ export interface IStorage {
   getArrangementById(id: number): Promise<Arrangement | undefined>;
   getArrangementByTranscriptId(transcriptId: number): Promise<Arrangement | undefined>;
   updateArrangement(id: number, updates: Partial<Arrangement>): Promise<Arrangement>;
-  updateTranscriptStatus(id: number, status: string): Promise<void>;
+  updateTranscriptStatus(id: number, status: string, processingError?: string | null): Promise<void>;
+  updateTranscript(id: number, updates: Partial<Transcript>): Promise<Transcript>;
+  getNextTranscriptToTranscribe(): Promise<Transcript | undefined>;
+  getReviewQueue(organizationId: number): Promise<ReviewQueueItem[]>;
+  getArrangementsByOrganizationId(organizationId: number): Promise<Arrangement[]>;
+  getTranscriptsByArrangementId(arrangementId: number): Promise<Transcript[]>;
+
+  // Follow-up conversation deltas
+  createArrangementDelta(delta: InsertArrangementDelta): Promise<ArrangementDelta>;
+  getArrangementDeltaById(id: number): Promise<ArrangementDelta | undefined>;
+  getPendingDeltasByArrangementId(arrangementId: number): Promise<ArrangementDelta[]>;
+  updateArrangementDelta(id: number, updates: Partial<ArrangementDelta>): Promise<ArrangementDelta>;
+  supersedePendingDeltas(transcriptId: number): Promise<void>;
+
+  // Field change log (append-only)
+  recordFieldChanges(changes: InsertArrangementFieldChange[]): Promise<ArrangementFieldChange[]>;
+  getFieldHistory(arrangementId: number): Promise<FieldHistoryEntry[]>;
+  getFieldChangeById(id: number): Promise<ArrangementFieldChange | undefined>;
+
+  // Signed-in devices
+  createSession(session: InsertUserSession): Promise<UserSession>;
+  getSessionById(id: number): Promise<UserSession | undefined>;
+  getSessionByRefreshTokenHash(hash: string): Promise<UserSession | undefined>;
+  getSessionByPreviousRefreshTokenHash(hash: string): Promise<UserSession | undefined>;
+  getActiveSessionsForUser(userId: number): Promise<UserSession[]>;
+  updateSession(id: number, updates: Partial<UserSession>): Promise<UserSession>;
+  revokeSessionsForUser(userId: number, exceptSessionId?: number): Promise<number>;
+
+  // Two-factor sign-in
+  claimTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+
+  // Retention
+  getRetentionRules(organizationId: number): Promise<RetentionRule[]>;
+  replaceRetentionRules(organizationId: number, rules: Array<{ target: RetentionTarget; retainDays: number }>): Promise<RetentionRule[]>;
+  getOrganizationsWithRetentionRules(): Promise<Organization[]>;
+  getArrangementsClosedBefore(organizationId: number, closedBefore: Date): Promise<Array<Pick<Arrangement, 'id' | 'transcriptId' | 'legalHold'>>>;
+  purgeTranscriptsForArrangement(arrangement: Pick<Arrangement, 'id' | 'transcriptId'>): Promise<{ purged: number; audioPaths: string[] }>;
+  clearFailedRecordings(organizationId: number, uploadedBefore: Date): Promise<string[]>;
+  deleteDocumentsByType(arrangementId: number, type: string): Promise<number>;
+  createPurgeRun(trigger: string): Promise<RetentionPurgeRun>;
+  updatePurgeRun(id: number, updates: Partial<RetentionPurgeRun>): Promise<RetentionPurgeRun>;
+  getPurgeRuns(limit: number): Promise<RetentionPurgeRun[]>;
+  createTranscriptImport(transcriptImport: Pick<TranscriptImport, 'organizationId' | 'userId' | 'source' | 'name' | 'autoProcess'>): Promise<TranscriptImport>;
+  updateTranscriptImport(id: number, updates: Partial<TranscriptImport>): Promise<TranscriptImport>;
+  getTranscriptImport(id: number): Promise<TranscriptImport | undefined>;
+  getTranscriptImports(organizationId: number, limit: number): Promise<TranscriptImport[]>;
+
+  // Audit trail (append-only)
+  recordAuditEvent(event: InsertAuditEvent): Promise<void>;
+  getAuditEvents(filters: AuditEventFilters, limit?: number, offset?: number): Promise<AuditEventEntry[]>;
+  countAuditEvents(filters: AuditEventFilters): Promise<number>;
 
   // Password reset operations
   createPasswordReset(passwordReset: InsertPasswordReset): Promise<PasswordReset>;
@@ -41,6 +118,7 @@ export interface IStorage {
 
   // Document operations
   createDocument(document: InsertDocument): Promise<Document>;
+  replaceDocument(document: InsertDocument): Promise<Document>;
   getDocumentsByArrangementId(arrangementId: number): Promise<Document[]>;
   updateDocument(id: number, updates: Partial<Document>): Promise<Document>;
   getDocumentById(id: number): Promise<Document | undefined>;
@@ -49,8 +127,18 @@ export interface IStorage {
   // Task operations
   createTask(task: InsertFuneralTask): Promise<FuneralTask>;
   getTasksByArrangementId(arrangementId: number): Promise<FuneralTask[]>;
+  getTaskById(id: number): Promise<FuneralTask | undefined>;
   updateTask(id: number, updates: Partial<FuneralTask>): Promise<FuneralTask>;
 
+  // Job queue operations
+  createJob(job: InsertJob, documentTypes: string[]): Promise<JobWithDocuments | undefined>;
+  getJobById(id: number): Promise<JobWithDocuments | undefined>;
+  getLatestJobByArrangementId(arrangementId: number): Promise<JobWithDocuments | undefined>;
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: number, updates: Partial<Job>): Promise<Job>;
+  updateJobDocument(id: number, updates: Partial<JobDocument>): Promise<JobDocument>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+
   // Usage analytics operations
   trackUsageMetric(userId: number, metricType: 'transcript_processed' | 'document_generated'): Promise<void>;
   getUserUsageStats(userId: number, startDate?: Date, endDate?: Date): Promise<{
@@ -75,6 +163,63 @@ export interface IStorage {
   updateUserRoleAndResetBilling(userId: number, newRole: string): Promise<User>;
 }
 
+// Columns holding conversations and family details, encrypted at rest. They are sealed on the
+// way into the database and opened on the way out, so the rest of the code only sees plaintext
+export const ENCRYPTED_COLUMNS = {
+  transcripts: ['content', 'speakerTurns', 'speakerRoles'],
+  arrangements: ['causeOfDeath', 'extractedData', 'fieldSources', 'generatedDoc', 'mergeDecisions'],
+  arrangementFieldChanges: ['oldValue', 'newValue'],
+  arrangementDeltas: ['changes'],
+  documents: ['content', 'plainTextContent'],
+} as const;
+
+export type EncryptedTable = keyof typeof ENCRYPTED_COLUMNS;
+
+export function sealRow<T extends Record<string, any>>(table: EncryptedTable, row: T): T {
+  const sealed: Record<string, unknown> = { ...row };
+  for (const column of ENCRYPTED_COLUMNS[table]) {
+    const value = sealed[column];
+    if (typeof value === 'string') sealed[column] = FieldEncryption.encrypt(value, `${table}.${column}`);
+  }
+  return sealed as T;
+}
+
+export function openRow<T extends Record<string, any>>(table: EncryptedTable, row: T): T {
+  const opened: Record<string, unknown> = { ...row };
+  for (const column of ENCRYPTED_COLUMNS[table]) {
+    const value = opened[column];
+    if (typeof value === 'string') opened[column] = FieldEncryption.decrypt(value, `${table}.${column}`);
+  }
+  return opened as T;
+}
+
+const openTranscript = (transcript: Transcript) => openRow('transcripts', transcript);
+const openArrangement = (arrangement: Arrangement) => openRow('arrangements', arrangement);
+const openDelta = (delta: ArrangementDelta) => openRow('arrangementDeltas', delta);
+const openDocument = (document: Document) => openRow('documents', document);
+
+// What each part of a long conversation said, and the passage behind each proposed value,
+// are taken from the transcript and go when it is purged
+function withoutPartValues(decisions: MergeDecision[]): MergeDecision[] {
+  return decisions.map((decision) => ({ ...decision, candidates: [] }));
+}
+
+function withoutSources(changes: FieldChange[]): FieldChange[] {
+  return changes.map((change) => ({ ...change, sources: {} }));
+}
+
+function auditEventConditions(filters: AuditEventFilters) {
+  return and(
+    filters.userId !== undefined ? eq(auditEvents.userId, filters.userId) : undefined,
+    filters.organizationId !== undefined ? eq(auditEvents.organizationId, filters.organizationId) : undefined,
+    filters.action ? eq(auditEvents.action, filters.action) : undefined,
+    filters.resourceType ? eq(auditEvents.resourceType, filters.resourceType) : undefined,
+    filters.resourceId !== undefined ? eq(auditEvents.resourceId, filters.resourceId) : undefined,
+    filters.from ? gte(auditEvents.createdAt, filters.from) : undefined,
+    filters.to ? lte(auditEvents.createdAt, filters.to) : undefined,
+  );
+}
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -110,6 +255,16 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Counts a failed sign-in in the database so concurrent attempts can't both see the old count
+  async recordFailedLogin(userId: number): Promise<number> {
+    const [user] = await db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, userId))
+      .returning({ failedLoginAttempts: users.failedLoginAttempts });
+    return user?.failedLoginAttempts ?? 0;
+  }
+
   async updateUserRole(userId: number, role: string): Promise<User> {
     const [user] = await db
       .update(users)
@@ -119,6 +274,172 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async createOrganization(organization: InsertOrganization): Promise<Organization> {
+    const [newOrganization] = await db
+      .insert(organizations)
+      .values(organization)
+      .returning();
+    return newOrganization;
+  }
+
+  async updateOrganization(id: number, updates: Partial<Organization>): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async getOrganizationById(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async addOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [newMember] = await db
+      .insert(organizationMembers)
+      .values(member)
+      .returning();
+    return newMember;
+  }
+
+  async getOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      ));
+    return member || undefined;
+  }
+
+  async getOrganizationsForUser(userId: number): Promise<OrganizationMembership[]> {
+    return await db
+      .select({
+        id: organizations.id,
+        name: organizations.name,
+        role: organizationMembers.role,
+      })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizationMembers.createdAt));
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMemberDetails[]> {
+    return await db
+      .select({
+        userId: users.id,
+        name: users.name,
+        email: users.email,
+        role: organizationMembers.role,
+        joinedAt: organizationMembers.createdAt,
+        twoFactorEnabled: sql<boolean>`${users.totpEnabledAt} is not null`,
+      })
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(asc(organizationMembers.createdAt));
+  }
+
+  async createOrganizationInvite(invite: InsertOrganizationInvite): Promise<OrganizationInvite> {
+    const [newInvite] = await db
+      .insert(organizationInvites)
+      .values(invite)
+      .returning();
+    return newInvite;
+  }
+
+  async getOrganizationInvite(token: string): Promise<OrganizationInvite | undefined> {
+    const [invite] = await db
+      .select()
+      .from(organizationInvites)
+      .where(eq(organizationInvites.token, token));
+    return invite || undefined;
+  }
+
+  async getPendingOrganizationInvites(organizationId: number): Promise<OrganizationInvite[]> {
+    return await db
+      .select()
+      .from(organizationInvites)
+      .where(and(
+        eq(organizationInvites.organizationId, organizationId),
+        isNull(organizationInvites.acceptedAt),
+        gt(organizationInvites.expiresAt, new Date())
+      ))
+      .orderBy(desc(organizationInvites.createdAt));
+  }
+
+  async markOrganizationInviteAccepted(id: number): Promise<void> {
+    await db
+      .update(organizationInvites)
+      .set({ acceptedAt: new Date() })
+      .where(eq(organizationInvites.id, id));
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<OrganizationMember> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      ))
+      .returning();
+    return member;
+  }
+
+  async renameOrganizationRole(from: string, to: string): Promise<void> {
+    await db
+      .update(organizationMembers)
+      .set({ role: to })
+      .where(eq(organizationMembers.role, from));
+  }
+
+  async getUsersWithoutOrganization(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(notExists(
+        db.select().from(organizationMembers).where(eq(organizationMembers.userId, users.id))
+      ))
+      .orderBy(asc(users.createdAt));
+  }
+
+  // Moves a user's cases from before organizations into their home
+  async assignUserRecordsToOrganization(userId: number, organizationId: number): Promise<void> {
+    await db
+      .update(transcripts)
+      .set({ organizationId })
+      .where(and(eq(transcripts.userId, userId), isNull(transcripts.organizationId)));
+
+    await db
+      .update(arrangements)
+      .set({ organizationId })
+      .where(and(eq(arrangements.userId, userId), isNull(arrangements.organizationId)));
+  }
+
+  // Moves an organization's members and cases into another; returns the users moved
+  async mergeOrganizations(fromId: number, intoId: number): Promise<number[]> {
+    return await db.transaction(async (tx) => {
+      const members = await tx.select().from(organizationMembers).where(eq(organizationMembers.organizationId, fromId));
+      const existing = await tx.select().from(organizationMembers).where(eq(organizationMembers.organizationId, intoId));
+      const joining = members.filter((member) => !existing.some((current) => current.userId === member.userId));
+
+      if (joining.length > 0) {
+        await tx.insert(organizationMembers).values(joining.map((member) => ({ organizationId: intoId, userId: member.userId, role: 'arranger' })));
+      }
+      await tx.update(transcripts).set({ organizationId: intoId }).where(eq(transcripts.organizationId, fromId));
+      await tx.update(arrangements).set({ organizationId: intoId }).where(eq(arrangements.organizationId, fromId));
+      await tx.update(transcriptImports).set({ organizationId: intoId }).where(eq(transcriptImports.organizationId, fromId));
+      await tx.delete(organizationMembers).where(eq(organizationMembers.organizationId, fromId));
+
+      return members.map((member) => member.userId);
+    });
+  }
+
   async getTranscriptsByUserId(userId: number, limit?: number): Promise<Transcript[]> {
     const baseQuery = db
       .select()
@@ -126,52 +447,69 @@ export class DatabaseStorage implements IStorage {
       .where(eq(transcripts.userId, userId))
       .orderBy(desc(transcripts.uploadDate));
 
-    if (limit) {
-      return await baseQuery.limit(limit);
-    }
+    const rows = limit ? await baseQuery.limit(limit) : await baseQuery;
+    return rows.map(openTranscript);
+  }
 
-    return await baseQuery;
+  async getTranscriptsByOrganizationId(organizationId: number, limit?: number): Promise<Transcript[]> {
+    const baseQuery = db
+      .select()
+      .from(transcripts)
+      .where(eq(transcripts.organizationId, organizationId))
+      .orderBy(desc(transcripts.uploadDate));
+
+    const rows = limit ? await baseQuery.limit(limit) : await baseQuery;
+    return rows.map(openTranscript);
   }
 
-  async getTranscriptById(id: number, userId: number): Promise<Transcript | undefined> {
+  async getTranscriptById(id: number, organizationId: number): Promise<Transcript | undefined> {
     const [transcript] = await db
       .select()
       .from(transcripts)
-      .where(and(eq(transcripts.id, id), eq(transcripts.userId, userId)));
-    return transcript || undefined;
+      .where(and(eq(transcripts.id, id), eq(transcripts.organizationId, organizationId)));
+    return transcript ? openTranscript(transcript) : undefined;
+  }
+
+  // Not scoped to an organization; used to check who owns a transcript
+  async getTranscript(id: number): Promise<Transcript | undefined> {
+    const [transcript] = await db.select().from(transcripts).where(eq(transcripts.id, id));
+    return transcript ? openTranscript(transcript) : undefined;
   }
 
   async createTranscript(transcript: InsertTranscript): Promise<Transcript> {
     const [newTranscript] = await db
       .insert(transcripts)
-      .values(transcript)
+      .values(sealRow('transcripts', transcript))
       .returning();
-    return newTranscript;
+    return openTranscript(newTranscript);
   }
 
-  async deleteTranscript(id: number, userId: number): Promise<void> {
+  async getTranscriptIdByContentHash(organizationId: number, contentHash: string): Promise<number | undefined> {
+    const [transcript] = await db
+      .select({ id: transcripts.id })
+      .from(transcripts)
+      .where(and(eq(transcripts.organizationId, organizationId), eq(transcripts.contentHash, contentHash)))
+      .orderBy(asc(transcripts.id))
+      .limit(1);
+    return transcript?.id;
+  }
+
+  async deleteTranscript(id: number, organizationId: number): Promise<void> {
     await db
       .delete(transcripts)
-      .where(and(eq(transcripts.id, id), eq(transcripts.userId, userId)));
+      .where(and(eq(transcripts.id, id), eq(transcripts.organizationId, organizationId)));
   }
 
-  async searchTranscripts(userId: number, query: string): Promise<Transcript[]> {
-    return await db
-      .select()
-      .from(transcripts)
-      .where(
-        and(
-          eq(transcripts.userId, userId),
-          or(
-            ilike(transcripts.filename, `%${query}%`),
-            ilike(transcripts.content, `%${query}%`)
-          )
-        )
-      )
-      .orderBy(desc(transcripts.uploadDate));
+  // Transcript text is encrypted, so it is searched after decrypting the organization's transcripts
+  async searchTranscripts(organizationId: number, query: string): Promise<Transcript[]> {
+    const needle = query.toLowerCase();
+    const all = await this.getTranscriptsByOrganizationId(organizationId);
+    return all.filter((transcript) =>
+      transcript.filename.toLowerCase().includes(needle) || transcript.content.toLowerCase().includes(needle)
+    );
   }
 
-  async getTranscriptStats(userId: number): Promise<{
+  async getTranscriptStats(organizationId: number): Promise<{
     total: number;
     processed: number;
     pending: number;
@@ -182,7 +520,7 @@ export class DatabaseStorage implements IStorage {
     const userTranscripts = await db
       .select()
       .from(transcripts)
-      .where(eq(transcripts.userId, userId));
+      .where(eq(transcripts.organizationId, organizationId));
 
     const currentMonth = new Date();
     const startOfMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
@@ -239,9 +577,9 @@ export class DatabaseStorage implements IStorage {
   async createArrangement(arrangement: InsertArrangement): Promise<Arrangement> {
     const [newArrangement] = await db
       .insert(arrangements)
-      .values(arrangement)
+      .values(sealRow('arrangements', arrangement))
       .returning();
-    return newArrangement;
+    return openArrangement(newArrangement);
   }
 
   async createPasswordReset(passwordReset: InsertPasswordReset): Promise<PasswordReset> {
@@ -278,41 +616,533 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(arrangements)
       .where(eq(arrangements.id, id));
-    return arrangement || undefined;
+    return arrangement ? openArrangement(arrangement) : undefined;
   }
 
+  // Resolves both the transcript that opened a case and any follow-up added to it
   async getArrangementByTranscriptId(transcriptId: number): Promise<Arrangement | undefined> {
     const [arrangement] = await db
       .select()
       .from(arrangements)
       .where(eq(arrangements.transcriptId, transcriptId));
-    return arrangement || undefined;
+    if (arrangement) return openArrangement(arrangement);
+
+    const [followUp] = await db
+      .select({ arrangementId: transcripts.arrangementId })
+      .from(transcripts)
+      .where(eq(transcripts.id, transcriptId));
+    if (!followUp?.arrangementId) return undefined;
+
+    return this.getArrangementById(followUp.arrangementId);
+  }
+
+  async getArrangementsByOrganizationId(organizationId: number): Promise<Arrangement[]> {
+    const rows = await db
+      .select()
+      .from(arrangements)
+      .where(eq(arrangements.organizationId, organizationId))
+      .orderBy(desc(arrangements.createdAt));
+    return rows.map(openArrangement);
+  }
+
+  // Every conversation in a case, oldest first, starting with the one that opened it
+  async getTranscriptsByArrangementId(arrangementId: number): Promise<Transcript[]> {
+    const arrangement = await this.getArrangementById(arrangementId);
+    if (!arrangement) return [];
+
+    const rows = await db
+      .select()
+      .from(transcripts)
+      .where(or(
+        eq(transcripts.id, arrangement.transcriptId),
+        eq(transcripts.arrangementId, arrangementId)
+      ))
+      .orderBy(asc(transcripts.uploadDate));
+    return rows.map(openTranscript);
+  }
+
+  async createArrangementDelta(delta: InsertArrangementDelta): Promise<ArrangementDelta> {
+    const [newDelta] = await db
+      .insert(arrangementDeltas)
+      .values(sealRow('arrangementDeltas', delta))
+      .returning();
+    return openDelta(newDelta);
+  }
+
+  async getArrangementDeltaById(id: number): Promise<ArrangementDelta | undefined> {
+    const [delta] = await db
+      .select()
+      .from(arrangementDeltas)
+      .where(eq(arrangementDeltas.id, id));
+    return delta ? openDelta(delta) : undefined;
+  }
+
+  async getPendingDeltasByArrangementId(arrangementId: number): Promise<ArrangementDelta[]> {
+    const rows = await db
+      .select()
+      .from(arrangementDeltas)
+      .where(and(
+        eq(arrangementDeltas.arrangementId, arrangementId),
+        eq(arrangementDeltas.status, 'pending')
+      ))
+      .orderBy(asc(arrangementDeltas.createdAt));
+    return rows.map(openDelta);
+  }
+
+  async updateArrangementDelta(id: number, updates: Partial<ArrangementDelta>): Promise<ArrangementDelta> {
+    const [updatedDelta] = await db
+      .update(arrangementDeltas)
+      .set(sealRow('arrangementDeltas', updates))
+      .where(eq(arrangementDeltas.id, id))
+      .returning();
+    return openDelta(updatedDelta);
+  }
+
+  // Re-processing a follow-up replaces whatever it proposed last time
+  async supersedePendingDeltas(transcriptId: number): Promise<void> {
+    await db
+      .update(arrangementDeltas)
+      .set({ status: 'superseded', resolvedAt: new Date() })
+      .where(and(
+        eq(arrangementDeltas.transcriptId, transcriptId),
+        eq(arrangementDeltas.status, 'pending')
+      ));
+  }
+
+  async recordFieldChanges(changes: InsertArrangementFieldChange[]): Promise<ArrangementFieldChange[]> {
+    if (changes.length === 0) return [];
+    const rows = await db
+      .insert(arrangementFieldChanges)
+      .values(changes.map((change) => sealRow('arrangementFieldChanges', change)))
+      .returning();
+    return rows.map((row) => openRow('arrangementFieldChanges', row));
+  }
+
+  async getFieldHistory(arrangementId: number): Promise<FieldHistoryEntry[]> {
+    const rows = await db
+      .select({
+        id: arrangementFieldChanges.id,
+        arrangementId: arrangementFieldChanges.arrangementId,
+        path: arrangementFieldChanges.path,
+        oldValue: arrangementFieldChanges.oldValue,
+        newValue: arrangementFieldChanges.newValue,
+        source: arrangementFieldChanges.source,
+        userId: arrangementFieldChanges.userId,
+        transcriptId: arrangementFieldChanges.transcriptId,
+        revertOf: arrangementFieldChanges.revertOf,
+        createdAt: arrangementFieldChanges.createdAt,
+        userName: users.name,
+      })
+      .from(arrangementFieldChanges)
+      .leftJoin(users, eq(arrangementFieldChanges.userId, users.id))
+      .where(eq(arrangementFieldChanges.arrangementId, arrangementId))
+      .orderBy(desc(arrangementFieldChanges.createdAt), desc(arrangementFieldChanges.id));
+    return rows.map((row) => openRow('arrangementFieldChanges', row));
+  }
+
+  async getFieldChangeById(id: number): Promise<ArrangementFieldChange | undefined> {
+    const [change] = await db
+      .select()
+      .from(arrangementFieldChanges)
+      .where(eq(arrangementFieldChanges.id, id));
+    return change ? openRow('arrangementFieldChanges', change) : undefined;
+  }
+
+  async createSession(session: InsertUserSession): Promise<UserSession> {
+    const [newSession] = await db.insert(userSessions).values(session).returning();
+    return newSession;
+  }
+
+  async getSessionById(id: number): Promise<UserSession | undefined> {
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.id, id));
+    return session || undefined;
+  }
+
+  async getSessionByRefreshTokenHash(hash: string): Promise<UserSession | undefined> {
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.refreshTokenHash, hash));
+    return session || undefined;
+  }
+
+  async getSessionByPreviousRefreshTokenHash(hash: string): Promise<UserSession | undefined> {
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.previousRefreshTokenHash, hash));
+    return session || undefined;
+  }
+
+  async getActiveSessionsForUser(userId: number): Promise<UserSession[]> {
+    return await db
+      .select()
+      .from(userSessions)
+      .where(and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(userSessions.lastUsedAt));
+  }
+
+  async updateSession(id: number, updates: Partial<UserSession>): Promise<UserSession> {
+    const [updatedSession] = await db
+      .update(userSessions)
+      .set(updates)
+      .where(eq(userSessions.id, id))
+      .returning();
+    return updatedSession;
+  }
+
+  async revokeSessionsForUser(userId: number, exceptSessionId?: number): Promise<number> {
+    const revoked = await db
+      .update(userSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        exceptSessionId !== undefined ? ne(userSessions.id, exceptSessionId) : undefined
+      ))
+      .returning({ id: userSessions.id });
+    return revoked.length;
+  }
+
+  // Records a code's time step as used, failing if that step or a later one was already accepted
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const claimed = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+      ))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return Number(result?.count ?? 0);
+  }
+
+  async getRetentionRules(organizationId: number): Promise<RetentionRule[]> {
+    return await db
+      .select()
+      .from(retentionRules)
+      .where(eq(retentionRules.organizationId, organizationId))
+      .orderBy(asc(retentionRules.target));
+  }
+
+  async replaceRetentionRules(organizationId: number, rules: Array<{ target: RetentionTarget; retainDays: number }>): Promise<RetentionRule[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(retentionRules).where(eq(retentionRules.organizationId, organizationId));
+      if (rules.length > 0) {
+        await tx.insert(retentionRules).values(rules.map((rule) => ({ ...rule, organizationId })));
+      }
+    });
+    return this.getRetentionRules(organizationId);
+  }
+
+  async getOrganizationsWithRetentionRules(): Promise<Organization[]> {
+    return await db
+      .select()
+      .from(organizations)
+      .where(inArray(organizations.id, db.select({ id: retentionRules.organizationId }).from(retentionRules)))
+      .orderBy(asc(organizations.id));
+  }
+
+  async getArrangementsClosedBefore(organizationId: number, closedBefore: Date): Promise<Array<Pick<Arrangement, 'id' | 'transcriptId' | 'legalHold'>>> {
+    return await db
+      .select({ id: arrangements.id, transcriptId: arrangements.transcriptId, legalHold: arrangements.legalHold })
+      .from(arrangements)
+      .where(and(eq(arrangements.organizationId, organizationId), lt(arrangements.closedAt, closedBefore)));
+  }
+
+  // Empties every conversation in the case, along with the passages quoted from them in its
+  // sources, merge decisions and proposed changes. Returns the recordings still on disk, for the
+  // caller to delete
+  async purgeTranscriptsForArrangement(arrangement: Pick<Arrangement, 'id' | 'transcriptId'>): Promise<{ purged: number; audioPaths: string[] }> {
+    return await db.transaction(async (tx) => {
+      const inCase = and(
+        or(eq(transcripts.id, arrangement.transcriptId), eq(transcripts.arrangementId, arrangement.id)),
+        isNull(transcripts.purgedAt)
+      );
+      const recordings = await tx
+        .select({ audioPath: transcripts.audioPath })
+        .from(transcripts)
+        .where(and(inCase, isNotNull(transcripts.audioPath)));
+
+      const purged = await tx
+        .update(transcripts)
+        .set({ content: '', speakerTurns: null, speakerRoles: null, audioPath: null, purgedAt: new Date() })
+        .where(inCase)
+        .returning({ id: transcripts.id });
+
+      // Scrubbed on every run, not only when a transcript was emptied, so earlier purges are caught up
+      const [quoted] = await tx
+        .select({ fieldSources: arrangements.fieldSources, mergeDecisions: arrangements.mergeDecisions })
+        .from(arrangements)
+        .where(eq(arrangements.id, arrangement.id));
+      if (quoted) {
+        const { mergeDecisions } = openRow('arrangements', quoted);
+        const scrubbed = mergeDecisions && JSON.stringify(withoutPartValues(JSON.parse(mergeDecisions)));
+        if (quoted.fieldSources !== null || scrubbed !== mergeDecisions) {
+          await tx
+            .update(arrangements)
+            .set(sealRow('arrangements', { fieldSources: null, mergeDecisions: scrubbed }))
+            .where(eq(arrangements.id, arrangement.id));
+        }
+      }
+
+      const deltas = await tx
+        .select({ id: arrangementDeltas.id, changes: arrangementDeltas.changes })
+        .from(arrangementDeltas)
+        .where(eq(arrangementDeltas.arrangementId, arrangement.id));
+      for (const delta of deltas) {
+        const { changes } = openRow('arrangementDeltas', delta);
+        const scrubbed = JSON.stringify(withoutSources(JSON.parse(changes)));
+        if (scrubbed !== changes) {
+          await tx
+            .update(arrangementDeltas)
+            .set(sealRow('arrangementDeltas', { changes: scrubbed }))
+            .where(eq(arrangementDeltas.id, delta.id));
+        }
+      }
+      return { purged: purged.length, audioPaths: recordings.map((recording) => recording.audioPath!) };
+    });
+  }
+
+  // Recordings that never transcribed belong to no case, so they are kept from their upload date
+  async clearFailedRecordings(organizationId: number, uploadedBefore: Date): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const stale = and(
+        eq(transcripts.organizationId, organizationId),
+        eq(transcripts.status, 'transcription_failed'),
+        isNull(transcripts.arrangementId),
+        isNotNull(transcripts.audioPath),
+        lt(transcripts.uploadDate, uploadedBefore)
+      );
+      const recordings = await tx.select({ audioPath: transcripts.audioPath }).from(transcripts).where(stale);
+      await tx.update(transcripts).set({ audioPath: null }).where(stale);
+      return recordings.map((recording) => recording.audioPath!);
+    });
+  }
+
+  async deleteDocumentsByType(arrangementId: number, type: string): Promise<number> {
+    const deleted = await db
+      .delete(documents)
+      .where(and(eq(documents.arrangementId, arrangementId), eq(documents.type, type)))
+      .returning({ id: documents.id });
+    return deleted.length;
+  }
+
+  async createPurgeRun(trigger: string): Promise<RetentionPurgeRun> {
+    const [run] = await db.insert(retentionPurgeRuns).values({ trigger }).returning();
+    return run;
+  }
+
+  async updatePurgeRun(id: number, updates: Partial<RetentionPurgeRun>): Promise<RetentionPurgeRun> {
+    const [run] = await db
+      .update(retentionPurgeRuns)
+      .set(updates)
+      .where(eq(retentionPurgeRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getPurgeRuns(limit: number): Promise<RetentionPurgeRun[]> {
+    return await db
+      .select()
+      .from(retentionPurgeRuns)
+      .orderBy(desc(retentionPurgeRuns.startedAt))
+      .limit(limit);
+  }
+
+  async createTranscriptImport(transcriptImport: Pick<TranscriptImport, 'organizationId' | 'userId' | 'source' | 'name' | 'autoProcess'>): Promise<TranscriptImport> {
+    const [created] = await db.insert(transcriptImports).values(transcriptImport).returning();
+    return created;
+  }
+
+  async updateTranscriptImport(id: number, updates: Partial<TranscriptImport>): Promise<TranscriptImport> {
+    const [updated] = await db
+      .update(transcriptImports)
+      .set(updates)
+      .where(eq(transcriptImports.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getTranscriptImport(id: number): Promise<TranscriptImport | undefined> {
+    const [transcriptImport] = await db
+      .select()
+      .from(transcriptImports)
+      .where(eq(transcriptImports.id, id));
+    return transcriptImport;
+  }
+
+  async getTranscriptImports(organizationId: number, limit: number): Promise<TranscriptImport[]> {
+    return await db
+      .select()
+      .from(transcriptImports)
+      .where(eq(transcriptImports.organizationId, organizationId))
+      .orderBy(desc(transcriptImports.startedAt))
+      .limit(limit);
+  }
+
+  async recordAuditEvent(event: InsertAuditEvent): Promise<void> {
+    await db.insert(auditEvents).values(event);
+  }
+
+  async getAuditEvents(filters: AuditEventFilters, limit?: number, offset = 0): Promise<AuditEventEntry[]> {
+    const query = db
+      .select({
+        id: auditEvents.id,
+        userId: auditEvents.userId,
+        organizationId: auditEvents.organizationId,
+        action: auditEvents.action,
+        resourceType: auditEvents.resourceType,
+        resourceId: auditEvents.resourceId,
+        method: auditEvents.method,
+        route: auditEvents.route,
+        statusCode: auditEvents.statusCode,
+        ipAddress: auditEvents.ipAddress,
+        userAgent: auditEvents.userAgent,
+        createdAt: auditEvents.createdAt,
+        userName: users.name,
+        userEmail: users.email,
+        organizationName: organizations.name,
+      })
+      .from(auditEvents)
+      .leftJoin(users, eq(auditEvents.userId, users.id))
+      .leftJoin(organizations, eq(auditEvents.organizationId, organizations.id))
+      .where(auditEventConditions(filters))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .offset(offset);
+    return limit === undefined ? await query : await query.limit(limit);
+  }
+
+  async countAuditEvents(filters: AuditEventFilters): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(auditEvents)
+      .where(auditEventConditions(filters));
+    return result.total;
+  }
+
+  async getReviewQueue(organizationId: number): Promise<ReviewQueueItem[]> {
+    return await db
+      .select({
+        arrangementId: arrangements.id,
+        transcriptId: arrangements.transcriptId,
+        filename: transcripts.filename,
+        deceasedName: arrangements.deceasedName,
+        pendingReviewCount: arrangements.pendingReviewCount,
+        updatedAt: arrangements.updatedAt,
+      })
+      .from(arrangements)
+      .innerJoin(transcripts, eq(arrangements.transcriptId, transcripts.id))
+      .where(and(
+        eq(arrangements.organizationId, organizationId),
+        gt(arrangements.pendingReviewCount, 0),
+        ne(arrangements.approvalStatus, 'approved')
+      ))
+      .orderBy(desc(arrangements.pendingReviewCount), desc(arrangements.updatedAt));
   }
 
   async updateArrangement(id: number, updates: Partial<Arrangement>): Promise<Arrangement> {
     const [updatedArrangement] = await db
       .update(arrangements)
-      .set(updates)
+      .set({ ...sealRow('arrangements', updates), updatedAt: new Date() })
       .where(eq(arrangements.id, id))
       .returning();
-    return updatedArrangement;
+    return openArrangement(updatedArrangement);
   }
 
-  async updateTranscriptStatus(id: number, status: string): Promise<void> {
+  async updateTranscriptStatus(id: number, status: string, processingError?: string | null): Promise<void> {
     await db
       .update(transcripts)
-      .set({ status })
+      .set(processingError === undefined ? { status } : { status, processingError })
       .where(eq(transcripts.id, id));
   }
 
+  async updateTranscript(id: number, updates: Partial<Transcript>): Promise<Transcript> {
+    const [transcript] = await db
+      .update(transcripts)
+      .set(sealRow('transcripts', updates))
+      .where(eq(transcripts.id, id))
+      .returning();
+    return openTranscript(transcript);
+  }
+
+  async getNextTranscriptToTranscribe(): Promise<Transcript | undefined> {
+    const [transcript] = await db
+      .select()
+      .from(transcripts)
+      .where(eq(transcripts.status, 'transcribing'))
+      .orderBy(asc(transcripts.uploadDate))
+      .limit(1);
+    return transcript ? openTranscript(transcript) : undefined;
+  }
+
   // Document operations
   async createDocument(document: InsertDocument): Promise<Document> {
-    const [newDocument] = await db.insert(documents).values(document).returning();
-    return newDocument;
+    const [newDocument] = await db.insert(documents).values(sealRow('documents', document)).returning();
+    return openDocument(newDocument);
+  }
+
+  /**
+   * Stores a newly generated document in place of the case's previous one of the same type,
+   * keeping its id and counting up its version. Copies left over from before are removed.
+   */
+  async replaceDocument(document: InsertDocument): Promise<Document> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ id: documents.id, version: documents.version })
+        .from(documents)
+        .where(and(eq(documents.arrangementId, document.arrangementId), eq(documents.type, document.type)))
+        .orderBy(desc(documents.updatedAt), desc(documents.id))
+        .for('update');
+
+      if (existing.length === 0) {
+        const [created] = await tx.insert(documents).values(sealRow('documents', document)).returning();
+        return openDocument(created);
+      }
+
+      const [latest, ...older] = existing;
+      if (older.length > 0) {
+        await tx.delete(documents).where(inArray(documents.id, older.map(row => row.id)));
+      }
+      const [replaced] = await tx
+        .update(documents)
+        .set({ ...sealRow('documents', document), version: latest.version + 1, updatedAt: new Date() })
+        .where(eq(documents.id, latest.id))
+        .returning();
+      return openDocument(replaced);
+    });
   }
 
   async getDocumentsByArrangementId(arrangementId: number): Promise<Document[]> {
-    return await db
+    const rows = await db
       .select({
         id: documents.id,
         arrangementId: documents.arrangementId,
@@ -328,12 +1158,13 @@ export class DatabaseStorage implements IStorage {
       .from(documents)
       .where(eq(documents.arrangementId, arrangementId))
       .orderBy(desc(documents.createdAt));
+    return rows.map(openDocument);
   }
 
   async updateDocument(id: number, updates: Partial<Document>): Promise<Document> {
     const [updatedDocument] = await db
       .update(documents)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...sealRow('documents', updates), updatedAt: new Date() })
       .where(eq(documents.id, id))
       .returning();
 
@@ -341,7 +1172,7 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Document not found');
     }
 
-    return updatedDocument;
+    return openDocument(updatedDocument);
   }
 
   async deleteDocument(id: number): Promise<void> {
@@ -364,7 +1195,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(documents)
       .where(eq(documents.id, id));
-    return document;
+    return document ? openDocument(document) : undefined;
   }
 
   // Task operations
@@ -377,6 +1208,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(funeralTasks).where(eq(funeralTasks.arrangementId, arrangementId)).orderBy(desc(funeralTasks.createdAt));
   }
 
+  async getTaskById(id: number): Promise<FuneralTask | undefined> {
+    const [task] = await db.select().from(funeralTasks).where(eq(funeralTasks.id, id));
+    return task || undefined;
+  }
+
   async updateTask(id: number, updates: Partial<FuneralTask>): Promise<FuneralTask> {
     const [updatedTask] = await db.update(funeralTasks)
       .set(updates)
@@ -385,6 +1221,111 @@ export class DatabaseStorage implements IStorage {
     return updatedTask;
   }
 
+  // Job queue operations
+  // Undefined when the case already has a job queued or running
+  async createJob(job: InsertJob, documentTypes: string[]): Promise<JobWithDocuments | undefined> {
+    return await db.transaction(async (tx) => {
+      // Held until commit, so two requests for the same case can't both find it idle
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('jobs'), ${job.arrangementId})`);
+      const [active] = await tx
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.arrangementId, job.arrangementId), inArray(jobs.status, ['queued', 'running'])))
+        .limit(1);
+      if (active) return undefined;
+
+      const [newJob] = await tx.insert(jobs).values(job).returning();
+      const steps = await tx
+        .insert(jobDocuments)
+        .values(documentTypes.map(documentType => ({ jobId: newJob.id, documentType })))
+        .returning();
+      return { ...newJob, documents: steps };
+    });
+  }
+
+  async getJobById(id: number): Promise<JobWithDocuments | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    if (!job) return undefined;
+
+    const steps = await db
+      .select()
+      .from(jobDocuments)
+      .where(eq(jobDocuments.jobId, id))
+      .orderBy(asc(jobDocuments.id));
+    return { ...job, documents: steps };
+  }
+
+  async getLatestJobByArrangementId(arrangementId: number): Promise<JobWithDocuments | undefined> {
+    const [job] = await db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.arrangementId, arrangementId))
+      .orderBy(desc(jobs.createdAt))
+      .limit(1);
+    if (!job) return undefined;
+
+    return await this.getJobById(job.id);
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without double-claiming a job
+    const now = new Date();
+    const [job] = await db
+      .update(jobs)
+      .set({
+        status: 'running',
+        lockedAt: now,
+        attempts: sql`${jobs.attempts} + 1`,
+        updatedAt: now,
+      })
+      .where(eq(jobs.id, sql`(
+        select ${jobs.id} from ${jobs}
+        where ${jobs.status} = 'queued' and ${jobs.runAt} <= now()
+        order by ${jobs.runAt}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job || undefined;
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job> {
+    const [updatedJob] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+
+    if (!updatedJob) {
+      throw new Error('Job not found');
+    }
+
+    return updatedJob;
+  }
+
+  async updateJobDocument(id: number, updates: Partial<JobDocument>): Promise<JobDocument> {
+    const [updatedStep] = await db
+      .update(jobDocuments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobDocuments.id, id))
+      .returning();
+
+    if (!updatedStep) {
+      throw new Error('Job document not found');
+    }
+
+    return updatedStep;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(jobs)
+      .set({ status: 'queued', lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
   // Usage analytics operations
   async trackUsageMetric(userId: number, metricType: 'transcript_processed' | 'document_generated'): Promise<void> {
     const user = await this.getUser(userId);
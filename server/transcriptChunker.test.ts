@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TranscriptChunker } from "./transcriptChunker";
+
+function conversation(turns: number): string {
+  return Array.from({ length: turns }, (_, i) =>
+    `${i % 2 === 0 ? 'Director' : 'Mrs. Hale'}: This is statement number ${i} about the service.\n`
+  ).join('');
+}
+
+describe("TranscriptChunker.split", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("leaves a short transcript whole", () => {
+    expect(TranscriptChunker.split("Director: Hello.\n", 100)).toEqual(["Director: Hello.\n"]);
+  });
+
+  it("gives back the original text when the parts are joined", () => {
+    const text = conversation(40);
+    const chunks = TranscriptChunker.split(text, 300);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(text);
+  });
+
+  it("keeps every part within the limit", () => {
+    for (const chunk of TranscriptChunker.split(conversation(40), 300)) {
+      expect(chunk.length).toBeLessThanOrEqual(300);
+    }
+  });
+
+  it("breaks only between speaker turns", () => {
+    for (const chunk of TranscriptChunker.split(conversation(40), 300)) {
+      expect(chunk).toMatch(/^(Director|Mrs\. Hale): /);
+      expect(chunk.endsWith('\n')).toBe(true);
+    }
+  });
+
+  it("breaks between paragraphs when there are no speaker labels", () => {
+    const paragraphs = Array.from({ length: 10 }, (_, i) => `Paragraph ${i} of the family's story goes here.\n\n`).join('');
+    const chunks = TranscriptChunker.split(paragraphs, 120);
+
+    expect(chunks.join('')).toBe(paragraphs);
+    for (const chunk of chunks) expect(chunk).toMatch(/^Paragraph \d/);
+  });
+
+  it("breaks a monologue longer than a part at the end of a sentence", () => {
+    const monologue = "Mrs. Hale: " + Array.from({ length: 20 }, (_, i) => `Sentence ${i} is here.`).join(' ') + "\n";
+    const chunks = TranscriptChunker.split(monologue, 100);
+
+    expect(chunks.join('')).toBe(monologue);
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.length).toBeLessThanOrEqual(100);
+      expect(chunk.trimEnd().endsWith('.')).toBe(true);
+    }
+  });
+
+  it("reads the part size from EXTRACTION_CHUNK_CHARS", () => {
+    vi.stubEnv('EXTRACTION_CHUNK_CHARS', '5000');
+    expect(TranscriptChunker.getChunkSize()).toBe(5000);
+
+    vi.stubEnv('EXTRACTION_CHUNK_CHARS', 'lots');
+    expect(TranscriptChunker.getChunkSize()).toBe(24000);
+  });
+});
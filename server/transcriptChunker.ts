@@ -0,0 +1,89 @@
+// Roughly 6k tokens of transcript per request, leaving room for the prompt and a full reply
+const DEFAULT_CHUNK_CHARS = 24000;
+
+// "Director:", "MRS. SMITH:", "[00:12:01] John:" at the start of a line
+const SPEAKER_TURN = /^\s*(\[[\d:.]+\]\s*)?[A-Z][\w .'’-]{0,40}:\s/;
+
+export class TranscriptChunker {
+  static getChunkSize(): number {
+    const configured = parseInt(process.env.EXTRACTION_CHUNK_CHARS || '', 10);
+    return configured > 0 ? configured : DEFAULT_CHUNK_CHARS;
+  }
+
+  /**
+   * Splits a transcript into parts no longer than `maxChars`, breaking between speaker
+   * turns so no statement is cut in half. Joining the parts gives back the original text.
+   */
+  static split(text: string, maxChars: number = this.getChunkSize()): string[] {
+    if (text.length <= maxChars) {
+      return [text];
+    }
+
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const turn of this.splitTurns(text)) {
+      const pieces = turn.length > maxChars ? this.splitLongTurn(turn, maxChars) : [turn];
+
+      for (const piece of pieces) {
+        if (current && current.length + piece.length > maxChars) {
+          chunks.push(current);
+          current = '';
+        }
+        current += piece;
+      }
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+
+  private static splitTurns(text: string): string[] {
+    const lines = text.match(/[^\n]*\n|[^\n]+$/g) || [];
+    const hasSpeakers = lines.some(line => SPEAKER_TURN.test(line));
+
+    // Without speaker labels, paragraphs are the next best boundary
+    const startsTurn = hasSpeakers
+      ? (line: string) => SPEAKER_TURN.test(line)
+      : (line: string, previous: string | undefined) => previous !== undefined && previous.trim() === '' && line.trim() !== '';
+
+    const turns: string[] = [];
+    lines.forEach((line, index) => {
+      if (turns.length === 0 || startsTurn(line, lines[index - 1])) {
+        turns.push(line);
+      } else {
+        turns[turns.length - 1] += line;
+      }
+    });
+
+    return turns;
+  }
+
+  // A single monologue longer than a chunk is broken at the last sentence end that fits
+  private static splitLongTurn(turn: string, maxChars: number): string[] {
+    const pieces: string[] = [];
+    let remaining = turn;
+
+    while (remaining.length > maxChars) {
+      const window = remaining.slice(0, maxChars);
+      const breakAt = Math.max(
+        window.lastIndexOf('\n'),
+        window.lastIndexOf('. '),
+        window.lastIndexOf('? '),
+        window.lastIndexOf('! '),
+      );
+      const cut = breakAt > maxChars / 2 ? breakAt + 1 : maxChars;
+      pieces.push(remaining.slice(0, cut));
+      remaining = remaining.slice(cut);
+    }
+
+    if (remaining) {
+      pieces.push(remaining);
+    }
+
+    return pieces;
+  }
+}
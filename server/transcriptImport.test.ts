@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { TranscriptImportError, TranscriptImportService } from "./transcriptImport";
+
+const extract = (text: string, filename: string) => TranscriptImportService.extract(Buffer.from(text, 'utf-8'), filename);
+
+describe("TranscriptImportService.extract", () => {
+  describe("text", () => {
+    it("picks out speaker turns from labelled paragraphs", async () => {
+      const imported = await extract("﻿Director: How can we help?\r\n\r\nMrs. Hale: My mother passed on Tuesday.\n", "call.txt");
+
+      expect(imported.content).toBe("Director: How can we help?\n\nMrs. Hale: My mother passed on Tuesday.");
+      expect(imported.speakerTurns).toEqual([
+        { speaker: 'Director', start: null, end: null, text: 'How can we help?' },
+        { speaker: 'Mrs. Hale', start: null, end: null, text: 'My mother passed on Tuesday.' },
+      ]);
+    });
+
+    it("mends a sentence that a page break split in two", async () => {
+      const imported = await extract("Director: We can hold the service\n\non Friday at noon.", "call.txt");
+
+      expect(imported.content).toBe("Director: We can hold the service on Friday at noon.");
+    });
+
+    it("has no turns when the paragraphs aren't mostly labelled", async () => {
+      const imported = await extract("Notes from the meeting.\n\nFamily wants a burial.\n\nDirector: noted.", "notes.txt");
+
+      expect(imported.speakerTurns).toBeNull();
+    });
+
+    it("refuses a file with no text", async () => {
+      await expect(extract(" \n\n ", "empty.txt")).rejects.toThrow("No text was found in empty.txt");
+    });
+  });
+
+  it("reads the text of an RTF document and skips its font table", async () => {
+    const rtf = "{\\rtf1\\ansi{\\fonttbl{\\f0 Times;}}\\f0 Director: Caf\\'e9 after the service?\\par Mrs. Hale: Yes \\u8212? please.\\par}";
+    const imported = await extract(rtf, "call.rtf");
+
+    expect(imported.content).toBe("Director: Café after the service?\n\nMrs. Hale: Yes — please.");
+    expect(imported.speakerTurns?.map((turn) => turn.speaker)).toEqual(['Director', 'Mrs. Hale']);
+  });
+
+  it("refuses an RTF file that isn't one", async () => {
+    await expect(extract("plain text", "call.rtf")).rejects.toThrow(TranscriptImportError);
+  });
+
+  describe("captions", () => {
+    it("reads WebVTT voices and timings, joining a speaker's consecutive cues", async () => {
+      const vtt = [
+        "WEBVTT",
+        "",
+        "NOTE exported from the recorder",
+        "",
+        "00:00:01.000 --> 00:00:03.500",
+        "<v Director>How can we help?</v>",
+        "",
+        "00:00:04.000 --> 00:00:06.000",
+        "<v Mrs. Hale>My mother passed</v>",
+        "",
+        "00:00:06.000 --> 00:01:02.250",
+        "<v Mrs. Hale>on Tuesday &amp; we&#39;d like a burial.</v>",
+      ].join("\n");
+      const imported = await extract(vtt, "call.vtt");
+
+      expect(imported.content).toBe(vtt);
+      expect(imported.speakerTurns).toEqual([
+        { speaker: 'Director', start: 1, end: 3.5, text: 'How can we help?' },
+        { speaker: 'Mrs. Hale', start: 4, end: 62.25, text: "My mother passed on Tuesday & we'd like a burial." },
+      ]);
+    });
+
+    it("reads SRT cues with the speaker named in the text", async () => {
+      const srt = "1\n00:00:01,000 --> 00:00:02,500\nDirector: Hello.\n\n2\n00:00:03,000 --> 00:00:04,000\nMrs. Hale: Hello.\n";
+
+      expect((await extract(srt, "call.srt")).speakerTurns).toEqual([
+        { speaker: 'Director', start: 1, end: 2.5, text: 'Hello.' },
+        { speaker: 'Mrs. Hale', start: 3, end: 4, text: 'Hello.' },
+      ]);
+    });
+
+    it("refuses a caption file without cues", async () => {
+      await expect(extract("WEBVTT\n\n", "call.vtt")).rejects.toThrow("No captions or utterances were found in call.vtt");
+    });
+  });
+
+  describe("meeting exports", () => {
+    it("reads a Zoom style list of utterances", async () => {
+      const zoom = JSON.stringify({ timeline: [
+        { ts: "00:00:01.000", end_ts: "00:00:02.000", text: "How can we help?", users: [{ username: "Director" }] },
+        { ts: "00:00:03.000", end_ts: "00:00:05.000", text: "It's about my mother.", users: [{ username: "Ann Hale" }] },
+      ] });
+
+      expect((await extract(zoom, "meeting.json")).speakerTurns).toEqual([
+        { speaker: 'Director', start: 1, end: 2, text: 'How can we help?' },
+        { speaker: 'Ann Hale', start: 3, end: 5, text: "It's about my mother." },
+      ]);
+    });
+
+    it("reads a Teams style export with ISO 8601 offsets and numbered speakers", async () => {
+      const teams = JSON.stringify({ entries: [
+        { startOffset: "PT1M2.5S", endOffset: "PT1M4S", text: "Hello.", speaker: 2 },
+      ] });
+
+      expect((await extract(teams, "meeting.json")).speakerTurns).toEqual([
+        { speaker: 'Speaker 2', start: 62.5, end: 64, text: 'Hello.' },
+      ]);
+    });
+
+    it("refuses JSON it doesn't recognise", async () => {
+      await expect(extract('{"title":"Minutes"}', "meeting.json")).rejects.toThrow("isn't a transcript export we recognise");
+      await expect(extract('{"entries":', "meeting.json")).rejects.toThrow("couldn't be read");
+    });
+  });
+
+  it("refuses a damaged PDF or Word document", async () => {
+    await expect(extract("not a pdf", "call.pdf")).rejects.toThrow("This PDF couldn't be read");
+    await expect(extract("not a docx", "call.docx")).rejects.toThrow("This Word document couldn't be read");
+  });
+
+  it("refuses file types it can't import", async () => {
+    await expect(extract("", "call.doc")).rejects.toThrow("Save the file as .docx");
+    await expect(extract("", "call.mp3")).rejects.toThrow(".mp3 can't be imported");
+    await expect(extract("", "call")).rejects.toThrow("Files without an extension can't be imported");
+  });
+});
+
+describe("TranscriptImportService.fromText", () => {
+  it("keeps pasted text as it is", () => {
+    const pasted = "Director: Hello.\n\nMrs. Hale:   Hello.";
+
+    expect(TranscriptImportService.fromText(pasted)).toEqual({
+      content: pasted,
+      speakerTurns: [
+        { speaker: 'Director', start: null, end: null, text: 'Hello.' },
+        { speaker: 'Mrs. Hale', start: null, end: null, text: 'Hello.' },
+      ],
+    });
+  });
+});
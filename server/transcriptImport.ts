@@ -0,0 +1,395 @@
+import path from "path";
+import mammoth from "mammoth";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { TRANSCRIPT_FILE_EXTENSIONS } from "@shared/schema";
+import type { SpeakerTurn } from "@shared/speakerTurns";
+
+export interface ImportedTranscript {
+  content: string;
+  speakerTurns: SpeakerTurn[] | null;
+}
+
+// Raised when an uploaded file can't be turned into transcript text; the message is shown to the uploader
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+// "Director:", "MRS. SMITH:" or "[Speaker 2]:" at the start of a paragraph opens a new turn
+const SPEAKER_LABEL = /^(\[[^\]\n]{1,40}\]|[A-Z][\w.'\- ]{0,40}?)\s*:\s/;
+// A paragraph ending in one of these is complete; anything else may have been split by a page break
+const SENTENCE_END = /[.?!:;"')\]]$/;
+const CUE_TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+// Where meeting exports keep their list of utterances
+const JSON_ENTRY_LISTS = ['entries', 'transcript', 'segments', 'timeline', 'utterances', 'results'];
+
+/**
+ * Turns uploaded transcript files into the text extraction works from. Documents (text, PDF,
+ * Word, RTF) become one paragraph per speaker turn; PDFs are read from their text layer, so
+ * scanned pages without one are refused rather than imported empty. Captions (WebVTT, SRT) and
+ * meeting exports (Zoom, Teams JSON) are kept as uploaded, with their speaker turns parsed
+ * alongside.
+ */
+export class TranscriptImportService {
+  static async extract(file: Buffer, filename: string): Promise<ImportedTranscript> {
+    const extension = path.extname(filename).toLowerCase();
+
+    let paragraphs: string[];
+    switch (extension) {
+      case '.txt':
+        paragraphs = this.splitParagraphs(this.decode(file));
+        break;
+      case '.pdf':
+        paragraphs = await this.readPdf(file);
+        break;
+      case '.docx':
+        paragraphs = await this.readDocx(file);
+        break;
+      case '.rtf':
+        paragraphs = this.splitParagraphs(this.rtfToText(file.toString('latin1')));
+        break;
+      case '.vtt':
+      case '.srt':
+        return this.fromTurns(this.decode(file), this.parseCaptions(this.decode(file)), filename);
+      case '.json':
+        return this.fromTurns(this.decode(file), this.parseMeetingJson(this.decode(file)), filename);
+      case '.doc':
+        throw new TranscriptImportError("Older Word .doc files aren't supported. Save the file as .docx and upload it again.");
+      default:
+        throw new TranscriptImportError(`${extension || 'Files without an extension'} can't be imported. Upload one of: ${TRANSCRIPT_FILE_EXTENSIONS.join(', ')}.`);
+    }
+
+    const imported = this.fromParagraphs(paragraphs);
+    if (!imported.content) {
+      throw new TranscriptImportError(`No text was found in ${filename}`);
+    }
+    return imported;
+  }
+
+  // Pasted text is kept as it is, with turns picked out when paragraphs are labelled with speakers
+  static fromText(content: string): ImportedTranscript {
+    return { content, speakerTurns: this.labelledTurns(this.joinParagraphs(this.splitParagraphs(content))) };
+  }
+
+  private static fromParagraphs(paragraphs: string[]): ImportedTranscript {
+    const joined = this.joinParagraphs(paragraphs);
+    return { content: joined.join('\n\n'), speakerTurns: this.labelledTurns(joined) };
+  }
+
+  private static fromTurns(content: string, turns: SpeakerTurn[], filename: string): ImportedTranscript {
+    if (turns.length === 0) {
+      throw new TranscriptImportError(`No captions or utterances were found in ${filename}`);
+    }
+    return { content, speakerTurns: turns };
+  }
+
+  // Mends sentences that a page break split in two and drops empty paragraphs
+  private static joinParagraphs(paragraphs: string[]): string[] {
+    const joined: string[] = [];
+    for (const raw of paragraphs) {
+      const paragraph = raw.replace(/[ \t\u00a0]+/g, ' ').trim();
+      if (!paragraph) continue;
+
+      const previous = joined[joined.length - 1];
+      if (previous && !SPEAKER_LABEL.test(paragraph) && !SENTENCE_END.test(previous) && /^[a-z]/.test(paragraph)) {
+        joined[joined.length - 1] = `${previous} ${paragraph}`;
+      } else {
+        joined.push(paragraph);
+      }
+    }
+    return joined;
+  }
+
+  // Only documents that are mostly labelled are treated as a conversation; an unlabelled paragraph continues the last turn
+  private static labelledTurns(paragraphs: string[]): SpeakerTurn[] | null {
+    const labelled = paragraphs.filter((paragraph) => SPEAKER_LABEL.test(paragraph)).length;
+    if (labelled < 2 || labelled < paragraphs.length / 2) return null;
+
+    const turns: SpeakerTurn[] = [];
+    for (const paragraph of paragraphs) {
+      const { speaker, text } = this.splitSpeaker(paragraph);
+      const previous = turns[turns.length - 1];
+      if (!speaker && previous) {
+        previous.text += `\n\n${text}`;
+      } else {
+        turns.push({ speaker, start: null, end: null, text });
+      }
+    }
+    return turns;
+  }
+
+  private static splitSpeaker(text: string): { speaker: string | null; text: string } {
+    const match = SPEAKER_LABEL.exec(text);
+    if (!match) return { speaker: null, text };
+    return { speaker: match[1].replace(/^\[|\]$/g, '').trim(), text: text.slice(match[0].length).trim() };
+  }
+
+  private static decode(file: Buffer): string {
+    return file.toString('utf-8').replace(/^\uFEFF/, '');
+  }
+
+  private static splitParagraphs(text: string): string[] {
+    return text.replace(/\r\n?/g, '\n').split(/\n\s*\n/).map((paragraph) => paragraph.replace(/\n/g, ' '));
+  }
+
+  private static async readPdf(file: Buffer): Promise<string[]> {
+    let pdf;
+    try {
+      pdf = await getDocument({ data: new Uint8Array(file), isEvalSupported: false, useSystemFonts: true, verbosity: 0 }).promise;
+    } catch (error: any) {
+      if (error?.name === 'PasswordException') {
+        throw new TranscriptImportError("This PDF is password protected. Remove the password and upload it again.");
+      }
+      throw new TranscriptImportError("This PDF couldn't be read. It may be damaged or not a PDF.");
+    }
+
+    try {
+      const paragraphs: string[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        paragraphs.push(...this.pdfPageParagraphs(content.items.filter((item): item is TextItem => 'str' in item)));
+        page.cleanup();
+      }
+
+      if (!paragraphs.some((paragraph) => paragraph.trim())) {
+        throw new TranscriptImportError("This PDF has no text layer, so it's probably a scanned image. Run it through OCR or upload the original document.");
+      }
+      return paragraphs;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  // Lines further apart than usual, or starting with a speaker's name, begin a new paragraph
+  private static pdfPageParagraphs(items: TextItem[]): string[] {
+    const lines: Array<{ text: string; y: number }> = [];
+    let current = '';
+    let y = 0;
+
+    for (const item of items) {
+      // Not every producer marks line ends, so a change of baseline also ends the line
+      if (current && Math.abs(item.transform[5] - y) > (item.height || 1) / 2) {
+        lines.push({ text: current, y });
+        current = '';
+      }
+      if (!current) y = item.transform[5];
+      current += item.str;
+      if (item.hasEOL) {
+        lines.push({ text: current, y });
+        current = '';
+      }
+    }
+    if (current.trim()) lines.push({ text: current, y });
+
+    const gaps = lines.slice(1).map((line, index) => Math.abs(lines[index].y - line.y)).filter((gap) => gap > 0);
+    const lineSpacing = gaps.sort((a, b) => a - b)[Math.floor(gaps.length / 2)] ?? 0;
+
+    const paragraphs: string[] = [];
+    lines.forEach((line, index) => {
+      const text = line.text.trim();
+      const gap = index > 0 ? Math.abs(lines[index - 1].y - line.y) : 0;
+      const startsParagraph = index === 0 || !text || gap > lineSpacing * 1.4 || SPEAKER_LABEL.test(text);
+
+      if (startsParagraph || paragraphs.length === 0) {
+        paragraphs.push(text);
+      } else {
+        const previous = paragraphs[paragraphs.length - 1];
+        // A word hyphenated across lines is joined back together
+        paragraphs[paragraphs.length - 1] = /\w-$/.test(previous) && /^[a-z]/.test(text)
+          ? previous.slice(0, -1) + text
+          : `${previous} ${text}`;
+      }
+    });
+    return paragraphs;
+  }
+
+  private static async readDocx(file: Buffer): Promise<string[]> {
+    try {
+      const { value } = await mammoth.extractRawText({ buffer: file });
+      return value.split(/\n+/);
+    } catch {
+      throw new TranscriptImportError("This Word document couldn't be read. It may be damaged or not a .docx file.");
+    }
+  }
+
+  // WebVTT and SRT cues; consecutive cues from the same speaker become one turn
+  private static parseCaptions(text: string): SpeakerTurn[] {
+    const turns: SpeakerTurn[] = [];
+
+    for (const block of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+      const lines = block.split('\n');
+      const timingLine = lines.findIndex((line) => CUE_TIMING.test(line));
+      // Headers, NOTE, STYLE and REGION blocks have no timing
+      if (timingLine === -1) continue;
+
+      const [, start, end] = CUE_TIMING.exec(lines[timingLine])!;
+      const raw = lines.slice(timingLine + 1).join(' ');
+      const voice = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(raw);
+      const cueText = decodeEntities(raw.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+      if (!cueText) continue;
+
+      const labelled = voice ? { speaker: voice[1].trim(), text: cueText } : this.splitSpeaker(cueText);
+      this.addTurn(turns, {
+        speaker: labelled.speaker,
+        start: parseTimestamp(start),
+        end: parseTimestamp(end),
+        text: labelled.text,
+      });
+    }
+    return turns;
+  }
+
+  private static parseMeetingJson(text: string): SpeakerTurn[] {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new TranscriptImportError("This JSON file couldn't be read. It may be damaged or not a meeting transcript.");
+    }
+
+    const entries = Array.isArray(data)
+      ? data
+      : JSON_ENTRY_LISTS.map((key) => data?.[key]).find(Array.isArray);
+    if (!entries) {
+      throw new TranscriptImportError("This JSON file isn't a transcript export we recognise. Export the meeting transcript from Zoom or Teams, or upload its .vtt captions.");
+    }
+
+    const turns: SpeakerTurn[] = [];
+    for (const entry of entries) {
+      if (!entry || typeof entry !== 'object') continue;
+      const entryText = String(entry.text ?? entry.content ?? entry.transcript ?? '').replace(/\s+/g, ' ').trim();
+      if (!entryText) continue;
+
+      const speaker = entry.speakerDisplayName ?? entry.speaker_name ?? entry.speakerName ?? entry.speaker
+        ?? entry.username ?? entry.users?.[0]?.username ?? entry.user?.name ?? entry.name ?? null;
+      this.addTurn(turns, {
+        speaker: typeof speaker === 'number' ? `Speaker ${speaker}` : typeof speaker === 'string' && speaker.trim() ? speaker.trim() : null,
+        start: entry.startMs !== undefined ? Number(entry.startMs) / 1000 : parseTimestamp(entry.start ?? entry.startTime ?? entry.start_time ?? entry.startOffset ?? entry.ts ?? entry.offset),
+        end: entry.endMs !== undefined ? Number(entry.endMs) / 1000 : parseTimestamp(entry.end ?? entry.endTime ?? entry.end_time ?? entry.endOffset ?? entry.end_ts),
+        text: entryText,
+      });
+    }
+    return turns;
+  }
+
+  // An unlabelled cue continues the turn before it, as captions usually only name a new speaker
+  private static addTurn(turns: SpeakerTurn[], turn: SpeakerTurn) {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker && (turn.speaker === previous.speaker || !turn.speaker)) {
+      previous.text += ` ${turn.text}`;
+      previous.end = turn.end ?? previous.end;
+    } else {
+      turns.push(turn);
+    }
+  }
+
+  private static rtfToText(rtf: string): string {
+    if (!rtf.startsWith('{\\rtf')) {
+      throw new TranscriptImportError("This RTF file couldn't be read. It may be damaged or not an RTF file.");
+    }
+
+    // Groups holding fonts, styles, pictures and the like rather than document text
+    const skippedDestinations = new Set([
+      'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+      'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'listtable', 'listoverridetable', 'rsidtbl',
+      'generator', 'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+    ]);
+
+    const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+    let state = { skip: false, unicodeSkip: 1 };
+    let pendingSkip = 0;
+    let text = '';
+
+    const emit = (value: string) => {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+        return;
+      }
+      if (!state.skip) text += value;
+    };
+
+    for (let i = 0; i < rtf.length; i++) {
+      const char = rtf[i];
+
+      if (char === '{') {
+        stack.push(state);
+        state = { ...state };
+      } else if (char === '}') {
+        state = stack.pop() ?? state;
+      } else if (char === '\\') {
+        const next = rtf[i + 1];
+        if (next === '\\' || next === '{' || next === '}') {
+          emit(next);
+          i++;
+        } else if (next === '*') {
+          state.skip = true;
+          i++;
+        } else if (next === "'") {
+          emit(Buffer.from([parseInt(rtf.substr(i + 2, 2), 16)]).toString('latin1'));
+          i += 3;
+        } else if (next === '~') {
+          emit(' ');
+          i++;
+        } else if (next === '\n' || next === '\r') {
+          emit('\n');
+          i++;
+        } else {
+          const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 64));
+          if (!match) continue;
+          i += match[0].length;
+
+          const [, word, param] = match;
+          if (skippedDestinations.has(word)) {
+            state.skip = true;
+          } else if (word === 'par' || word === 'sect' || word === 'page') {
+            emit('\n\n');
+          } else if (word === 'line') {
+            emit('\n');
+          } else if (word === 'tab') {
+            emit('\t');
+          } else if (word === 'uc') {
+            state.unicodeSkip = Number(param ?? 1);
+          } else if (word === 'u' && param !== undefined) {
+            const code = Number(param);
+            emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+            pendingSkip = state.unicodeSkip;
+          }
+        }
+      } else if (char !== '\r' && char !== '\n') {
+        emit(char);
+      }
+    }
+    return text;
+  }
+}
+
+// Seconds from "01:02:03.450", "02:03,450" (SRT), "PT1M2.5S" (ISO 8601) or a plain number of seconds
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const clock = /^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:[.,]\d+)?)$/.exec(value.trim());
+  if (clock) {
+    return Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3].replace(',', '.'));
+  }
+  const duration = /^PT(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/i.exec(value.trim());
+  if (duration) {
+    return Number(duration[1] ?? 0) * 3600 + Number(duration[2] ?? 0) * 60 + Number(duration[3] ?? 0);
+  }
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds : null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
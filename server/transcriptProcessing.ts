@@ -0,0 +1,216 @@
+import { storage } from "./storage";
+import { AIService, ExtractionValidationError, type ExtractionResult } from "./aiService";
+import { ArrangementDeltaService } from "./arrangementDelta";
+import { FieldHistoryService } from "./fieldHistory";
+import { SpeakerRoleService } from "./speakerRoles";
+import { ProgressEvents } from "./progressEvents";
+import { logger } from "./logger";
+import { getPendingReviewPaths, type ExtractedArrangementData } from "@shared/extraction";
+import { parseSpeakerRoles, parseSpeakerTurns, transcriptText } from "@shared/speakerTurns";
+import type { Arrangement, ArrangementDelta, Transcript } from "@shared/schema";
+
+export type ProcessingResult =
+  // A follow-up or a re-run proposes changes to the case it belongs to
+  | { kind: 'proposed'; arrangement: Arrangement; delta: ArrangementDelta | null; changeCount: number }
+  | { kind: 'created'; arrangement: Arrangement; extraction: ExtractionResult };
+
+// Summary columns kept alongside extractedData for listing and searching cases
+export function getArrangementColumns(extractedData: ExtractedArrangementData) {
+  const basic = extractedData.arrangement.basic_information;
+  const informant = extractedData.arrangement.informant;
+  const arrangements = extractedData.arrangement.arrangements;
+  const casket = extractedData.arrangement.casket_container;
+
+  const fullName = [basic.deceased_name.first, basic.deceased_name.middle, basic.deceased_name.last]
+    .filter(Boolean).join(' ');
+
+  return {
+    deceasedName: fullName,
+    deceasedAge: basic.age,
+    dateOfDeath: basic.date_of_death,
+    causeOfDeath: '',
+    serviceType: arrangements.disposition,
+    serviceLocation: arrangements.funeral_service_place,
+    serviceDate: arrangements.service_date,
+    serviceTime: arrangements.service_time,
+    arrangerName: informant.name,
+    arrangerPhone: informant.phone_number,
+    arrangerEmail: informant.email,
+    arrangerRelation: informant.relationship_to_deceased,
+    casketType: casket.casket,
+    flowerPrefs: arrangements.memorials_or_in_lieu_of_flowers,
+    specialRequests: extractedData.arrangement.general_notes,
+  };
+}
+
+/**
+ * Extracts a case from a transcript, for the process route and for bulk imports. Callers check
+ * the transcript can be processed (not purged or still being transcribed) and record failures
+ * with `recordFailure`.
+ */
+export class TranscriptProcessingService {
+  static async process(transcript: Transcript, userId: number): Promise<ProcessingResult> {
+    const transcriptId = transcript.id;
+
+    // Update status to processing
+    await storage.updateTranscriptStatus(transcriptId, "processing", null);
+
+    const transcriptChannel = ProgressEvents.transcriptChannel(transcriptId);
+    ProgressEvents.reset(transcriptChannel);
+    ProgressEvents.publish(transcriptChannel, {
+      stage: 'extraction_started',
+      transcriptId,
+      message: 'Reading the transcript and extracting arrangement details',
+    });
+
+    const existingArrangement = transcript.arrangementId
+      ? await storage.getArrangementById(transcript.arrangementId)
+      : await storage.getArrangementByTranscriptId(transcriptId);
+    if (transcript.arrangementId && !existingArrangement) {
+      throw new Error("The case this transcript was added to no longer exists");
+    }
+
+    // Knowing who each speaker is lets extraction resolve "my mother" relative to the right person
+    const speakerTurns = parseSpeakerTurns(transcript.speakerTurns);
+    let speakerRoles = parseSpeakerRoles(transcript.speakerRoles);
+    if (speakerTurns) {
+      const known = existingArrangement ? ArrangementDeltaService.getCaseState(existingArrangement).data : null;
+      speakerRoles = await SpeakerRoleService.identify(speakerTurns, speakerRoles, known);
+      ProgressEvents.publish(transcriptChannel, {
+        stage: 'speakers_identified',
+        transcriptId,
+        message: 'Speakers identified',
+      });
+    }
+
+    // Process with AI
+    const extraction = await AIService.extractArrangementData(transcriptText(transcript), (part, total) => {
+      // Single-part transcripts go straight to json_parsed
+      if (total > 1) {
+        ProgressEvents.publish(transcriptChannel, {
+          stage: 'chunk_extracted',
+          transcriptId,
+          message: `Part ${part} of ${total} extracted`,
+        });
+      }
+    }, speakerRoles);
+
+    ProgressEvents.publish(transcriptChannel, {
+      stage: 'json_parsed',
+      transcriptId,
+      message: 'Extracted details parsed',
+    });
+
+    const {
+      data: extractedData,
+      sources: fieldSources,
+      reviews: fieldReviews,
+      decisions: mergeDecisions,
+    } = extraction;
+
+    // The informant and director just extracted name speakers the AI couldn't place
+    if (speakerTurns) {
+      speakerRoles = SpeakerRoleService.applyArrangement(speakerTurns, speakerRoles, extractedData);
+      await storage.updateTranscript(transcriptId, { speakerRoles: JSON.stringify(speakerRoles) });
+    }
+
+    // A follow-up conversation, or a second run over one already processed, proposes changes
+    // to the case instead of overwriting it, so values corrected by hand are kept by default
+    if (existingArrangement) {
+      const current = ArrangementDeltaService.getCaseState(existingArrangement);
+      const kind = transcript.arrangementId ? 'follow_up' : 're_extraction';
+      const changes = kind === 'follow_up'
+        ? ArrangementDeltaService.propose(current, extraction, transcriptId)
+        : ArrangementDeltaService.proposeReExtraction(current, extraction, transcriptId);
+
+      await storage.supersedePendingDeltas(transcriptId);
+      const delta = changes.length > 0
+        ? await storage.createArrangementDelta({
+            arrangementId: existingArrangement.id,
+            transcriptId,
+            userId,
+            kind,
+            changes: JSON.stringify(changes),
+          })
+        : null;
+
+      await storage.updateTranscriptStatus(transcriptId, "processed");
+
+      ProgressEvents.publish([transcriptChannel, ProgressEvents.arrangementChannel(existingArrangement.id)], {
+        stage: 'changes_proposed',
+        transcriptId,
+        arrangementId: existingArrangement.id,
+        message: changes.length > 0
+          ? `${changes.length} proposed change(s) ready for review`
+          : 'No changes to the arrangement',
+      });
+
+      await storage.trackUsageMetric(userId, 'transcript_processed');
+
+      return { kind: 'proposed', arrangement: existingArrangement, delta, changeCount: changes.length };
+    }
+
+    // Generate document
+    const generatedDoc = await AIService.generateArrangementDocument(extractedData);
+
+    const arrangementFields = {
+      ...getArrangementColumns(extractedData),
+      generatedDoc,
+      aiProcessed: true,
+      extractedData: JSON.stringify(extractedData),
+      fieldSources: JSON.stringify(fieldSources),
+      fieldReviews: JSON.stringify(fieldReviews),
+      pendingReviewCount: getPendingReviewPaths(fieldReviews).length,
+      mergeDecisions: JSON.stringify(mergeDecisions),
+    };
+
+    const arrangement = await storage.createArrangement({
+      transcriptId,
+      userId,
+      organizationId: transcript.organizationId,
+      ...arrangementFields,
+    });
+
+    await storage.recordFieldChanges(FieldHistoryService.diff(FieldHistoryService.emptyData(), extractedData, {
+      arrangementId: arrangement.id,
+      userId,
+      source: 'extraction',
+      transcriptId,
+    }));
+
+    // Update transcript status to processed
+    await storage.updateTranscriptStatus(transcriptId, "processed");
+
+    ProgressEvents.publish([transcriptChannel, ProgressEvents.arrangementChannel(arrangement.id)], {
+      stage: 'arrangement_saved',
+      transcriptId,
+      arrangementId: arrangement.id,
+      message: 'Arrangement saved',
+    });
+
+    // Track usage metric for transcript processing
+    await storage.trackUsageMetric(userId, 'transcript_processed');
+
+    return { kind: 'created', arrangement, extraction };
+  }
+
+  // Record why processing failed so it can be shown alongside the transcript
+  static async recordFailure(transcriptId: number, error: any) {
+    logger.error("AI processing failed", error);
+
+    const isValidationError = error instanceof ExtractionValidationError;
+    await storage.updateTranscriptStatus(transcriptId, "error", JSON.stringify({
+      kind: isValidationError ? 'validation' : 'processing',
+      message: error.message,
+      issues: isValidationError ? error.issues : undefined,
+      attempts: isValidationError ? error.attempts : undefined,
+      at: new Date().toISOString(),
+    }));
+
+    ProgressEvents.publish(ProgressEvents.transcriptChannel(transcriptId), {
+      stage: 'extraction_failed',
+      transcriptId,
+      error: error.message,
+    });
+  }
+}
@@ -0,0 +1,89 @@
+import fs from "fs";
+import { storage } from "./storage";
+import { getSpeechToText, SpeechToTextError } from "./speechToText";
+import { formatSpeakerTurns } from "@shared/speakerTurns";
+import { logger } from "./logger";
+import type { Transcript } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Turns uploaded recordings into transcripts, one at a time. A recording waits with status
+ * `transcribing` and its file kept on disk; once transcribed it becomes an ordinary `uploaded`
+ * transcript and the file is removed. Recordings interrupted by a restart are picked up again.
+ */
+export class TranscriptionService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static busy = false;
+
+  static enqueue() {
+    setImmediate(() => this.tick());
+  }
+
+  static start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+  }
+
+  static stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static async tick() {
+    if (this.busy) return;
+    this.busy = true;
+
+    try {
+      let transcript: Transcript | undefined;
+      while ((transcript = await storage.getNextTranscriptToTranscribe())) {
+        await this.transcribe(transcript);
+      }
+    } catch (error) {
+      logger.error("transcription worker failed", error);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private static async transcribe(transcript: Transcript) {
+    try {
+      const adapter = getSpeechToText();
+      if (!transcript.audioPath || !fs.existsSync(transcript.audioPath)) {
+        throw new SpeechToTextError("The recording is no longer on the server. Upload it again.");
+      }
+
+      const started = Date.now();
+      const turns = await adapter.transcribe({ filePath: transcript.audioPath, filename: transcript.filename });
+      if (turns.length === 0) {
+        throw new SpeechToTextError("No speech was recognised in the recording");
+      }
+
+      await storage.updateTranscript(transcript.id, {
+        content: formatSpeakerTurns(turns),
+        speakerTurns: JSON.stringify(turns),
+        status: 'uploaded',
+        processingError: null,
+        audioPath: null,
+      });
+      await fs.promises.rm(transcript.audioPath, { force: true });
+
+      logger.info("recording transcribed", {
+        transcriptId: transcript.id,
+        adapter: adapter.name,
+        turns: turns.length,
+        durationMs: Date.now() - started,
+      });
+    } catch (error: any) {
+      logger.error("transcription failed", { transcriptId: transcript.id, error });
+      // The recording is kept so the transcription can be retried
+      await storage.updateTranscriptStatus(transcript.id, 'transcription_failed', JSON.stringify({
+        kind: 'transcription',
+        message: error instanceof SpeechToTextError ? error.message : `Transcription failed: ${error.message}`,
+        at: new Date().toISOString(),
+      }));
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const rows = vi.hoisted(() => ({
+  users: new Map<number, any>(),
+  recoveryCodes: [] as Array<{ userId: number; codeHash: string; usedAt: Date | null }>,
+}));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getUser: vi.fn(async (id: number) => rows.users.get(id)),
+    updateUser: vi.fn(async (id: number, updates: any) => {
+      const user = { ...rows.users.get(id), ...updates };
+      rows.users.set(id, user);
+      return user;
+    }),
+    claimTotpStep: vi.fn(async (id: number, step: number) => {
+      const user = rows.users.get(id);
+      if (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step) return false;
+      user.totpLastUsedStep = step;
+      return true;
+    }),
+    replaceRecoveryCodes: vi.fn(async (userId: number, codeHashes: string[]) => {
+      rows.recoveryCodes = rows.recoveryCodes.filter(c => c.userId !== userId)
+        .concat(codeHashes.map(codeHash => ({ userId, codeHash, usedAt: null })));
+    }),
+    useRecoveryCode: vi.fn(async (userId: number, codeHash: string) => {
+      const code = rows.recoveryCodes.find(c => c.userId === userId && c.codeHash === codeHash && !c.usedAt);
+      if (!code) return false;
+      code.usedAt = new Date();
+      return true;
+    }),
+    countUnusedRecoveryCodes: vi.fn(async (userId: number) =>
+      rows.recoveryCodes.filter(c => c.userId === userId && !c.usedAt).length),
+    getOrganizationById: vi.fn(async (id: number) => ({ id, requireTwoFactor: false })),
+  },
+}));
+
+import jwt from "jsonwebtoken";
+import { authenticator } from "otplib";
+import { JWT_SECRET } from "./sessions";
+import { TwoFactorError, TwoFactorService } from "./twoFactor";
+
+const USER_ID = 7;
+const current = () => rows.users.get(USER_ID);
+
+// Turns two-factor on for the user and returns their recovery codes
+async function enroll(): Promise<string[]> {
+  const { secret } = await TwoFactorService.beginEnrollment(current());
+  const codes = await TwoFactorService.confirmEnrollment(current(), authenticator.generate(secret));
+  // The enrollment code can't be used again, so later sign-ins start a step further on
+  vi.advanceTimersByTime(30 * 1000);
+  return codes;
+}
+
+describe("TwoFactorService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    rows.users.clear();
+    rows.users.set(USER_ID, { id: USER_ID, email: "jo@example.com", totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+    rows.recoveryCodes = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("enrollment", () => {
+    it("isn't turned on until the app has produced a matching code", async () => {
+      const { secret, otpauthUrl } = await TwoFactorService.beginEnrollment(current());
+
+      expect(otpauthUrl).toContain(secret);
+      expect(TwoFactorService.isEnabled(current())).toBe(false);
+
+      await expect(TwoFactorService.confirmEnrollment(current(), "000000")).rejects.toThrow(TwoFactorError);
+      expect(TwoFactorService.isEnabled(current())).toBe(false);
+
+      await TwoFactorService.confirmEnrollment(current(), authenticator.generate(secret));
+      expect(TwoFactorService.isEnabled(current())).toBe(true);
+    });
+
+    it("needs setup to have started", async () => {
+      await expect(TwoFactorService.confirmEnrollment(current(), "123456")).rejects.toThrow("Start two-factor setup");
+    });
+
+    it("won't start again while it is on", async () => {
+      await enroll();
+
+      await expect(TwoFactorService.beginEnrollment(current())).rejects.toThrow("already turned on");
+    });
+  });
+
+  describe("authenticator codes", () => {
+    it("accepts the current code", async () => {
+      await enroll();
+
+      expect(await TwoFactorService.verify(current(), authenticator.generate(current().totpSecret))).toBe(true);
+    });
+
+    it("accepts a code only once", async () => {
+      await enroll();
+      const code = authenticator.generate(current().totpSecret);
+
+      expect(await TwoFactorService.verify(current(), code)).toBe(true);
+      expect(await TwoFactorService.verify(current(), code)).toBe(false);
+    });
+
+    it("allows for a phone clock one step out", async () => {
+      await enroll();
+      const code = authenticator.generate(current().totpSecret);
+      vi.advanceTimersByTime(30 * 1000);
+
+      expect(await TwoFactorService.verify(current(), code)).toBe(true);
+    });
+
+    it("refuses a code from long ago", async () => {
+      await enroll();
+      const code = authenticator.generate(current().totpSecret);
+      vi.advanceTimersByTime(5 * 60 * 1000);
+
+      expect(await TwoFactorService.verify(current(), code)).toBe(false);
+    });
+
+    it("refuses any code while two-factor is off", async () => {
+      const { secret } = await TwoFactorService.beginEnrollment(current());
+
+      expect(await TwoFactorService.verify(current(), authenticator.generate(secret))).toBe(false);
+    });
+  });
+
+  describe("recovery codes", () => {
+    it("hands out ten readable codes and stores only their hashes", async () => {
+      const codes = await enroll();
+
+      expect(codes).toHaveLength(10);
+      for (const code of codes) expect(code).toMatch(/^[2-9a-hjkmnp-z]{5}-[2-9a-hjkmnp-z]{5}$/);
+      expect(rows.recoveryCodes.map(c => c.codeHash)).not.toContain(codes[0]);
+    });
+
+    it("lets each code stand in for the app once", async () => {
+      const [code] = await enroll();
+
+      expect(await TwoFactorService.verify(current(), code)).toBe(true);
+      expect(await TwoFactorService.verify(current(), code)).toBe(false);
+      expect(await TwoFactorService.status(current(), 1)).toMatchObject({ enabled: true, recoveryCodesRemaining: 9 });
+    });
+
+    it("ignores case, spaces and dashes", async () => {
+      const [code] = await enroll();
+
+      expect(await TwoFactorService.verify(current(), ` ${code.replace('-', ' ').toUpperCase()} `)).toBe(true);
+    });
+
+    it("stops accepting the old codes once new ones are made", async () => {
+      const [oldCode] = await enroll();
+      const [newCode] = await TwoFactorService.regenerateRecoveryCodes(current());
+
+      expect(await TwoFactorService.verify(current(), oldCode)).toBe(false);
+      expect(await TwoFactorService.verify(current(), newCode)).toBe(true);
+    });
+
+    it("are all cleared when two-factor is turned off", async () => {
+      const [code] = await enroll();
+      await TwoFactorService.disable(current());
+
+      expect(TwoFactorService.isEnabled(current())).toBe(false);
+      expect(rows.recoveryCodes).toHaveLength(0);
+      expect(await TwoFactorService.verify(current(), code)).toBe(false);
+    });
+  });
+
+  describe("sign-in challenge", () => {
+    it("names the user whose password was right", () => {
+      expect(TwoFactorService.verifyChallenge(TwoFactorService.issueChallenge(current()))).toBe(USER_ID);
+    });
+
+    it("expires after five minutes", () => {
+      const challenge = TwoFactorService.issueChallenge(current());
+      vi.advanceTimersByTime(6 * 60 * 1000);
+
+      expect(() => TwoFactorService.verifyChallenge(challenge)).toThrow(TwoFactorError);
+    });
+
+    it("refuses a token that isn't a challenge", () => {
+      const accessToken = jwt.sign({ userId: USER_ID, sessionId: 1 }, JWT_SECRET);
+
+      expect(() => TwoFactorService.verifyChallenge(accessToken)).toThrow(TwoFactorError);
+      expect(() => TwoFactorService.verifyChallenge("not.a.token")).toThrow(TwoFactorError);
+    });
+  });
+});
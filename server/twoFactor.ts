@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { JWT_SECRET } from "./sessions";
+import type { TwoFactorEnrollment, TwoFactorStatus, User } from "@shared/schema";
+
+const ISSUER = "FuneralFlow";
+const RECOVERY_CODE_COUNT = 10;
+// No 0/o or 1/l, so codes read back from paper aren't mistyped
+const RECOVERY_CODE_ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+// Time between entering the password and the authenticator code
+const CHALLENGE_LIFETIME = "5m";
+const CHALLENGE_PURPOSE = "two_factor_login";
+
+// Accept the code either side of the current one to allow for a phone clock that has drifted
+authenticator.options = { window: 1 };
+
+// Raised when a two-factor request can't be carried out; the message can be shown to the user
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+/**
+ * Authenticator app (TOTP) sign-in. A secret is stored when enrollment starts and only trusted
+ * once the user has entered a code from it. Each code is accepted once, and one-time recovery
+ * codes stand in for the app if the phone is lost.
+ */
+export class TwoFactorService {
+  static isEnabled(user: User): boolean {
+    return !!user.totpEnabledAt && !!user.totpSecret;
+  }
+
+  static async beginEnrollment(user: User): Promise<TwoFactorEnrollment> {
+    if (this.isEnabled(user)) {
+      throw new TwoFactorError("Two-factor authentication is already turned on");
+    }
+
+    const secret = authenticator.generateSecret();
+    await storage.updateUser(user.id, { totpSecret: secret, totpLastUsedStep: null });
+
+    const otpauthUrl = authenticator.keyuri(user.email, ISSUER, secret);
+    return { secret, otpauthUrl, qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl) };
+  }
+
+  // Turns two-factor on once the app has produced a matching code, returning the recovery codes
+  static async confirmEnrollment(user: User, code: string): Promise<string[]> {
+    if (this.isEnabled(user)) {
+      throw new TwoFactorError("Two-factor authentication is already turned on");
+    }
+    if (!user.totpSecret) {
+      throw new TwoFactorError("Start two-factor setup before entering a code");
+    }
+    if (!(await this.verifyTotp(user, code))) {
+      throw new TwoFactorError("That code didn't match. Check the time on your phone and try again.");
+    }
+
+    await storage.updateUser(user.id, { totpEnabledAt: new Date() });
+    return await this.regenerateRecoveryCodes(user);
+  }
+
+  // Checks a code from the authenticator app, or uses up a recovery code
+  static async verify(user: User, code: string): Promise<boolean> {
+    if (!this.isEnabled(user)) return false;
+
+    const normalized = normalizeCode(code);
+    if (/^\d{6}$/.test(normalized)) {
+      return await this.verifyTotp(user, normalized);
+    }
+    return await storage.useRecoveryCode(user.id, hashCode(normalized));
+  }
+
+  static async disable(user: User): Promise<void> {
+    await storage.updateUser(user.id, { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+    await storage.replaceRecoveryCodes(user.id, []);
+  }
+
+  // Replaces any earlier recovery codes; the new ones are only ever shown this once
+  static async regenerateRecoveryCodes(user: User): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+    await storage.replaceRecoveryCodes(user.id, codes.map((code) => hashCode(normalizeCode(code))));
+    return codes;
+  }
+
+  static async status(user: User, organizationId: number): Promise<TwoFactorStatus> {
+    return {
+      enabled: this.isEnabled(user),
+      enabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: this.isEnabled(user) ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+      requiredByOrganization: await this.isRequiredBy(organizationId),
+    };
+  }
+
+  static async isRequiredBy(organizationId: number): Promise<boolean> {
+    const organization = await storage.getOrganizationById(organizationId);
+    return !!organization?.requireTwoFactor;
+  }
+
+  // True when the organization requires two-factor and the user hasn't turned it on yet
+  static async needsEnrollment(userId: number, organizationId: number): Promise<boolean> {
+    if (!(await this.isRequiredBy(organizationId))) return false;
+    const user = await storage.getUser(userId);
+    return !user || !this.isEnabled(user);
+  }
+
+  // A short-lived token showing the password was right, exchanged for a session with the second factor
+  static issueChallenge(user: User): string {
+    return jwt.sign({ userId: user.id, purpose: CHALLENGE_PURPOSE }, JWT_SECRET, { expiresIn: CHALLENGE_LIFETIME });
+  }
+
+  static verifyChallenge(challengeToken: string): number {
+    try {
+      const payload = jwt.verify(challengeToken, JWT_SECRET) as { userId?: unknown; purpose?: unknown };
+      if (payload.purpose === CHALLENGE_PURPOSE && typeof payload.userId === 'number') {
+        return payload.userId;
+      }
+    } catch {
+      // Expired or tampered with; handled below
+    }
+    throw new TwoFactorError("Your sign-in has expired. Please enter your password again.");
+  }
+
+  private static async verifyTotp(user: User, code: string): Promise<boolean> {
+    const delta = authenticator.checkDelta(normalizeCode(code), user.totpSecret!);
+    if (delta === null) return false;
+
+    // Claiming the step stops a code seen over someone's shoulder from being used a second time
+    const step = Math.floor(Date.now() / 1000 / authenticator.allOptions().step) + delta;
+    return await storage.claimTotpStep(user.id, step);
+  }
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+function newRecoveryCode(): string {
+  const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
@@ -0,0 +1,399 @@
+import { z } from "zod";
+
+// Coercing field builders. Values the model commonly gets slightly wrong (null for
+// an empty string, "72" for a number, "yes" for a boolean, a missing section) are
+// repaired; values of the wrong shape entirely fail validation so the model can be
+// asked to fix them.
+
+const text = () =>
+  z.preprocess(
+    (value) => {
+      if (value === null || value === undefined) return '';
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      return value;
+    },
+    z.string(),
+  );
+
+const age = () =>
+  z.preprocess(
+    (value) => {
+      if (value === null || value === undefined) return null;
+      if (typeof value === 'string') {
+        const trimmed = value.trim();
+        if (trimmed === '') return null;
+        return /^\d+(\.\d+)?$/.test(trimmed) ? Math.round(Number(trimmed)) : value;
+      }
+      return value;
+    },
+    z.number({ invalid_type_error: "Age must be a number or null" }).int().min(0).max(150).nullable(),
+  );
+
+const flag = () =>
+  z.preprocess(
+    (value) => {
+      if (value === null || value === undefined || value === '') return false;
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['yes', 'y', 'true'].includes(normalized)) return true;
+        if (['no', 'n', 'false'].includes(normalized)) return false;
+      }
+      return value;
+    },
+    z.boolean(),
+  );
+
+const section = <T extends z.ZodRawShape>(shape: T) =>
+  z.preprocess(
+    (value) => (value === null || value === undefined ? {} : value),
+    z.object(shape),
+  );
+
+const list = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) => {
+      if (value === null || value === undefined || value === '') return [];
+      return value;
+    },
+    z.array(item),
+  );
+
+// "John Smith, Mark Jones" is a common answer where a list of names was expected
+const nameList = () =>
+  z.preprocess(
+    (value) => {
+      if (value === null || value === undefined) return [];
+      if (typeof value === 'string') {
+        return value.split(/[,;\n]/).map(name => name.trim()).filter(Boolean);
+      }
+      return value;
+    },
+    z.array(text()),
+  );
+
+// A bare name string is accepted where a relative object was expected
+const relative = <T extends z.ZodRawShape>(shape: T) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' ? { name: value } : value),
+    section(shape),
+  );
+
+const personName = () => section({
+  first: text(),
+  middle: text(),
+  last: text(),
+});
+
+export const extractedArrangementSchema = z.preprocess(
+  // Some replies drop the outer "arrangement" wrapper
+  (value) => {
+    if (value && typeof value === 'object' && !('arrangement' in value) && 'basic_information' in value) {
+      return { arrangement: value };
+    }
+    return value;
+  },
+  z.object({
+    arrangement: section({
+      basic_information: section({
+        funeral_director_name: text(),
+        deceased_name: section({
+          first: text(),
+          middle: text(),
+          last: text(),
+          suffix: text(),
+        }),
+        preferred_name: text(),
+        gender: text(),
+        date_of_birth: text(),
+        date_of_death: text(),
+        birthplace: text(),
+        city_of_death: text(),
+        county_of_death: text(),
+        age: age(),
+        maiden_name: text(),
+        marital_status: text(),
+        spouse_name: section({
+          first: text(),
+          middle: text(),
+          last: text(),
+          maiden: text(),
+        }),
+        usual_residence: section({
+          street: text(),
+          city: text(),
+          county: text(),
+          state: text(),
+          zip: text(),
+        }),
+        occupation: text(),
+        industry: text(),
+        education_level: text(),
+        military_service: section({
+          served: flag(),
+          branch: text(),
+          service_dates: text(),
+        }),
+        dd_214: text(),
+        father_name: personName(),
+        mother_name: section({
+          first: text(),
+          middle: text(),
+          maiden: text(),
+        }),
+        children: list(relative({
+          name: text(),
+          city: text(),
+          state: text(),
+          spouse_or_significant_other: text(),
+        })),
+        siblings: list(relative({
+          name: text(),
+          city: text(),
+          state: text(),
+        })),
+        grandchildren: text(),
+        great_grandchildren: text(),
+        physician_info: text(),
+        biographical_info: text(),
+        preceded_in_death_by: text(),
+      }),
+      informant: section({
+        name: text(),
+        phone_number: text(),
+        email: text(),
+        relationship_to_deceased: text(),
+        financially_responsible_party: section({
+          name: text(),
+          phone_number: text(),
+          address: text(),
+          email: text(),
+        }),
+        method_of_payment: text(),
+      }),
+      arrangements: section({
+        disposition: text(),
+        place_of_disposition: text(),
+        funeral_service_place: text(),
+        service_date: text(),
+        service_time: text(),
+        visitation_place: text(),
+        visitation_date_time: text(),
+        other_times_at: text(),
+        phone_number: text(),
+        first_viewing_time: text(),
+        clergy: text(),
+        music: text(),
+        pallbearers: nameList(),
+        honorary_pallbearers: nameList(),
+        memorials_or_in_lieu_of_flowers: text(),
+      }),
+      final_disposition: section({
+        final_disposition_type: text(),
+        cemetery_or_crematory: text(),
+        address: text(),
+        city: text(),
+        county: text(),
+        state: text(),
+        disposition_of_ashes: text(),
+      }),
+      casket_container: section({
+        casket: text(),
+        casket_manufacturer: text(),
+        casket_model: text(),
+        interior_fabric_and_color: text(),
+        cap_panel: text(),
+        exterior_color: text(),
+      }),
+      outer_burial_enclosure: section({
+        manufacturer: text(),
+        model: text(),
+      }),
+      urn: section({
+        manufacturer: text(),
+        model: text(),
+      }),
+      other: section({
+        inscriptions: text(),
+        jewelry_inventory: text(),
+        jewelry_to_remove: text(),
+        embalming_authorization: flag(),
+        fingerprint_authorization: flag(),
+        other_merchandise: text(),
+      }),
+      general_notes: text(),
+    }),
+  }),
+);
+
+export type ExtractedArrangementData = z.infer<typeof extractedArrangementSchema>;
+
+export function formatExtractionIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * The transcript passage an extracted value came from. FieldSources is keyed by the
+ * value's path in ExtractedArrangementData, e.g. "arrangement.basic_information.date_of_death"
+ * or "arrangement.basic_information.children.0" for a list entry. `start`/`end` are
+ * character offsets into transcripts.content, or null when the quote couldn't be found.
+ * `transcriptId` is set when the passage is in a follow-up conversation rather than the
+ * transcript that opened the case.
+ */
+export interface FieldSource {
+  quote: string;
+  start: number | null;
+  end: number | null;
+  transcriptId?: number;
+}
+
+export type FieldSources = Record<string, FieldSource>;
+
+export function getValueAtPath(data: unknown, path: string): unknown {
+  let current: any = data;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+// Returns a copy of `data` with the value at `path` replaced; intermediate objects must exist
+export function setValueAtPath<T>(data: T, path: string, value: unknown): T {
+  const copy = JSON.parse(JSON.stringify(data));
+  const keys = path.split('.');
+  let current: any = copy;
+  for (const key of keys.slice(0, -1)) {
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+  return copy;
+}
+
+// Whether an extracted value holds anything beyond the schema's empty defaults
+export function isPopulatedValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.some(isPopulatedValue);
+  if (typeof value === 'object') return Object.values(value).some(isPopulatedValue);
+  return true;
+}
+
+// Entries for a field and anything beneath it, so a list or name group covers all of its values
+export function getEntriesUnderPath<T>(map: Record<string, T> | null | undefined, path: string): Array<[string, T]> {
+  if (!map) return [];
+  return Object.entries(map).filter(([key]) => key === path || key.startsWith(`${path}.`));
+}
+
+export function omitEntriesUnderPath<T>(map: Record<string, T>, path: string): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(map).filter(([key]) => key !== path && !key.startsWith(`${path}.`))
+  );
+}
+
+export function getFieldSources(sources: FieldSources | null | undefined, path: string): FieldSource[] {
+  return getEntriesUnderPath(sources, path).map(([, source]) => source);
+}
+
+// "arrangement.basic_information.children.0" -> "Basic information › Children › #1"
+export function formatFieldPath(path: string): string {
+  return path
+    .split('.')
+    .slice(1)
+    .map(segment => /^\d+$/.test(segment)
+      ? `#${parseInt(segment) + 1}`
+      : segment.charAt(0).toUpperCase() + segment.slice(1).replace(/_/g, ' '))
+    .join(' › ');
+}
+
+// One-line display of an extracted value; people in a list are shown by name
+export function formatFieldValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(item => (item && typeof item === 'object' && 'name' in item ? item.name : String(item))).join(', ');
+  }
+  return String(value ?? '');
+}
+
+/**
+ * Fields are high confidence unless flagged. A flagged value blocks approval until a
+ * director confirms it: "low" when the transcript is unclear, "inferred" when the value
+ * was worked out rather than stated, "conflicting" when the transcript disagrees with itself.
+ */
+export const REVIEW_FLAGS = ['low', 'inferred', 'conflicting'] as const;
+
+export type ReviewFlag = typeof REVIEW_FLAGS[number];
+
+export interface FieldReview {
+  confidence: ReviewFlag;
+  reason: string;
+  confirmedAt: string | null;
+  confirmedBy: number | null;
+}
+
+export type FieldReviews = Record<string, FieldReview>;
+
+export function getPendingReviewPaths(reviews: FieldReviews | null | undefined): string[] {
+  if (!reviews) return [];
+  return Object.entries(reviews)
+    .filter(([, review]) => !review.confirmedAt)
+    .map(([path]) => path);
+}
+
+/**
+ * How values from the parts of a long transcript were combined into one extraction.
+ * Only fields where the parts actually differed or overlapped are recorded. `part`
+ * is 1-based, in transcript order.
+ */
+export type MergeRule = 'later_overrides' | 'union' | 'appended';
+
+export interface MergeDecision {
+  path: string;
+  rule: MergeRule;
+  value: unknown;
+  candidates: Array<{ part: number; value: unknown }>;
+}
+
+/**
+ * Fields a director changed by hand in the arrangement view, keyed like FieldSources.
+ * A newer extraction never replaces these without the director choosing to.
+ */
+export interface FieldEdit {
+  editedAt: string;
+  editedBy: number;
+}
+
+export type FieldEdits = Record<string, FieldEdit>;
+
+// What produced an entry in an arrangement's field change log
+export const FIELD_CHANGE_SOURCES = ['extraction', 'manual_edit', 'merge', 'revert'] as const;
+
+export type FieldChangeSource = typeof FIELD_CHANGE_SOURCES[number];
+
+/**
+ * A single field a newer extraction would change. Objects are compared field by field;
+ * lists are compared and replaced as a whole. `suggested` is the choice preselected in
+ * the merge view: keep the current value when it was edited by hand or the new one is blank.
+ */
+export interface FieldChange {
+  path: string;
+  current: unknown;
+  proposed: unknown;
+  sources: FieldSources;
+  reviews: FieldReviews;
+  status: 'pending' | 'accepted' | 'rejected';
+  manuallyEdited?: boolean;
+  suggested?: 'accept' | 'reject';
+}
+
+export function diffExtractions(current: unknown, proposed: unknown, path = 'arrangement'): Array<{ path: string; current: unknown; proposed: unknown }> {
+  if (proposed && typeof proposed === 'object' && !Array.isArray(proposed)) {
+    return Object.keys(proposed).flatMap(key =>
+      diffExtractions((current as any)?.[key], (proposed as any)[key], `${path}.${key}`)
+    );
+  }
+
+  return JSON.stringify(current ?? null) === JSON.stringify(proposed ?? null)
+    ? []
+    : [{ path, current, proposed }];
+}
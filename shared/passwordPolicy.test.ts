@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PASSWORD_POLICY, checkPasswordRequirements, passwordProblems, type PasswordPolicy } from "./passwordPolicy";
+
+const PERSONAL = ["margaret.hale@oakhill.com", "Margaret Hale"];
+
+describe("passwordProblems", () => {
+  it("accepts a password that meets every requirement", () => {
+    expect(passwordProblems("Lantern-Harbor42", DEFAULT_PASSWORD_POLICY, PERSONAL)).toEqual([]);
+  });
+
+  it("lists each requirement a password misses", () => {
+    expect(passwordProblems("short", DEFAULT_PASSWORD_POLICY)).toEqual([
+      "At least 10 characters",
+      "An uppercase letter",
+      "A number",
+    ]);
+  });
+
+  it("refuses common passwords whatever their case or punctuation", () => {
+    for (const password of ["Password123", "P@ssw0rd", "FuneralHome!"]) {
+      expect(passwordProblems(password, { ...DEFAULT_PASSWORD_POLICY, minLength: 8 })).toContain("Not a common password or your name or email");
+    }
+  });
+
+  it("refuses a password containing the owner's name or email", () => {
+    expect(passwordProblems("Margaret2024x", DEFAULT_PASSWORD_POLICY, PERSONAL)).toEqual(["Not a common password or your name or email"]);
+    expect(passwordProblems("Oakhill-2024x", DEFAULT_PASSWORD_POLICY, PERSONAL)).toEqual(["Not a common password or your name or email"]);
+  });
+
+  it("ignores short parts of the name or email", () => {
+    expect(passwordProblems("Lantern-Com42", DEFAULT_PASSWORD_POLICY, ["jo@ab.com", "Jo Li"])).toEqual([]);
+  });
+
+  it("only checks what the policy asks for", () => {
+    const policy: PasswordPolicy = { minLength: 12, requireUppercase: false, requireLowercase: true, requireNumber: false, requireSymbol: true };
+
+    expect(checkPasswordRequirements("lanternharbor!", policy).map((r) => r.label)).toEqual([
+      "At least 12 characters",
+      "A lowercase letter",
+      "A symbol",
+      "Not a common password or your name or email",
+    ]);
+    expect(passwordProblems("lanternharbor", policy)).toEqual(["A symbol"]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * What a password must contain. The server reads its policy from the environment and checks it
+ * on register, reset and change; the client fetches the same policy to show the requirements
+ * as the password is typed.
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 10,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+};
+
+export interface PasswordRequirement {
+  label: string;
+  met: boolean;
+}
+
+// Passwords that are guessed first whatever else they contain
+const COMMON_PASSWORDS = new Set([
+  'password', 'password1', 'password12', 'password123', 'passw0rd', 'p@ssw0rd', 'p@ssword1',
+  '123456', '12345678', '123456789', '1234567890', 'qwerty', 'qwerty123', 'qwertyuiop',
+  'abc123', 'letmein', 'welcome', 'welcome1', 'welcome123', 'iloveyou', 'admin', 'admin123',
+  'changeme', 'football', 'baseball', 'sunshine', 'princess', 'dragon', 'monkey', 'trustno1',
+  'funeral', 'funeralhome', 'funeralflow',
+]);
+
+/**
+ * Each requirement with whether the password meets it. `personal` holds details such as the
+ * email and name, which the password may not contain.
+ */
+export function checkPasswordRequirements(password: string, policy: PasswordPolicy, personal: string[] = []): PasswordRequirement[] {
+  const lowered = password.toLowerCase();
+  const requirements: PasswordRequirement[] = [
+    { label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength },
+  ];
+
+  if (policy.requireUppercase) requirements.push({ label: 'An uppercase letter', met: /[A-Z]/.test(password) });
+  if (policy.requireLowercase) requirements.push({ label: 'A lowercase letter', met: /[a-z]/.test(password) });
+  if (policy.requireNumber) requirements.push({ label: 'A number', met: /\d/.test(password) });
+  if (policy.requireSymbol) requirements.push({ label: 'A symbol', met: /[^A-Za-z0-9]/.test(password) });
+
+  const words = personal
+    .flatMap((detail) => detail.toLowerCase().split(/[@\s.]+/))
+    .filter((word) => word.length >= 4);
+  requirements.push({
+    label: 'Not a common password or your name or email',
+    met: !COMMON_PASSWORDS.has(lowered.replace(/[^a-z0-9@]/g, '')) && !words.some((word) => lowered.includes(word)),
+  });
+
+  return requirements;
+}
+
+// The requirements a password misses; empty when it is acceptable
+export function passwordProblems(password: string, policy: PasswordPolicy, personal: string[] = []): string[] {
+  return checkPasswordRequirements(password, policy, personal)
+    .filter((requirement) => !requirement.met)
+    .map((requirement) => requirement.label);
+}
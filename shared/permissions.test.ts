@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  ORGANIZATION_ROLES,
+  PERMISSIONS,
+  canGrantRole,
+  hasPermission,
+  normalizeOrganizationRole,
+  type OrganizationRole,
+  type Permission,
+} from "./permissions";
+
+// Who may do what, spelled out so a change to the matrix has to be made here too
+const EXPECTED: Record<Permission, OrganizationRole[]> = {
+  view_cases: ['funeral_director', 'arranger', 'embalmer', 'office_manager', 'read_only'],
+  view_cause_of_death: ['funeral_director', 'arranger', 'embalmer'],
+  upload_transcripts: ['funeral_director', 'arranger'],
+  delete_transcripts: ['funeral_director'],
+  edit_arrangements: ['funeral_director', 'arranger'],
+  approve_arrangements: ['funeral_director'],
+  generate_documents: ['funeral_director', 'arranger', 'office_manager'],
+  edit_documents: ['funeral_director', 'arranger', 'office_manager'],
+  edit_contracts: ['funeral_director', 'arranger'],
+  delete_documents: ['funeral_director', 'office_manager'],
+  manage_tasks: ['funeral_director', 'arranger', 'embalmer', 'office_manager'],
+  manage_billing: ['funeral_director', 'office_manager'],
+  manage_members: ['funeral_director', 'office_manager'],
+  manage_retention: ['funeral_director', 'office_manager'],
+};
+
+describe("hasPermission", () => {
+  it("covers every permission", () => {
+    expect(Object.keys(EXPECTED).sort()).toEqual([...PERMISSIONS].sort());
+  });
+
+  describe.each(PERMISSIONS)("%s", (permission) => {
+    it.each(ORGANIZATION_ROLES)("for %s", (role) => {
+      expect(hasPermission(role, permission)).toBe(EXPECTED[permission].includes(role));
+    });
+  });
+
+  it("gives nothing without a role", () => {
+    for (const permission of PERMISSIONS) {
+      expect(hasPermission(null, permission)).toBe(false);
+      expect(hasPermission(undefined, permission)).toBe(false);
+      expect(hasPermission('', permission)).toBe(false);
+    }
+  });
+
+  it("treats a role it doesn't know as read only", () => {
+    expect(normalizeOrganizationRole('owner')).toBe('read_only');
+    expect(hasPermission('owner', 'view_cases')).toBe(true);
+    expect(hasPermission('owner', 'manage_members')).toBe(false);
+  });
+});
+
+describe("canGrantRole", () => {
+  it("lets a funeral director grant every role", () => {
+    for (const role of ORGANIZATION_ROLES) {
+      expect(canGrantRole('funeral_director', role)).toBe(true);
+    }
+  });
+
+  it("only lets a member grant roles that do no more than their own", () => {
+    expect(ORGANIZATION_ROLES.filter((role) => canGrantRole('office_manager', role))).toEqual(['office_manager', 'read_only']);
+    expect(ORGANIZATION_ROLES.filter((role) => canGrantRole('arranger', role))).toEqual(['arranger', 'embalmer', 'read_only']);
+    expect(ORGANIZATION_ROLES.filter((role) => canGrantRole('embalmer', role))).toEqual(['embalmer', 'read_only']);
+    expect(ORGANIZATION_ROLES.filter((role) => canGrantRole('read_only', role))).toEqual(['read_only']);
+  });
+
+  it("grants nothing without a role", () => {
+    expect(canGrantRole(null, 'read_only')).toBe(false);
+  });
+
+  it("checks a role it doesn't know as read only", () => {
+    expect(canGrantRole('office_manager', 'owner')).toBe(true);
+    expect(canGrantRole('owner', 'office_manager')).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Staff roles within an organization and what each may do. The server checks these on every
+ * organization route; the client uses the same matrix to hide actions a member can't take.
+ * Platform roles on users (user/premium/admin) are separate and only cover billing tiers and
+ * site administration.
+ */
+export const ORGANIZATION_ROLES = ['funeral_director', 'arranger', 'embalmer', 'office_manager', 'read_only'] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  funeral_director: 'Funeral Director',
+  arranger: 'Arranger',
+  embalmer: 'Embalmer',
+  office_manager: 'Office Manager',
+  read_only: 'Read Only',
+};
+
+export const PERMISSIONS = [
+  'view_cases',
+  'view_cause_of_death',
+  'upload_transcripts',
+  'delete_transcripts',
+  'edit_arrangements',
+  'approve_arrangements',
+  'generate_documents',
+  'edit_documents',
+  'edit_contracts',
+  'delete_documents',
+  'manage_tasks',
+  'manage_billing',
+  'manage_members',
+  'manage_retention',
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<OrganizationRole, readonly Permission[]> = {
+  funeral_director: PERMISSIONS,
+  arranger: [
+    'view_cases',
+    'view_cause_of_death',
+    'upload_transcripts',
+    'edit_arrangements',
+    'generate_documents',
+    'edit_documents',
+    'edit_contracts',
+    'manage_tasks',
+  ],
+  embalmer: ['view_cases', 'view_cause_of_death', 'manage_tasks'],
+  office_manager: [
+    'view_cases',
+    'generate_documents',
+    'edit_documents',
+    'delete_documents',
+    'manage_tasks',
+    'manage_billing',
+    'manage_members',
+    'manage_retention',
+  ],
+  read_only: ['view_cases'],
+};
+
+export function normalizeOrganizationRole(role: string): OrganizationRole {
+  if ((ORGANIZATION_ROLES as readonly string[]).includes(role)) {
+    return role as OrganizationRole;
+  }
+  // Anything unrecognised gets the least access
+  return 'read_only';
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[normalizeOrganizationRole(role)].includes(permission);
+}
+
+// Members can only hand out roles that do no more than their own, so nobody can raise their access
+export function canGrantRole(grantorRole: string | null | undefined, role: string): boolean {
+  return !!grantorRole && ROLE_PERMISSIONS[normalizeOrganizationRole(role)].every((permission) => hasPermission(grantorRole, permission));
+}
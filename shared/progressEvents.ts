@@ -0,0 +1,24 @@
+export type ProgressStage =
+  | 'extraction_started'
+  | 'speakers_identified'
+  | 'chunk_extracted'
+  | 'json_parsed'
+  | 'arrangement_saved'
+  | 'changes_proposed'
+  | 'extraction_failed'
+  | 'document_started'
+  | 'pdf_rendered'
+  | 'document_completed'
+  | 'document_failed'
+  | 'job_completed';
+
+export interface ProgressEvent {
+  stage: ProgressStage;
+  transcriptId?: number;
+  arrangementId?: number;
+  jobId?: number;
+  documentType?: string;
+  message?: string;
+  error?: string;
+  timestamp: string;
+}
@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, timestamp, varchar, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, varchar, boolean, json, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ORGANIZATION_ROLES } from "./permissions";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -13,6 +14,68 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   billingPeriodStart: timestamp("billing_period_start").defaultNow().notNull(),
+  totpSecret: varchar("totp_secret", { length: 64 }), // Set on enrollment, trusted once totpEnabledAt is set
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"), // The time step of the last accepted code, so it can't be replayed
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(), // Since the last successful sign-in
+  lockedUntil: timestamp("locked_until"),
+});
+
+// A funeral home. Cases belong to the home, so every director in it can work on them
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  requireTwoFactor: boolean("require_two_factor").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: varchar("role", { length: 50 }).default("arranger").notNull(), // See ORGANIZATION_ROLES in shared/permissions
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  organizationUser: unique().on(table.organizationId, table.userId),
+}));
+
+export const organizationInvites = pgTable("organization_invites", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  email: varchar("email", { length: 255 }).notNull(),
+  token: varchar("token", { length: 255 }).notNull().unique(),
+  invitedBy: integer("invited_by").notNull(),
+  role: varchar("role", { length: 50 }).default("arranger").notNull(), // Role given on acceptance
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One signed-in device. Only hashes of refresh tokens are kept; the previous one is remembered
+// so a stolen token that has already been rotated can be recognised when it comes back
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id").notNull(), // The organization the device is acting in
+  refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull().unique(),
+  previousRefreshTokenHash: varchar("previous_refresh_token_hash", { length: 64 }),
+  deviceName: varchar("device_name", { length: 255 }).notNull(), // e.g. "Safari on iPad"
+  userAgent: text("user_agent"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// One-time codes for signing in without the authenticator app; only their hashes are kept
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const transcripts = pgTable("transcripts", {
@@ -22,13 +85,38 @@ export const transcripts = pgTable("transcripts", {
   content: text("content").notNull(),
   fileSize: integer("file_size").notNull(),
   uploadDate: timestamp("upload_date").defaultNow().notNull(),
-  status: varchar("status", { length: 50 }).default("uploaded").notNull(),
+  status: varchar("status", { length: 50 }).default("uploaded").notNull(), // transcribing, transcription_failed, uploaded, processing, processed, error
+  processingError: text("processing_error"), // JSON: { kind, message, issues?, attempts?, at }
+  arrangementId: integer("arrangement_id"), // Set for follow-up conversations added to an existing case
+  organizationId: integer("organization_id"), // Null only for rows from before organizations, until migrated
+  audioPath: varchar("audio_path", { length: 500 }), // Uploaded recording kept on disk until it has been transcribed
+  speakerTurns: text("speaker_turns"), // JSON SpeakerTurn[], parsed from caption files, meeting exports and labelled documents
+  speakerRoles: text("speaker_roles"), // JSON SpeakerRoles: who each speaker is to the deceased, identified by AI or set by a director
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the uploaded file or pasted text, so bulk imports skip files already here
+  purgedAt: timestamp("purged_at"), // Set when retention removed the text; the row stays so the case keeps its history
+});
+
+// One bulk import of historical transcripts, from an uploaded ZIP or the watched folder
+export const transcriptImports = pgTable("transcript_imports", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  userId: integer("user_id").notNull(), // Who uploaded the ZIP, or the account the watched folder imports as
+  source: varchar("source", { length: 20 }).notNull(), // zip, watch_folder
+  name: varchar("name", { length: 255 }).notNull(), // The ZIP's filename, or the watched folder
+  autoProcess: boolean("auto_process").default(false).notNull(),
+  status: varchar("status", { length: 20 }).default("running").notNull(), // running, completed, failed
+  totalFiles: integer("total_files").default(0).notNull(),
+  results: text("results"), // JSON TranscriptImportFileResult[], filled in as each file is handled
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
 });
 
 export const arrangements = pgTable("arrangements", {
   id: serial("id").primaryKey(),
-  transcriptId: integer("transcript_id").notNull().unique(),
-  userId: integer("user_id").notNull(),
+  transcriptId: integer("transcript_id").notNull().unique(), // The conversation that opened the case
+  userId: integer("user_id").notNull(), // The director who opened the case
+  organizationId: integer("organization_id"), // Null only for rows from before organizations, until migrated
 
   // AI Extracted Data - Deceased Information
   deceasedName: varchar("deceased_name", { length: 255 }),
@@ -60,6 +148,18 @@ export const arrangements = pgTable("arrangements", {
   approvedAt: timestamp("approved_at"),
   aiProcessed: boolean("ai_processed").default(false).notNull(),
   extractedData: text("extracted_data"),
+  fieldSources: text("field_sources"), // JSON FieldSources: transcript passage behind each extracted value
+  fieldReviews: text("field_reviews"), // JSON FieldReviews: uncertain values a director must confirm
+  pendingReviewCount: integer("pending_review_count").default(0).notNull(),
+  mergeDecisions: text("merge_decisions"), // JSON MergeDecision[]: how parts of a long transcript were combined
+  fieldEdits: text("field_edits"), // JSON FieldEdits: values a director changed by hand
+
+  // Retention periods count from when the case was closed; a legal hold stops anything being purged
+  closedAt: timestamp("closed_at"),
+  legalHold: boolean("legal_hold").default(false).notNull(),
+  legalHoldReason: text("legal_hold_reason"),
+  legalHoldSetBy: integer("legal_hold_set_by"),
+  legalHoldSetAt: timestamp("legal_hold_set_at"),
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -101,6 +201,102 @@ export const funeralTasks = pgTable("funeral_tasks", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  arrangementId: integer("arrangement_id").notNull(),
+  type: varchar("type", { length: 50 }).notNull(), // approve_arrangement, regenerate_documents
+  status: varchar("status", { length: 20 }).default("queued").notNull(), // queued, running, completed, failed
+  enhanced: boolean("enhanced").default(false).notNull(), // use ImprovedPDFService for rendering
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const jobDocuments = pgTable("job_documents", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  documentType: varchar("document_type", { length: 50 }).notNull(),
+  status: varchar("status", { length: 20 }).default("queued").notNull(), // queued, running, completed, failed
+  attempts: integer("attempts").default(0).notNull(),
+  documentId: integer("document_id"),
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Changes a follow-up conversation would make to a case, accepted or rejected field by field
+export const arrangementDeltas = pgTable("arrangement_deltas", {
+  id: serial("id").primaryKey(),
+  arrangementId: integer("arrangement_id").notNull(),
+  transcriptId: integer("transcript_id").notNull(),
+  userId: integer("user_id").notNull(),
+  kind: varchar("kind", { length: 20 }).default("follow_up").notNull(), // follow_up, re_extraction
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, resolved, superseded
+  changes: text("changes").notNull(), // JSON FieldChange[]
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Append-only log of every change to a field of an arrangement's extracted data
+export const arrangementFieldChanges = pgTable("arrangement_field_changes", {
+  id: serial("id").primaryKey(),
+  arrangementId: integer("arrangement_id").notNull(),
+  path: varchar("path", { length: 255 }).notNull(), // e.g. "arrangement.basic_information.date_of_death"
+  oldValue: text("old_value"), // JSON, null when the field was first filled in
+  newValue: text("new_value"), // JSON
+  source: varchar("source", { length: 20 }).notNull(), // extraction, manual_edit, merge, revert
+  userId: integer("user_id").notNull(),
+  transcriptId: integer("transcript_id"), // The conversation behind an extraction or merge
+  revertOf: integer("revert_of"), // The change a revert undid
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// How long an organization keeps each kind of record after a case is closed
+export const retentionRules = pgTable("retention_rules", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  target: varchar("target", { length: 50 }).notNull(), // See RETENTION_TARGETS
+  retainDays: integer("retain_days").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  organizationTarget: unique().on(table.organizationId, table.target),
+}));
+
+// One run of the scheduled purge, with what it removed
+export const retentionPurgeRuns = pgTable("retention_purge_runs", {
+  id: serial("id").primaryKey(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // scheduled, manual
+  status: varchar("status", { length: 20 }).default("running").notNull(), // running, completed, failed
+  report: text("report"), // JSON RetentionPurgeReport
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Who touched which decedent or family record, and how. Rows are never updated or deleted
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  action: varchar("action", { length: 20 }).notNull(), // create, read, update, export, download, delete
+  resourceType: varchar("resource_type", { length: 20 }).notNull(), // transcript, arrangement, document
+  resourceId: integer("resource_id"), // Null for list and search reads
+  method: varchar("method", { length: 10 }).notNull(),
+  route: varchar("route", { length: 500 }).notNull(),
+  statusCode: integer("status_code").notNull(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const userUsageMetrics = pgTable("user_usage_metrics", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
@@ -128,6 +324,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   arrangements: many(arrangements),
   usageMetrics: many(userUsageMetrics),
   billingPeriods: many(userBillingPeriods),
+  memberships: many(organizationMembers),
 }));
 
 export const transcriptsRelations = relations(transcripts, ({ one }) => ({
@@ -135,6 +332,10 @@ export const transcriptsRelations = relations(transcripts, ({ one }) => ({
     fields: [transcripts.userId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [transcripts.organizationId],
+    references: [organizations.id],
+  }),
   arrangement: one(arrangements, {
     fields: [transcripts.id],
     references: [arrangements.transcriptId],
@@ -150,8 +351,62 @@ export const arrangementsRelations = relations(arrangements, ({ one, many }) =>
     fields: [arrangements.userId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [arrangements.organizationId],
+    references: [organizations.id],
+  }),
   documents: many(documents),
   tasks: many(funeralTasks),
+  jobs: many(jobs),
+  deltas: many(arrangementDeltas),
+  fieldChanges: many(arrangementFieldChanges),
+}));
+
+export const arrangementDeltasRelations = relations(arrangementDeltas, ({ one }) => ({
+  arrangement: one(arrangements, {
+    fields: [arrangementDeltas.arrangementId],
+    references: [arrangements.id],
+  }),
+  transcript: one(transcripts, {
+    fields: [arrangementDeltas.transcriptId],
+    references: [transcripts.id],
+  }),
+}));
+
+export const arrangementFieldChangesRelations = relations(arrangementFieldChanges, ({ one }) => ({
+  arrangement: one(arrangements, {
+    fields: [arrangementFieldChanges.arrangementId],
+    references: [arrangements.id],
+  }),
+  user: one(users, {
+    fields: [arrangementFieldChanges.userId],
+    references: [users.id],
+  }),
+}));
+
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  members: many(organizationMembers),
+  invites: many(organizationInvites),
+  transcripts: many(transcripts),
+  arrangements: many(arrangements),
+}));
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const organizationInvitesRelations = relations(organizationInvites, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationInvites.organizationId],
+    references: [organizations.id],
+  }),
 }));
 
 export const documentsRelations = relations(documents, ({ one }) => ({
@@ -168,6 +423,21 @@ export const funeralTasksRelations = relations(funeralTasks, ({ one }) => ({
   }),
 }));
 
+export const jobsRelations = relations(jobs, ({ one, many }) => ({
+  arrangement: one(arrangements, {
+    fields: [jobs.arrangementId],
+    references: [arrangements.id],
+  }),
+  documents: many(jobDocuments),
+}));
+
+export const jobDocumentsRelations = relations(jobDocuments, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobDocuments.jobId],
+    references: [jobs.id],
+  }),
+}));
+
 export const userUsageMetricsRelations = relations(userUsageMetrics, ({ one }) => ({
   user: one(users, {
     fields: [userUsageMetrics.userId],
@@ -187,11 +457,28 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  totpSecret: true,
+  totpEnabledAt: true,
+  totpLastUsedStep: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
 });
 
+// Files a transcript can be uploaded as: documents, captions and meeting exports
+export const TRANSCRIPT_FILE_EXTENSIONS = ['.txt', '.pdf', '.docx', '.rtf', '.vtt', '.srt', '.json'] as const;
+// Recordings, transcribed on the server before they can be processed
+export const AUDIO_FILE_EXTENSIONS = ['.m4a', '.mp3', '.wav'] as const;
+
+// Largest single upload: recordings are much larger than documents
+export const MAX_AUDIO_UPLOAD_BYTES = 200 * 1024 * 1024;
+export const MAX_DOCUMENT_UPLOAD_BYTES = 10 * 1024 * 1024;
+// Largest ZIP accepted by a bulk import
+export const MAX_IMPORT_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
 export const insertTranscriptSchema = createInsertSchema(transcripts).omit({
   id: true,
   uploadDate: true,
+  purgedAt: true,
 });
 
 export const insertArrangementSchema = createInsertSchema(arrangements).omit({
@@ -211,6 +498,55 @@ export const insertFuneralTaskSchema = createInsertSchema(funeralTasks).omit({
   createdAt: true,
 });
 
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJobDocumentSchema = createInsertSchema(jobDocuments).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertArrangementDeltaSchema = createInsertSchema(arrangementDeltas).omit({
+  id: true,
+  createdAt: true,
+  resolvedAt: true,
+});
+
+export const insertArrangementFieldChangeSchema = createInsertSchema(arrangementFieldChanges).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserSessionSchema = createInsertSchema(userSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrganizationInviteSchema = createInsertSchema(organizationInvites).omit({
+  id: true,
+  createdAt: true,
+  acceptedAt: true,
+});
+
 // Insert schemas for password resets
 export const insertPasswordResetSchema = createInsertSchema(passwordResets).omit({
   id: true,
@@ -233,10 +569,151 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1, "Organization name is required").max(255),
+});
+
+export const inviteMemberSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  role: z.enum(ORGANIZATION_ROLES).default("arranger"),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(ORGANIZATION_ROLES),
+});
+
+export const mergeOrganizationSchema = z.object({
+  into: z.number().int().positive(),
+});
+
+export const updateTaskSchema = z.object({
+  completed: z.boolean().optional(),
+  assignedTo: z.string().max(255).nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const resolveArrangementDeltaSchema = z.object({
+  decisions: z.record(z.enum(["accept", "reject"])),
+});
+
+export const confirmFieldReviewsSchema = z.object({
+  paths: z.array(z.string().min(1)).min(1, "Select at least one field to confirm"),
+});
+
+export const AUDIT_ACTIONS = ['create', 'read', 'update', 'export', 'download', 'delete'] as const;
+export const AUDIT_RESOURCE_TYPES = ['transcript', 'arrangement', 'document'] as const;
+
+export const auditEventFiltersSchema = z.object({
+  userId: z.coerce.number().int().optional(),
+  organizationId: z.coerce.number().int().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  resourceType: z.enum(AUDIT_RESOURCE_TYPES).optional(),
+  resourceId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Raw transcripts, or generated documents of one type
+export const RETENTION_TARGETS = ['transcripts', 'contract', 'summary', 'obituary', 'tasks', 'arranger_tasks', 'death_cert'] as const;
+
+export const RETENTION_TARGET_LABELS: Record<typeof RETENTION_TARGETS[number], string> = {
+  transcripts: 'Raw transcripts',
+  contract: 'Service contracts',
+  summary: 'Arrangement summaries',
+  obituary: 'Obituaries',
+  tasks: 'Funeral director task lists',
+  arranger_tasks: 'Family arranger to-do lists',
+  death_cert: 'Death certificate info',
+};
+
+export const updateRetentionRulesSchema = z.object({
+  rules: z.array(z.object({
+    target: z.enum(RETENTION_TARGETS),
+    retainDays: z.number().int().min(1, "Keep records for at least a day").max(36500),
+  })).refine(
+    (rules) => new Set(rules.map((rule) => rule.target)).size === rules.length,
+    "Each kind of record can only have one rule"
+  ),
+});
+
+export const TRANSCRIPT_IMPORT_FILE_STATUS_LABELS: Record<TranscriptImportFileResult['status'], string> = {
+  imported: 'Imported',
+  duplicate: 'Already imported',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+export const legalHoldSchema = z.object({
+  legalHold: z.boolean(),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// Who a speaker is, relative to the deceased; the informant is flagged separately since they are usually family too
+export const SPEAKER_ROLES = ['funeral_director', 'spouse', 'child', 'parent', 'sibling', 'grandchild', 'other_family', 'friend', 'clergy', 'other'] as const;
+export type SpeakerRole = typeof SPEAKER_ROLES[number];
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  funeral_director: 'Funeral director',
+  spouse: 'Spouse or partner',
+  child: 'Child',
+  parent: 'Parent',
+  sibling: 'Sibling',
+  grandchild: 'Grandchild',
+  other_family: 'Other family',
+  friend: 'Friend',
+  clergy: 'Clergy',
+  other: 'Other',
+};
+
+export const speakerRoleSchema = z.object({
+  role: z.enum(SPEAKER_ROLES),
+  informant: z.boolean(),
+});
+
+export const updateSpeakerRolesSchema = z.object({
+  roles: z.record(z.string().min(1), speakerRoleSchema),
+});
+
+export type SpeakerRoleLabel = z.infer<typeof speakerRoleSchema> & {
+  // Labels a director set are kept when the transcript is processed again
+  source: 'ai' | 'director';
+};
+export type SpeakerRoles = Record<string, SpeakerRoleLabel>;
+
+export const refreshSessionSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(32),
+});
+
+export const verifyTwoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, "Sign-in challenge is required"),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const organizationSecuritySchema = z.object({
+  requireTwoFactor: z.boolean(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Transcript = typeof transcripts.$inferSelect;
+export type TranscriptImport = typeof transcriptImports.$inferSelect;
+export type TranscriptImportFileResult = {
+  filename: string; // Path inside the ZIP, or the file's name in the watched folder
+  status: 'imported' | 'duplicate' | 'failed' | 'skipped';
+  message?: string;
+  transcriptId?: number; // The new transcript, or for a duplicate the one already holding this file
+  // Only with automatic processing
+  processing?: 'processed' | 'failed' | 'awaiting_transcription';
+  processingError?: string;
+};
 export type InsertTranscript = z.infer<typeof insertTranscriptSchema>;
 export type Arrangement = typeof arrangements.$inferSelect;
 export type InsertArrangement = z.infer<typeof insertArrangementSchema>;
@@ -244,6 +721,77 @@ export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type FuneralTask = typeof funeralTasks.$inferSelect;
 export type InsertFuneralTask = z.infer<typeof insertFuneralTaskSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobDocument = typeof jobDocuments.$inferSelect;
+export type InsertJobDocument = z.infer<typeof insertJobDocumentSchema>;
+export type JobWithDocuments = Job & { documents: JobDocument[] };
+export type ArrangementDelta = typeof arrangementDeltas.$inferSelect;
+export type InsertArrangementDelta = z.infer<typeof insertArrangementDeltaSchema>;
+export type ArrangementFieldChange = typeof arrangementFieldChanges.$inferSelect;
+export type InsertArrangementFieldChange = z.infer<typeof insertArrangementFieldChangeSchema>;
+export type FieldHistoryEntry = ArrangementFieldChange & { userName: string | null };
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type OrganizationInvite = typeof organizationInvites.$inferSelect;
+export type InsertOrganizationInvite = z.infer<typeof insertOrganizationInviteSchema>;
+export type OrganizationMembership = { id: number; name: string; role: string };
+export type OrganizationMemberDetails = { userId: number; name: string; email: string; role: string; joinedAt: Date; twoFactorEnabled: boolean };
+export type PendingInviteSummary = { id: number; email: string; role: string; expiresAt: Date; createdAt: Date };
+export type OrganizationDetails = Organization & {
+  role: string;
+  members: OrganizationMemberDetails[];
+  invites: PendingInviteSummary[];
+};
+export type InvitePreview = { organizationName: string; email: string; status: 'pending' | 'accepted' | 'expired' };
+export type ReviewQueueItem = {
+  arrangementId: number;
+  transcriptId: number;
+  filename: string;
+  deceasedName: string | null;
+  pendingReviewCount: number;
+  updatedAt: Date;
+};
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditResourceType = typeof AUDIT_RESOURCE_TYPES[number];
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEventFilters = z.infer<typeof auditEventFiltersSchema>;
+export type AuditEventEntry = AuditEvent & { userName: string | null; userEmail: string | null; organizationName: string | null };
+export type AuditEventPage = { events: AuditEventEntry[]; total: number };
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type SessionSummary = {
+  id: number;
+  deviceName: string;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+};
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type RetentionTarget = typeof RETENTION_TARGETS[number];
+export type RetentionRule = typeof retentionRules.$inferSelect;
+export type RetentionPurgeRun = typeof retentionPurgeRuns.$inferSelect;
+export type RetentionPurgeReport = {
+  organizations: Array<{
+    organizationId: number;
+    organizationName: string;
+    transcriptsPurged: number;
+    recordingsDeleted: number; // Audio files still waiting for, or failed at, transcription
+    documentsDeleted: Partial<Record<RetentionTarget, number>>;
+    casesOnHold: number; // Cases that were due but skipped because of a legal hold
+  }>;
+};
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  requiredByOrganization: boolean;
+};
+export type TwoFactorEnrollment = { secret: string; otpauthUrl: string; qrCodeDataUrl: string };
 export type PasswordReset = typeof passwordResets.$inferSelect;
 export type InsertPasswordReset = z.infer<typeof insertPasswordResetSchema>;
 export type UserUsageMetric = typeof userUsageMetrics.$inferSelect;
@@ -0,0 +1,63 @@
+import { SPEAKER_ROLE_LABELS, type SpeakerRoleLabel, type SpeakerRoles } from "./schema";
+
+// One person's uninterrupted stretch of a conversation. Times are seconds from the start of the
+// recording, and are null for transcripts that don't carry them (documents, pasted text).
+export interface SpeakerTurn {
+  speaker: string | null;
+  start: number | null;
+  end: number | null;
+  text: string;
+}
+
+export function parseSpeakerTurns(json: string | null | undefined): SpeakerTurn[] | null {
+  if (!json) return null;
+  try {
+    const turns = JSON.parse(json);
+    return Array.isArray(turns) && turns.length > 0 ? turns : null;
+  } catch {
+    return null;
+  }
+}
+
+// "Director: ..." paragraphs, so extraction can tell who said what
+export function formatSpeakerTurns(turns: SpeakerTurn[]): string {
+  return turns.map((turn) => (turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text)).join('\n\n');
+}
+
+/**
+ * The text extraction reads and source passages point into: speaker turns when the transcript
+ * has them, otherwise the content as uploaded.
+ */
+export function transcriptText(transcript: { content: string; speakerTurns?: string | null }): string {
+  const turns = parseSpeakerTurns(transcript.speakerTurns);
+  return turns ? formatSpeakerTurns(turns) : transcript.content;
+}
+
+export function parseSpeakerRoles(json: string | null | undefined): SpeakerRoles {
+  if (!json) return {};
+  try {
+    const roles = JSON.parse(json);
+    return roles && typeof roles === 'object' && !Array.isArray(roles) ? roles : {};
+  } catch {
+    return {};
+  }
+}
+
+// "Child, informant"
+export function describeSpeakerRole(label: SpeakerRoleLabel): string {
+  const role = SPEAKER_ROLE_LABELS[label.role] ?? SPEAKER_ROLE_LABELS.other;
+  return label.informant ? `${role}, informant` : role;
+}
+
+// Speakers in the order they first speak
+export function listSpeakers(turns: SpeakerTurn[]): string[] {
+  return Array.from(new Set(turns.map((turn) => turn.speaker).filter((speaker): speaker is string => !!speaker)));
+}
+
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}